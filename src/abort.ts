@@ -0,0 +1,101 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * abort.ts: Browser-safe abort-signal registration shared between the server-side `util.ts` surface and the browser-shipped `featureOptions.ts` model.
+ */
+
+/**
+ * **Why this file exists.** `featureOptions.ts` ships into `dist/ui/` for the browser to load, and ends its watchers' subscriptions through {@link onAbort}. Pulling
+ * `onAbort` from `util.ts` would drag in `util.ts`'s `node:timers/promises` import, which the browser cannot resolve, so the helper lives here instead. Like
+ * `formatters.ts`, this module has zero runtime imports, and `util.ts` re-exports it so server-side consumers see the same public API they always did.
+ *
+ * @module
+ */
+
+// Shared no-op `Disposable` returned by {@link onAbort} on the pre-aborted branch (where no listener was registered and there is nothing to remove). Hoisted to
+// module scope so every pre-aborted call reuses one instance instead of allocating a fresh object + arrow pair. Safe to share because the disposer is stateless,
+// repeatable, and side-effect free: `[Symbol.dispose]()` can be invoked any number of times from any call site without interference.
+const NO_OP_DISPOSABLE: Disposable = { [Symbol.dispose]: (): void => { /* No listener was registered on the pre-aborted path - nothing to remove. */ } };
+
+/**
+ * Register a one-shot abort handler on `signal` and return a {@link Disposable} whose `[Symbol.dispose]` removes the listener. If `signal` is already aborted at
+ * call time, `handler` runs inline and the returned handle is a no-op disposer.
+ *
+ * Closes the well-known pitfall in `AbortSignal.addEventListener("abort", ...)`: listeners attached to an already-aborted signal **do not fire**, so constructors
+ * that take a parent signal and attach teardown logic via `addEventListener` silently skip that teardown when the parent is pre-aborted. This helper unifies the
+ * register-or-dispatch-immediately shape so every caller handles both cases without re-implementing the check.
+ *
+ * Returning a `Disposable` serves more than one usage pattern through one primitive:
+ *
+ * - **Long-lived resource-class registrations** (the common case): every HBPU resource class registers its `#teardown` handler in its constructor, intending the
+ *   listener to live until the composed signal aborts. These callers discard the return value; the `{ once: true }` listener auto-unregisters on fire.
+ * - **Scope-bound transient registrations**: observers that only need the listener for a bounded scope (e.g., {@link util!waitWithSignal | waitWithSignal})
+ *   capture the handle with `using` so the listener is deterministically removed on scope exit even when the promise resolves before the signal aborts. This
+ *   prevents listener accumulation on long-lived signals that see many short waits.
+ *
+ * The handler runs at most once: on normal abort, via the `{ once: true }` option on `addEventListener`; on pre-aborted signals, via a direct call here. The caller
+ * still decides what to do with the rest of its setup - a constructor that wants to short-circuit further initialization after a pre-aborted signal typically pairs
+ * this call with a subsequent `if(signal.aborted) return;` check.
+ *
+ * @param signal  - The abort signal to observe.
+ * @param handler - The teardown or cleanup action to run once on abort. Invoked synchronously when `signal.aborted` is already `true` at call time; otherwise
+ *                  attached as a one-shot `"abort"` listener.
+ *
+ * @returns A {@link Disposable} handle. `[Symbol.dispose]` removes the abort listener (no-op on the pre-aborted path and after the listener has already fired).
+ *
+ * @example
+ *
+ * ```ts
+ * // Long-lived resource-class registration: discard the returned disposer. The listener lives until the composed signal aborts and `{ once: true }` cleans it up.
+ * constructor(init: { signal?: AbortSignal }) {
+ *
+ *   this.signal = composeSignals(init.signal, this.#controller.signal);
+ *
+ *   onAbort(this.signal, () => this.#teardown());
+ *
+ *   if(this.signal.aborted) {
+ *
+ *     return;
+ *   }
+ *
+ *   // ...proceed with setup that only makes sense on a live signal.
+ * }
+ * ```
+ *
+ * @example
+ *
+ * ```ts
+ * // Scope-bound transient registration: capture the handle with `using` so the listener auto-removes when the scope exits, even if the signal never aborts.
+ * async function abortableWait<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+ *
+ *   using _registration = onAbort(signal, () => {
+ *     // Abort-driven action goes here.
+ *   });
+ *
+ *   // `return await promise` (not a bare `return promise`) is required inside an async function. `using` disposes when the enclosing function body finishes
+ *   // executing, and without an `await` the body finishes synchronously at the `return` statement - even though the returned promise is still pending. The
+ *   // listener would therefore be removed the instant the function returned, well before the promise settles. Adding `await` creates a suspension point that
+ *   // keeps the `using` scope alive until the promise actually settles, which is what the "scope-bound registration" pattern relies on.
+ *   return await promise;
+ * }
+ * ```
+ *
+ * @category Utilities
+ */
+export function onAbort(signal: AbortSignal, handler: () => void): Disposable {
+
+  if(signal.aborted) {
+
+    handler();
+
+    // Pre-aborted path never registered a listener, so there is nothing to remove. Return the module-scope {@link NO_OP_DISPOSABLE} singleton so the caller's `using`
+    // declaration compiles cleanly and explicit `[Symbol.dispose]()` invocations remain a safe no-op, without allocating a fresh object + arrow pair per call.
+    return NO_OP_DISPOSABLE;
+  }
+
+  signal.addEventListener("abort", handler, { once: true });
+
+  // The returned handle lets scope-bound observers remove themselves deterministically when the scope exits, preventing listener accumulation on long-lived signals
+  // that serve many short-lived waits. `removeEventListener` does nothing - calling it after the listener has already fired (and been auto-removed by `{ once: true }`)
+  // is a safe no-op.
+  return { [Symbol.dispose]: (): void => signal.removeEventListener("abort", handler) };
+}
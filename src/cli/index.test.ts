@@ -2,16 +2,18 @@
  *
  * cli/index.test.ts: Unit tests for the CLI module, covering the pure {@link prepareUi} transform (content-hashed mirror semantics, manifest shape, stale-build
  * cleanup, preservation of non-version entries, source-side validation), the pure {@link prepareDocs} transform (catalog validation, scope-hook forwarding,
- * atomic-write marker splicing), the pure {@link prepareChrome} transform (multi-region stamping across the README, docs, and webUI, external project-source
- * resolution, and all-or-nothing writes), the {@link runCli} dispatcher (argument routing, exit codes, usage banner), and the entry-point execution invoked through
- * a symlink (the real bin invocation path that a direct-path test never exercises). Every surface runs against an AsyncDisposable tmpdir scratch root; only
- * the entry-point test forgoes the in-process `captureStderr()` helper, instead spawning the CLI as a real subprocess and reading its stderr pipe directly.
- * No test touches a real install or modifies the working tree.
+ * atomic-write marker splicing), the pure {@link prepareSchema} transform (merging the rendered validation into a hand-written schema), the pure
+ * {@link prepareChrome} transform (multi-region stamping across the README, docs, and webUI, external project-source resolution, and all-or-nothing writes), the
+ * {@link runCli} dispatcher (argument routing, exit codes, usage banner), and the entry-point execution invoked through a symlink (the real bin invocation path that
+ * a direct-path test never exercises). Every surface runs against an AsyncDisposable tmpdir scratch root; only the entry-point test forgoes the in-process
+ * `captureStderr()` helper, instead spawning the CLI as a real subprocess and reading its stderr pipe directly. No test touches a real install or modifies the
+ * working tree.
  */
 import * as docChrome from "../docChrome.ts";
 import * as webuiLoader from "../webui-loader.ts";
-import { FEATURE_OPTIONS_DOC_BEGIN, FEATURE_OPTIONS_DOC_END, renderFeatureOptionsReference, spliceMarkedRegion } from "../featureOptions-docs.ts";
-import { USAGE, prepareChrome, prepareDocs, prepareUi, runCli } from "./index.ts";
+import { FEATURE_OPTIONS_DOC_BEGIN, FEATURE_OPTIONS_DOC_END, renderFeatureOptionsReference, renderFeatureOptionsSchema,
+  spliceMarkedRegion } from "../featureOptions-docs.ts";
+import { USAGE, prepareChrome, prepareDocs, prepareSchema, prepareUi, runCli } from "./index.ts";
 import { cp, mkdir, mkdtemp, readFile, readdir, rm, symlink, writeFile } from "node:fs/promises";
 import { describe, test } from "node:test";
 import { dirname, join } from "node:path";
@@ -79,7 +81,7 @@ async function writeLoaderDist(root: string): Promise<void> {
 
   await mkdir(join(root, "dist"), { recursive: true });
   await writeFile(join(root, "dist", "webui-loader.js"), "export * from " + JSON.stringify(pathToFileURL(realLoader).href) + ";\n");
-  await writeFile(join(root, "dist", "featureOptions-docs.js"), "export { renderFeatureOptionsReference, spliceMarkedRegion } from " +
+  await writeFile(join(root, "dist", "featureOptions-docs.js"), "export { renderFeatureOptionsReference, renderFeatureOptionsSchema, spliceMarkedRegion } from " +
     JSON.stringify(pathToFileURL(realDocs).href) + ";\n");
 }
 
@@ -733,6 +735,90 @@ describe("prepareDocs", () => {
   });
 });
 
+/**
+ * Write a synthetic `config.schema.json` into a scratch root and return its absolute path. The default carries a hand-written title and description on the `options`
+ * property and a sibling property beside it, so each assertion can confirm the merge refreshes only the validation keywords the catalog owns.
+ *
+ * @param args
+ * @param args.root   - The scratch directory the schema file is written into.
+ * @param args.schema - The `schema` member of the file. Defaults to an object schema declaring `name` and a hand-titled `options` array.
+ *
+ * @returns The absolute path to the written schema.
+ */
+async function writeSchema({ root, schema }: { root: string; schema?: unknown }): Promise<string> {
+
+  const schemaPath = join(root, "config.schema.json");
+
+  await writeFile(schemaPath, JSON.stringify({ pluginAlias: "Example", schema: schema ?? { properties: {
+
+    name: { default: "Example", type: "string" },
+    options: { description: "Feature options.", items: { type: "string" }, title: "Options", type: "array" }
+  }, type: "object" } }));
+
+  return schemaPath;
+}
+
+describe("prepareSchema", () => {
+
+  test("merges the rendered validation into the options property, repeatably, leaving the rest of the file intact", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const catalogModulePath = await writeCatalog({ root: scratch.path });
+    const schemaPath = await writeSchema({ root: scratch.path });
+
+    await prepareSchema({ catalogModulePath, render: renderFeatureOptionsSchema, schemaPath });
+
+    const first = await readFile(schemaPath, "utf8");
+    const file = JSON.parse(first) as { pluginAlias: string; schema: { properties: { name: unknown; options: Record<string, unknown> } } };
+
+    assert.equal(file.pluginAlias, "Example");
+    assert.deepEqual(file.schema.properties.name, { default: "Example", type: "string" });
+    assert.equal(file.schema.properties.options["title"], "Options", "a hand-written title survives the merge");
+    assert.equal(file.schema.properties.options["description"], "Feature options.");
+    assert.deepEqual((file.schema.properties.options["items"] as { examples: string[] }).examples, [ "Disable.Audio", "Disable.Nvr.Recording.Retention" ]);
+    assert.ok(first.endsWith("}\n"), "the schema is rewritten newline-terminated");
+
+    // A second pass against the unchanged catalog is a no-op, the property a plugin's build relies on to stay diff-free.
+    await prepareSchema({ catalogModulePath, render: renderFeatureOptionsSchema, schemaPath });
+
+    assert.equal(await readFile(schemaPath, "utf8"), first);
+  });
+
+  test("throws naming the file when the schema does not declare an options property", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const catalogModulePath = await writeCatalog({ root: scratch.path });
+    const schemaPath = await writeSchema({ root: scratch.path, schema: { properties: { name: { type: "string" } }, type: "object" } });
+
+    await assert.rejects(prepareSchema({ catalogModulePath, render: renderFeatureOptionsSchema, schemaPath }),
+      /config\.schema\.json does not declare an `options` property under `schema\.properties`/);
+  });
+
+  test("frames a schema that is not valid JSON with a source-naming diagnostic", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const catalogModulePath = await writeCatalog({ root: scratch.path });
+    const schemaPath = join(scratch.path, "config.schema.json");
+
+    await writeFile(schemaPath, "{ \"schema\": ");
+
+    await assert.rejects(prepareSchema({ catalogModulePath, render: renderFeatureOptionsSchema, schemaPath }), /config\.schema\.json is not valid JSON/);
+  });
+
+  test("validates the catalog module's exports as prepareDocs does", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const catalogModulePath = await writeCatalog({ body: "export const featureOptions = {};\n", root: scratch.path });
+    const schemaPath = await writeSchema({ root: scratch.path });
+
+    await assert.rejects(prepareSchema({ catalogModulePath, render: renderFeatureOptionsSchema, schemaPath }), /does not export a `featureOptionCategories` array/);
+  });
+});
+
 describe("runCli", () => {
 
   test("with no arguments writes the usage banner and exits 0", async () => {
@@ -921,6 +1007,52 @@ describe("runCli", () => {
     assert.match(capture.chunks(), /homebridge-plugin-utils prepare-docs: /, "the prepareDocs failure must be framed under the subcommand prefix");
     assert.match(capture.chunks(), /begin marker not found/, "the propagated splice error must be surfaced verbatim");
   });
+
+  test("prepare-schema without a catalog-module argument writes a misuse message and exits 1", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const capture = captureStderr();
+    const code = await runCli({ argv: ["prepare-schema"], cwd: scratch.path, sourceRoot: scratch.path, stderr: capture.stderr });
+
+    assert.equal(code, 1);
+    assert.match(capture.chunks(), /prepare-schema: missing required catalog-module argument/);
+  });
+
+  test("prepare-schema frames a not-built HBPU when the renderer module is absent from sourceRoot", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const capture = captureStderr();
+    const code = await runCli({ argv: [ "prepare-schema", "dist/options.js" ], cwd: scratch.path, sourceRoot: scratch.path, stderr: capture.stderr });
+
+    assert.equal(code, 1);
+    assert.match(capture.chunks(), /prepare-schema: HBPU has not been built/);
+  });
+
+  test("prepare-schema regenerates the default config.schema.json, honors --schema, and surfaces prepareSchema errors as exit 1", async () => {
+
+    await using scratch = await makeScratchRoot();
+
+    const sourceRoot = join(scratch.path, "source");
+    const cwd = join(scratch.path, "plugin");
+
+    // The re-export supplies the real schema renderer, the same self-contained sourceRoot the prepare-docs dispatch tests build.
+    await writeLoaderDist(sourceRoot);
+    await mkdir(join(cwd, "dist"), { recursive: true });
+    await writeFile(join(cwd, "dist", "options.js"), VALID_CATALOG_BODY);
+    await writeSchema({ root: cwd });
+
+    const capture = captureStderr();
+
+    assert.equal(await runCli({ argv: [ "prepare-schema", "dist/options.js" ], cwd, sourceRoot, stderr: capture.stderr }), 0);
+    assert.equal(capture.chunks(), "", "successful dispatch must not write to stderr");
+    assert.match(await readFile(join(cwd, "config.schema.json"), "utf8"), /"uniqueItems": true/);
+
+    // A --schema path that does not exist is resolved against cwd, and the read failure surfaces under the subcommand prefix.
+    assert.equal(await runCli({ argv: [ "prepare-schema", "dist/options.js", "--schema", "missing.json" ], cwd, sourceRoot, stderr: capture.stderr }), 1);
+    assert.match(capture.chunks(), /homebridge-plugin-utils prepare-schema: .*missing\.json/);
+  });
 });
 
 // A minimal but complete doc-chrome manifest covering both DocEntry kinds the stamper handles: a README-anchor entry, a doc entry that receives a masthead, and a doc
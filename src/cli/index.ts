@@ -6,7 +6,8 @@
 
 /**
  * The homebridge-plugin-utils CLI, exposed to consumers via the `bin` field in `package.json`. A single cohesive module: the content-hash helper, the `prepareUi`,
- * `prepareDocs`, and `prepareChrome` transforms, the `runCli` dispatcher, and the entry-point execution all live here with no inter-file relative VALUE imports.
+ * `prepareDocs`, `prepareSchema`, and `prepareChrome` transforms, the `runCli` dispatcher, and the entry-point execution all live here with no inter-file relative
+ * VALUE imports.
  *
  * That single-file shape is deliberate, not incidental. A bin is invoked through an `npm`-managed symlink in `node_modules/.bin`; if the entry imported a sibling
  * module by relative path AT LOAD TIME, that import would resolve against the symlink's directory under symlink-preserving or copied-package layouts and fail. With
@@ -15,9 +16,9 @@
  * so it carries the SSOT types without reintroducing a load-time relative dependency; when `prepareDocs` actually needs the renderer it reaches it through a computed
  * dynamic import the dispatch site supplies, the same indirection the `hblog` bin uses.
  *
- * The module is simultaneously the executable (run via the bin) and a side-effect-free library surface (`prepareUi` / `prepareDocs` / `prepareChrome` / `runCli` /
- * `USAGE`) that the test suite imports. The entry block at the bottom only executes when this module is the program entry point, detected by comparing canonicalized
- * real paths - see its comment for why a raw path comparison is insufficient.
+ * The module is simultaneously the executable (run via the bin) and a side-effect-free library surface (`prepareUi` / `prepareDocs` / `prepareSchema` /
+ * `prepareChrome` / `runCli` / `USAGE`) that the test suite imports. The entry block at the bottom only executes when this module is the program entry point, detected
+ * by comparing canonicalized real paths - see its comment for why a raw path comparison is insufficient.
  *
  * @module
  */
@@ -26,7 +27,7 @@ import { basename, dirname, join, relative, resolve, sep } from "node:path";
 import { cp, mkdir, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
 import { fileURLToPath, pathToFileURL } from "node:url";
 import type { parseWebUiLoaderConfig, renderWebUiBootRegion } from "../webui-loader.ts";
-import type { renderFeatureOptionsReference, spliceMarkedRegion } from "../featureOptions-docs.ts";
+import type { renderFeatureOptionsReference, renderFeatureOptionsSchema, spliceMarkedRegion } from "../featureOptions-docs.ts";
 import { createHash } from "node:crypto";
 import { parseArgs } from "node:util";
 import { realpathSync } from "node:fs";
@@ -51,6 +52,7 @@ const HASH_LENGTH = 16;
 export const USAGE = "Usage: homebridge-plugin-utils <command> [options]\n\n" +
   "Commands:\n  prepare-ui <destination>    Mirror HBPU's webUI into the plugin's lib directory.\n" +
   "  prepare-docs <catalog-module> [--doc <path>]    Generate the Feature Options reference into the plugin's docs.\n" +
+  "  prepare-schema <catalog-module> [--schema <path>]    Generate the validation for the options array into the plugin's config.schema.json.\n" +
   "  prepare-chrome <manifest> [--root <dir>]    Stamp the doc-chrome regions (masthead, nav, badges, projects) across the plugin's docs, README, and webUI.\n";
 
 /**
@@ -288,6 +290,37 @@ async function stampWebUiLoader({ absDest, loader, packageName, splice }: {
   }
 }
 
+// The namespace of a plugin's catalog module: the two required catalog exports, validated by loadCatalog, plus the OPTIONAL scope hooks, each `unknown` until its
+// consumer validates it - the same honest-until-checked shape the catalog arrays carry, so nothing reaches a renderer as a mis-typed value.
+interface CatalogModule {
+
+  describeCategoryScope?: unknown;
+  describeOptionScope?: unknown;
+  featureOptionCategories: unknown[];
+  featureOptions: object;
+}
+
+// Load a plugin's catalog module by dynamic import and validate its required exports. A bare absolute filesystem path is not a portable ESM specifier (Windows drive
+// letters in particular are mis-parsed), so we convert it to a `file:` URL first - the same indirection the `hblog` bin uses to reach its sibling library from a
+// single-file launcher. The exports are validated before anything renders so a mis-built or wrong-module path fails with a diagnostic that names what is wrong and
+// where, rather than surfacing as an opaque type error deep inside a renderer's traversal. Shared by every subcommand that projects the catalog.
+async function loadCatalog(catalogModulePath: string): Promise<CatalogModule> {
+
+  const catalog = await import(pathToFileURL(catalogModulePath).href) as Partial<Record<keyof CatalogModule, unknown>>;
+
+  if(!Array.isArray(catalog.featureOptionCategories)) {
+
+    throw new Error("Catalog module " + catalogModulePath + " does not export a `featureOptionCategories` array.");
+  }
+
+  if((typeof catalog.featureOptions !== "object") || (catalog.featureOptions === null)) {
+
+    throw new Error("Catalog module " + catalogModulePath + " does not export a `featureOptions` object.");
+  }
+
+  return catalog as CatalogModule;
+}
+
 /**
  * Regenerate a plugin's Feature Options reference by projecting its live catalog through HBPU's shared renderer and splicing the result into the plugin's doc, in
  * place between the shared `FEATURE OPTIONS:BEGIN` / `END` markers. This centralizes the read/splice/atomic-write orchestration so a plugin's `build-docs` script
@@ -328,28 +361,7 @@ export async function prepareDocs({ catalogModulePath, docPath, render, splice }
   splice: typeof spliceMarkedRegion;
 }): Promise<void> {
 
-  // Load the catalog by dynamic import. A bare absolute filesystem path is not a portable ESM specifier (Windows drive letters in particular are mis-parsed), so we
-  // convert it to a `file:` URL first - the same indirection the `hblog` bin uses to reach its sibling library from a single-file launcher. The namespace is typed with
-  // the required catalog exports plus the OPTIONAL scope hooks, each `unknown` until validated below - the same honest-until-checked shape the catalog arrays
-  // carry, so nothing reaches the renderer as a mis-typed value.
-  const catalog = await import(pathToFileURL(catalogModulePath).href) as {
-    describeCategoryScope?: unknown;
-    describeOptionScope?: unknown;
-    featureOptionCategories?: unknown;
-    featureOptions?: unknown;
-  };
-
-  // Validate the catalog's required exports before rendering so a mis-built or wrong-module path fails with a diagnostic that names what is wrong and where,
-  // rather than surfacing as an opaque type error deep inside the renderer's traversal.
-  if(!Array.isArray(catalog.featureOptionCategories)) {
-
-    throw new Error("Catalog module " + catalogModulePath + " does not export a `featureOptionCategories` array.");
-  }
-
-  if((typeof catalog.featureOptions !== "object") || (catalog.featureOptions === null)) {
-
-    throw new Error("Catalog module " + catalogModulePath + " does not export a `featureOptions` object.");
-  }
+  const catalog = await loadCatalog(catalogModulePath);
 
   // Validate every OPTIONAL scope hook independently. Each is present-but-must-be-a-function or absent: a present non-function is a mis-shaped catalog and fails
   // with a diagnostic naming the module and the offending export (the same framing the required exports use), while an absent hook stays `undefined` and is inert -
@@ -384,6 +396,53 @@ export async function prepareDocs({ catalogModulePath, docPath, render, splice }
   await rename(docPath + ".tmp", docPath);
 }
 
+/**
+ * Regenerate the validation a plugin's `config.schema.json` declares for its `options` array by projecting its live catalog through HBPU's shared schema renderer.
+ * This is the schema counterpart to {@link prepareDocs}: the catalog is loaded and validated the same way, and the rendered fragment lands in the file the same
+ * atomic way, so a plugin's build can regenerate its reference and its schema from one catalog with two one-line subcommands.
+ *
+ * The fragment is merged into the existing `schema.properties.options` property rather than replacing it, so the `title`, `description`, and any layout hints the
+ * plugin wrote by hand survive while the validation keywords the catalog owns are refreshed. The property must already exist: it is the schema's equivalent of the
+ * doc markers, the plugin's declaration of where the generated content belongs, and a schema that does not declare it is rejected rather than guessed at. Everything
+ * else in the file is carried through untouched, and the file is rewritten in the two-space, newline-terminated form Config UI X itself writes.
+ *
+ * @param args
+ * @param args.catalogModulePath - Absolute path to the plugin's compiled catalog module exporting `featureOptionCategories` (an array) and `featureOptions` (an
+ *                                 object). Resolved to a `file:` URL before the dynamic import.
+ * @param args.render            - The injected {@link renderFeatureOptionsSchema} from `featureOptions-docs.ts`.
+ * @param args.schemaPath        - Absolute path to the plugin's `config.schema.json`.
+ *
+ * @throws When the catalog module lacks `featureOptionCategories` (or it is not an array) or `featureOptions` (or it is not a non-null object), when the schema file
+ *         is not valid JSON, and when it does not declare an object at `schema.properties.options`.
+ */
+export async function prepareSchema({ catalogModulePath, render, schemaPath }: {
+
+  catalogModulePath: string;
+  render: typeof renderFeatureOptionsSchema;
+  schemaPath: string;
+}): Promise<void> {
+
+  const catalog = await loadCatalog(catalogModulePath);
+  const fragment = render({ categories: catalog.featureOptionCategories as Parameters<typeof render>[0]["categories"],
+    options: catalog.featureOptions as Parameters<typeof render>[0]["options"] });
+
+  // Walk down to the options property, treating anything that is not a plain object along the way as the property being absent.
+  const file = parseJsonFramed(await readFile(schemaPath, "utf8"), "Schema " + schemaPath);
+  const isObject = (value: unknown): value is Record<string, unknown> => (typeof value === "object") && (value !== null) && !Array.isArray(value);
+  const properties = (isObject(file) && isObject(file["schema"])) ? file["schema"]["properties"] : undefined;
+
+  if(!isObject(properties) || !isObject(properties["options"])) {
+
+    throw new Error("Schema " + schemaPath + " does not declare an `options` property under `schema.properties`.");
+  }
+
+  properties["options"] = { ...properties["options"], ...fragment };
+
+  // Atomic write: stage in a sibling temp file, then rename over the schema.
+  await writeFile(schemaPath + ".tmp", JSON.stringify(file, null, 2) + "\n", "utf8");
+  await rename(schemaPath + ".tmp", schemaPath);
+}
+
 // The diagnostic thrown when the manifest's `projects` field is neither an inline array nor a { file } / { url } reference. Named so the two guard clauses in
 // resolveProjects share one message rather than duplicating the string.
 const PROJECTS_SOURCE_ERROR = "The manifest `projects` field must be an array, a { file } reference, or a { url } reference.";
@@ -692,7 +751,8 @@ export async function runCli({ argv, cwd, sourceRoot, stderr }: {
   // parseArgs runs in strict mode, so an unrecognized flag (e.g. a typo'd `--docs`) throws `ERR_PARSE_ARGS_UNKNOWN_OPTION` here rather than falling through to the
   // usage banner. That throw is intentionally uncaught - the per-case try/catch blocks below wrap only the subcommand work - so it surfaces as a rejected `runCli`
   // promise at the entry point, distinct from the default case's banner handling for an unknown positional command.
-  const { positionals, values } = parseArgs({ allowPositionals: true, args: [...argv], options: { doc: { type: "string" }, root: { type: "string" } }, strict: true });
+  const { positionals, values } = parseArgs({ allowPositionals: true, args: [...argv], options: { doc: { type: "string" }, root: { type: "string" },
+    schema: { type: "string" } }, strict: true });
   const [ command, ...rest ] = positionals;
 
   switch(command) {
@@ -788,6 +848,49 @@ export async function runCli({ argv, cwd, sourceRoot, stderr }: {
       return 0;
     }
 
+    case "prepare-schema": {
+
+      const [catalogArg] = rest;
+
+      if(!catalogArg) {
+
+        stderr.write("homebridge-plugin-utils prepare-schema: missing required catalog-module argument.\n");
+
+        return 1;
+      }
+
+      // The schema defaults to the `config.schema.json` at the plugin root, where Homebridge looks for it, and is overridable through `--schema`.
+      const catalogModulePath = resolve(cwd, catalogArg);
+      const schemaPath = resolve(cwd, values.schema ?? "config.schema.json");
+
+      // The schema renderer lives beside the reference renderer, reached through the same computed dynamic import and framed the same way when HBPU is unbuilt.
+      const rendererPath = join(sourceRoot, "dist", "featureOptions-docs.js");
+
+      let renderer: { renderFeatureOptionsSchema: typeof renderFeatureOptionsSchema };
+
+      try {
+
+        renderer = await import(pathToFileURL(rendererPath).href) as typeof renderer;
+      } catch {
+
+        stderr.write("homebridge-plugin-utils prepare-schema: HBPU has not been built: " + rendererPath + " is missing. Run `npm run build` in HBPU first.\n");
+
+        return 1;
+      }
+
+      try {
+
+        await prepareSchema({ catalogModulePath, render: renderer.renderFeatureOptionsSchema, schemaPath });
+      } catch(error) {
+
+        stderr.write("homebridge-plugin-utils prepare-schema: " + (error instanceof Error ? error.message : String(error)) + "\n");
+
+        return 1;
+      }
+
+      return 0;
+    }
+
     case "prepare-chrome": {
 
       const [manifestArg] = rest;
@@ -879,7 +982,7 @@ function isEntryPoint(): boolean {
 }
 
 // Execute the CLI when this module is the program entry point. When imported by the test suite instead, `isEntryPoint()` is false and the module exposes
-// `prepareUi` / `prepareDocs` / `prepareChrome` / `runCli` / `USAGE` as a side-effect-free library surface.
+// `prepareUi` / `prepareDocs` / `prepareSchema` / `prepareChrome` / `runCli` / `USAGE` as a side-effect-free library surface.
 if(isEntryPoint()) {
 
   // Resolve HBPU's package root from this file's real location. The compiled CLI sits at `dist/cli/index.js`; walking two segments up from its real directory
@@ -1,15 +1,17 @@
 /* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
  *
- * featureOptions-docs.test.ts: Unit tests for the shared Feature Options documentation renderer - the catalog-to-markdown projection (renderFeatureOptionsReference)
- * and the in-place marker splice (spliceMarkedRegion).
+ * featureOptions-docs.test.ts: Unit tests for the shared Feature Options documentation renderer - the catalog-to-reference projection (renderFeatureOptionsReference),
+ * the catalog-to-JSON Schema projection (renderFeatureOptionsSchema), the configuration diff report (renderFeatureOptionsDiff), and the in-place marker splice
+ * (spliceMarkedRegion).
  *
  * Coverage focuses on the contract that is hard to see from the code alone: the index/detail structure, the per-row deep-link anchors, the value/toggle distinction
  * signaled by the "=<value>" placeholder, the raw (never formatted) default cell with its empty-string -> "none" substitution proven non-mutating, the two scope
  * hooks (string inserted, `undefined` omitted cleanly), the category-level bare-key option, and the splice's happy path, repeatability, prose preservation, and
  * malformed-marker throws. The canonical worked example is reproduced verbatim as the contract test.
  */
-import { FEATURE_OPTIONS_DOC_BEGIN, FEATURE_OPTIONS_DOC_END, renderFeatureOptionsReference, spliceMarkedRegion } from "./featureOptions-docs.ts";
-import type { FeatureCategoryEntry, FeatureOptionEntry } from "./featureOptions.ts";
+import { FEATURE_OPTIONS_DOC_BEGIN, FEATURE_OPTIONS_DOC_END, renderFeatureOptionsDiff, renderFeatureOptionsReference, renderFeatureOptionsSchema,
+  spliceMarkedRegion } from "./featureOptions-docs.ts";
+import type { FeatureCategoryEntry, FeatureOptionDiff, FeatureOptionEntry } from "./featureOptions.ts";
 import { describe, test } from "node:test";
 import assert from "node:assert/strict";
 
@@ -196,6 +198,28 @@ describe("renderFeatureOptionsReference - default cell and value/toggle distinct
   });
 });
 
+describe("renderFeatureOptionsReference - restart note", () => {
+
+  test("notes an option that takes effect at startup, ahead of any scope suffix, and leaves every other option alone", () => {
+
+    const categories: FeatureCategoryEntry[] = [{ description: "Configuration", name: "Cfg" }];
+    const options: Record<string, FeatureOptionEntry[]> = {
+
+      Cfg: [
+
+        { apply: "restart", default: false, defaultValue: "homebridge", description: "MQTT topic.", name: "Topic" },
+        { apply: "live", default: true, description: "Live toggle.", name: "Live" },
+        { default: true, description: "Undeclared toggle.", name: "Plain" }
+      ]
+    };
+    const output = renderFeatureOptionsReference({ categories, describeOptionScope: (): string => " <BR>*A note.*", options });
+
+    assert.ok(output.includes("MQTT topic. **(default: homebridge)**. *Takes effect after a Homebridge restart.* <BR>*A note.*"));
+    assert.ok(output.includes("Live toggle. **(default: enabled)**. <BR>*A note.*"));
+    assert.ok(output.includes("Undeclared toggle. **(default: enabled)**. <BR>*A note.*"));
+  });
+});
+
 describe("renderFeatureOptionsReference - category-level option", () => {
 
   test("renders the bare category key for an option with an empty name", () => {
@@ -276,6 +300,30 @@ describe("renderFeatureOptionsReference - cell escaping", () => {
   });
 });
 
+describe("renderFeatureOptionsReference - locale", () => {
+
+  const translations = { de: { categories: { Nvr: "Aufnahme" }, options: { "Audio": "Audiounterstützung.", "Nvr.Recording.Retention": "Aufbewahrung in Tagen." } } };
+
+  test("describes the catalog in the locale's translation, its hooks included, and in English for anything untranslated", () => {
+
+    const seen: string[] = [];
+    const output = renderFeatureOptionsReference({ categories: WORKED_CATEGORIES, describeOptionScope: (option) => void seen.push(option.description), locale: "de-CH",
+      options: WORKED_OPTIONS, translations });
+
+    assert.ok(output.includes(" * [Nvr](#nvr): Aufnahme"));
+    assert.ok(output.includes("#### <A NAME=\"nvr\"></A>Aufnahme"));
+    assert.ok(output.includes("| Audiounterstützung. **(default: enabled)**."));
+    assert.ok(output.includes("| Two-way audio. **(default: disabled)**."));
+    assert.ok(output.includes("| Aufbewahrung in Tagen. **(default: 10)**."));
+    assert.deepEqual(seen, [ "Audiounterstützung.", "Two-way audio.", "Aufbewahrung in Tagen." ]);
+  });
+
+  test("renders the declared catalog for a locale with no translation", () => {
+
+    assert.equal(renderFeatureOptionsReference({ categories: WORKED_CATEGORIES, locale: "ja", options: WORKED_OPTIONS, translations }), WORKED_OUTPUT);
+  });
+});
+
 describe("renderFeatureOptionsReference - conditional legend", () => {
 
   test("emits the value-notation legend exactly once when the catalog has a value option", () => {
@@ -429,6 +477,326 @@ describe("renderFeatureOptionsReference - meta channel", () => {
   });
 });
 
+describe("renderFeatureOptionsReference - documentation extras", () => {
+
+  const categories: FeatureCategoryEntry[] = [{ description: "Audio", name: "Audio" }];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    Audio: [
+
+      {
+
+        apply: "restart", default: false, defaultValue: 50, deprecated: { notice: "Volume moves to the mixer.", replacement: "audio.mixer" },
+        description: "Audio volume level.", examples: [ { value: 80 }, { id: "ABC123", value: 20 } ],
+        links: [{ title: "Audio | guide", url: "https://example.com/audio" }], name: "Volume", since: "2.4.0"
+      },
+      { default: true, description: "Audio mixer.", examples: [{ enabled: false }], name: "Mixer" }
+    ]
+  };
+
+  test("leads with the deprecation, linking the replacement's row, and follows the default with the version, the examples as entries, and the links", () => {
+
+    const output = renderFeatureOptionsReference({ categories, describeOptionScope: (): string => " <BR>Every device.", options });
+
+    assert.ok(output.includes("| **Deprecated:** Volume moves to the mixer. Use [`Audio.Mixer`](#Audio.Mixer) instead. Audio volume level. **(default: 50)**. " +
+      "*Takes effect after a Homebridge restart.* Since 2.4.0. Examples: `Enable.Audio.Volume=80`, `Enable.Audio.Volume.ABC123=20`. " +
+      "See [Audio \\| guide](https://example.com/audio). <BR>Every device."));
+    assert.ok(output.includes("| Audio mixer. **(default: enabled)**. Example: `Disable.Audio.Mixer`. <BR>Every device."));
+  });
+
+  test("carries the same extras into every other format", () => {
+
+    const reference = JSON.parse(renderFeatureOptionsReference({ categories, format: "json", options })) as { categories: { options: unknown[] }[] };
+    const html = renderFeatureOptionsReference({ categories, format: "html", options });
+    const text = renderFeatureOptionsReference({ categories, format: "text", options });
+
+    assert.deepEqual(reference.categories[0]?.options[0], {
+
+      default: false,
+      defaultValue: "50",
+      deprecated: { notice: "Volume moves to the mixer.", replacement: "Audio.Mixer" },
+      description: "Audio volume level.",
+      examples: [ "Enable.Audio.Volume=80", "Enable.Audio.Volume.ABC123=20" ],
+      key: "Audio.Volume",
+      links: [{ title: "Audio | guide", url: "https://example.com/audio" }],
+      requiresRestart: true,
+      since: "2.4.0"
+    });
+    assert.ok(html.includes("<td><strong>Deprecated:</strong> Volume moves to the mixer. Use <a href=\"#Audio.Mixer\"><code>Audio.Mixer</code></a> instead. " +
+      "Audio volume level. <strong>(default: 50)</strong>. <em>Takes effect after a Homebridge restart.</em> Since 2.4.0. Examples: " +
+      "<code>Enable.Audio.Volume=80</code>, <code>Enable.Audio.Volume.ABC123=20</code>. See <a href=\"https://example.com/audio\">Audio | guide</a>.</td>"));
+    assert.ok(text.replace(/\s+/g, " ").includes("Audio.Volume=<value> Deprecated: Volume moves to the mixer. Use Audio.Mixer instead. Audio volume level. " +
+      "(default: 50). Takes effect after a Homebridge restart. Since 2.4.0. Examples: Enable.Audio.Volume=80, Enable.Audio.Volume.ABC123=20. See Audio | guide " +
+      "(https://example.com/audio)."));
+  });
+
+  test("notes the device capabilities an option requires, in every format", () => {
+
+    const capable = { Audio: [{ default: true, description: "Chime on ring.", name: "Chime", requires: [ "hasAudio", "isDoorbell" ] }] } as Record<string,
+      FeatureOptionEntry[]>;
+    const reference = JSON.parse(renderFeatureOptionsReference({ categories, format: "json", options: capable })) as { categories: { options: unknown[] }[] };
+
+    assert.ok(renderFeatureOptionsReference({ categories, options: capable }).includes("| Chime on ring. **(default: enabled)**. Requires: `hasAudio`, `isDoorbell`."));
+    assert.ok(renderFeatureOptionsReference({ categories, format: "html", options: capable }).includes("Requires: <code>hasAudio</code>, <code>isDoorbell</code>."));
+    assert.ok(renderFeatureOptionsReference({ categories, format: "text", options: capable }).replace(/\s+/g, " ").includes("Requires: hasAudio, isDoorbell."));
+    assert.deepEqual(reference.categories[0]?.options[0], { default: true, description: "Chime on ring.", key: "Audio.Chime", requires: [ "hasAudio", "isDoorbell" ],
+      requiresRestart: false });
+  });
+});
+
+describe("renderFeatureOptionsReference - other formats", () => {
+
+  // A catalog exercising everything a format has to carry: a bare category key, a value option with a restart note and a default needing escaping, and both hooks.
+  const categories: FeatureCategoryEntry[] = [ { description: "Audio & Sound", name: "Audio" }, { description: "Recording", name: "Nvr" } ];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    ...WORKED_OPTIONS,
+    Nvr: [
+
+      { default: true, defaultValue: 10, description: "Days of recordings to retain.", name: "Recording.Retention" },
+      { apply: "restart", default: false, defaultValue: "<none>", description: "Where recordings are kept on the controller's own storage.", name: "Recording.Path" }
+    ]
+  };
+  const hooks = {
+
+    describeCategoryScope: (category: FeatureCategoryEntry): string | undefined => (category.name === "Nvr") ? "Supported by <B>NVRs</B>." : undefined,
+    describeOptionScope: (option: FeatureOptionEntry): string | undefined => option.name ? undefined : " <BR>Every device."
+  };
+
+  test("serializes the projection every format is written from as JSON", () => {
+
+    const output = renderFeatureOptionsReference({ categories, format: "json", options, ...hooks });
+
+    assert.ok(output.endsWith("}\n"));
+    assert.deepEqual(JSON.parse(output), { categories: [
+
+      {
+
+        anchor: "audio",
+        description: "Audio & Sound",
+        name: "Audio",
+        options: [
+
+          { default: true, description: "Audio support.", key: "Audio", requiresRestart: false, scope: " <BR>Every device." },
+          { default: false, description: "Two-way audio.", key: "Audio.TwoWay", requiresRestart: false }
+        ]
+      },
+      {
+
+        anchor: "nvr",
+        description: "Recording",
+        name: "Nvr",
+        options: [
+
+          { default: true, defaultValue: "10", description: "Days of recordings to retain.", key: "Nvr.Recording.Retention", requiresRestart: false },
+          { default: false, defaultValue: "<none>", description: "Where recordings are kept on the controller's own storage.", key: "Nvr.Recording.Path",
+            requiresRestart: true }
+        ],
+        scope: "Supported by <B>NVRs</B>."
+      }
+    ] });
+  });
+
+  test("writes a standalone HTML page whose anchors match the markdown's, escaping catalog text and passing hook markup through", () => {
+
+    const output = renderFeatureOptionsReference({ categories, format: "html", locale: "de", options, ...hooks });
+    const markdown = renderFeatureOptionsReference({ categories, options, ...hooks });
+
+    assert.equal(output, [
+
+      "<!DOCTYPE html>",
+      "<html lang=\"de\">",
+      "<head>",
+      "  <meta charset=\"utf-8\">",
+      "  <title>Feature Options</title>",
+      "</head>",
+      "<body>",
+      "  <ul>",
+      "    <li><a href=\"#audio\">Audio</a>: Audio &amp; Sound</li>",
+      "    <li><a href=\"#nvr\">Nvr</a>: Recording</li>",
+      "  </ul>",
+      "  <p>Options whose key ends in <code>=&lt;value&gt;</code> take a value - replace <code>=&lt;value&gt;</code> with your setting; all other options are simple " +
+        "on/off toggles. The default shown for each option is what applies when you leave it unset.</p>",
+      "  <h4 id=\"audio\">Audio &amp; Sound</h4>",
+      "  <table>",
+      "    <thead>",
+      "      <tr><th>Option</th><th>Description</th></tr>",
+      "    </thead>",
+      "    <tbody>",
+      "      <tr id=\"Audio\"><td><code>Audio</code></td><td>Audio support. <strong>(default: enabled)</strong>. <BR>Every device.</td></tr>",
+      "      <tr id=\"Audio.TwoWay\"><td><code>Audio.TwoWay</code></td><td>Two-way audio. <strong>(default: disabled)</strong>.</td></tr>",
+      "    </tbody>",
+      "  </table>",
+      "  <h4 id=\"nvr\">Recording</h4>",
+      "  <p>Supported by <B>NVRs</B>.</p>",
+      "  <table>",
+      "    <thead>",
+      "      <tr><th>Option</th><th>Description</th></tr>",
+      "    </thead>",
+      "    <tbody>",
+      "      <tr id=\"Nvr.Recording.Retention\"><td><code>Nvr.Recording.Retention=&lt;value&gt;</code></td><td>Days of recordings to retain. " +
+        "<strong>(default: 10)</strong>.</td></tr>",
+      "      <tr id=\"Nvr.Recording.Path\"><td><code>Nvr.Recording.Path=&lt;value&gt;</code></td><td>Where recordings are kept on the controller's own storage. " +
+        "<strong>(default: &lt;none&gt;)</strong>. <em>Takes effect after a Homebridge restart.</em></td></tr>",
+      "    </tbody>",
+      "  </table>",
+      "</body>",
+      "</html>",
+      ""
+    ].join("\n"));
+
+    for(const anchor of [ "audio", "nvr", "Audio", "Audio.TwoWay", "Nvr.Recording.Retention", "Nvr.Recording.Path" ]) {
+
+      assert.ok(markdown.includes("<A NAME=\"" + anchor + "\"></A>"), "the markdown carries the anchor " + anchor);
+    }
+  });
+
+  test("writes a man-page style text table, wrapping descriptions in their column, with no legend for a toggle-only catalog", () => {
+
+    assert.equal(renderFeatureOptionsReference({ categories, format: "text", options, ...hooks }), [
+
+      "Options whose key ends in =<value> take a value - replace =<value> with your",
+      "setting; all other options are simple on/off toggles. The default shown for each",
+      "option is what applies when you leave it unset.",
+      "",
+      "Audio & Sound",
+      "    Audio           Audio support. (default: enabled). <BR>Every device.",
+      "    Audio.TwoWay    Two-way audio. (default: disabled).",
+      "",
+      "Recording",
+      "    Supported by <B>NVRs</B>.",
+      "",
+      "    Nvr.Recording.Retention=<value>    Days of recordings to retain. (default:",
+      "                                       10).",
+      "    Nvr.Recording.Path=<value>         Where recordings are kept on the",
+      "                                       controller's own storage. (default:",
+      "                                       <none>). Takes effect after a Homebridge",
+      "                                       restart.",
+      ""
+    ].join("\n"));
+
+    assert.ok(renderFeatureOptionsReference({ categories, format: "text", options: { Audio: options["Audio"] ?? [] } }).startsWith("Audio & Sound\n    Audio  "));
+  });
+});
+
+describe("renderFeatureOptionsSchema", () => {
+
+  // A catalog exercising every narrowing the pattern makes: a global-only value option, a device-only toggle, an enum value option, and an unconstrained one. No
+  // option name is a prefix of another, since "Enable.Motion.Zone" would otherwise be a valid entry addressing a category-level Motion option at device "Zone".
+  const categories: FeatureCategoryEntry[] = [ { description: "Motion", name: "Motion" }, { description: "Video", name: "Video" } ];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    Motion: [
+
+      { default: true, description: "Motion detection.", name: "Detect" },
+      { default: false, description: "Motion zones.", name: "Zone", scopes: ["device"] }
+    ],
+    Video: [
+
+      { default: false, defaultValue: 30, description: "Frame rate.", name: "Fps", scopes: ["global"] },
+      { default: true, defaultValue: "high", description: "Quality.", name: "Quality", valueType: { type: "enum", values: [ "low", "high" ] } }
+    ]
+  };
+
+  const schema = renderFeatureOptionsSchema({ categories, options });
+  const accepts = (entry: string): boolean => new RegExp(schema.items.pattern).test(entry);
+
+  test("describes an array of unique strings, with one example per option stating its departure from the default", () => {
+
+    assert.equal(schema.type, "array");
+    assert.equal(schema.uniqueItems, true);
+    assert.equal(schema.items.type, "string");
+    assert.deepEqual(schema.items.examples, [ "Disable.Motion.Detect", "Enable.Motion.Zone.<ID>", "Enable.Video.Fps=30", "Disable.Video.Quality" ]);
+    assert.ok(schema.items.examples.every(accepts), "every example is itself a valid entry");
+  });
+
+  test("enumerates both actions on every option that can be configured globally, each an entry the pattern accepts", () => {
+
+    const [ names, rest ] = schema.items.anyOf;
+
+    assert.deepEqual(names.enum, [ "Enable.Motion.Detect", "Disable.Motion.Detect", "Enable.Video.Fps", "Disable.Video.Fps", "Enable.Video.Quality",
+      "Disable.Video.Quality" ], "a device-only option has no entry without an id to enumerate");
+    assert.deepEqual(rest, { type: "string" }, "an entry carrying an id or a value is left to the pattern");
+    assert.ok(names.enum.every(accepts));
+  });
+
+  test("accepts the canonical grammar over the catalog's own option names, without regard to case", () => {
+
+    assert.ok(accepts("Enable.Motion.Detect"));
+    assert.ok(accepts("disable.motion.detect.ABC123"));
+    assert.ok(accepts("ENABLE.VIDEO.QUALITY.ABC123=Low"));
+    assert.ok(accepts("Enable.Video.Fps=24"));
+    assert.ok(accepts("Enable.Video.Fps"), "a value option may be enabled at its default value");
+    assert.equal(accepts("Enable.Motion.Sensitivity"), false, "an option the catalog does not declare is rejected");
+    assert.equal(accepts("Toggle.Motion.Detect"), false);
+    assert.equal(accepts("Enable.Motion.Detect=5"), false, "a boolean option takes no value");
+    assert.equal(accepts("Disable.Video.Fps=24"), false, "a disable carries no value");
+  });
+
+  test("narrows the scope id and the value where the catalog declares them", () => {
+
+    assert.equal(accepts("Enable.Motion.Zone"), false, "a device-only option requires an id");
+    assert.ok(accepts("Enable.Motion.Zone.ABC123"));
+    assert.equal(accepts("Enable.Video.Fps.ABC123=24"), false, "a global-only option accepts no id");
+    assert.equal(accepts("Enable.Video.Quality=ultra"), false, "an enum value option accepts only its declared members");
+    assert.equal(accepts("Enable.Video.Quality.ABC123.low"), false, "the legacy dot form of a value is not accepted");
+  });
+
+  test("escapes option names so a regular expression metacharacter matches only itself", () => {
+
+    const literal = renderFeatureOptionsSchema({ categories: [{ description: "Plus", name: "A+B" }],
+      options: { "A+B": [{ default: true, description: "A literal plus.", name: "" }] } });
+    const pattern = new RegExp(literal.items.pattern);
+
+    assert.ok(pattern.test("Disable.A+B"));
+    assert.equal(pattern.test("Disable.AAB"), false);
+  });
+});
+
+describe("renderFeatureOptionsDiff", () => {
+
+  const changes: FeatureOptionDiff[] = [
+
+    { after: { enabled: true, id: "ABC123", value: "80" }, change: "added", option: "Audio.Volume", requiresRestart: false },
+    { after: { enabled: true, value: "high" }, before: { enabled: true, value: "low" }, change: "changed", option: "Motion.Sensitivity", requiresRestart: false },
+    { after: { enabled: false, id: "ABC123" }, before: { enabled: false }, change: "moved", option: "Motion.Detect", requiresRestart: true },
+    { before: { enabled: false, id: "ABC123" }, change: "removed", option: "Doorbell.Chime", requiresRestart: false }
+  ];
+
+  test("renders one markdown item per change, with the restart note where it applies", () => {
+
+    assert.equal(renderFeatureOptionsDiff({ changes }), [
+
+      "- **Added** `Audio.Volume` at `ABC123`: enabled with `80`.",
+      "- **Changed** `Motion.Sensitivity` globally: enabled with `high`, was enabled with `low`.",
+      "- **Moved** `Motion.Detect` from the global scope to `ABC123`: disabled. *Takes effect after a Homebridge restart.*",
+      "- **Removed** `Doorbell.Chime` at `ABC123`: was disabled."
+    ].join("\n"));
+  });
+
+  test("renders an HTML list, escaping the ids and values the user typed", () => {
+
+    const html = renderFeatureOptionsDiff({ changes: [{ after: { enabled: true, id: "<A&B>", value: "\"x\"" }, change: "added", option: "Audio.Volume",
+      requiresRestart: true }], format: "html" });
+
+    assert.equal(html, [
+
+      "<ul>",
+      "  <li><strong>Added</strong> <code>Audio.Volume</code> at <code>&lt;A&amp;B&gt;</code>: enabled with <code>&quot;x&quot;</code>. " +
+        "<em>Takes effect after a Homebridge restart.</em></li>",
+      "</ul>"
+    ].join("\n"));
+  });
+
+  test("widens a markdown code span around a backtick, and renders nothing for no changes", () => {
+
+    assert.equal(renderFeatureOptionsDiff({ changes: [{ after: { enabled: true, value: "a`b" }, change: "added", option: "Audio.Volume", requiresRestart: false }] }),
+      "- **Added** `Audio.Volume` globally: enabled with `` a`b ``.");
+    assert.equal(renderFeatureOptionsDiff({ changes: [] }), "");
+    assert.equal(renderFeatureOptionsDiff({ changes: [], format: "html" }), "");
+  });
+});
+
 describe("spliceMarkedRegion - replacement", () => {
 
   // A canonical marked document: hand-written prose around a marked region holding stale generated content.
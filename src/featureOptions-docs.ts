@@ -1,6 +1,6 @@
 /* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
  *
- * featureOptions-docs.ts: Pure, isomorphic renderer that projects a feature-options catalog into the markdown reference each plugin ships in its docs.
+ * featureOptions-docs.ts: Pure, isomorphic renderer that projects a feature-options catalog into the reference each plugin ships in its docs.
  */
 
 /**
@@ -11,24 +11,32 @@
  * construction and the value-vs-toggle distinction that this library already owns as single-source-of-truth helpers. This module collapses all of that into one
  * elegant renderer so the documentation becomes a pure projection of the live catalog.
  *
- * The module exports two pure string functions:
+ * The module exports four pure functions:
  *
  *   - {@link renderFeatureOptionsReference} - the projection itself. It derives every key via {@link expandOption}, decides value-ness via {@link isValueOption}, and
  *     builds the catalog index once via {@link buildCatalogIndex}; it never re-derives any of those. Plugin-private scope prose is supplied through two optional render
  *     hooks that mirror the webUI's field-blind `validOption` / `validOptionCategory` predicate boundary, lifted from *filter* (boolean) to *describe* (string). No
- *     plugin-specific field name appears anywhere in this file.
+ *     plugin-specific field name appears anywhere in this file. The same projection is written as markdown, a standalone HTML page, a plain-text table for a
+ *     terminal, or structured JSON for a docs site.
+ *
+ *   - {@link renderFeatureOptionsSchema} - the same projection into the JSON Schema fragment Config UI X and editors validate a plugin's `options` array against,
+ *     so the `config.schema.json` a plugin ships stops restating its catalog by hand.
+ *
+ *   - {@link renderFeatureOptionsDiff} - the changes {@link featureOptions!diffConfiguredOptions | diffConfiguredOptions} reports between two configured-options
+ *     arrays, as a markdown or HTML list for a log line, a changelog, or release notes.
  *
  *   - {@link spliceMarkedRegion} - the in-place splice that replaces the region between {@link FEATURE_OPTIONS_DOC_BEGIN} / {@link FEATURE_OPTIONS_DOC_END} in an
  *     existing doc with freshly rendered content, leaving each plugin's hand-written header and intro untouched.
  *
- * Both functions are pure and isomorphic: no `node:` imports, no `fs`, no `process`. The only I/O - reading the doc and writing it back - is two lines of
+ * All four are pure and isomorphic: no `node:` imports, no `fs`, no `process`. The only I/O - reading the doc and writing it back - is two lines of
  * `node:fs/promises` in each plugin's build-script shim, which is inherently a tooling concern. This module is therefore browser-safe and trivially testable, but it
  * is a tooling concern and is deliberately NOT mirrored into `dist/ui/` by the build pipeline.
  *
  * @module
  */
-import type { FeatureCategoryEntry, FeatureOptionEntry } from "./featureOptions.ts";
-import { buildCatalogIndex, expandOption, isValueOption } from "./featureOptions.ts";
+import type { FeatureCatalogTranslation, FeatureCategoryEntry, FeatureOptionDeprecation, FeatureOptionDiff, FeatureOptionDiffSetting, FeatureOptionEntry,
+  FeatureOptionLink, FeatureOptionScope } from "./featureOptions.ts";
+import { buildCatalogIndex, composeOptionExample, expandOption, hasValueContent, isValueOption, localizeCatalog, requiresRestart } from "./featureOptions.ts";
 
 /**
  * The opening marker of the auto-generated region in a plugin's `docs/FeatureOptions.md`. {@link spliceMarkedRegion} replaces everything strictly between this marker
@@ -55,6 +63,19 @@ const DESCRIPTION_DIVIDER_WIDTH = 61;
 // cosmetic alignment, matching the canonical rendering the family converges on.
 const OPTION_COLUMN_PADDING = 1;
 
+// The note appended to the description of an option that only takes effect at startup, so a reader learns from the reference itself that saving the option is not
+// the last step. The markdown and HTML notes set it in italics.
+const RESTART_TEXT = "Takes effect after a Homebridge restart.";
+const RESTART_NOTE = " *" + RESTART_TEXT + "*";
+const RESTART_NOTE_HTML = " <em>" + RESTART_TEXT + "</em>";
+
+// The plain-text reference's layout, in columns: the width it wraps to, the indent of everything under a category heading, the gap between the key column and the
+// description, and the narrowest the description column gets when a long key pushes it past the width.
+const TEXT_WIDTH = 80;
+const TEXT_INDENT = 4;
+const TEXT_GUTTER = 4;
+const TEXT_MIN_DESCRIPTION_WIDTH = 30;
+
 // The substitution shown in the default cell for a value option whose declared default is the empty string. We render "none" rather than an empty cell so the table
 // communicates "this option defaults to no value" explicitly. The substitution happens at render time only; the catalog entry is never mutated.
 const EMPTY_DEFAULT_LABEL = "none";
@@ -70,126 +91,284 @@ function escapeCellText(text: string): string {
 }
 
 /**
- * Render a feature-options catalog into the markdown reference fragment a plugin embeds in its `docs/FeatureOptions.md`. The output is a category index (one bullet per
- * category, deep-linking to its detail section), an optional one-line legend explaining the `=<value>` notation, and then one detail section per category, each carrying
- * an optional device-scope line and a flat table of option rows. The legend is emitted only when the catalog has at least one value option, since a toggle-only catalog
- * never renders the `=<value>` placeholder the legend describes.
+ * The output {@link renderFeatureOptionsReference} writes: `"markdown"` for the fragment a plugin splices into its `docs/FeatureOptions.md`, `"html"` for a standalone
+ * page, `"json"` for a {@link FeatureOptionsReference} a docs site lays out itself, and `"text"` for a man-page style table a command-line tool prints.
  *
- * The renderer owns all base-shaped scaffolding - the index, headings, per-row deep-link anchors, the key cell with its value/toggle placeholder, the default cell, the
- * description cell, and the column math - purely from the base {@link FeatureOptionEntry} / {@link FeatureCategoryEntry} fields. The two optional hooks own *only* the
- * plugin-private scope prose: `describeCategoryScope` contributes the device-scope sentence under a category heading, and `describeOptionScope` contributes a suffix
- * appended to an option's description cell. A hook returning `undefined` omits its contribution cleanly - never an "undefined" literal, never a stray blank line.
+ * @category Feature Options
+ */
+export type FeatureOptionsReferenceFormat = "html" | "json" | "markdown" | "text";
+
+/**
+ * One option in a {@link FeatureOptionsReference}. Its key doubles as the anchor the markdown and HTML references give its row.
  *
- * The catalog index is built once via {@link buildCatalogIndex}; value-ness is decided via {@link isValueOption}; the canonical dotted key is derived via
- * {@link expandOption}. None of those is re-derived here - the renderer is a projection of the same single source of truth the rest of the module owns.
+ * @property default         - The option's declared default state.
+ * @property defaultValue    - Present exactly when the option takes a value: its raw declared default, in the form a user would type it. The empty string when it
+ *                             declares none.
+ * @property deprecated      - Optional. The option's deprecation notice, with the replacement spelled as the catalog declares it.
+ * @property description     - The option's description, in the requested locale when the catalog translates it.
+ * @property examples        - Optional. The option's usage examples, each composed into the configured-options entry it stands for.
+ * @property key             - The option's canonical dotted key, case preserved.
+ * @property links           - Optional. The option's links to further documentation.
+ * @property requires        - Optional. The device capabilities the option requires, as the catalog names them.
+ * @property requiresRestart - True when the option declares `apply: "restart"`.
+ * @property scope           - Optional. What `describeOptionScope` returned for the option, verbatim.
+ * @property since           - Optional. The plugin version the option was introduced in.
  *
- * @typeParam TOptionMeta   - The concrete type of an option entry's opaque `meta` annotation, reconstituted at this boundary so `describeOptionScope` sees it typed.
- * @typeParam TCategoryMeta - The concrete type of a category entry's opaque `meta` annotation, reconstituted so `describeCategoryScope` sees it typed.
- * @param input
- * @param input.categories            - The catalog's category list, in the order the index and detail sections should follow.
- * @param input.describeCategoryScope - Optional. Returns the device-scope sentence emitted under a category's heading, or `undefined` to omit it. The hook owns the full
- *                                      sentence including any leading or trailing text.
- * @param input.describeOptionScope   - Optional. Returns a suffix appended to an option's description cell, or `undefined` to omit it. The hook owns its full text
- *                                      including any leading separator.
- * @param input.options               - The catalog's options map keyed by category name.
+ * @category Feature Options
+ */
+export interface FeatureOptionsReferenceOption {
+
+  default: boolean;
+  defaultValue?: string;
+  deprecated?: FeatureOptionDeprecation;
+  description: string;
+  examples?: string[];
+  key: string;
+  links?: FeatureOptionLink[];
+  requires?: string[];
+  requiresRestart: boolean;
+  scope?: string;
+  since?: string;
+}
+
+/**
+ * One category in a {@link FeatureOptionsReference}.
  *
- * @returns The rendered markdown fragment.
+ * @property anchor      - The anchor the markdown and HTML references give the category's heading: its name, lowercased.
+ * @property description - The category's description, in the requested locale when the catalog translates it.
+ * @property name        - The category's name.
+ * @property options     - The category's options, in catalog order.
+ * @property scope       - Optional. What `describeCategoryScope` returned for the category, verbatim.
+ *
+ * @category Feature Options
  */
-export function renderFeatureOptionsReference<TOptionMeta = unknown, TCategoryMeta = unknown>(input: {
+export interface FeatureOptionsReferenceCategory {
+
+  anchor: string;
+  description: string;
+  name: string;
+  options: FeatureOptionsReferenceOption[];
+  scope?: string;
+}
+
+/**
+ * The structured reference {@link renderFeatureOptionsReference} serializes for the `"json"` format, and the one projection every other format is written from.
+ *
+ * @property categories - The catalog's categories, in catalog order, skipping any with no entry in the options map.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionsReference {
+
+  categories: FeatureOptionsReferenceCategory[];
+}
+
+// Project a catalog into the structured reference every format is written from. The catalog is localized before anything reads a description, so the hooks see the
+// localized entries too, and the index is built once: value-ness, the restart flag, and the dotted key all route back through it rather than being re-derived. A
+// category with no options entry is skipped, the same rule the index builder applies, so the projection and the index cannot disagree. A hook returning `undefined`
+// leaves its field absent.
+function projectReference<TOptionMeta, TCategoryMeta>(input: {
   categories: readonly FeatureCategoryEntry<TCategoryMeta>[];
   describeCategoryScope?: (category: FeatureCategoryEntry<TCategoryMeta>) => string | undefined;
   describeOptionScope?: (option: FeatureOptionEntry<TOptionMeta>, category: FeatureCategoryEntry<TCategoryMeta>) => string | undefined;
+  locale?: string;
   options: Readonly<Record<string, readonly FeatureOptionEntry<TOptionMeta>[]>>;
-}): string {
+  translations?: Readonly<Record<string, FeatureCatalogTranslation>>;
+}): FeatureOptionsReference {
 
-  const { categories, describeCategoryScope, describeOptionScope, options } = input;
-
-  // Build the catalog index once. We never re-derive value-options, defaults, or the dotted key downstream - everything routes back through this single source of
-  // truth. The index accepts the typed arrays because a parameterized entry is structurally assignable to the base entry the index is declared over.
+  const { describeCategoryScope, describeOptionScope, locale, translations } = input;
+  const { categories, options } = localizeCatalog({ categories: input.categories, locale, options: input.options, translations });
   const catalog = buildCatalogIndex(categories, options);
 
-  // Accumulate the rendered lines. We assemble line-by-line and join with newlines at the end rather than concatenating strings, which keeps the blank-line discipline
-  // explicit (a pushed empty string is a blank line) and avoids a forest of "\n" literals.
-  const lines: string[] = [];
+  // A deprecation may name its replacement in any case, so we map every key to its declared spelling, which is the one its anchor carries.
+  const keys = new Map(categories.flatMap((category) => (options[category.name] ?? []).map((option) => expandOption(category, option)))
+    .map((key) => [ key.toLowerCase(), key ]));
 
-  // Index pass: one bullet per category, deep-linking to the category's detail heading. We iterate the typed `categories` array directly - not `catalog.categories`,
-  // which is base-typed - and apply the same "skip a category with no options entry" rule the index builder uses, so the two traversals cannot disagree. The bullet's
-  // link text is the category name; the anchor is its lowercased form; the trailing text is the category description verbatim, with no appended suffix.
-  for(const category of categories) {
+  return { categories: categories.flatMap((category) => {
 
-    if(!options[category.name]) {
+    const categoryOptions = options[category.name];
 
-      continue;
+    if(!categoryOptions) {
+
+      return [];
     }
 
-    lines.push(" * [" + category.name + "](#" + category.name.toLowerCase() + "): " + escapeCellText(category.description));
+    const scope = describeCategoryScope?.(category);
+
+    return [{
+
+      anchor: category.name.toLowerCase(),
+      description: category.description,
+      name: category.name,
+      options: categoryOptions.map((option) => {
+
+        // For a category-level option (empty name), `expandOption` returns the category name alone, which is exactly the bare-category key we want.
+        const key = expandOption(category, option);
+        const optionScope = describeOptionScope?.(option, category);
+
+        const { deprecated, examples, links, requires, since } = option;
+
+        return {
+
+          default: option.default,
+          ...(isValueOption(catalog, key) ? { defaultValue: String(option.defaultValue ?? "") } : {}),
+          ...(deprecated ? { deprecated: { ...deprecated, ...((deprecated.replacement === undefined) ? {} :
+            { replacement: keys.get(deprecated.replacement.toLowerCase()) ?? deprecated.replacement }) } } : {}),
+          description: option.description,
+          ...(examples?.length ? { examples: examples.map((example) => composeOptionExample(key, example)) } : {}),
+          key,
+          ...(links?.length ? { links: [...links] } : {}),
+          ...(requires ? { requires: [...requires] } : {}),
+          requiresRestart: requiresRestart(catalog, key),
+          ...((optionScope === undefined) ? {} : { scope: optionScope }),
+          ...((since === undefined) ? {} : { since })
+        };
+      }),
+      ...((scope === undefined) ? {} : { scope })
+    }];
+  }) };
+}
+
+// The pieces each written format sets a reference's text in. Markdown and HTML escape the catalog-derived text they carry, each for its own syntax, and link an
+// anchor within the page as well as an address outside it; plain text interprets nothing, so it escapes nothing and spells a link's address out after its title.
+// A markdown code span cannot hold a bare column separator, so one inside it is escaped the way the table expects.
+const REFERENCE_MARKUP: Record<Exclude<FeatureOptionsReferenceFormat, "json">, { anchor: (text: string, anchor: string) => string; code: (text: string) => string;
+  em: (text: string) => string; escape: (text: string) => string; link: (title: string, url: string) => string; strong: (text: string) => string; }> = {
+
+  html: {
+
+    anchor: (text, anchor) => "<a href=\"#" + escapeHtml(anchor) + "\">" + text + "</a>",
+    code: (text) => "<code>" + escapeHtml(text) + "</code>",
+    em: (text) => "<em>" + text + "</em>",
+    escape: escapeHtml,
+    link: (title, url) => "<a href=\"" + escapeHtml(url) + "\">" + escapeHtml(title) + "</a>",
+    strong: (text) => "<strong>" + text + "</strong>"
+  },
+
+  markdown: {
+
+    anchor: (text, anchor) => "[" + text + "](#" + anchor + ")",
+    code: (text) => "`" + text.replaceAll("|", "\\|") + "`",
+    em: (text) => "*" + text + "*",
+    escape: escapeCellText,
+    link: (title, url) => "[" + escapeCellText(title) + "](" + url + ")",
+    strong: (text) => "**" + text + "**"
+  },
+
+  text: {
+
+    anchor: (text) => text,
+    code: (text) => text,
+    em: (text) => text,
+    escape: (text) => text,
+    link: (title, url) => title + " (" + url + ")",
+    strong: (text) => text
+  }
+};
+
+// Compose what a reference says about an option, in the format's markup: a deprecation notice leading, so it is read before anything else, then the description, the
+// default, the restart note for an option that applies only at startup, the device capabilities it requires, the version the option arrived in, its usage examples as the
+// entries a user would write, and its links. Any scope suffix comes last, verbatim. The description and the rendered default are catalog-derived plain text and are
+// escaped for the format; the scope suffix is hook-owned markup the plugin controls (e.g. a "<BR>") and passes through untouched.
+function referenceDescription(option: FeatureOptionsReferenceOption, markup: (typeof REFERENCE_MARKUP)[keyof typeof REFERENCE_MARKUP]): string {
+
+  const { anchor, code, em, escape, link, strong } = markup;
+  const { deprecated, examples = [], links = [], requires = [], since } = option;
+  const replacement = deprecated?.replacement;
+
+  return (deprecated ? (strong("Deprecated:") + " " + escape(deprecated.notice) +
+    ((replacement === undefined) ? "" : (" Use " + anchor(code(replacement), replacement) + " instead.")) + " ") : "") +
+    escape(option.description) + " " + strong("(default: " + referenceDefault(option, escape) + ")") + "." + (option.requiresRestart ? (" " + em(RESTART_TEXT)) : "") +
+    (requires.length ? (" Requires: " + requires.map(code).join(", ") + ".") : "") +
+    ((since === undefined) ? "" : (" Since " + escape(since) + ".")) +
+    (examples.length ? (" " + ((examples.length === 1) ? "Example: " : "Examples: ") + examples.map(code).join(", ") + ".") : "") +
+    (links.length ? (" See " + links.map(({ title, url }) => link(title, url)).join(", ") + ".") : "") + (option.scope ?? "");
+}
+
+// The legend explaining the "=<value>" notation the references append to a value option's key, with the notation set in the format's own code markup. A reader
+// substitutes their setting for the placeholder rather than typing it, and learns that every other option is a simple on/off toggle. Each format emits it only when
+// the reference has a value option, since a toggle-only catalog never shows the notation it describes.
+function referenceLegend(code: (text: string) => string): string {
+
+  return "Options whose key ends in " + code("=<value>") + " take a value - replace " + code("=<value>") + " with your setting; all other options are simple on/off " +
+    "toggles. The default shown for each option is what applies when you leave it unset.";
+}
+
+// The default a reference shows for an option. A value option shows its raw declared default in the form the user would type - never formatted, since a formatted
+// value (e.g. "30s") is an invalid config value - with the empty string substituted to "none" so the reference says explicitly that the option defaults to no value.
+// A toggle shows enabled or disabled. The value is catalog-derived plain text, so the caller's `escape` is applied to it and to nothing else.
+function referenceDefault(option: FeatureOptionsReferenceOption, escape: (text: string) => string): string {
+
+  if(option.defaultValue === undefined) {
+
+    return option.default ? "enabled" : "disabled";
+  }
+
+  return (option.defaultValue === "") ? EMPTY_DEFAULT_LABEL : escape(option.defaultValue);
+}
+
+// The key a reference shows for an option, with the "=<value>" placeholder appended when the option takes a value.
+function referenceKey(option: FeatureOptionsReferenceOption): string {
+
+  return option.key + ((option.defaultValue !== undefined) ? "=<value>" : "");
+}
+
+// Whether the reference has an option taking a value, which is what decides whether a format emits the legend.
+function hasValueOptions(reference: FeatureOptionsReference): boolean {
+
+  return reference.categories.some((category) => category.options.some((option) => option.defaultValue !== undefined));
+}
+
+// Write the reference as the markdown fragment a plugin embeds: a category index (one bullet per category, deep-linking to its detail section), the conditional
+// legend, and one detail section per category, each carrying the optional scope line and a flat table of option rows.
+function referenceMarkdown(reference: FeatureOptionsReference): string {
+
+  // Accumulate the rendered lines. We assemble line-by-line and join with newlines at the end rather than concatenating strings, which keeps the blank-line discipline
+  // explicit (a pushed empty string is a blank line) and avoids a forest of "\n" literals.
+  const lines: string[] = [];
+
+  // Index pass: one bullet per category, deep-linking to the category's detail heading. The bullet's link text is the category name; the trailing text is the
+  // category description verbatim, with no appended suffix.
+  for(const category of reference.categories) {
+
+    lines.push(" * [" + category.name + "](#" + category.anchor + "): " + escapeCellText(category.description));
   }
 
   // A single blank line separates the index from the detail sections.
   lines.push("");
 
-  // Conditional legend. When the catalog has at least one value option, we explain the renderer's own "=<value>" notation - the suffix it appends to value-option keys -
-  // so a reader knows to substitute their setting rather than typing the literal placeholder, and that every other option is a simple on/off toggle. The legend is
-  // suppressed for a toggle-only catalog (no value options) where the "=<value>" notation never appears, so the explanation would document a notation the reader never
-  // sees. It sits after the index's trailing blank line and is itself followed by a blank line, keeping it cleanly framed before the first detail heading.
-  if(catalog.sortedValueOptionNames.length > 0) {
+  // The conditional legend sits after the index's trailing blank line and is itself followed by a blank line, keeping it cleanly framed before the first detail
+  // heading.
+  if(hasValueOptions(reference)) {
 
-    lines.push("Options whose key ends in `=<value>` take a value - replace `=<value>` with your setting; all other options are simple on/off toggles. " +
-      "The default shown for each option is what applies when you leave it unset.");
+    lines.push(referenceLegend(REFERENCE_MARKUP.markdown.code));
     lines.push("");
   }
 
   // Detail pass: one section per category, in catalog order.
-  for(const category of categories) {
-
-    const categoryOptions = options[category.name];
-
-    // Skip a category with no options entry, matching the index builder's rule so the detail traversal stays in lockstep with the index.
-    if(!categoryOptions) {
-
-      continue;
-    }
+  for(const category of reference.categories) {
 
     // Heading with an invisible anchor so the index bullets can deep-link to it. The visible text is the category description, verbatim.
-    lines.push("#### <A NAME=\"" + category.name.toLowerCase() + "\"></A>" + escapeCellText(category.description));
+    lines.push("#### <A NAME=\"" + category.anchor + "\"></A>" + escapeCellText(category.description));
     lines.push("");
 
-    // Optional device-scope line. The hook owns the full sentence; when it returns `undefined` we omit the line and its trailing blank line entirely rather than
+    // Optional device-scope line. The hook owns the full sentence; when it returned `undefined` we omit the line and its trailing blank line entirely rather than
     // emitting an empty row or the literal string "undefined".
-    const categoryScope = describeCategoryScope?.(category);
-
-    if(categoryScope !== undefined) {
+    if(category.scope !== undefined) {
 
-      lines.push(categoryScope);
+      lines.push(category.scope);
       lines.push("");
     }
 
     // Compose each option's two cells - the key cell and the description cell - up front so we can size the Option column to the widest visible key cell before we
     // emit any table line. This is the single max pass the column math needs; nothing downstream re-walks the options.
-    const rows = categoryOptions.map((option) => {
-
-      // The canonical dotted key (single source of truth - never hand-concatenated). For a category-level option (empty name), `expandOption` returns the category
-      // name alone, which is exactly the bare-category key we want to render.
-      const key = expandOption(category, option);
+    const rows = category.options.map((option) => {
 
       // The key cell pairs an invisible per-row anchor (key case preserved, so deep links are stable) with a single backtick code span. Value-ness is signaled
       // lexically by appending the universal "=<value>" placeholder inside the same span - no mixed HTML, faithful to the template the user fills in.
-      const keyCell = "<A NAME=\"" + key + "\"></A>`" + key + (isValueOption(catalog, key) ? "=<value>" : "") + "`";
-
-      // The default cell. A value option shows its raw declared default in the form the user would type - never formatted, since a formatted value (e.g. "30s") is an
-      // invalid config value. The empty-string default substitutes to "none" at render time, without mutating the entry. A toggle shows enabled / disabled.
-      const defaultCell = isValueOption(catalog, key) ?
-        (((option.defaultValue ?? "") === "") ? EMPTY_DEFAULT_LABEL : escapeCellText(String(option.defaultValue))) :
-        (option.default ? "enabled" : "disabled");
-
-      // The optional plugin-private scope suffix, appended to the description cell. Omitted cleanly when the hook returns `undefined`.
-      const scopeSuffix = describeOptionScope?.(option, category) ?? "";
+      const keyCell = "<A NAME=\"" + option.key + "\"></A>`" + referenceKey(option) + "`";
 
-      // The full description cell: the option description, the bolded default, then any scope suffix. The description and the rendered default are catalog-derived plain
-      // text and are escaped for safe table embedding; the scope suffix is hook-owned markup the plugin controls (e.g. a "<BR>") and passes through verbatim.
-      const descriptionCell = escapeCellText(option.description) + " **(default: " + defaultCell + ")**." + scopeSuffix;
-
-      return { descriptionCell, keyCell };
+      return { descriptionCell: referenceDescription(option, REFERENCE_MARKUP.markdown), keyCell };
     });
 
     // Auto-compute the Option-column width from the widest visible key cell and the header label, plus one space of breathing room. Padding is cosmetic - rendered
@@ -214,6 +393,412 @@ export function renderFeatureOptionsReference<TOptionMeta = unknown, TCategoryMe
   return lines.join("\n");
 }
 
+// Write the reference as a standalone HTML page with the same structure as the markdown fragment. Headings and rows carry `id` attributes holding the same anchors
+// the markdown's invisible `<A NAME>` targets do, so a deep link into one resolves in the other. Catalog-derived text is escaped; the scope-hook returns are markup
+// the plugin owns and pass through verbatim, as they do in markdown.
+function referenceHtml(reference: FeatureOptionsReference, locale: string | undefined): string {
+
+  const { code } = REFERENCE_MARKUP.html;
+  const lines = [ "<!DOCTYPE html>", "<html lang=\"" + escapeHtml(locale ?? "en") + "\">", "<head>", "  <meta charset=\"utf-8\">", "  <title>Feature Options</title>",
+    "</head>", "<body>", "  <ul>" ];
+
+  for(const category of reference.categories) {
+
+    lines.push("    <li><a href=\"#" + escapeHtml(category.anchor) + "\">" + escapeHtml(category.name) + "</a>: " + escapeHtml(category.description) + "</li>");
+  }
+
+  lines.push("  </ul>");
+
+  if(hasValueOptions(reference)) {
+
+    lines.push("  <p>" + referenceLegend(code) + "</p>");
+  }
+
+  for(const category of reference.categories) {
+
+    lines.push("  <h4 id=\"" + escapeHtml(category.anchor) + "\">" + escapeHtml(category.description) + "</h4>");
+
+    if(category.scope !== undefined) {
+
+      lines.push("  <p>" + category.scope + "</p>");
+    }
+
+    lines.push("  <table>", "    <thead>", "      <tr><th>Option</th><th>Description</th></tr>", "    </thead>", "    <tbody>");
+
+    for(const option of category.options) {
+
+      lines.push("      <tr id=\"" + escapeHtml(option.key) + "\"><td>" + code(referenceKey(option)) + "</td><td>" +
+        referenceDescription(option, REFERENCE_MARKUP.html) + "</td></tr>");
+    }
+
+    lines.push("    </tbody>", "  </table>");
+  }
+
+  lines.push("</body>", "</html>", "");
+
+  return lines.join("\n");
+}
+
+// Break text into lines of at most `width` characters at its spaces. A word longer than the width takes a line of its own rather than being split, since a key or a
+// value broken mid-word is no longer something a user can copy.
+function wrapText(text: string, width: number): string[] {
+
+  const lines: string[] = [];
+  let line = "";
+
+  for(const word of text.split(" ").filter((word) => word.length > 0)) {
+
+    if(line && ((line.length + 1 + word.length) > width)) {
+
+      lines.push(line);
+      line = word;
+
+      continue;
+    }
+
+    line = line ? (line + " " + word) : word;
+  }
+
+  return [ ...lines, line ];
+}
+
+// Write the reference as a man-page style plain-text table for a terminal: the legend, then one section per category with its description flush left and its scope
+// line and option rows indented beneath it. Each row pads the key to the widest key in its category and wraps the description in the column beside it. Nothing is
+// escaped, since nothing is interpreted, and the scope-hook returns pass through verbatim.
+function referenceText(reference: FeatureOptionsReference): string {
+
+  const indent = " ".repeat(TEXT_INDENT);
+  const lines: string[] = [];
+
+  if(hasValueOptions(reference)) {
+
+    lines.push(...wrapText(referenceLegend(REFERENCE_MARKUP.text.code), TEXT_WIDTH), "");
+  }
+
+  for(const category of reference.categories) {
+
+    lines.push(category.description);
+
+    if(category.scope !== undefined) {
+
+      lines.push(...wrapText(category.scope, TEXT_WIDTH - TEXT_INDENT).map((line) => indent + line), "");
+    }
+
+    const keys = category.options.map(referenceKey);
+    const keyWidth = keys.reduce((width, key) => Math.max(width, key.length), 0) + TEXT_GUTTER;
+    const descriptionWidth = Math.max(TEXT_WIDTH - TEXT_INDENT - keyWidth, TEXT_MIN_DESCRIPTION_WIDTH);
+
+    category.options.forEach((option, index) => {
+
+      const description = wrapText(referenceDescription(option, REFERENCE_MARKUP.text), descriptionWidth);
+
+      description.forEach((line, row) => lines.push(indent + ((row === 0) ? (keys[index] ?? "") : "").padEnd(keyWidth) + line));
+    });
+
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a feature-options catalog into a reference for its users, in any of four formats written from one projection of the catalog. The default, `"markdown"`, is
+ * the fragment a plugin embeds in its `docs/FeatureOptions.md`: a category index (one bullet per category, deep-linking to its detail section), an optional one-line
+ * legend explaining the `=<value>` notation, and then one detail section per category, each carrying an optional device-scope line and a flat table of option rows.
+ * The legend is emitted only when the catalog has at least one value option, since a toggle-only catalog never renders the `=<value>` placeholder the legend
+ * describes. `"html"` is the same reference as a standalone page whose heading and row anchors match the markdown's, `"text"` is a man-page style table for a
+ * terminal, and `"json"` is the {@link FeatureOptionsReference} the others are written from, for a docs site that lays the reference out itself.
+ *
+ * The renderer owns all base-shaped scaffolding - the index, headings, per-row deep-link anchors, the key cell with its value/toggle placeholder, the default cell, the
+ * description cell with its restart note for an option declaring `apply: "restart"` and whatever of {@link FeatureOptionEntry.deprecated},
+ * {@link FeatureOptionEntry.requires}, {@link FeatureOptionEntry.since}, {@link FeatureOptionEntry.examples}, and {@link FeatureOptionEntry.links} the option declares,
+ * and the column math - purely from the base {@link FeatureOptionEntry} / {@link FeatureCategoryEntry} fields. The two optional hooks own *only* the plugin-private scope
+ * prose: `describeCategoryScope` contributes the device-scope sentence under a category heading, and `describeOptionScope` contributes a suffix appended to an option's
+ * description cell. A hook returning `undefined` omits its contribution cleanly - never an "undefined" literal, never a stray blank line. What a hook returns is written
+ * verbatim in every format.
+ *
+ * The catalog index is built once via {@link buildCatalogIndex}; value-ness is decided via {@link isValueOption}; the canonical dotted key is derived via
+ * {@link expandOption}. None of those is re-derived here - the renderer is a projection of the same single source of truth the rest of the module owns.
+ *
+ * @typeParam TOptionMeta   - The concrete type of an option entry's opaque `meta` annotation, reconstituted at this boundary so `describeOptionScope` sees it typed.
+ * @typeParam TCategoryMeta - The concrete type of a category entry's opaque `meta` annotation, reconstituted so `describeCategoryScope` sees it typed.
+ * @param input
+ * @param input.categories            - The catalog's category list, in the order the index and detail sections should follow.
+ * @param input.describeCategoryScope - Optional. Returns the device-scope sentence emitted under a category's heading, or `undefined` to omit it. The hook owns the full
+ *                                      sentence including any leading or trailing text.
+ * @param input.describeOptionScope   - Optional. Returns a suffix appended to an option's description cell, or `undefined` to omit it. The hook owns its full text
+ *                                      including any leading separator.
+ * @param input.format                - Optional. The output to write. See {@link FeatureOptionsReferenceFormat}. Defaults to `"markdown"`.
+ * @param input.locale                - Optional. The BCP 47 locale to describe the catalog in, falling back to English for anything the catalog does not
+ *                                      translate. See {@link featureOptions!localizeCatalog | localizeCatalog}. The reference's own scaffolding stays in English.
+ * @param input.options               - The catalog's options map keyed by category name.
+ * @param input.translations          - Optional. The catalog's translations, as {@link featureOptions!FeatureCatalogSettings.translations} declares them.
+ *
+ * @returns The rendered reference. The `"json"` format is the {@link FeatureOptionsReference} serialized with two-space indentation and a trailing newline.
+ */
+export function renderFeatureOptionsReference<TOptionMeta = unknown, TCategoryMeta = unknown>(input: {
+  categories: readonly FeatureCategoryEntry<TCategoryMeta>[];
+  describeCategoryScope?: (category: FeatureCategoryEntry<TCategoryMeta>) => string | undefined;
+  describeOptionScope?: (option: FeatureOptionEntry<TOptionMeta>, category: FeatureCategoryEntry<TCategoryMeta>) => string | undefined;
+  format?: FeatureOptionsReferenceFormat;
+  locale?: string;
+  options: Readonly<Record<string, readonly FeatureOptionEntry<TOptionMeta>[]>>;
+  translations?: Readonly<Record<string, FeatureCatalogTranslation>>;
+}): string {
+
+  const reference = projectReference(input);
+
+  switch(input.format ?? "markdown") {
+
+    case "html":
+
+      return referenceHtml(reference, input.locale);
+
+    case "json":
+
+      return JSON.stringify(reference, null, 2) + "\n";
+
+    case "markdown":
+
+      return referenceMarkdown(reference);
+
+    case "text":
+
+      return referenceText(reference);
+  }
+}
+
+/**
+ * The JSON Schema fragment {@link renderFeatureOptionsSchema} produces: the validation keywords for a plugin's `options` array, ready to merge into the property
+ * that declares it in `config.schema.json`. Only validation keywords appear, so a `title` or `description` the plugin wrote for the property survives the merge.
+ *
+ * @property items       - The schema each entry must satisfy: a string matching `pattern`, the canonical entry grammar over the catalog's own option names, with one
+ *                         entry per option in `examples` stating the choice that departs from its default. An option that cannot be configured globally is
+ *                         addressed at a `<ID>` placeholder there. The `anyOf` enumerates the catalog by name: its `enum` lists both actions on every option
+ *                         that can be configured globally, the entries editors offer as completions, and its second branch admits any string, so an entry
+ *                         carrying an id or a value is left to `pattern` to judge.
+ * @property type        - Always `"array"`.
+ * @property uniqueItems - Always true. A repeated entry is never what a user meant.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionsSchema {
+
+  items: { anyOf: [ { enum: string[] }, { type: "string" } ]; examples: string[]; pattern: string; type: "string" };
+  type: "array";
+  uniqueItems: true;
+}
+
+// Escape text for literal use inside a regular expression, then fold its case: each letter becomes a bracket pairing both of its cases. JSON Schema patterns are
+// ECMA-262 expressions without flags, so there is no other way to say "without regard to case," which is how the engine reads every action, option name, and enum
+// value.
+function caselessPattern(text: string): string {
+
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\p{L}/gu, (letter) => {
+
+    const lower = letter.toLowerCase();
+    const upper = letter.toUpperCase();
+
+    // A letter whose other case is more than one character - "ß" uppercases to "SS" - has no single-character pair to bracket, so it stays as written.
+    return ((lower === upper) || (upper.length !== 1) || (lower.length !== 1)) ? letter : ("[" + upper + lower + "]");
+  });
+}
+
+// The pattern for the scope id an entry may carry: absent for an option declared only at the global scope, required for one that excludes it, optional otherwise.
+// An id is a single segment, free of the dot that separates segments and the delimiter that starts a value.
+function scopeIdPattern(scopes: readonly FeatureOptionScope[] | undefined): string {
+
+  if(!scopes) {
+
+    return "(?:\\.[^.=]+)?";
+  }
+
+  if(!scopes.includes("global")) {
+
+    return "\\.[^.=]+";
+  }
+
+  return (scopes.length === 1) ? "" : "(?:\\.[^.=]+)?";
+}
+
+/**
+ * Render a feature-options catalog into the JSON Schema fragment for a plugin's `options` array, so Config UI X's schema form and any JSON Schema-aware editor
+ * can validate entries as they are typed. The fragment's `pattern` accepts exactly the canonical entry grammar - `Enable` or `Disable`, an option the catalog
+ * declares, an optional scope id, and for an `Enable` of a value-centric option an optional `=value` - with every action and name matched without regard to case,
+ * as the engine reads them. It narrows further where the catalog does: an option declared only at the global scope accepts no id, one that excludes the global
+ * scope requires one, and an option whose {@link FeatureOptionEntry.valueType} is an enum accepts only its declared values. Alongside the pattern, the fragment
+ * enumerates the catalog's entries by name, so an editor can offer them as completions rather than leave a user to guess at what the pattern accepts.
+ *
+ * The legacy dot form of a value (`Enable.Audio.Volume.Front.50`) still resolves, but the schema does not accept it: an editor flagging it is how a user learns to
+ * write the form a save would rewrite it into. Values are otherwise free-form, since the engine is where a value is held to its declared type.
+ *
+ * @param input
+ * @param input.categories - The catalog's category list.
+ * @param input.options    - The catalog's options map keyed by category name.
+ *
+ * @returns The schema fragment. Serialize it with `JSON.stringify`, or let the `prepare-schema` CLI subcommand merge it into a plugin's `config.schema.json`.
+ */
+export function renderFeatureOptionsSchema(input: {
+  categories: readonly FeatureCategoryEntry[];
+  options: Readonly<Record<string, readonly FeatureOptionEntry[]>>;
+}): FeatureOptionsSchema {
+
+  const { categories, options } = input;
+  const catalog = buildCatalogIndex(categories, options);
+  const enable = caselessPattern("Enable");
+  const disable = caselessPattern("Disable");
+  const alternatives: string[] = [];
+  const entries: string[] = [];
+  const examples: string[] = [];
+
+  for(const category of categories) {
+
+    for(const option of options[category.name] ?? []) {
+
+      const key = expandOption(category, option);
+      const name = caselessPattern(key);
+      const scopes = catalog.scopes[key.toLowerCase()];
+      const id = scopeIdPattern(scopes);
+
+      // The example addresses a placeholder id when the option cannot be configured globally, so every example is itself an entry the pattern accepts.
+      const address = key + ((scopes && !scopes.includes("global")) ? ".<ID>" : "");
+
+      // An option that can be configured globally is enumerated under both actions. One that cannot has no entry without an id, so there is nothing to complete.
+      if(!scopes || scopes.includes("global")) {
+
+        entries.push("Enable." + key, "Disable." + key);
+      }
+
+      // A boolean option takes either action and nothing more. A value-centric one takes a value behind the delimiter on an enable, restricted to the declared
+      // members when its value type is an enum.
+      if(!isValueOption(catalog, key)) {
+
+        alternatives.push("(?:" + enable + "|" + disable + ")\\." + name + id);
+        examples.push((option.default ? "Disable." : "Enable.") + address);
+
+        continue;
+      }
+
+      const valueType = catalog.valueTypes[key.toLowerCase()];
+      const value = (valueType?.type === "enum") ? ("(?:" + valueType.values.map(caselessPattern).join("|") + ")") : ".*";
+
+      alternatives.push(enable + "\\." + name + id + "(?:=" + value + ")?", disable + "\\." + name + id);
+      examples.push(option.default ? ("Disable." + address) : ("Enable." + address + "=" + String(option.defaultValue ?? "")));
+    }
+  }
+
+  return { items: { anyOf: [ { enum: entries }, { type: "string" } ], examples, pattern: "^(?:" + alternatives.join("|") + ")$", type: "string" }, type: "array",
+    uniqueItems: true };
+}
+
+/**
+ * The markup {@link renderFeatureOptionsDiff} writes: `"markdown"` for logs, changelogs, and release notes, and `"html"` for a page that shows the report as is.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionsDiffFormat = "html" | "markdown";
+
+// The pieces each diff format wraps its text in. Markdown carries ids, names, and values in code spans, where nothing but a backtick is significant, so a span
+// around text holding one is widened to double backticks. HTML escapes everything it carries, since ids and values are whatever the user typed.
+const DIFF_MARKUP: Record<FeatureOptionsDiffFormat, { code: (text: string) => string; item: (text: string) => string; list: (items: string[]) => string;
+  note: string; strong: (text: string) => string; }> = {
+
+  html: {
+
+    code: (text) => "<code>" + escapeHtml(text) + "</code>",
+    item: (text) => "  <li>" + text + "</li>",
+    list: (items) => [ "<ul>", ...items, "</ul>" ].join("\n"),
+    note: RESTART_NOTE_HTML,
+    strong: (text) => "<strong>" + text + "</strong>"
+  },
+
+  markdown: {
+
+    code: (text) => text.includes("`") ? ("`` " + text + " ``") : ("`" + text + "`"),
+    item: (text) => "- " + text,
+    list: (items) => items.join("\n"),
+    note: RESTART_NOTE,
+    strong: (text) => "**" + text + "**"
+  }
+};
+
+// Escape text for literal use in HTML content or a quoted attribute. "&" goes first so the entities introduced are not themselves re-escaped.
+function escapeHtml(text: string): string {
+
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll("\"", "&quot;");
+}
+
+/**
+ * Render the changes {@link featureOptions!diffConfiguredOptions | diffConfiguredOptions} reports as a list a person can read: one item per change, naming the
+ * option, the scope, and what the setting says now and said before, with the restart note for an option declaring `apply: "restart"`.
+ *
+ * ```
+ * - **Added** `Audio.Volume` at `ABC123`: enabled with `80`.
+ * - **Changed** `Motion.Sensitivity` globally: enabled with `high`, was enabled with `low`.
+ * - **Moved** `Motion.Detect` from the global scope to `ABC123`: disabled.
+ * - **Removed** `Doorbell.Chime` at `ABC123`: was disabled.
+ * ```
+ *
+ * @param input
+ * @param input.changes - The changes to render, in the order they should appear.
+ * @param input.format  - Optional. The markup to write. See {@link FeatureOptionsDiffFormat}. Defaults to `"markdown"`.
+ *
+ * @returns The rendered list, or the empty string when there are no changes.
+ */
+export function renderFeatureOptionsDiff(input: { changes: readonly FeatureOptionDiff[]; format?: FeatureOptionsDiffFormat }): string {
+
+  const { changes, format = "markdown" } = input;
+
+  if(!changes.length) {
+
+    return "";
+  }
+
+  const { code, item, list, note, strong } = DIFF_MARKUP[format];
+  const state = ({ enabled, value }: FeatureOptionDiffSetting): string => enabled ? (hasValueContent(value ?? "") ? ("enabled with " + code(value ?? "")) : "enabled") :
+    "disabled";
+  const at = ({ id }: FeatureOptionDiffSetting): string => (id === undefined) ? "globally" : ("at " + code(id));
+  const scope = ({ id }: FeatureOptionDiffSetting): string => (id === undefined) ? "the global scope" : code(id);
+
+  return list(changes.map(({ after, before, change, option, requiresRestart }) => {
+
+    let text: string;
+
+    // Each change carries the sides its kind promises - an addition only the later one, a removal only the earlier one - so neither fallback is ever taken.
+    const later = after ?? before ?? { enabled: false };
+    const earlier = before ?? later;
+
+    switch(change) {
+
+      case "added":
+
+        text = strong("Added") + " " + code(option) + " " + at(later) + ": " + state(later) + ".";
+
+        break;
+
+      case "changed":
+
+        text = strong("Changed") + " " + code(option) + " " + at(later) + ": " + state(later) + ", was " + state(earlier) + ".";
+
+        break;
+
+      case "moved":
+
+        text = strong("Moved") + " " + code(option) + " from " + scope(earlier) + " to " + scope(later) + ": " + state(later) + ".";
+
+        break;
+
+      case "removed":
+
+        text = strong("Removed") + " " + code(option) + " " + at(earlier) + ": was " + state(earlier) + ".";
+
+        break;
+    }
+
+    return item(text + (requiresRestart ? note : ""));
+  }));
+}
+
 /**
  * Replace the region strictly between {@link FEATURE_OPTIONS_DOC_BEGIN} and {@link FEATURE_OPTIONS_DOC_END} in `source` with `content`, leaving both markers and all
  * surrounding prose untouched. This is the pure half of the in-place splice each plugin's build-script shim performs; the shim supplies the trivial `readFile` /
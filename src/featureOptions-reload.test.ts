@@ -0,0 +1,249 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * featureOptions-reload.test.ts: Unit tests for watchFeatureOptionsConfig - locating the platform block, debouncing bursts of change events, tolerating partial
+ * writes, discarding overtaken reads, and reporting the options whose effective state changed.
+ */
+import type { FeatureCategoryEntry, FeatureOptionEntry } from "./featureOptions.ts";
+import type { FeatureOptionsReload, FeatureOptionsReloadInit } from "./featureOptions-reload.ts";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { FeatureOptions } from "./featureOptions.ts";
+import assert from "node:assert/strict";
+import { capturingLog } from "./testing.helpers.ts";
+import { setImmediate as settle } from "node:timers/promises";
+import { watchFeatureOptionsConfig } from "./featureOptions-reload.ts";
+
+const CATEGORIES: FeatureCategoryEntry[] = [ { description: "Motion Options", name: "Motion" }, { description: "Audio Options", name: "Audio" } ];
+
+const OPTIONS: Record<string, FeatureOptionEntry[]> = {
+
+  Audio: [{ default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume", requires: ["hasAudio"] }],
+  Motion: [
+
+    { default: true, description: "Enable motion detection.", name: "Detect" },
+    { apply: "restart", default: false, defaultValue: "homebridge", description: "MQTT topic for motion events.", name: "Topic" }
+  ]
+};
+
+const CONFIG_PATH = "/var/lib/homebridge/config.json";
+
+// Serialize a config.json carrying one platform block with the given options, alongside an unrelated block that must never be read.
+const configJson = (options: unknown, platform = "homebridge-example.Example"): string => JSON.stringify({
+
+  platforms: [ { options: ["Disable.Motion.Detect"], platform: "Other" }, { options, platform } ]
+});
+
+interface Harness {
+
+  change: (filename?: string | null) => void;
+  contents: string;
+  featureOptions: FeatureOptions;
+  reads: number;
+  reloads: FeatureOptionsReload[];
+  save: (contents: string) => Promise<void>;
+  watched: string[];
+}
+
+// Wire a watcher against an in-memory file. `change()` raises a change event for the config file, `contents` is what the next read returns, and `reads` counts the
+// reads performed. Reads resolve on a later turn so a test can interleave a change with a read in flight. `save()` is the whole round trip: write, change, the quiet
+// period, and the read.
+const harness = (overrides: Partial<FeatureOptionsReloadInit> = {}): Harness => {
+
+  const state: Harness = {
+
+    change: (filename: string | null = "config.json"): void => listeners.forEach((listener) => listener(filename)),
+    contents: configJson([]),
+    featureOptions: new FeatureOptions(CATEGORIES, OPTIONS, []),
+    reads: 0,
+    reloads: [],
+    save: async (contents: string): Promise<void> => {
+
+      state.contents = contents;
+      state.change();
+      mock.timers.tick(500);
+      await settle();
+      await settle();
+    },
+    watched: []
+  };
+
+  const listeners: ((filename: string | null) => void)[] = [];
+
+  watchFeatureOptionsConfig({
+
+    configPath: CONFIG_PATH,
+    featureOptions: state.featureOptions,
+    onReload: (reload) => state.reloads.push(reload),
+    platform: "Example",
+    readFile: async (): Promise<string> => {
+
+      state.reads++;
+
+      const contents = state.contents;
+
+      await settle();
+
+      return contents;
+    },
+    signal: new AbortController().signal,
+    watch: (directory, _signal, listener): void => {
+
+      state.watched.push(directory);
+      listeners.push(listener);
+    },
+    ...overrides
+  });
+
+  return state;
+};
+
+describe("watchFeatureOptionsConfig", () => {
+
+  beforeEach(() => mock.timers.enable({ apis: ["setTimeout"] }));
+  afterEach(() => mock.timers.reset());
+
+  test("swaps the platform block's normalized options in and reports what changed", async () => {
+
+    const fo = harness();
+
+    await fo.save(configJson([ "Disable.Motion.Detect.DEV", "Enable.Audio.Volume.DEV.60", "Enable.Audio.Volume=40" ]));
+
+    assert.deepEqual(fo.watched, ["/var/lib/homebridge"], "the directory is watched, so a rename over the file is still seen");
+    assert.deepEqual(fo.featureOptions.configuredOptions, [ "Disable.Motion.Detect.DEV", "Enable.Audio.Volume.DEV=60", "Enable.Audio.Volume=40" ]);
+    assert.deepEqual(fo.reloads, [{
+
+      changes: [
+
+        { id: "DEV", option: "Motion.Detect", requiresRestart: false },
+        { option: "Audio.Volume", requiresRestart: false },
+        { id: "DEV", option: "Audio.Volume", requiresRestart: false }
+      ],
+      configuredOptions: [ "Disable.Motion.Detect.DEV", "Enable.Audio.Volume.DEV=60", "Enable.Audio.Volume=40" ]
+    }]);
+  });
+
+  test("debounces a burst of change events into one read, and ignores other files", async () => {
+
+    const fo = harness();
+
+    fo.contents = configJson(["Disable.Motion.Detect"]);
+    fo.change();
+    mock.timers.tick(300);
+    fo.change("config.json.tmp");
+    fo.change(null);
+    mock.timers.tick(300);
+
+    assert.equal(fo.reads, 0, "the second event restarted the quiet period");
+
+    mock.timers.tick(200);
+    await settle();
+    await settle();
+
+    assert.equal(fo.reads, 1);
+    assert.equal(fo.featureOptions.test("Motion.Detect"), false);
+  });
+
+  test("keeps the current options through a partial write or a missing platform block", async () => {
+
+    const fo = harness();
+
+    fo.featureOptions.configuredOptions = ["Disable.Motion.Detect"];
+
+    await fo.save("{ \"platforms\": [ { \"platf");
+    await fo.save(configJson(["Enable.Motion.Detect"], "Elsewhere"));
+
+    assert.deepEqual(fo.featureOptions.configuredOptions, ["Disable.Motion.Detect"]);
+    assert.equal(fo.reloads.length, 0);
+  });
+
+  test("discards a read that a newer change overtook", async () => {
+
+    const fo = harness();
+
+    fo.contents = configJson(["Disable.Motion.Detect"]);
+    fo.change();
+    mock.timers.tick(500);
+
+    // The first read is in flight. A second save lands before it returns, so its result is stale by the time it arrives.
+    fo.contents = configJson(["Enable.Audio.Volume=70"]);
+    fo.change();
+    await settle();
+    await settle();
+
+    assert.deepEqual(fo.featureOptions.configuredOptions, []);
+
+    mock.timers.tick(500);
+    await settle();
+    await settle();
+
+    assert.deepEqual(fo.featureOptions.configuredOptions, ["Enable.Audio.Volume=70"]);
+    assert.deepEqual(fo.reloads.map((reload) => reload.changes), [[{ option: "Audio.Volume", requiresRestart: false }]]);
+  });
+
+  test("swaps silently when nothing effective changed", async () => {
+
+    const fo = harness();
+    let calls = 0;
+
+    fo.featureOptions.configuredOptions = ["Enable.Audio.Volume.DEV=60"];
+    fo.featureOptions.watch("Audio.Volume", { device: "DEV" }, () => calls++);
+    await fo.save(configJson([ "Enable.Audio.Volume.dev=60", "Enable.Motion.Detect" ]));
+
+    assert.deepEqual(fo.featureOptions.configuredOptions, [ "Enable.Audio.Volume.dev=60", "Enable.Motion.Detect" ]);
+    assert.equal(fo.reloads.length, 0);
+    assert.equal(calls, 0);
+  });
+
+  test("leaves out what an override pins and what a device cannot use, as the instance's own queries do", async () => {
+
+    const fo = harness();
+
+    fo.featureOptions.overrides = ["Disable.Motion.Detect"];
+    fo.featureOptions.capabilities = { CAM: [] };
+    await fo.save(configJson([ "Enable.Motion.Detect.DEV", "Enable.Audio.Volume.CAM=60", "Enable.Audio.Volume.DEV=60" ]));
+
+    assert.deepEqual(fo.reloads.map((reload) => reload.changes), [[{ id: "DEV", option: "Audio.Volume", requiresRestart: false }]]);
+  });
+
+  test("flags a change that awaits a restart, and warns about it apart from the live ones", async () => {
+
+    const log = capturingLog();
+    const fo = harness({ log });
+
+    await fo.save(configJson([ "Enable.Motion.Topic=cameras", "Disable.Motion.Detect" ]));
+
+    assert.deepEqual(fo.reloads[0]?.changes, [ { option: "Motion.Detect", requiresRestart: false }, { option: "Motion.Topic", requiresRestart: true } ]);
+    assert.deepEqual(log.entries.map(({ level, params }) => [ level, params ]), [ [ "info", ["Motion.Detect"] ], [ "warn", ["Motion.Topic"] ] ]);
+  });
+
+  test("a listener that throws is logged apart, and the reload is still logged and delivered", async () => {
+
+    const log = capturingLog();
+    const fo = harness({ log });
+
+    fo.featureOptions.watch("Motion.Detect", {}, () => {
+
+      throw new Error("listener failed");
+    });
+
+    await fo.save(configJson(["Disable.Motion.Detect"]));
+
+    assert.deepEqual(fo.featureOptions.configuredOptions, ["Disable.Motion.Detect"]);
+    assert.deepEqual(fo.reloads.map((reload) => reload.changes), [[{ option: "Motion.Detect", requiresRestart: false }]]);
+    assert.deepEqual(log.entries.map(({ level }) => level), [ "error", "info" ]);
+  });
+
+  test("stops watching once the signal aborts", async () => {
+
+    const controller = new AbortController();
+    const fo = harness({ signal: controller.signal });
+
+    fo.contents = configJson(["Disable.Motion.Detect"]);
+    fo.change();
+    controller.abort();
+    mock.timers.tick(500);
+    await settle();
+
+    assert.equal(fo.reads, 0);
+    assert.equal(harness({ signal: AbortSignal.abort() }).watched.length, 0, "an aborted signal never starts watching");
+  });
+});
@@ -0,0 +1,347 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * featureOptions-reload.ts: Hot reload of a plugin's feature options from the Homebridge config.json on disk.
+ */
+
+/**
+ * Hot reload of feature options from the Homebridge `config.json` on disk.
+ *
+ * Homebridge reads `config.json` once, at startup, and hands each platform its block. When a user saves in Config UI X the file is rewritten, but a running plugin
+ * never sees the change - its {@link featureOptions!FeatureOptions | FeatureOptions} instance keeps answering from the array it was constructed with until the next
+ * restart. {@link watchFeatureOptionsConfig} closes that gap: it watches the file, and on each settled change locates the plugin's platform block, reads its
+ * `options` array, runs it through {@link normalizeConfiguredOptions}, and swaps the result into the instance in a single assignment, so no query ever observes a
+ * half-applied configuration.
+ *
+ * The file is read defensively. Editors and Config UI X alike can leave the file momentarily truncated or absent mid-write, so a read that fails, a file that does
+ * not parse, or a file that no longer carries the platform block is passed over and the current options stay in force - the write that completes the file raises
+ * another change, and that one is read instead. Change events arrive in bursts for a single save, so they are debounced, and a read that a newer change has overtaken
+ * is discarded rather than applied out of order.
+ *
+ * Each swap is reported as the set of options whose effective state changed, judged on what the instance itself resolves - its overrides, id aliases, and device
+ * capabilities included - rather than on the raw arrays, so an accessory can react to exactly what moved. Listeners registered through
+ * {@link featureOptions!FeatureOptions.watch | FeatureOptions.watch} fire as part of the same swap.
+ *
+ * This module reads the filesystem and is therefore Node-only, like `util.ts`. It is deliberately NOT mirrored into `dist/ui/`.
+ *
+ * @module
+ */
+import type { CatalogIndex, FeatureOptions } from "./featureOptions.ts";
+import type { HomebridgePluginLogging, Nullable } from "./util.ts";
+import { basename, dirname } from "node:path";
+import { enumerateConfiguredEntries, expandOption, migrateConfiguredOptions, normalizeConfiguredOptions, requiresRestart } from "./featureOptions.ts";
+import { formatErrorMessage, noOpLog, sameEntries } from "./util.ts";
+import { TimerRegistry } from "./timer-registry.ts";
+import { readFile } from "node:fs/promises";
+import { watch } from "node:fs";
+
+// How long the file must go quiet before it is read. A single save in Config UI X raises several change events in quick succession, and reading on the first of
+// them would race the rest of the write.
+const DEFAULT_DEBOUNCE = 500;
+
+/**
+ * One option whose effective state changed across a reload, and where. A plugin reacting to a reload checks whether a change touches an accessory it owns: a change
+ * without an `id` moved the global setting, which reaches every device that does not override it.
+ *
+ * @property id              - The device or controller identifier the change was observed at, in the casing the configuration carries. Absent for a change at
+ *                             the global scope.
+ * @property option          - The option's expanded name, in catalog case.
+ * @property requiresRestart - True when the option only takes effect at startup, so the running plugin cannot act on the change. See
+ *                             {@link featureOptions!requiresRestart | requiresRestart}.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionReloadChange {
+
+  id?: string;
+  option: string;
+  requiresRestart: boolean;
+}
+
+/**
+ * The account of one reload, as {@link FeatureOptionsReloadInit.onReload} receives it.
+ *
+ * @property changes           - Every option whose effective state changed, one record per option and scope, in catalog order and with the global scope ahead
+ *                               of the ids.
+ * @property configuredOptions - The normalized configured-options array now in force.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionsReload {
+
+  changes: FeatureOptionReloadChange[];
+  configuredOptions: readonly string[];
+}
+
+/**
+ * Options accepted by {@link watchFeatureOptionsConfig}.
+ *
+ * @property configPath     - The absolute path of the Homebridge `config.json`, as `api.user.configPath()` reports it.
+ * @property debounce       - Optional. How long, in milliseconds, the file must go quiet before it is read. Defaults to 500.
+ * @property featureOptions - The instance to swap each reloaded configuration into.
+ * @property log            - Optional logger. Tolerated read failures are logged at debug level, each applied reload at info level, a change that awaits a
+ *                            restart at warning level, and a {@link featureOptions!FeatureOptions.watch | watch} listener that throws during a reload at error level.
+ * @property name           - Optional platform block `name`, for a plugin whose users may configure more than one instance of the same platform.
+ * @property onReload       - Optional. Called after each reload that changed at least one option's effective state. See {@link FeatureOptionsReload}.
+ * @property platform       - The platform identifier the plugin registers, matched against each block's `platform` key, with or without the plugin-name prefix.
+ * @property readFile       - Optional. Reads the file's UTF-8 text. Defaults to `node:fs/promises` `readFile`. Injected so a test can supply a double.
+ * @property signal         - The watcher's lifetime. When it aborts, watching stops and any pending read is abandoned.
+ * @property watch          - Optional. Watches a directory, calling `listener` with the name of each entry that changes, until `signal` aborts. Defaults to
+ *                            `node:fs` `watch`. Injected so a test can supply a double.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionsReloadInit {
+
+  configPath: string;
+  debounce?: number;
+  featureOptions: FeatureOptions;
+  log?: HomebridgePluginLogging;
+  name?: string;
+  onReload?: (reload: FeatureOptionsReload) => void;
+  platform: string;
+  readFile?: (path: string) => Promise<string>;
+  signal: AbortSignal;
+  watch?: (directory: string, signal: AbortSignal, listener: (filename: Nullable<string>) => void) => void;
+}
+
+// The default `readFile` implementation: the file's UTF-8 text via `node:fs/promises`.
+async function defaultReadFile(path: string): Promise<string> {
+
+  return readFile(path, "utf8");
+}
+
+// The default `watch` implementation. We watch the directory rather than the file itself, because a save that writes a temporary file and renames it over the
+// original replaces the inode a file watch would be holding, and the watch would go silent after the first such save. A watcher error is not actionable here - the
+// next save simply goes unnoticed - so it is swallowed rather than left to crash the process as an unhandled `error` event.
+function defaultWatch(directory: string, signal: AbortSignal, listener: (filename: Nullable<string>) => void): void {
+
+  const watcher = watch(directory, { persistent: false, signal }, (_event, filename) => listener(filename));
+
+  watcher.on("error", () => watcher.close());
+}
+
+// Narrow an unknown parsed JSON value to a plain record so its fields can be read without unsafe member access.
+function isRecord(value: unknown): value is Record<string, unknown> {
+
+  return (typeof value === "object") && (value !== null) && !Array.isArray(value);
+}
+
+// Locate the plugin's platform block in a parsed config.json and return its options array, or null when the block cannot be found. Homebridge accepts a platform
+// identifier either bare or qualified by the plugin name (`homebridge-example.Example`), so both match. A block without an `options` key has no options configured,
+// which is an empty array rather than a missing block; entries that are not strings cannot be feature options and are dropped.
+function readPlatformOptions({ config, name, platform }: { config: unknown; name?: string; platform: string }): Nullable<string[]> {
+
+  const platforms = isRecord(config) ? config["platforms"] : undefined;
+
+  if(!Array.isArray(platforms)) {
+
+    return null;
+  }
+
+  for(const block of platforms as unknown[]) {
+
+    const identifier = isRecord(block) ? block["platform"] : undefined;
+
+    if(!isRecord(block) || (typeof identifier !== "string") || ((identifier !== platform) && !identifier.endsWith("." + platform))) {
+
+      continue;
+    }
+
+    if((name !== undefined) && (block["name"] !== name)) {
+
+      continue;
+    }
+
+    const options = block["options"];
+
+    return Array.isArray(options) ? (options as unknown[]).filter((entry): entry is string => typeof entry === "string") : [];
+  }
+
+  return null;
+}
+
+// Every address a reload could move an option at: each catalog option at the global scope, and at every id either configured-options array configures it at. Both
+// arrays are read through the catalog's migrations first, so an entry written against an option's former name is found under the option it now belongs to.
+function reloadAddresses(catalog: CatalogIndex, before: readonly string[], after: readonly string[]): FeatureOptionReloadChange[] {
+
+  const readings = [ before, after ].map((configuredOptions) => migrateConfiguredOptions(catalog, configuredOptions).configuredOptions);
+  const addresses: FeatureOptionReloadChange[] = [];
+
+  for(const category of catalog.categories) {
+
+    for(const entry of catalog.options[category.name] ?? []) {
+
+      const option = expandOption(category, entry);
+      const restart = requiresRestart(catalog, option);
+      const ids = new Map<string, string>();
+
+      // Ids fold case, as the storage format does, so the same device written in two casings is one address. The casing the first entry carried is the one reported.
+      for(const configuredOptions of readings) {
+
+        for(const { id } of enumerateConfiguredEntries({ catalog, configuredOptions, option })) {
+
+          if(id.length && !ids.has(id.toLowerCase())) {
+
+            ids.set(id.toLowerCase(), id);
+          }
+        }
+      }
+
+      addresses.push({ option, requiresRestart: restart }, ...[...ids.values()].sort().map((id) => ({ id, option, requiresRestart: restart })));
+    }
+  }
+
+  return addresses;
+}
+
+// What the instance answers for an option at an address: the enabled state and the value, at the global scope for an address without an id, and otherwise with the
+// id read as a device and as a controller. Reading through the instance rather than the raw arrays means the override layer, the id aliases, and the device
+// capabilities weigh in exactly as they do for the plugin's own queries - an option pinned by an override, or one a device cannot use, reads the same on both sides
+// of a reload. Comparing these two readings covers every combination a query can ask about, because a query resolving at a device and a controller together reads
+// the same three levels these do one at a time. An id the plugin described as a device that cannot use the option is read only as that device, where the option
+// resolves to its default whatever is configured under it.
+function readAddress(featureOptions: FeatureOptions, { id, option }: FeatureOptionReloadChange): [ boolean, Nullable<string | undefined> ][] {
+
+  const scopes: [ string?, string? ][] = (id === undefined) ? [[]] : [[id]];
+
+  if((id !== undefined) && featureOptions.isSupported(option, id)) {
+
+    scopes.push([ undefined, id ]);
+  }
+
+  return scopes.map(([ device, controller ]) => [ featureOptions.test(option, device, controller), featureOptions.value(option, device, controller) ]);
+}
+
+/**
+ * Watch the Homebridge `config.json` on disk and keep a {@link featureOptions!FeatureOptions | FeatureOptions} instance current with the plugin's platform block.
+ *
+ * Each settled change to the file is read, the platform block's `options` array is normalized through {@link normalizeConfiguredOptions}, and the result replaces
+ * the instance's configured options in one assignment. A read that fails or finds no platform block leaves the current options in force, and a reload whose
+ * normalized array matches the one already in force changes nothing. When the swap changes any option's effective state, `onReload` is called with the options that
+ * moved. The watch runs until `signal` aborts.
+ *
+ * @param init - The file, the platform block, the instance to keep current, and the watcher's lifetime. See {@link FeatureOptionsReloadInit}.
+ *
+ * @example
+ *
+ * ```ts
+ * watchFeatureOptionsConfig({
+ *
+ *   configPath: api.user.configPath(),
+ *   featureOptions: this.featureOptions,
+ *   log: this.log,
+ *   onReload: ({ changes }) => this.refreshAccessories(changes),
+ *   platform: PLATFORM_NAME,
+ *   signal: this.signal
+ * });
+ * ```
+ *
+ * @category Feature Options
+ */
+export function watchFeatureOptionsConfig(init: FeatureOptionsReloadInit): void {
+
+  const { configPath, debounce = DEFAULT_DEBOUNCE, featureOptions, log = noOpLog, name, onReload, platform, signal } = init;
+  const read = init.readFile ?? defaultReadFile;
+  const filename = basename(configPath);
+  const timers = new TimerRegistry({ signal });
+
+  // Bumped on every change event. A read carries the generation it started under, and a read that finishes after a newer change arrived is discarded - the newer
+  // change has its own read coming, and applying the older one on top would briefly regress the configuration.
+  let generation = 0;
+
+  const reload = async (started: number): Promise<void> => {
+
+    let config: unknown;
+
+    try {
+
+      config = JSON.parse(await read(configPath));
+    } catch(error) {
+
+      log.debug("Unable to read feature options from %s: %s", configPath, formatErrorMessage(error));
+
+      return;
+    }
+
+    const configured = readPlatformOptions({ config, name, platform });
+
+    if(signal.aborted || (started !== generation)) {
+
+      return;
+    }
+
+    if(!configured) {
+
+      log.debug("Unable to locate the %s platform block in %s.", platform, configPath);
+
+      return;
+    }
+
+    const catalog = featureOptions.catalog;
+    const previous = featureOptions.configuredOptions;
+    const configuredOptions = normalizeConfiguredOptions(catalog, configured);
+
+    if(sameEntries(previous, configuredOptions, (x, y) => x === y)) {
+
+      return;
+    }
+
+    // Read every address the swap could move before and after it, so a change is judged on what the plugin's own queries answer rather than on the raw arrays.
+    const readings = reloadAddresses(catalog, previous, configuredOptions).map((address) => ({ address, before: readAddress(featureOptions, address) }));
+
+    // The assignment runs the instance's watchers, and rethrows what they threw only after every one has run and the new options are in force. A listener's failure
+    // is its own, not the reload's, so it is reported apart and the reload still logs and delivers what it changed.
+    try {
+
+      featureOptions.configuredOptions = [...configuredOptions];
+    } catch(error) {
+
+      log.error("A feature option listener failed while applying reloaded feature options: %s", formatErrorMessage(error));
+    }
+
+    const changes = readings.filter(({ address, before }) => !sameEntries(before, readAddress(featureOptions, address), (x, y) => (x[0] === y[0]) && (x[1] === y[1])))
+      .map(({ address }) => address);
+
+    if(!changes.length) {
+
+      return;
+    }
+
+    const names = (restart: boolean): string[] => [...new Set(changes.filter((change) => change.requiresRestart === restart).map((change) => change.option))];
+    const [ live, pending ] = [ names(false), names(true) ];
+
+    if(live.length) {
+
+      log.info("Feature options reloaded: %s.", live.join(", "));
+    }
+
+    // An option that only applies at startup was saved, but the running plugin will not act on it. Say so, rather than leave the user wondering why it did nothing.
+    if(pending.length) {
+
+      log.warn("Feature options changed that take effect after Homebridge restarts: %s.", pending.join(", "));
+    }
+
+    onReload?.({ changes, configuredOptions });
+  };
+
+  if(signal.aborted) {
+
+    return;
+  }
+
+  (init.watch ?? defaultWatch)(dirname(configPath), signal, (changed) => {
+
+    // Some platforms cannot name the entry that changed. Treat an anonymous event as ours - a spurious read costs one parse and changes nothing.
+    if((changed !== null) && (changed !== filename)) {
+
+      return;
+    }
+
+    const started = ++generation;
+
+    timers.setTimeout("reload", () => {
+
+      reload(started).catch((error: unknown) => log.error("Unable to apply reloaded feature options: %s", formatErrorMessage(error)));
+    }, debounce);
+  });
+}
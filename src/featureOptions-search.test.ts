@@ -0,0 +1,129 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * featureOptions-search.test.ts: Unit tests for the catalog search - the fields it reads, how forgiving a match is, how results rank, and the ranges it marks.
+ */
+import type { FeatureCategoryEntry, FeatureOptionEntry } from "./featureOptions.ts";
+import { buildSearchIndex, searchFeatureOptions } from "./featureOptions-search.ts";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildCatalogIndex } from "./featureOptions.ts";
+import { readFile } from "node:fs/promises";
+
+const CATEGORIES: FeatureCategoryEntry[] = [
+
+  { description: "Motion detection options.", name: "Motion" },
+  { description: "Audio options.", name: "Audio" },
+  { description: "Video options.", name: "Video" }
+];
+
+const OPTIONS: Record<string, FeatureOptionEntry[]> = {
+
+  Audio: [
+
+    { default: true, description: "Enable audio support.", name: "" },
+    { default: true, description: "Enable two-way audio.", group: "", name: "TwoWay" }
+  ],
+  Motion: [
+
+    { default: true, description: "Detect motion events.", name: "Detect" },
+    { default: false, description: "Publish to MQTT.", name: "Mqtt" }
+  ],
+  Video: [{ default: false, description: "Use the motion sensor as a doorbell trigger.", name: "Doorbell" }]
+};
+
+const index = buildSearchIndex(buildCatalogIndex(CATEGORIES, OPTIONS));
+
+// The options a query finds, best first.
+const find = (query: string): string[] => searchFeatureOptions({ index, query }).map((result) => result.option);
+
+describe("buildSearchIndex", () => {
+
+  test("reads each option's key, description, category, and group parent, in catalog order", () => {
+
+    assert.deepEqual(index.entries.map((entry) => entry.option), [ "Motion.Detect", "Motion.Mqtt", "Audio", "Audio.TwoWay", "Video.Doorbell" ]);
+    assert.deepEqual(index.entries[3]?.text, { category: "Audio options.", description: "Enable two-way audio.", group: "Enable audio support.", name: "Audio.TwoWay" });
+    assert.equal(index.entries[0]?.text.group, "", "an option outside any group has no parent to read");
+    assert.deepEqual(index.entries[3].words.name.map(({ word }) => word), [ "audio", "two", "way" ], "a capital starts a new word");
+    assert.deepEqual(index.entries[1]?.words.description.map(({ word }) => word), [ "publish", "to", "mqtt" ], "a run of capitals stays whole");
+  });
+});
+
+describe("searchFeatureOptions", () => {
+
+  test("matches a whole word, the start of a word, and a run inside one", () => {
+
+    assert.deepEqual(find("doorbell"), ["Video.Doorbell"]);
+    assert.deepEqual(find("door"), ["Video.Doorbell"]);
+    assert.deepEqual(find("orbel"), ["Video.Doorbell"]);
+  });
+
+  test("requires every term to match, and splits terms at periods as well as spaces", () => {
+
+    assert.deepEqual(find("motion.mqtt"), ["Motion.Mqtt"]);
+    assert.deepEqual(find("motion   mqtt"), ["Motion.Mqtt"]);
+    assert.deepEqual(find("motion doorbell"), ["Video.Doorbell"], "the second term rules out every option in the Motion category");
+  });
+
+  test("forgives a misspelling in proportion to the term's length", () => {
+
+    assert.deepEqual(find("motoin"), [ "Motion.Detect", "Motion.Mqtt", "Video.Doorbell" ], "one swap of neighboring characters");
+    assert.deepEqual(find("doorbel"), ["Video.Doorbell"]);
+    assert.deepEqual(find("dorrbeel"), ["Video.Doorbell"], "two edits, for a term of eight characters");
+    assert.deepEqual(find("doorbl"), ["Video.Doorbell"], "the misspelled start of a word, for a term still being typed");
+    assert.deepEqual(find("mtq"), [], "a term under four characters must match verbatim");
+    assert.deepEqual(find("dxxrbell"), ["Video.Doorbell"]);
+    assert.deepEqual(find("dxxrbexx"), [], "no term tolerates a third edit");
+  });
+
+  test("ranks a match in the key over one in the description, and keeps catalog order for ties", () => {
+
+    const results = searchFeatureOptions({ index, query: "motion" });
+
+    assert.deepEqual(results.map((result) => result.option), [ "Motion.Detect", "Motion.Mqtt", "Video.Doorbell" ]);
+    assert.ok((results[1]?.score ?? 0) > (results[2]?.score ?? 0));
+    assert.deepEqual(find("audio"), [ "Audio", "Audio.TwoWay" ], "a tie keeps catalog order");
+  });
+
+  test("finds the options beneath a group through what the parent does", () => {
+
+    assert.deepEqual(find("support"), [ "Audio", "Audio.TwoWay" ]);
+    assert.deepEqual(searchFeatureOptions({ index, query: "support" })[1]?.highlights, [{ end: 20, field: "group", start: 13 }]);
+  });
+
+  test("marks every field a term matched, merging ranges that touch", () => {
+
+    const [result] = searchFeatureOptions({ index, query: "two way" });
+
+    assert.equal(result?.option, "Audio.TwoWay");
+    assert.deepEqual(result.highlights, [
+
+      { end: 12, field: "name", start: 6 },
+      { end: 10, field: "description", start: 7 },
+      { end: 14, field: "description", start: 11 }
+    ], "\"Two\" and \"Way\" touch in the key, while a hyphen keeps them apart in the description");
+  });
+
+  test("honors a limit, and matches nothing for a query with no terms", () => {
+
+    assert.deepEqual(searchFeatureOptions({ index, limit: 1, query: "motion" }).map((result) => result.option), ["Motion.Detect"]);
+    assert.deepEqual(find(""), []);
+    assert.deepEqual(find(" . "), []);
+  });
+});
+
+describe("featureOptions-search - browser-safe runtime-import boundary", () => {
+
+  // Like featureOptions.ts, this module ships to `dist/ui/` for the webUI to load, so every relative value-import must resolve to a module the copy step also ships.
+  test("featureOptions-search.ts has no relative value-imports outside the browser-safe allowlist", async () => {
+
+    const source = await readFile(new URL("./featureOptions-search.ts", import.meta.url), "utf8");
+    const allowed = new Set(["./featureOptions.ts"]);
+
+    for(const match of source.matchAll(/^import(?!\s+type\b)\s+[^;]+from\s+"(\.[^"]+)";/gm)) {
+
+      const specifier = match[1] ?? "";
+
+      assert.ok(allowed.has(specifier), "featureOptions-search.ts must only relative-value-import from a browser-safe module. Found: " + specifier + ".");
+    }
+  });
+});
@@ -0,0 +1,331 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * featureOptions-search.ts: Pure, isomorphic, typo-tolerant search over a feature-options catalog.
+ */
+
+/**
+ * A shared search over the {@link featureOptions!FeatureOptions | FeatureOptions} catalog.
+ *
+ * A catalog with dozens of options needs a way for a user to find the one they mean, and every surface that offers one - the webUI's search box, a docs site, a
+ * command-line lookup - faces the same questions: which text counts, how forgiving a match is, what ranks first, and which characters to mark. This module answers
+ * them once:
+ *
+ *   - {@link buildSearchIndex} reads a {@link featureOptions!CatalogIndex | CatalogIndex} into a {@link FeatureOptionSearchIndex}: for each option, its key, its
+ *     description, its category's description, and the description of the group parent it depends on, split into words ahead of time.
+ *
+ *   - {@link searchFeatureOptions} matches a query against that index and returns {@link FeatureOptionSearchResult}s, best first, each carrying the ranges of text
+ *     that matched so a caller can mark them.
+ *
+ * Matching is per query term, and every term must match somewhere in an option for the option to match at all. A term matches a whole word, the start of a word, or
+ * any run of characters, in that order of preference; a term that matches none of those may still match a word it misspells - one edit away for a term of four
+ * characters or more, two for a term of eight or more. An edit is an insertion, a deletion, a substitution, or two neighboring characters swapped. A match in the
+ * option's key outranks one in its description, which outranks one in its category or its parent. Ties keep catalog order, so equally good results read the way the
+ * catalog does.
+ *
+ * Both functions are pure and isomorphic: no `node:` imports, no I/O. The build pipeline mirrors this module into `dist/ui/` beside `featureOptions.js`, which is
+ * what lets the webUI search with it.
+ *
+ * @module
+ */
+import type { CatalogIndex } from "./featureOptions.ts";
+import { expandOption } from "./featureOptions.ts";
+
+/**
+ * The text of an option a search reads, named by where it comes from: `"name"` for the option's canonical dotted key, `"description"` for its description,
+ * `"category"` for its category's description, and `"group"` for the description of the group parent the option depends on.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionSearchField = "category" | "description" | "group" | "name";
+
+/**
+ * A run of text a search matched, as a half-open range of character offsets into one of a result's {@link FeatureOptionSearchResult.text} fields.
+ *
+ * @property end   - The offset one past the last matched character.
+ * @property field - The field the range falls in.
+ * @property start - The offset of the first matched character.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionSearchHighlight {
+
+  end: number;
+  field: FeatureOptionSearchField;
+  start: number;
+}
+
+/**
+ * One option a search matched.
+ *
+ * @property category   - The name of the option's category.
+ * @property highlights - The ranges of text that matched, in field order - name, description, category, group - and in order within a field, with overlapping and
+ *                        touching ranges merged.
+ * @property option     - The option's canonical dotted key, case preserved.
+ * @property score      - How well the option matched. Higher is better; the value is meaningful only relative to the other results of the same search.
+ * @property text       - Each field's text, as the search read it. An option that has no group parent carries an empty `group`.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionSearchResult {
+
+  category: string;
+  highlights: FeatureOptionSearchHighlight[];
+  option: string;
+  score: number;
+  text: Readonly<Record<FeatureOptionSearchField, string>>;
+}
+
+/**
+ * The prepared form of a catalog a search runs against, built by {@link buildSearchIndex}. Build it once per catalog and reuse it across every search, since the
+ * catalog does not change between them.
+ *
+ * @property entries - One entry per option, in catalog order: the option's key, its category's name, each field's text, and each field's words with their offsets.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionSearchIndex {
+
+  readonly entries: readonly {
+
+    readonly category: string;
+    readonly option: string;
+    readonly text: Readonly<Record<FeatureOptionSearchField, string>>;
+    readonly words: Readonly<Record<FeatureOptionSearchField, readonly { readonly start: number; readonly word: string }[]>>;
+  }[];
+}
+
+// The fields in the order a result reports them, which is also the order of their weight: what a match in each contributes to an option's score.
+const FIELD_WEIGHTS: readonly (readonly [ FeatureOptionSearchField, number ])[] = [ [ "name", 3 ], [ "description", 2 ], [ "category", 1 ], [ "group", 1 ] ];
+
+// How good each kind of match is, before the field's weight applies. A misspelled word loses a further share for each edit it takes.
+const MATCH_QUALITY = { fuzzy: 0.6, prefix: 0.9, substring: 0.7, word: 1 };
+const FUZZY_EDIT_PENALTY = 0.15;
+
+// The shortest terms that tolerate one and two edits. A shorter term tolerates none, since a two-letter term one edit from a word matches nearly everything.
+const FUZZY_ONE_EDIT_LENGTH = 4;
+const FUZZY_TWO_EDIT_LENGTH = 8;
+
+// A word is a run of letters and digits, with a capital letter starting a new one - so "TwoWay" reads as "Two" and "Way" - while a run of capitals stays whole, so
+// "MTU" and "HKSV" read as themselves.
+const WORD_PATTERN = /\p{Lu}?[\p{Ll}\p{N}]+|\p{Lu}+(?![\p{Ll}])/gu;
+
+/**
+ * Build the search index for a catalog. Each option contributes its canonical dotted key, its description, its category's description, and - for an option in a
+ * group - the description of the parent it depends on, so a search for what the parent does finds the options beneath it too.
+ *
+ * @param catalog - The catalog index, built by {@link featureOptions!buildCatalogIndex | buildCatalogIndex}.
+ *
+ * @returns The search index.
+ *
+ * @category Feature Options
+ */
+export function buildSearchIndex(catalog: CatalogIndex): FeatureOptionSearchIndex {
+
+  const options = catalog.categories.flatMap((category) => (catalog.options[category.name] ?? []).map((option) => ({ category, key: expandOption(category, option),
+    option })));
+
+  // A group parent is named by its expanded key, so we map every key to its description before reading any option's parent.
+  const descriptions = new Map(options.map(({ key, option }) => [ key, option.description ]));
+
+  return { entries: options.map(({ category, key, option }) => {
+
+    const parent = catalog.groupParents[key];
+    const text = { category: category.description, description: option.description, group: (parent === undefined) ? "" : (descriptions.get(parent) ?? ""), name: key };
+
+    return { category: category.name, option: key, text, words: { category: splitWords(text.category), description: splitWords(text.description),
+      group: splitWords(text.group), name: splitWords(text.name) } };
+  }) };
+}
+
+/**
+ * Search a catalog for the options a query describes. The query is split into terms at whitespace and periods, so `motion.detect` and `motion detect` search
+ * alike, and case is ignored throughout. An option matches when every term matches one of its fields; see the module overview for what a term matches and how
+ * results rank.
+ *
+ * @param args
+ * @param args.index - The search index, built by {@link buildSearchIndex}.
+ * @param args.limit - Optional. The most results to return. Defaults to every match.
+ * @param args.query - The text to search for. A query with no terms matches nothing.
+ *
+ * @returns The matching options, best first, with the text each matched.
+ *
+ * @example
+ *
+ * ```ts
+ * const index = buildSearchIndex(featureOptions.catalog);
+ *
+ * // Finds "Motion.Detect" despite the typo, with the misspelled word marked in its description.
+ * const [ best ] = searchFeatureOptions({ index, query: "motoin" });
+ * ```
+ *
+ * @category Feature Options
+ */
+export function searchFeatureOptions(
+  { index, limit = Infinity, query }: { index: FeatureOptionSearchIndex; limit?: number; query: string }
+): FeatureOptionSearchResult[] {
+
+  const terms = query.toLowerCase().split(/[\s.]+/).filter((term) => term.length);
+
+  if(!terms.length) {
+
+    return [];
+  }
+
+  const results: FeatureOptionSearchResult[] = [];
+
+  for(const entry of index.entries) {
+
+    const ranges = new Map<FeatureOptionSearchField, { end: number; start: number }[]>();
+    let score = 0;
+
+    for(const term of terms) {
+
+      let best = 0;
+
+      // Every field a term matches is marked, but only the best of them counts toward the score, so an option is not ranked up for repeating a word in four places.
+      for(const [ field, weight ] of FIELD_WEIGHTS) {
+
+        const match = matchTerm(term, entry.text[field], entry.words[field]);
+
+        if(match) {
+
+          best = Math.max(best, match.quality * weight);
+          ranges.set(field, [ ...(ranges.get(field) ?? []), match ]);
+        }
+      }
+
+      if(!best) {
+
+        score = 0;
+
+        break;
+      }
+
+      score += best;
+    }
+
+    if(score) {
+
+      const highlights = FIELD_WEIGHTS.flatMap(([field]) => mergeRanges(ranges.get(field) ?? []).map(({ end, start }) => ({ end, field, start })));
+
+      results.push({ category: entry.category, highlights, option: entry.option, score, text: entry.text });
+    }
+  }
+
+  // The sort is stable, so results that score alike keep catalog order.
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Split text into the words a search compares a misspelled term against, each with the offset it starts at.
+function splitWords(text: string): { start: number; word: string }[] {
+
+  return [...text.matchAll(WORD_PATTERN)].map((match) => ({ start: match.index, word: match[0].toLowerCase() }));
+}
+
+// Match one lowercased term against a field, returning the best match's range and quality. The exact kinds are tried first, best first: the term as a whole word,
+// as the start of one, and anywhere at all. Only a term found nowhere verbatim is compared against the words it may misspell, and then against each word's start as
+// well as the whole word, so a misspelling of a word still being typed matches too.
+function matchTerm(term: string, text: string, words: readonly { start: number; word: string }[]): { end: number; quality: number; start: number } | undefined {
+
+  const whole = words.find(({ word }) => word === term);
+
+  if(whole) {
+
+    return { end: whole.start + term.length, quality: MATCH_QUALITY.word, start: whole.start };
+  }
+
+  const prefix = words.find(({ word }) => word.startsWith(term));
+
+  if(prefix) {
+
+    return { end: prefix.start + term.length, quality: MATCH_QUALITY.prefix, start: prefix.start };
+  }
+
+  const start = text.toLowerCase().indexOf(term);
+
+  if(start !== -1) {
+
+    return { end: start + term.length, quality: MATCH_QUALITY.substring, start };
+  }
+
+  const allowed = (term.length >= FUZZY_TWO_EDIT_LENGTH) ? 2 : (term.length >= FUZZY_ONE_EDIT_LENGTH) ? 1 : 0;
+  let best: { end: number; quality: number; start: number } | undefined;
+  let fewest = allowed + 1;
+
+  for(const { start: wordStart, word } of words) {
+
+    for(const candidate of new Set([ word, word.slice(0, term.length) ])) {
+
+      const edits = editDistance(term, candidate, allowed);
+
+      if(edits < fewest) {
+
+        fewest = edits;
+        best = { end: wordStart + candidate.length, quality: MATCH_QUALITY.fuzzy - (FUZZY_EDIT_PENALTY * edits), start: wordStart };
+      }
+    }
+  }
+
+  return best;
+}
+
+// The optimal string alignment distance between two strings: the fewest insertions, deletions, substitutions, and swaps of neighboring characters that turn one into
+// the other. Anything past the limit is as good as no match, so a row whose every cell exceeds it stops the walk early and reports one past the limit.
+function editDistance(a: string, b: string, limit: number): number {
+
+  if(Math.abs(a.length - b.length) > limit) {
+
+    return limit + 1;
+  }
+
+  let previous: number[] = [];
+  let current = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for(let i = 1; i <= a.length; i++) {
+
+    const before = previous;
+
+    previous = current;
+    current = [i];
+
+    for(let j = 1; j <= b.length; j++) {
+
+      const cost = (a[i - 1] === b[j - 1]) ? 0 : 1;
+
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+
+      if((i > 1) && (j > 1) && (a[i - 1] === b[j - 2]) && (a[i - 2] === b[j - 1])) {
+
+        current[j] = Math.min(current[j] ?? 0, (before[j - 2] ?? 0) + 1);
+      }
+    }
+
+    if(Math.min(...current) > limit) {
+
+      return limit + 1;
+    }
+  }
+
+  return Math.min(current[b.length] ?? 0, limit + 1);
+}
+
+// Sort a field's matched ranges and merge those that overlap or touch, so a caller marking them never nests one mark inside another.
+function mergeRanges(ranges: readonly { end: number; start: number }[]): { end: number; start: number }[] {
+
+  const merged: { end: number; start: number }[] = [];
+
+  for(const { end, start } of [...ranges].sort((a, b) => a.start - b.start)) {
+
+    const last = merged.at(-1);
+
+    if(last && (start <= last.end)) {
+
+      last.end = Math.max(last.end, end);
+    } else {
+
+      merged.push({ end, start });
+    }
+  }
+
+  return merged;
+}
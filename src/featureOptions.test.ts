@@ -7,9 +7,12 @@
  * first-write-wins rule for duplicate entries in configuredOptions, the scope hierarchy's "device overrides controller overrides global overrides default" contract,
  * and the edge-case surfaces of `value()` (null, undefined, fallback-to-default).
  */
-import type { FeatureCategoryEntry, FeatureOptionEntry, FeatureOptionFormatter } from "./featureOptions.ts";
-import { applyClearOption, applySetOption, buildCatalogIndex, buildConfigIndex, enumerateConfiguredEntries, expandOption, getDefaultValue, hasValueContent,
-  isDependencyMet, isValueOption, normalizeConfiguredOptions, optionExists, resolveScope } from "./featureOptions.ts";
+import type { FeatureCategoryEntry, FeatureOptionConstraint, FeatureOptionEntry, FeatureOptionFormatter, FeatureOptionMigration } from "./featureOptions.ts";
+import { applyClearOption, applyProfile, applySetOption, applySetOptionWithReport, buildAliasIndex, buildCatalogIndex, buildConfigIndex, composeOptionExample,
+  diffConfiguredOptions, enumerateConfiguredEntries, expandOption, explainOption, extractProfile, getDefaultValue, hasValueContent, isDependencyMet, isOptionSupported,
+  isValueOption, lintConfiguredOptions, localizeCatalog, migrateConfiguredOptions, normalizeConfiguredOptions, optionExists, parseConfiguredEntry, parseOptionOverrides,
+  presetProfile, renameConfiguredId, requiresRestart, resolveScope, staleConfiguredIds, summarizeDeviations, validateConfiguredOptions,
+  validateOptionValue } from "./featureOptions.ts";
 import { describe, test } from "node:test";
 import { FeatureOptions } from "./featureOptions.ts";
 import assert from "node:assert/strict";
@@ -697,6 +700,19 @@ describe("FeatureOptions - logFeature (deviation logging)", () => {
     assert.deepEqual(log.entries, [{ level: "info", message: "%s enabled at %s.", params: [ "Bandwidth", "1.5 Mbps" ] }]);
   });
 
+  test("renders the value in the instance's locale", () => {
+
+    const fo = new FeatureOptions([{ description: "Stream Options", name: "Stream" }],
+      { Stream: [{ default: false, defaultValue: 1500000, description: "Bandwidth budget (bps).", name: "Bandwidth", render: "bps" }] }, ["Enable.Stream.Bandwidth"]);
+    const log = capturingLog();
+
+    fo.locale = "de";
+    fo.logFeature("Stream.Bandwidth", "Bandwidth", log);
+
+    assert.equal(log.entries[0]?.message, "%s enabled at %s.");
+    assert.equal(String(log.entries[0].params[1]).replace(/\s/gu, " "), "1,5 Mb/s");
+  });
+
   test("respects the device scope for value-centric options with both axes deviating at the device", () => {
 
     // Value-centric scope interaction: a default-off option enabled at a specific device with an explicit value emits the enabled-at message for that device only;
@@ -1643,7 +1659,7 @@ describe("FeatureOptions - browser-safe runtime-import boundary", () => {
   // to `dist/ui/featureOptions.js` for the browser to load. Every relative value-import in `featureOptions.ts` therefore has to resolve - at browser runtime - to a
   // sibling file that the copy step ALSO ships into `dist/ui/`. Importing from `./util.ts` is the canonical violation: `util.ts` is server-side (drags in
   // `node:timers/promises`) and the build pipeline does not ship it next to the orchestrator. This test reads the source file and asserts every relative
-  // value-import points at a module on the allowlist - currently just `./formatters.ts`, the one browser-safe module the pipeline mirrors alongside
+  // value-import points at a module on the allowlist - currently `./abort.ts` and `./formatters.ts`, the browser-safe modules the pipeline mirrors alongside
   // `featureOptions.js`. Adding a new relative value-import to featureOptions.ts means EITHER pointing it at another browser-safe module the copy step ALSO ships,
   // OR widening the allowlist here intentionally and registering the new artifact in the `BROWSER_MODULES` list the copy step is driven from.
 
@@ -1654,7 +1670,7 @@ describe("FeatureOptions - browser-safe runtime-import boundary", () => {
     // Match `import { ... } from "./module.ts";` lines. The `import type` form is excluded by the negative lookahead - those are erased at emit and never reach the
     // browser. The capture group pulls the relative module specifier so we can compare it against the allowlist.
     const valueImportRe = /^import(?!\s+type\b)\s+[^;]+from\s+"(\.[^"]+)";/gm;
-    const allowed = new Set(["./formatters.ts"]);
+    const allowed = new Set([ "./abort.ts", "./formatters.ts" ]);
     const found = new Set<string>();
 
     for(const match of source.matchAll(valueImportRe)) {
@@ -1693,6 +1709,10 @@ describe("FeatureOptions - pure functional core", () => {
       assert.deepEqual(catalog.groupParents, { "Audio.Mute": "Audio", "Motion.Sensitivity": "Motion.Detect" }, "child-to-parent reverse index");
       assert.deepEqual(catalog.groups["Motion.Detect"], ["Motion.Sensitivity"], "parent-to-children forward index");
       assert.deepEqual(catalog.sortedValueOptionNames, [...catalog.sortedValueOptionNames].sort((a, b) => b.length - a.length), "sorted longest-first");
+      const declared = CATEGORIES.flatMap((category) => (OPTIONS[category.name] ?? []).map((option) => expandOption(category, option)));
+
+      assert.deepEqual(Object.values(catalog.optionNames), declared, "declared names in catalog order");
+      assert.equal(catalog.optionNames["motion.sensitivity"], "Motion.Sensitivity", "declared name by lowercased key");
     });
 
     test("preserves the input categories and options references on the resulting index", () => {
@@ -2056,3 +2076,1265 @@ describe("FeatureOptions - enumerateConfiguredEntries", () => {
     ], "both entries the user wrote are reported; the first-write-wins rule belongs to the lookup index");
   });
 });
+
+describe("FeatureOptions - parseConfiguredEntry", () => {
+
+  const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+
+  test("reads an entry in either grammar, naming the option in the catalog's casing and the id and value in the entry's", () => {
+
+    assert.deepEqual(parseConfiguredEntry(catalog, "Enable.Audio.Volume.Kitchen=50"),
+      { enabled: true, grammar: "canonical", id: "Kitchen", known: true, option: "Audio.Volume", value: "50" });
+    assert.deepEqual(parseConfiguredEntry(catalog, "enable.audio.volume.Kitchen.50"),
+      { enabled: true, grammar: "legacy", id: "Kitchen", known: true, option: "Audio.Volume", value: "50" });
+    assert.deepEqual(parseConfiguredEntry(catalog, "Enable.Audio.Volume.50"),
+      { enabled: true, grammar: "legacy", id: "", known: true, option: "Audio.Volume", value: "50" }, "a single trailing legacy segment reads as its value");
+  });
+
+  test("reads an entry carrying no value under the canonical grammar, with no value property", () => {
+
+    assert.deepEqual(parseConfiguredEntry(catalog, "Disable.motion.detect.ABC123"),
+      { enabled: false, grammar: "canonical", id: "ABC123", known: true, option: "Motion.Detect" });
+    assert.deepEqual(parseConfiguredEntry(catalog, "Enable.Audio.Volume"), { enabled: true, grammar: "canonical", id: "", known: true, option: "Audio.Volume" });
+    assert.deepEqual(parseConfiguredEntry(catalog, "Disable.Audio.Volume.Kitchen"), { enabled: false, grammar: "canonical", id: "Kitchen", known: true,
+      option: "Audio.Volume" });
+  });
+
+  test("reports an unknown option with its whole address, and rejects an entry outside the grammar", () => {
+
+    assert.deepEqual(parseConfiguredEntry(catalog, "Enable.Motion.Detct.ABC123"), { enabled: true, grammar: "canonical", id: "", known: false,
+      option: "Motion.Detct.ABC123" });
+    assert.deepEqual(parseConfiguredEntry(catalog, "Enable.Video.Quality = high"), { enabled: true, grammar: "canonical", id: "", known: false, option: "Video.Quality",
+      value: "high" });
+    assert.equal(parseConfiguredEntry(catalog, "Toggle.Motion.Detect"), null);
+    assert.equal(parseConfiguredEntry(catalog, "EnableMotion"), null);
+  });
+
+  test("agrees with what the instance resolves, through the class delegate", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Enable.Network.Mtu.Router.9000"]);
+
+    assert.deepEqual(fo.parseEntry("Enable.Network.Mtu.Router.9000"), { enabled: true, grammar: "legacy", id: "Router", known: true, option: "Network.Mtu",
+      value: "9000" });
+    assert.equal(fo.value("Network.Mtu", "Router"), "9000");
+  });
+});
+
+describe("FeatureOptions - typed value schemas", () => {
+
+  // One option per value-type variant, each with a default that satisfies its own declaration.
+  const TYPED_CATEGORIES: FeatureCategoryEntry[] = [{ description: "Video Options", name: "Video" }];
+  const TYPED_OPTIONS: Record<string, FeatureOptionEntry[]> = {
+
+    Video: [
+
+      { default: false, defaultValue: 2000, description: "Bitrate, in kbps.", name: "Bitrate", valueType: { max: 20000, min: 100, type: "integer" } },
+      { default: false, defaultValue: 1.5, description: "Gain multiplier.", name: "Gain", valueType: { type: "float" } },
+      { default: false, defaultValue: "30s", description: "Clip length.", name: "Clip", valueType: { max: 300, min: 5, type: "duration" } },
+      { default: false, defaultValue: "Medium", description: "Quality preset.", name: "Quality", valueType: { type: "enum", values: [ "Low", "Medium", "High" ] } },
+      { default: false, defaultValue: "", description: "Stream source.", name: "Source", valueType: { protocols: [ "rtsp", "rtsps" ], type: "url" } },
+      { default: false, defaultValue: "AA", description: "Channel code.", name: "Channel", valueType: { pattern: "[A-Z]{2}", type: "regex" } }
+    ]
+  };
+  const catalog = buildCatalogIndex(TYPED_CATEGORIES, TYPED_OPTIONS);
+
+  test("validateOptionValue accepts values the declaration admits and names the reason for the rest", () => {
+
+    assert.equal(validateOptionValue(catalog, "Video.Bitrate", "4000"), undefined);
+    assert.equal(validateOptionValue(catalog, "Video.Bitrate", "fast"), "Expected a whole number between 100 and 20000.");
+    assert.equal(validateOptionValue(catalog, "Video.Bitrate", "12.5"), "Expected a whole number between 100 and 20000.", "an integer rejects a fraction");
+    assert.equal(validateOptionValue(catalog, "Video.Bitrate", "50"), "Expected a whole number between 100 and 20000.", "bounds are enforced");
+    assert.equal(validateOptionValue(catalog, "Video.Gain", "2.25"), undefined);
+    assert.equal(validateOptionValue(catalog, "Video.Gain", "1e2"), undefined, "exponent notation is a number");
+    assert.equal(validateOptionValue(catalog, "Video.Gain", "2.25x"), "Expected a number.");
+    assert.equal(validateOptionValue(catalog, "Video.Clip", "1.5m"), undefined);
+    assert.equal(validateOptionValue(catalog, "Video.Clip", "2h"), "Expected a duration between 5 and 300 seconds, such as 30s, 5m, or 2h.");
+    assert.equal(validateOptionValue(catalog, "Video.Quality", "high"), undefined, "enum matching folds case");
+    assert.equal(validateOptionValue(catalog, "Video.Quality", "ultra"), "Expected one of: Low, Medium, High.");
+    assert.equal(validateOptionValue(catalog, "Video.Source", "rtsps://camera.local:7441/abc"), undefined);
+    assert.equal(validateOptionValue(catalog, "Video.Source", "http://camera.local"), "Expected a URL using rtsp or rtsps.");
+    assert.equal(validateOptionValue(catalog, "Video.Source", "camera.local"), "Expected a URL using rtsp or rtsps.");
+    assert.equal(validateOptionValue(catalog, "Video.Channel", "BX"), undefined);
+    assert.equal(validateOptionValue(catalog, "Video.Channel", "BXY"), "Expected a value matching [A-Z]{2}.", "the pattern is anchored at both ends");
+  });
+
+  test("validateOptionValue passes a contentless value and any value of an undeclared option", () => {
+
+    assert.equal(validateOptionValue(catalog, "Video.Bitrate", " "), undefined);
+    assert.equal(validateOptionValue(buildCatalogIndex(CATEGORIES, OPTIONS), "Audio.Volume", "loud"), undefined);
+  });
+
+  test("an invalid value is inert: resolution walks past it to the next scope down", () => {
+
+    const fo = new FeatureOptions(TYPED_CATEGORIES, TYPED_OPTIONS, [ "Enable.Video.Bitrate.ABC=fast", "Enable.Video.Bitrate=4000" ]);
+
+    assert.equal(fo.value("Video.Bitrate", "ABC"), "4000", "the device entry's invalid value is skipped in favor of the global one");
+    assert.equal(fo.scope("Video.Bitrate", "ABC"), "global");
+    assert.equal(fo.getInteger("Video.Bitrate", "ABC"), 4000);
+  });
+
+  test("an enum member reads back in the catalog's spelling and normalizes into it", () => {
+
+    const fo = new FeatureOptions(TYPED_CATEGORIES, TYPED_OPTIONS, ["Enable.Video.Quality.ABC=HIGH"]);
+
+    assert.equal(fo.value("Video.Quality", "ABC"), "High");
+    assert.deepEqual(normalizeConfiguredOptions(catalog, [ "Enable.Video.Quality.ABC=HIGH", "Enable.Video.Quality.DEF.low" ]),
+      [ "Enable.Video.Quality.ABC=High", "Enable.Video.Quality.DEF=Low" ]);
+    assert.deepEqual(applySetOption({ args: { enabled: true, id: "ABC", option: "Video.Quality", value: "medium" }, catalog, configuredOptions: [] }),
+      ["Enable.Video.Quality.ABC=Medium"], "the writer composes the declared spelling too");
+  });
+
+  test("normalization modernizes the form of an invalid value without touching the value", () => {
+
+    assert.deepEqual(normalizeConfiguredOptions(catalog, ["Enable.Video.Bitrate.ABC.fast"]), ["Enable.Video.Bitrate.ABC=fast"]);
+  });
+
+  test("getDuration reads a duration value as seconds, honoring unit suffixes", () => {
+
+    const fo = new FeatureOptions(TYPED_CATEGORIES, TYPED_OPTIONS, [ "Enable.Video.Clip.A=90", "Enable.Video.Clip.B=1.5m", "Enable.Video.Clip.C=7500ms",
+      "Enable.Video.Clip" ]);
+
+    assert.equal(fo.getDuration("Video.Clip", "A"), 90);
+    assert.equal(fo.getDuration("Video.Clip", "B"), 90);
+    assert.equal(fo.getDuration("Video.Clip", "C"), 7.5);
+    assert.equal(fo.getDuration("Video.Clip"), undefined, "enabled with no value given");
+  });
+
+  test("validateConfiguredOptions reports each failing entry with its position", () => {
+
+    const configuredOptions = [ "Enable.Video.Bitrate=4000", "Enable.Video.Bitrate.ABC=fast", "Enable.Motion.Detect", "Enable.Video.Quality.DEF.ultra" ];
+
+    assert.deepEqual(validateConfiguredOptions(catalog, configuredOptions), [
+
+      {
+
+        code: "invalid-value",
+        entry: "Enable.Video.Bitrate.ABC=fast",
+        fix: { description: "Correct the value, or remove the entry. Expected a whole number between 100 and 20000.", replacement: [] },
+        index: 1,
+        message: "The value \"fast\" configured for Video.Bitrate is invalid and will be ignored. Expected a whole number between 100 and 20000.",
+        option: "Video.Bitrate",
+        severity: "error"
+      },
+      {
+
+        code: "invalid-value",
+        entry: "Enable.Video.Quality.DEF.ultra",
+        fix: { description: "Correct the value, or remove the entry. Expected one of: Low, Medium, High.", replacement: [] },
+        index: 3,
+        message: "The value \"ultra\" configured for Video.Quality is invalid and will be ignored. Expected one of: Low, Medium, High.",
+        option: "Video.Quality",
+        severity: "error"
+      }
+    ]);
+  });
+
+  test("a declaration that cannot hold throws at catalog-build time", () => {
+
+    const build = (option: FeatureOptionEntry): unknown => buildCatalogIndex(TYPED_CATEGORIES, { Video: [option] });
+
+    assert.throws(() => build({ default: false, description: "Boolean.", name: "Flag", valueType: { type: "integer" } }), /which is not value-centric/);
+    assert.throws(() => build({ default: false, defaultValue: "", description: "Bad pattern.", name: "Code", valueType: { pattern: "[", type: "regex" } }),
+      /invalid pattern declared on option "Video.Code"/);
+    assert.throws(() => build({ default: false, defaultValue: 5, description: "Crossed.", name: "Level", valueType: { max: 1, min: 10, type: "integer" } }),
+      /minimum greater than its maximum/);
+    assert.throws(() => build({ default: false, defaultValue: 0, description: "Level.", name: "Level", valueType: { min: 1, type: "integer" } }),
+      /default value "0" of option "Video.Level" fails its declared value type/);
+  });
+});
+
+describe("FeatureOptions - lintConfiguredOptions", () => {
+
+  const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+
+  // Most tests care about which findings an array produces, not their full wording, so this projects each finding down to its code and position.
+  const codes = (configuredOptions: string[], lintCatalog = catalog): string[] => {
+
+    return lintConfiguredOptions(lintCatalog, configuredOptions).map((finding) => finding.code + "@" + finding.index.toString());
+  };
+
+  test("a clean array produces no findings", () => {
+
+    assert.deepEqual(lintConfiguredOptions(catalog, [ "Disable.Motion.Detect", "Enable.Audio.Volume.ABC=75", "Enable.Network.Mtu=9000" ]), []);
+  });
+
+  test("an entry that is not a feature option entry is malformed and removable", () => {
+
+    assert.deepEqual(lintConfiguredOptions(catalog, ["Motion.Detect"]), [{
+
+      code: "malformed-entry",
+      entry: "Motion.Detect",
+      fix: { description: "Begin the entry with Enable or Disable, or remove it.", replacement: [] },
+      index: 0,
+      message: "\"Motion.Detect\" is not a feature option entry and will be ignored.",
+      option: "",
+      severity: "error"
+    }]);
+  });
+
+  test("an unknown option suggests the closest catalog name, keeping the id and the value", () => {
+
+    const [ scoped, valued ] = lintConfiguredOptions(catalog, [ "Enable.Motion.Detcet.ABC", "Enable.Audio.Volum=80" ]);
+
+    assert.equal(scoped?.code, "unknown-option");
+    assert.deepEqual(scoped.fix, { description: "Did you mean Motion.Detect?", replacement: ["Enable.Motion.Detect.ABC"] });
+    assert.deepEqual(valued?.fix, { description: "Did you mean Audio.Volume?", replacement: ["Enable.Audio.Volume=80"] });
+  });
+
+  test("an unknown option with nothing close offers removal", () => {
+
+    const [finding] = lintConfiguredOptions(catalog, ["Enable.Garage.Door"]);
+
+    assert.equal(finding?.code, "unknown-option");
+    assert.deepEqual(finding.fix, { description: "Remove the entry.", replacement: [] });
+  });
+
+  test("a repeated entry is a duplicate, and a contradicting one is a conflict naming the winner", () => {
+
+    const findings = lintConfiguredOptions(catalog, [ "Enable.Motion.Detect.ABC", "enable.motion.detect.abc", "Disable.Motion.Detect.ABC",
+      "Enable.Audio.Volume=60", "Enable.Audio.Volume=70", "Enable.Motion.Detect" ]);
+
+    assert.deepEqual(findings.map((finding) => finding.code + "@" + finding.index.toString()), [ "duplicate-entry@1", "conflicting-entry@2",
+      "conflicting-entry@4" ]);
+    assert.equal(findings[1]?.message, "Motion.Detect is already configured at ABC by \"Enable.Motion.Detect.ABC\", which takes precedence, so this entry is ignored.");
+    assert.equal(findings[2]?.message, "Audio.Volume is already configured globally by \"Enable.Audio.Volume=60\", which takes precedence, so this entry is ignored.");
+  });
+
+  test("an enabled child whose parent resolves disabled at the same scope is an unmet dependency with no mechanical fix", () => {
+
+    const findings = lintConfiguredOptions(catalog, [ "Disable.Motion.Detect.ABC", "Enable.Motion.Sensitivity.ABC", "Enable.Motion.Sensitivity.DEF" ]);
+
+    assert.deepEqual(findings.map((finding) => finding.code + "@" + finding.index.toString()), ["unmet-dependency@1"]);
+    assert.equal(findings[0]?.fix.replacement, undefined);
+    assert.equal(findings[0]?.severity, "warning");
+  });
+
+  test("a legacy dot form is reported as info with the canonical rewrite", () => {
+
+    const [finding] = lintConfiguredOptions(catalog, ["Enable.Audio.Volume.ABC.75"]);
+
+    assert.equal(finding?.code, "legacy-form");
+    assert.equal(finding.severity, "info");
+    assert.deepEqual(finding.fix.replacement, ["Enable.Audio.Volume.ABC=75"]);
+  });
+
+  test("an entry at a level the option does not declare is reported", () => {
+
+    const scopedCatalog = buildCatalogIndex(SCOPED_CATEGORIES, SCOPED_OPTIONS);
+
+    assert.deepEqual(codes([ "Enable.Scoped.DeviceOnly", "Enable.Scoped.DeviceOnly.ABC", "Enable.Scoped.GlobalOnly.ABC", "Enable.Scoped.ControllerOnly.ABC" ],
+      scopedCatalog), [ "scope-not-declared@0", "scope-not-declared@2" ]);
+  });
+
+  test("an invalid value is reported once and does not shadow a later valid entry", () => {
+
+    const typedCatalog = buildCatalogIndex([{ description: "Video Options", name: "Video" }],
+      { Video: [{ default: false, defaultValue: 2000, description: "Bitrate.", name: "Bitrate", valueType: { max: 20000, min: 100, type: "integer" } }] });
+
+    assert.deepEqual(codes([ "Enable.Video.Bitrate=fast", "Enable.Video.Bitrate=4000" ], typedCatalog), ["invalid-value@0"]);
+  });
+
+  test("the class façade lints its own configured options", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Enable.Motion.Detect", "Enable.Motion.Detect" ]);
+
+    assert.deepEqual(fo.lint().map((finding) => finding.code), ["duplicate-entry"]);
+  });
+});
+
+describe("FeatureOptions - catalog migrations", () => {
+
+  // The catalog as it stands at version 3: Video.Transcode was split into Hardware and Quality in version 2, Video.Rate was renamed twice (to Video.Fps, then to
+  // Video.FrameRate), the Quality values were respelled in version 3, and Video.Legacy was retired.
+  const MIGRATED_CATEGORIES: FeatureCategoryEntry[] = [{ description: "Video Options", name: "Video" }];
+  const MIGRATED_OPTIONS: Record<string, FeatureOptionEntry[]> = {
+
+    Video: [
+
+      { default: false, description: "Hardware transcoding.", name: "Transcode.Hardware" },
+      { default: false, defaultValue: "Medium", description: "Transcode quality.", name: "Transcode.Quality" },
+      { default: false, defaultValue: 30, description: "Frame rate.", name: "FrameRate" }
+    ]
+  };
+  const MIGRATIONS: FeatureOptionMigration[] = [
+
+    { from: "Video.Fps", kind: "rename", to: "Video.FrameRate", version: 2 },
+    { kind: "remap", option: "Video.Transcode.Quality", values: { hi: "High", lo: "Low" }, version: 3 },
+    { from: "Video.Rate", kind: "rename", to: "Video.Fps", version: 1 },
+    { from: "Video.Transcode", kind: "split", to: [ "Video.Transcode.Hardware", "Video.Transcode.Quality" ], version: 2 },
+    { from: "Video.Legacy", kind: "remove", message: "Video.Legacy is no longer supported and has been removed.", version: 3 }
+  ];
+
+  const catalog = buildCatalogIndex(MIGRATED_CATEGORIES, MIGRATED_OPTIONS, { migrations: MIGRATIONS, version: 3 });
+
+  test("a rename carries the action, scope id, and value over, and chains through later renames in version order", () => {
+
+    const { applied, configuredOptions } = migrateConfiguredOptions(catalog, [ "Enable.Video.Rate.ABC=15", "Disable.Video.Fps" ]);
+
+    assert.deepEqual(configuredOptions, [ "Enable.Video.FrameRate.ABC=15", "Disable.Video.FrameRate" ]);
+    assert.deepEqual(applied.map((record) => [ record.index, record.entry, record.replacement ]), [
+
+      [ 0, "Enable.Video.Rate.ABC=15", ["Enable.Video.Fps.ABC=15"] ],
+      [ 0, "Enable.Video.Fps.ABC=15", ["Enable.Video.FrameRate.ABC=15"] ],
+      [ 1, "Disable.Video.Fps", ["Disable.Video.FrameRate"] ]
+    ]);
+    assert.equal(applied[0]?.message, "Video.Rate has been renamed to Video.Fps.");
+  });
+
+  test("a split fans out to every successor, and only a value-centric successor takes the value", () => {
+
+    const { applied, configuredOptions } = migrateConfiguredOptions(catalog, ["Enable.Video.Transcode.ABC=hi"]);
+
+    assert.deepEqual(configuredOptions, [ "Enable.Video.Transcode.Hardware.ABC", "Enable.Video.Transcode.Quality.ABC=High" ]);
+    assert.equal(applied[0]?.message, "Video.Transcode has been split into Video.Transcode.Hardware and Video.Transcode.Quality.");
+    assert.equal(applied[1]?.message, "The value \"hi\" for Video.Transcode.Quality is now \"High\".");
+  });
+
+  test("an entry already written against a successor's name is never mistaken for the former option plus a scope id", () => {
+
+    const configuredOptions = [ "Enable.Video.Transcode.Hardware", "Enable.Video.Transcode.Quality=Low" ];
+
+    assert.equal(migrateConfiguredOptions(catalog, configuredOptions).configuredOptions, configuredOptions, "nothing applied, so the reference comes back unchanged");
+  });
+
+  test("a removal drops the entry and reports the catalog's message", () => {
+
+    const { applied, configuredOptions } = migrateConfiguredOptions(catalog, [ "Enable.Video.Legacy.ABC", "Enable.Video.FrameRate=25" ]);
+
+    assert.deepEqual(configuredOptions, ["Enable.Video.FrameRate=25"]);
+    assert.deepEqual(applied.map((record) => [ record.index, record.message, record.replacement ]),
+      [[ 0, "Video.Legacy is no longer supported and has been removed.", [] ]]);
+  });
+
+  test("a remap matches the old value without regard to case and leaves other values alone", () => {
+
+    assert.deepEqual(migrateConfiguredOptions(catalog, [ "Enable.Video.Transcode.Quality.ABC=LO", "Enable.Video.Transcode.Quality=Medium" ]).configuredOptions,
+      [ "Enable.Video.Transcode.Quality.ABC=Low", "Enable.Video.Transcode.Quality=Medium" ]);
+  });
+
+  test("normalizeConfiguredOptions migrates before it modernizes", () => {
+
+    assert.deepEqual(normalizeConfiguredOptions(catalog, [ "Enable.Video.Rate.ABC.15", "Enable.Video.FrameRate.DEF.20" ]),
+      [ "Enable.Video.FrameRate.ABC=15", "Enable.Video.FrameRate.DEF=20" ]);
+  });
+
+  test("a set replaces an entry still written under the option's former name rather than leaving it to shadow the new one", () => {
+
+    const next = applySetOption({ args: { enabled: true, id: "ABC", option: "Video.FrameRate", value: 60 }, catalog, configuredOptions: ["Enable.Video.Fps.ABC=15"] });
+
+    assert.deepEqual(next, ["Enable.Video.FrameRate.ABC=60"]);
+    assert.deepEqual(applyClearOption({ args: { id: "ABC", option: "Video.FrameRate" }, catalog, configuredOptions: ["Enable.Video.Fps.ABC=15"] }), []);
+  });
+
+  test("FeatureOptions resolves through the migrations without rewriting the configured array, and reports what applied", () => {
+
+    const configured = [ "Enable.Video.Rate.ABC=15", "Enable.Video.Legacy" ];
+    const fo = new FeatureOptions(MIGRATED_CATEGORIES, MIGRATED_OPTIONS, configured, { migrations: MIGRATIONS, version: 3 });
+
+    assert.equal(fo.value("Video.FrameRate", "ABC"), "15");
+    assert.equal(fo.configuredOptions, configured, "reading never rewrites the caller's array");
+    assert.equal(fo.migrations.length, 3);
+
+    fo.setOption({ enabled: true, option: "Video.Transcode.Hardware" });
+
+    assert.deepEqual(fo.configuredOptions, [ "Enable.Video.FrameRate.ABC=15", "Enable.Video.Transcode.Hardware" ], "a save persists the migrated array");
+    assert.deepEqual(fo.migrations, [], "nothing is pending once the array is current");
+
+    // A catalog setter rebuilds the index from the same settings, so the history survives it.
+    fo.configuredOptions = ["Enable.Video.Fps"];
+    fo.options = MIGRATED_OPTIONS;
+
+    assert.equal(fo.test("Video.FrameRate"), true);
+  });
+
+  test("the linter reports a migrated entry with its rewrite, and a removed one with its removal", () => {
+
+    const findings = lintConfiguredOptions(catalog, [ "Enable.Video.Transcode", "Enable.Video.Legacy" ]);
+
+    assert.deepEqual(findings.map((finding) => [ finding.code, finding.severity, finding.option, finding.fix.replacement ]), [
+
+      [ "migrated-entry", "info", "Video.Transcode", [ "Enable.Video.Transcode.Hardware", "Enable.Video.Transcode.Quality" ] ],
+      [ "migrated-entry", "warning", "Video.Legacy", [] ]
+    ]);
+  });
+
+  test("a migration that could never apply throws at catalog-build time", () => {
+
+    const build = (migration: FeatureOptionMigration, version = 3): unknown => buildCatalogIndex(MIGRATED_CATEGORIES, MIGRATED_OPTIONS, { migrations: [migration],
+      version });
+
+    assert.throws(() => build({ from: "Video.Rate", kind: "rename", to: "Video.FrameRate", version: 4 }), /declares version 4, which the catalog version 3/);
+    assert.throws(() => build({ from: "Video.FrameRate", kind: "rename", to: "Video.Fps", version: 1 }), /names an option the catalog still declares/);
+    assert.throws(() => build({ kind: "remap", option: "Video.Transcode.Hardware", values: {}, version: 1 }), /which is not a value-centric catalog option/);
+    assert.throws(() => build({ from: "Video.Rate", kind: "rename", to: "Video.FrameRate", version: 1 }, 0), /catalog version 0 does not reach/);
+    assert.throws(() => build({ from: "Video.Rate", kind: "rename", to: "Video.FrameRat", version: 1 }), /moves entries to "Video.FrameRat", which is not a catalog/);
+    assert.throws(() => build({ from: "Video.Transcode", kind: "split", to: [ "Video.Transcode.Hardware", "Video.Transcode.Qualty" ], version: 1 }),
+      /moves entries to "Video.Transcode.Qualty"/);
+  });
+
+  test("a rename target may be the former name of a later migration, which is how a chain of renames is declared", () => {
+
+    const chain: FeatureOptionMigration[] = [
+
+      { from: "Video.Fps", kind: "rename", to: "Video.FrameRate", version: 2 },
+      { from: "Video.Rate", kind: "rename", to: "Video.Fps", version: 1 }
+    ];
+
+    const reversed = chain.map((migration) => ({ ...migration, version: 3 - migration.version }));
+
+    assert.doesNotThrow(() => buildCatalogIndex(MIGRATED_CATEGORIES, MIGRATED_OPTIONS, { migrations: chain, version: 2 }));
+    assert.throws(() => buildCatalogIndex(MIGRATED_CATEGORIES, MIGRATED_OPTIONS, { migrations: reversed, version: 2 }), /moves entries to "Video.Fps"/,
+      "a chain cannot lead back to a migration that has already applied");
+  });
+});
+
+describe("FeatureOptions - explain", () => {
+
+  test("reports every level walked, the entry that applied, and the entries it shadows", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Enable.Audio.Volume=40", "Enable.Audio.Volume.CTRL=60", "Enable.Audio.Volume.DEV=80" ]);
+    const explanation = fo.explain("audio.volume", "DEV", "CTRL");
+
+    assert.deepEqual(explanation.steps, [
+
+      { enabled: true, entry: "Enable.Audio.Volume.DEV=80", id: "DEV", level: "device", outcome: "applied", value: "80" },
+      { enabled: true, entry: "Enable.Audio.Volume.CTRL=60", id: "CTRL", level: "controller", outcome: "shadowed", value: "60" },
+      { enabled: true, entry: "Enable.Audio.Volume=40", id: undefined, level: "global", outcome: "shadowed", value: "40" }
+    ]);
+    assert.deepEqual(explanation.resolved, { enabled: true, optionValue: "80", scope: "device" });
+    assert.equal(explanation.option, "Audio.Volume", "the catalog's own casing");
+    assert.equal(explanation.message, "Audio.Volume is enabled with the value \"80\" at device DEV by \"Enable.Audio.Volume.DEV=80\".");
+  });
+
+  test("falls back to the catalog default when no level carries an entry", () => {
+
+    const explanation = new FeatureOptions(CATEGORIES, OPTIONS, []).explain("Motion.Detect", "DEV");
+
+    assert.deepEqual(explanation.steps.map((step) => step.outcome), [ "unset", "unset" ]);
+    assert.equal(explanation.default, true);
+    assert.deepEqual(explanation.resolved, { enabled: true, scope: "none" });
+    assert.equal(explanation.message, "Motion.Detect is enabled by default, because no configured entry applies to it.");
+  });
+
+  test("names the entries passed over because the option's declared scopes exclude their level", () => {
+
+    const fo = new FeatureOptions(SCOPED_CATEGORIES, SCOPED_OPTIONS, [ "Enable.Scoped.DeviceOnly", "Enable.Scoped.DeviceOnly.DEV" ]);
+    const explanation = fo.explain("Scoped.DeviceOnly", "OTHER");
+
+    assert.deepEqual(explanation.steps.map((step) => [ step.level, step.outcome, step.entry ]), [
+
+      [ "device", "unset", undefined ],
+      [ "global", "not-declared", "Enable.Scoped.DeviceOnly" ]
+    ]);
+    assert.equal(explanation.message, "Scoped.DeviceOnly is disabled by default, because no configured entry applies to it. \"Enable.Scoped.DeviceOnly\" is ignored, " +
+      "because Scoped.DeviceOnly cannot be configured globally.");
+  });
+
+  test("evaluates the group-parent dependency at the same scope", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Disable.Motion.Detect.DEV", "Enable.Motion.Sensitivity" ]);
+    const explanation = fo.explain("Motion.Sensitivity", "DEV");
+
+    assert.deepEqual(explanation.dependency, { met: false, parent: "Motion.Detect", resolved: { enabled: false, optionValue: undefined, scope: "device" } });
+    assert.equal(explanation.message, "Motion.Sensitivity is enabled globally by \"Enable.Motion.Sensitivity\". It has no effect while Motion.Detect is disabled.");
+    assert.equal(fo.explain("Motion.Sensitivity", "ELSEWHERE").dependency?.met, true, "the parent's default-on applies at every other device");
+  });
+
+  test("agrees with resolveScope for an unknown option and the caller's fallback", () => {
+
+    const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+    const explanation = explainOption({ catalog, configuredOptions: [], defaultReturnValue: true, option: "Motion.Nope" });
+
+    assert.equal(explanation.known, false);
+    assert.deepEqual(explanation.resolved, resolveScope({ catalog, configIndex: buildConfigIndex(catalog, []), defaultReturnValue: true, option: "Motion.Nope" }));
+    assert.equal(explanation.message, "Motion.Nope is not a feature option, so it resolves to enabled.");
+  });
+});
+
+describe("FeatureOptions - watch", () => {
+
+  test("fires with the new and previous state when the effective value changes", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, []);
+    const calls: unknown[] = [];
+
+    fo.watch("Audio.Volume", { device: "DEV" }, (current, previous) => calls.push([ current, previous ]));
+    fo.setOption({ enabled: true, id: "DEV", option: "Audio.Volume", value: 80 });
+
+    assert.deepEqual(calls, [[ { enabled: true, scope: "device", value: "80" }, { enabled: false, scope: "none", value: null } ]]);
+  });
+
+  test("stays quiet when a change moves the scope but not the effective state", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Enable.Audio.Volume=80"]);
+    let calls = 0;
+
+    fo.watch("Audio.Volume", { device: "DEV" }, () => calls++);
+    fo.setOption({ enabled: true, id: "DEV", option: "Audio.Volume", value: 80 });
+    fo.setOption({ enabled: true, option: "Motion.Sensitivity" });
+    fo.clearOption({ id: "OTHER", option: "Audio.Volume" });
+
+    assert.equal(calls, 0);
+    assert.equal(fo.scope("Audio.Volume", "DEV"), "device");
+  });
+
+  test("fires on clearOption and on a configuredOptions replacement", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Disable.Motion.Detect"]);
+    const seen: boolean[] = [];
+
+    fo.watch("Motion.Detect", {}, (current) => seen.push(current.enabled));
+    fo.clearOption({ option: "Motion.Detect" });
+    fo.configuredOptions = ["Disable.Motion.Detect.DEV"];
+    fo.configuredOptions = ["Disable.Motion.Detect"];
+
+    assert.deepEqual(seen, [ true, false ], "the device-only replacement leaves the global address untouched");
+  });
+
+  test("measures each change from the state the watcher last saw", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, []);
+    const values: (string | null | undefined)[] = [];
+
+    fo.watch("Network.Mtu", { controller: "CTRL", device: "DEV" }, (current) => values.push(current.value));
+    fo.setOption({ enabled: true, id: "CTRL", option: "Network.Mtu", value: "9000" });
+    fo.setOption({ enabled: true, id: "DEV", option: "Network.Mtu", value: "9000" });
+    fo.setOption({ enabled: true, id: "DEV", option: "Network.Mtu", value: "1400" });
+
+    assert.deepEqual(values, [ "9000", "1400" ]);
+  });
+
+  test("aborting the signal unsubscribes, and an aborted signal never registers", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, []);
+    const subscription = new AbortController();
+    let calls = 0;
+
+    fo.watch("Motion.Detect", { signal: subscription.signal }, () => calls++);
+    fo.watch("Motion.Detect", { signal: AbortSignal.abort() }, () => calls++);
+    fo.setOption({ enabled: false, option: "Motion.Detect" });
+    subscription.abort();
+    fo.clearOption({ option: "Motion.Detect" });
+
+    assert.equal(calls, 1);
+  });
+
+  test("a watcher unsubscribed by an earlier listener in the same pass does not fire", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, []);
+    const later = new AbortController();
+    let calls = 0;
+
+    fo.watch("Motion.Detect", {}, () => later.abort());
+    fo.watch("Motion.Detect", { signal: later.signal }, () => calls++);
+    fo.setOption({ enabled: false, option: "Motion.Detect" });
+
+    assert.equal(calls, 0);
+  });
+
+  test("runs every listener before rethrowing what they threw", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, []);
+    let reached = false;
+
+    fo.watch("Motion.Detect", {}, () => {
+
+      throw new Error("first");
+    });
+    fo.watch("Motion.Detect", {}, () => {
+
+      reached = true;
+    });
+
+    assert.throws(() => fo.setOption({ enabled: false, option: "Motion.Detect" }), { message: "first" });
+    assert.equal(reached, true);
+    assert.equal(fo.test("Motion.Detect"), false, "the mutation itself completed");
+
+    fo.watch("Motion.Detect", {}, () => {
+
+      throw new Error("second");
+    });
+
+    assert.throws(() => fo.clearOption({ option: "Motion.Detect" }), (error: unknown) => (error instanceof AggregateError) && (error.errors.length === 2));
+  });
+});
+
+describe("FeatureOptions - apply semantics", () => {
+
+  const categories: FeatureCategoryEntry[] = [{ description: "Mqtt Options", name: "Mqtt" }];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    Mqtt: [
+
+      { apply: "restart", default: false, defaultValue: "homebridge", description: "Topic prefix.", name: "Topic" },
+      { apply: "live", default: true, description: "Publish motion events.", name: "Motion" },
+      { default: true, description: "Publish doorbell rings.", name: "Doorbell" }
+    ]
+  };
+
+  test("carries only the declaring entries through the catalog index", () => {
+
+    assert.deepEqual(buildCatalogIndex(categories, options).applies, { "mqtt.motion": "live", "mqtt.topic": "restart" });
+  });
+
+  test("reports a restart only for an option declaring one, folding case", () => {
+
+    const fo = new FeatureOptions(categories, options);
+
+    assert.equal(fo.requiresRestart("mqtt.TOPIC"), true);
+    assert.equal(fo.requiresRestart("Mqtt.Motion"), false);
+    assert.equal(fo.requiresRestart("Mqtt.Doorbell"), false, "an option declaring nothing applies live");
+    assert.equal(requiresRestart(fo.catalog, "Mqtt.Nope"), false, "an unknown option has nothing to wait for");
+  });
+});
+
+describe("FeatureOptions - constraints", () => {
+
+  const categories: FeatureCategoryEntry[] = [{ description: "Recording Options", name: "Record" }];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    Record: [
+
+      { default: false, description: "Record around the clock.", name: "Continuous" },
+      { default: true, description: "Record only around motion events.", name: "EventsOnly" },
+      { default: false, description: "Record only on a schedule.", name: "Scheduled" },
+      { default: false, description: "Keep recordings on the device.", name: "Local" },
+      { default: false, description: "Upload recordings.", name: "Upload" },
+      { default: false, description: "Encrypt uploaded recordings.", name: "Encrypt" }
+    ]
+  };
+
+  const constraints: FeatureOptionConstraint[] = [
+
+    { kind: "exclusive", options: [ "Record.Continuous", "Record.EventsOnly", "Record.Scheduled" ] },
+    { conflicts: ["Record.Upload"], kind: "conflicts", option: "Record.Local" },
+    { kind: "requires", option: "Record.Encrypt", requires: ["Record.Upload"] }
+  ];
+
+  test("clears an exclusive rival enabled at the same scope, and reports it", () => {
+
+    const fo = new FeatureOptions(categories, options, [ "Enable.Record.EventsOnly.CAM1", "Enable.Record.EventsOnly", "Disable.Record.Scheduled.CAM1" ],
+      { constraints });
+
+    assert.deepEqual(fo.setOption({ enabled: true, id: "CAM1", option: "Record.Continuous" }), ["Enable.Record.EventsOnly.CAM1"]);
+    assert.deepEqual(fo.configuredOptions, [ "Enable.Record.EventsOnly", "Disable.Record.Scheduled.CAM1", "Enable.Record.Continuous.CAM1" ],
+      "the global entry and the agreeing Disable entry stay");
+  });
+
+  test("clears a conflict in either direction, but never for a disable or a requires", () => {
+
+    const catalog = buildCatalogIndex(categories, options, { constraints });
+
+    assert.deepEqual(applySetOptionWithReport({ args: { enabled: true, option: "Record.Upload" }, catalog, configuredOptions: ["Enable.Record.Local"] }),
+      { cleared: ["Enable.Record.Local"], configuredOptions: ["Enable.Record.Upload"] });
+    assert.deepEqual(applySetOptionWithReport({ args: { enabled: true, option: "Record.Local" }, catalog, configuredOptions: ["Enable.Record.Upload"] }).cleared,
+      ["Enable.Record.Upload"]);
+    assert.deepEqual(applySetOptionWithReport({ args: { enabled: false, option: "Record.Local" }, catalog, configuredOptions: ["Enable.Record.Upload"] }).cleared, []);
+    assert.deepEqual(applySetOption({ args: { enabled: true, option: "Record.Encrypt" }, catalog, configuredOptions: ["Disable.Record.Upload"] }),
+      [ "Disable.Record.Upload", "Enable.Record.Encrypt" ]);
+  });
+
+  test("reports violations where they resolve, composing a message unless the constraint carries one", () => {
+
+    const custom: FeatureOptionConstraint[] = [ ...constraints.slice(0, 2), { ...constraints[2], message: "Encryption needs uploads." } as FeatureOptionConstraint ];
+    const fo = new FeatureOptions(categories, options, [ "Enable.Record.Continuous.CAM1", "Enable.Record.Local", "Enable.Record.Upload.CAM2", "Enable.Record.Encrypt" ],
+      { constraints: custom });
+
+    assert.deepEqual(fo.checkConstraints(), [{ constraint: custom[2], message: "Encryption needs uploads.", options: [ "Record.Encrypt", "Record.Upload" ] }]);
+    assert.deepEqual(fo.checkConstraints("CAM1").map(({ message }) => message), [
+
+      "At most one of Record.Continuous, Record.EventsOnly, or Record.Scheduled may be enabled, but Record.Continuous and Record.EventsOnly are.",
+      "Encryption needs uploads."
+    ]);
+    assert.deepEqual(fo.checkConstraints("CAM2").map(({ options }) => options), [[ "Record.Local", "Record.Upload" ]]);
+  });
+
+  test("rejects a constraint naming an option the catalog does not define", () => {
+
+    assert.throws(() => buildCatalogIndex(categories, options, { constraints: [{ conflicts: ["Record.Nope"], kind: "conflicts", option: "Record.Local" }] }),
+      { message: "FeatureOptions: conflicts constraint names \"Record.Nope\", which is not a catalog option." });
+  });
+
+  test("leaves a catalog without constraints as it was", () => {
+
+    const fo = new FeatureOptions(categories, options, ["Enable.Record.EventsOnly"]);
+
+    assert.deepEqual(fo.setOption({ enabled: true, option: "Record.Continuous" }), []);
+    assert.deepEqual(fo.configuredOptions, [ "Enable.Record.EventsOnly", "Enable.Record.Continuous" ]);
+    assert.deepEqual(fo.checkConstraints(), []);
+  });
+});
+
+describe("FeatureOptions - profiles", () => {
+
+  const categories: FeatureCategoryEntry[] = [ { description: "Video Options", name: "Video" }, { description: "Recording Options", name: "Record" } ];
+  const options: Record<string, FeatureOptionEntry[]> = {
+
+    Record: [
+
+      { default: false, description: "Record around the clock.", name: "Continuous" },
+      { default: true, description: "Record only around motion events.", name: "EventsOnly" }
+    ],
+    Video: [
+
+      { default: false, defaultValue: 1080, description: "Maximum resolution.", name: "Resolution" },
+      { default: true, description: "Use hardware decoding.", name: "Hardware" },
+      { default: true, description: "Enable HDR.", name: "HDR" }
+    ]
+  };
+
+  const settings = {
+
+    constraints: [{ kind: "exclusive", options: [ "Record.Continuous", "Record.EventsOnly" ] }] as FeatureOptionConstraint[],
+    migrations: [{ from: "Video.Hdr10", kind: "rename", to: "Video.HDR", version: 2 }] as FeatureOptionMigration[],
+    presets: [{ description: "Keep bandwidth down on slow links.", name: "Low Bandwidth", options: [ "Enable.Video.Resolution=720", "Disable.Video.HDR" ] }],
+    version: 2
+  };
+
+  test("extracts what one scope configures, in catalog order and without its id", () => {
+
+    const fo = new FeatureOptions(categories, options, [ "Disable.Video.HDR.cam1", "Enable.Video.Resolution.CAM1=720", "Enable.Video.Resolution.CAM1=480",
+      "Disable.Video.Hardware", "Enable.Record.Continuous.CAM2" ], settings);
+
+    assert.deepEqual(fo.extractProfile("CAM1"), { options: [ "Enable.Video.Resolution=720", "Disable.Video.HDR" ], version: 2 });
+    assert.deepEqual(fo.extractProfile(""), { options: ["Disable.Video.Hardware"], version: 2 });
+    assert.deepEqual(fo.extractProfile("NOPE").options, []);
+  });
+
+  test("applies a profile to several scopes, reporting replacements and constraint clears", () => {
+
+    const fo = new FeatureOptions(categories, options, [ "Enable.Video.Resolution.CAM2=480", "Enable.Record.EventsOnly.CAM3", "Disable.Video.Hardware" ], settings);
+    const profile = { options: [ "Enable.Video.Resolution=720", "Enable.Record.Continuous" ], version: 2 };
+
+    assert.deepEqual(fo.applyProfile(profile, [ "CAM2", "CAM3" ]), [
+
+      { code: "replaced", entry: "Enable.Video.Resolution=720", id: "CAM2",
+        message: "Video.Resolution at CAM2 was enabled with 480, and the profile replaced it with enabled with 720." },
+      { code: "cleared", entry: "Enable.Record.EventsOnly.CAM3", id: "CAM3",
+        message: "Enabling Record.Continuous at CAM3 cleared \"Enable.Record.EventsOnly.CAM3\", which a constraint does not allow alongside it." }
+    ]);
+    assert.deepEqual(fo.configuredOptions, [ "Disable.Video.Hardware", "Enable.Video.Resolution.CAM2=720", "Enable.Record.Continuous.CAM2",
+      "Enable.Video.Resolution.CAM3=720", "Enable.Record.Continuous.CAM3" ]);
+  });
+
+  test("migrates an older profile and skips what the catalog does not know", () => {
+
+    const catalog = buildCatalogIndex(categories, options, settings);
+    const profile = { options: [ "Disable.Video.Hdr10", "Enable.Video.Dolby", "Disable.Record.Continuous.CAM9" ], version: 1 };
+    const { conflicts, configuredOptions } = applyProfile({ catalog, configuredOptions: [], ids: ["CAM1"], profile });
+
+    assert.deepEqual(configuredOptions, ["Disable.Video.HDR.CAM1"]);
+    assert.deepEqual(conflicts.map(({ code, entry, id }) => [ code, entry, id ]), [
+
+      [ "unknown-option", "Enable.Video.Dolby", "" ],
+      [ "unknown-option", "Disable.Record.Continuous.CAM9", "" ]
+    ]);
+  });
+
+  test("migrates a profile only through the changes the catalog made after it was written", () => {
+
+    // Version 2 moved each resolution label down a step, so a version 1 profile's 1440 means today's 1080 - while a version 2 profile's 1440 already means 1440.
+    const catalog = buildCatalogIndex(categories, options, { ...settings, migrations: [ ...settings.migrations,
+      { kind: "remap", option: "Video.Resolution", values: { "1440": "1080", "2160": "1440" }, version: 2 } ] as FeatureOptionMigration[] });
+    const apply = (version: number): readonly string[] => applyProfile({ catalog, configuredOptions: [], ids: ["CAM1"],
+      profile: { options: [ "Enable.Video.Resolution=1440", "Disable.Video.Hdr10" ], version } }).configuredOptions;
+
+    assert.deepEqual(apply(1), [ "Enable.Video.Resolution.CAM1=1080", "Disable.Video.HDR.CAM1" ]);
+    assert.deepEqual(apply(2), ["Enable.Video.Resolution.CAM1=1440"], "a version 2 profile carries today's names and values already");
+  });
+
+  test("reports a profile written against a later catalog, and applies what it can", () => {
+
+    const catalog = buildCatalogIndex(categories, options, settings);
+    const profile = { options: [ "Disable.Video.HDR", "Enable.Video.Dolby" ], version: 3 };
+    const { conflicts, configuredOptions } = applyProfile({ catalog, configuredOptions: [], ids: ["CAM1"], profile });
+
+    assert.deepEqual(configuredOptions, ["Disable.Video.HDR.CAM1"]);
+    assert.deepEqual(conflicts, [
+
+      { code: "newer-version", entry: "", id: "", message: "The profile was written against version 3 of the catalog, later than this catalog's version 2, so " +
+        "its entries may not mean here what they meant there." },
+      { code: "unknown-option", entry: "Enable.Video.Dolby", id: "",
+        message: "The profile entry \"Enable.Video.Dolby\" addresses no option in this catalog, and was skipped." }
+    ]);
+  });
+
+  test("round-trips a profile from one camera to another", () => {
+
+    const catalog = buildCatalogIndex(categories, options, settings);
+    const configured = [ "Enable.Video.Resolution.FRONT=1440", "Disable.Video.HDR.FRONT" ];
+    const { conflicts, configuredOptions } = applyProfile({ catalog, configuredOptions: configured, ids: ["BACK"],
+      profile: extractProfile({ catalog, configuredOptions: configured, id: "front" }) });
+
+    assert.deepEqual(conflicts, []);
+    assert.deepEqual(extractProfile({ catalog, configuredOptions, id: "BACK" }), extractProfile({ catalog, configuredOptions, id: "FRONT" }));
+  });
+
+  test("looks up a catalog preset by name, folding case", () => {
+
+    const catalog = buildCatalogIndex(categories, options, settings);
+
+    assert.deepEqual(presetProfile(catalog, "low bandwidth"), { options: [ "Enable.Video.Resolution=720", "Disable.Video.HDR" ], version: 2 });
+    assert.equal(presetProfile(catalog, "High Bandwidth"), undefined);
+  });
+
+  test("rejects a preset that repeats a name or carries an entry it cannot place", () => {
+
+    const preset = { description: "", name: "Quiet", options: ["Disable.Video.HDR"] };
+
+    assert.throws(() => buildCatalogIndex(categories, options, { presets: [ preset, { ...preset, name: "QUIET" } ] }),
+      { message: "FeatureOptions: preset \"QUIET\" is declared more than once." });
+    assert.throws(() => buildCatalogIndex(categories, options, { presets: [{ ...preset, options: ["Disable.Video.HDR.CAM1"] }] }),
+      { message: "FeatureOptions: preset \"Quiet\" carries \"Disable.Video.HDR.CAM1\", which does not address a catalog option globally." });
+  });
+});
+
+describe("FeatureOptions - overrides", () => {
+
+  test("parses a comma-separated override list, dropping blanks", () => {
+
+    assert.deepEqual(parseOptionOverrides(" Enable.Debug.Video , ,Disable.Motion.Detect.ABC123,"), [ "Enable.Debug.Video", "Disable.Motion.Detect.ABC123" ]);
+    assert.deepEqual(parseOptionOverrides(undefined), []);
+  });
+
+  test("outranks every configured scope, and reports the override scope", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Enable.Motion.Detect.ABC123", "Enable.Audio.Volume.ABC123=80" ]);
+
+    fo.overrides = [ "Disable.Motion.Detect", "Enable.Audio.Volume=20" ];
+
+    assert.equal(fo.test("Motion.Detect", "ABC123"), false, "a global override beats a device entry");
+    assert.equal(fo.scope("Motion.Detect", "ABC123"), "override");
+    assert.equal(fo.value("Audio.Volume", "ABC123"), "20");
+    assert.equal(fo.scope("Motion.Sensitivity", "ABC123"), "none", "an option no override names resolves as before");
+  });
+
+  test("resolves a scoped override only at its scope", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Disable.Motion.Detect"]);
+
+    fo.overrides = parseOptionOverrides("Enable.Motion.Detect.ABC123");
+
+    assert.equal(fo.test("Motion.Detect", "ABC123"), true);
+    assert.equal(fo.test("Motion.Detect", "DEF456"), false);
+    assert.equal(fo.scope("Motion.Detect"), "global");
+  });
+
+  test("is never written back into the configured options", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Enable.Audio.Volume.50"]);
+
+    fo.overrides = ["Disable.Motion.Detect"];
+    fo.setOption({ enabled: true, option: "Motion.Sensitivity" });
+
+    assert.deepEqual(fo.configuredOptions, [ "Enable.Audio.Volume.50", "Enable.Motion.Sensitivity" ]);
+    assert.deepEqual(normalizeConfiguredOptions(fo.catalog, fo.configuredOptions), fo.configuredOptions);
+    assert.deepEqual(fo.overrides, ["Disable.Motion.Detect"]);
+  });
+
+  test("explains an override as what decided the option", () => {
+
+    const explanation = explainOption({ catalog: buildCatalogIndex(CATEGORIES, OPTIONS), configuredOptions: ["Enable.Motion.Detect.ABC123"], device: "ABC123",
+      option: "Motion.Detect", overrides: ["Disable.Motion.Detect"] });
+
+    assert.deepEqual(explanation.resolved, { enabled: false, optionValue: undefined, scope: "override" });
+    assert.deepEqual(explanation.steps.map(({ level, outcome, override }) => [ level, outcome, override ?? false ]), [
+
+      [ "device", "unset", true ],
+      [ "global", "applied", true ],
+      [ "device", "shadowed", false ],
+      [ "global", "unset", false ]
+    ]);
+    assert.equal(explanation.message, "Motion.Detect is disabled globally by the override \"Disable.Motion.Detect\".");
+  });
+
+  test("notifies watchers when the overrides change what an option resolves to", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS);
+    const seen: boolean[] = [];
+
+    fo.watch("Motion.Detect", {}, (current) => seen.push(current.enabled));
+    fo.overrides = ["Disable.Motion.Detect"];
+    fo.overrides = null;
+
+    assert.deepEqual(seen, [ false, true ]);
+  });
+});
+
+describe("FeatureOptions - device id aliases", () => {
+
+  const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+
+  test("resolves a replaced device through the options configured under its old id", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Disable.Motion.Detect.OLD123", "Enable.Audio.Volume.OLD123=80" ]);
+
+    fo.aliases = { old123: "NEW456" };
+
+    assert.equal(fo.test("Motion.Detect", "NEW456"), false);
+    assert.equal(fo.scope("Motion.Detect", "new456"), "device");
+    assert.equal(fo.value("Audio.Volume", "NEW456"), "80");
+    assert.equal(fo.exists("Motion.Detect", "NEW456"), true);
+    assert.equal(fo.test("Motion.Detect", "OLD123"), false, "the old id still addresses the same scope");
+  });
+
+  test("lets a friendly name stand for an id, with the id's own entries taking precedence", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, [ "Enable.Audio.Volume.Kitchen=30", "Enable.Audio.Volume.ABC123=60", "Disable.Motion.Detect.Kitchen" ]);
+
+    fo.aliases = { Kitchen: "ABC123" };
+
+    assert.equal(fo.value("Audio.Volume", "Kitchen"), "60", "an entry under the id the chain ends at outranks one under its alias");
+    assert.equal(fo.test("Motion.Detect", "ABC123"), false, "an entry under the alias applies when the id itself has none");
+    assert.deepEqual(fo.explain("Motion.Detect", "ABC123").steps[0], { enabled: false, entry: "Disable.Motion.Detect.Kitchen", id: "Kitchen", level: "device",
+      outcome: "applied", value: undefined });
+  });
+
+  test("follows alias chains and rejects one that loops", () => {
+
+    const aliasIndex = buildAliasIndex({ A: "B", B: "C" });
+
+    assert.deepEqual(aliasIndex.get("a"), [ "C", "A", "B" ]);
+    assert.equal(aliasIndex.get("c"), aliasIndex.get("b"));
+    assert.equal(optionExists({ aliasIndex, configIndex: buildConfigIndex(catalog, ["Enable.Motion.Detect.A"]), id: "C", option: "Motion.Detect" }), true);
+    assert.throws(() => buildAliasIndex({ A: "B", B: "a" }), /FeatureOptions: the alias "A" leads back to "a"/);
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Disable.Motion.Detect.A"]);
+
+    assert.throws(() => fo.aliases = { X: "Y", Y: "X" });
+    assert.deepEqual(fo.aliases, {}, "a rejected map leaves the instance as it was");
+  });
+
+  test("notifies watchers when an alias changes what an option resolves to", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Disable.Motion.Detect.OLD123"]);
+    const seen: boolean[] = [];
+
+    fo.watch("Motion.Detect", { device: "NEW456" }, (current) => seen.push(current.enabled));
+    fo.aliases = { OLD123: "NEW456" };
+    fo.aliases = null;
+
+    assert.deepEqual(seen, [ false, true ]);
+  });
+
+  test("renames an id across every entry, keeping each entry's form and the new id's own settings", () => {
+
+    const configuredOptions = [ "Disable.Motion.Detect.old123", "Enable.Audio.Volume.OLD123.40", "Enable.Network.Mtu.OLD123 = 9000", "Enable.Network.Mtu.NEW456=1400",
+      "Enable.Audio.Volume.50", "Enable.Unknown.OLD123" ];
+
+    assert.deepEqual(renameConfiguredId({ catalog, configuredOptions, from: "Old123", to: "NEW456" }), [ "Disable.Motion.Detect.NEW456",
+      "Enable.Audio.Volume.NEW456.40", "Enable.Network.Mtu.NEW456=1400", "Enable.Audio.Volume.50", "Enable.Unknown.OLD123" ]);
+    assert.equal(renameConfiguredId({ catalog, configuredOptions, from: "GONE", to: "NEW456" }), configuredOptions, "nothing to rename returns the input itself");
+    assert.throws(() => renameConfiguredId({ catalog, configuredOptions, from: "OLD123", to: "NEW.456" }), /cannot be a device or controller id/);
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, ["Disable.Motion.Detect.OLD123"]);
+
+    fo.renameId("old123", "NEW456");
+
+    assert.deepEqual(fo.configuredOptions, ["Disable.Motion.Detect.NEW456"]);
+    assert.equal(fo.test("Motion.Detect", "NEW456"), false);
+  });
+
+  test("lists the configured ids no known device answers to, honoring aliases", () => {
+
+    const configuredOptions = [ "Disable.Motion.Detect.ABC123", "Enable.Audio.Volume.Gone1=10", "Enable.Audio.Mute.gone1", "Enable.Motion.Detect.Kitchen",
+      "Enable.Audio.Volume.50", "Enable.Unknown.Gone2" ];
+
+    assert.deepEqual(staleConfiguredIds({ catalog, configuredOptions, knownIds: ["abc123"] }), [ "Gone1", "Kitchen" ]);
+    assert.deepEqual(staleConfiguredIds({ aliases: { Kitchen: "ABC123" }, catalog, configuredOptions, knownIds: new Set(["ABC123"]) }), ["Gone1"]);
+
+    const fo = new FeatureOptions(CATEGORIES, OPTIONS, configuredOptions);
+
+    fo.aliases = { Gone1: "DEF456" };
+
+    assert.deepEqual(fo.staleIds([ "ABC123", "DEF456" ]), ["Kitchen"]);
+  });
+});
+
+describe("FeatureOptions - summarizeDeviations", () => {
+
+  const options: Record<string, FeatureOptionEntry[]> = { ...OPTIONS,
+
+    Network: [
+
+      { default: false, defaultValue: "1500", description: "Override MTU size.", name: "Mtu" },
+      { default: true, defaultValue: 1500000, description: "Bandwidth budget (bps).", name: "Bandwidth", render: "bps" }
+    ]
+  };
+
+  test("groups every deviating option by category and by the scope it resolved at, with values raw and rendered", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, options, [ "Disable.Motion.Detect.ABC123", "Enable.Motion.Sensitivity", "Enable.Audio.Volume.ABC123=80",
+      "Enable.Network.Bandwidth=2500000", "Enable.Network.Mtu" ]);
+
+    assert.deepEqual(fo.summarizeDeviations("ABC123"), [
+
+      { category: CATEGORIES[0], deviations: [{ change: "disabled", description: "Enable motion detection.", option: "Motion.Detect" }], scope: "device" },
+      { category: CATEGORIES[0], deviations: [{ change: "enabled", description: "Motion sensitivity tuning.", option: "Motion.Sensitivity" }], scope: "global" },
+      { category: CATEGORIES[1], deviations: [{ change: "enabled", description: "Audio volume level.", option: "Audio.Volume", rendered: "80", value: "80" }],
+        scope: "device" },
+      { category: CATEGORIES[2], deviations: [
+
+        { change: "enabled", description: "Override MTU size.", option: "Network.Mtu", rendered: "1500", value: "1500" },
+        { change: "set", description: "Bandwidth budget (bps).", option: "Network.Bandwidth", rendered: "2.5 Mbps", value: "2500000" }
+      ], scope: "global" }
+    ]);
+  });
+
+  test("renders values in the instance's locale", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, options, ["Enable.Network.Bandwidth=2500000"]);
+
+    fo.locale = "de";
+
+    assert.equal(fo.summarizeDeviations()[0]?.deviations[0]?.rendered?.replace(/\s/gu, " "), "2,5 Mb/s");
+  });
+
+  test("reports nothing when everything holds its default, and agrees with logFeature option by option", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, options, [ "Enable.Motion.Detect", "Enable.Network.Bandwidth=1500000", "Disable.Audio.Volume.ABC123" ]);
+
+    assert.deepEqual(fo.summarizeDeviations("ABC123"), []);
+
+    fo.configuredOptions = [ "Disable.Audio.Mute", "Enable.Network.Bandwidth=3000000" ];
+
+    const log = capturingLog();
+
+    for(const { deviations } of fo.summarizeDeviations()) {
+
+      for(const { option } of deviations) {
+
+        fo.logFeature(option, option, log);
+      }
+    }
+
+    assert.deepEqual(log.entries.map(({ message, params }) => [ message, params ]), [ [ "%s disabled.", ["Audio.Mute"] ],
+      [ "%s set to %s.", [ "Network.Bandwidth", "3 Mbps" ] ] ]);
+  });
+
+  test("resolves through overrides and aliases like every other query", () => {
+
+    const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+    const groups = summarizeDeviations({ aliasIndex: buildAliasIndex({ OLD: "NEW" }), catalog, configIndex: buildConfigIndex(catalog, ["Disable.Motion.Detect.OLD"]),
+      device: "NEW", overrideIndex: buildConfigIndex(catalog, ["Enable.Audio.Volume=20"]) });
+
+    assert.deepEqual(groups.map(({ category, deviations, scope }) => [ category.name, scope, deviations.map((deviation) => deviation.option) ]), [
+
+      [ "Motion", "device", ["Motion.Detect"] ],
+      [ "Audio", "override", ["Audio.Volume"] ]
+    ]);
+  });
+});
+
+describe("FeatureOptions - diffConfiguredOptions", () => {
+
+  const catalog = buildCatalogIndex(CATEGORIES, OPTIONS);
+
+  test("reports each option's additions, removals, changes, and moves, in catalog order with the global scope first", () => {
+
+    assert.deepEqual(diffConfiguredOptions(catalog, [ "Disable.Motion.Detect", "Enable.Audio.Volume.ABC123=60", "Enable.Network.Mtu.XYZ=9000" ],
+      [ "Enable.Audio.Volume.ABC123=80", "Disable.Motion.Detect.ABC123", "Enable.Audio.Volume=40" ]), [
+
+      { after: { enabled: false, id: "ABC123" }, before: { enabled: false }, change: "moved", option: "Motion.Detect", requiresRestart: false },
+      { after: { enabled: true, value: "40" }, change: "added", option: "Audio.Volume", requiresRestart: false },
+      { after: { enabled: true, id: "ABC123", value: "80" }, before: { enabled: true, id: "ABC123", value: "60" }, change: "changed", option: "Audio.Volume",
+        requiresRestart: false },
+      { before: { enabled: true, id: "XYZ", value: "9000" }, change: "removed", option: "Network.Mtu", requiresRestart: false }
+    ]);
+  });
+
+  test("reports nothing for a save that only rewrites, reorders, recases, duplicates, or restates what already applies", () => {
+
+    assert.deepEqual(diffConfiguredOptions(catalog, [ "Enable.Audio.Volume.ABC123.60", "Disable.Motion.Detect.XYZ" ],
+      [ "Disable.Motion.Detect.xyz", "Enable.Audio.Volume.ABC123=60", "Enable.Audio.Volume.ABC123=70", "Enable.Motion.Detect" ]), []);
+  });
+
+  test("reads both arrays through the catalog's migrations, and flags an option that takes effect after a restart", () => {
+
+    const motion: FeatureOptionEntry[] = [{ apply: "restart", default: true, description: "Enable motion detection.", name: "Detect" }];
+    const migrating = buildCatalogIndex(CATEGORIES, { ...OPTIONS, Motion: motion },
+      { migrations: [{ from: "Motion.Sensor", kind: "rename", to: "Motion.Detect", version: 2 }], version: 2 });
+
+    assert.deepEqual(diffConfiguredOptions(migrating, ["Disable.Motion.Sensor"], ["Disable.Motion.Detect"]), []);
+    assert.deepEqual(diffConfiguredOptions(migrating, ["Disable.Motion.Sensor"], []), [
+
+      { before: { enabled: false }, change: "removed", option: "Motion.Detect", requiresRestart: true }
+    ]);
+  });
+});
+
+describe("FeatureOptions - localization", () => {
+
+  const translations = {
+
+    de: { categories: { motion: "Bewegung" }, options: { "Motion.Detect": "Bewegungserkennung aktivieren.", "network.mtu": "MTU-Größe überschreiben." } },
+    "pt-BR": { categories: { Audio: "Áudio" } }
+  };
+
+  test("describes the catalog in the locale, its language, or English, carrying every other field and leaving the input untouched", () => {
+
+    const motion: FeatureOptionEntry<{ id: number }>[] = [{ default: true, description: "Enable motion detection.", meta: { id: 7 }, name: "Detect" }];
+    const options: Record<string, FeatureOptionEntry<{ id: number }>[]> = { ...OPTIONS, Motion: motion };
+    const { categories, options: localized } = localizeCatalog({ categories: CATEGORIES, locale: "de-AT", options, translations });
+
+    assert.deepEqual(categories.map((category) => category.description), [ "Bewegung", "Audio Options", "Network Options" ]);
+    assert.deepEqual(localized["Motion"], [{ default: true, description: "Bewegungserkennung aktivieren.", meta: { id: 7 }, name: "Detect" }]);
+    assert.equal(localized["Network"]?.[0]?.description, "MTU-Größe überschreiben.");
+    assert.equal((localized["Network"] ?? [])[1], (OPTIONS["Network"] ?? [])[1], "an untranslated option is passed through as declared");
+    assert.equal(options["Motion"]?.[0]?.description, "Enable motion detection.");
+
+    assert.equal(localizeCatalog({ categories: CATEGORIES, locale: "PT-br", options, translations }).categories[1]?.description, "Áudio");
+    assert.equal(localizeCatalog({ categories: CATEGORIES, locale: "fr", options, translations }).categories[0], CATEGORIES[0]);
+    assert.equal(localizeCatalog({ categories: CATEGORIES, options, translations }).categories[0], CATEGORIES[0]);
+  });
+
+  test("refuses a translation that describes something the catalog does not declare", () => {
+
+    assert.throws(() => buildCatalogIndex(CATEGORIES, OPTIONS, { translations: { de: { options: { "Motion.Detector": "Bewegung." } } } }),
+      { message: "FeatureOptions: the \"de\" translation describes option \"Motion.Detector\", which the catalog does not declare." });
+    assert.throws(() => buildCatalogIndex(CATEGORIES, OPTIONS, { translations: { de: { categories: { Video: "Video" } } } }),
+      { message: "FeatureOptions: the \"de\" translation describes category \"Video\", which the catalog does not declare." });
+    assert.doesNotThrow(() => buildCatalogIndex(CATEGORIES, OPTIONS, { translations }));
+  });
+
+  test("renders a built-in formatter's value in the caller's locale, and in English without one", () => {
+
+    const catalog = buildCatalogIndex([{ description: "Stream Options", name: "Stream" }],
+      { Stream: [{ default: false, defaultValue: 1500000, description: "Bandwidth budget (bps).", name: "Bandwidth", render: "bps" }] });
+    const render = catalog.renderers["stream.bandwidth"];
+
+    assert.ok(render);
+    assert.equal(render("1500000"), "1.5 Mbps");
+    assert.equal(render("1500000", "de").replace(/\s/gu, " "), "1,5 Mb/s");
+  });
+});
+
+describe("FeatureOptions - documentation extras", () => {
+
+  // A catalog documenting its options, with every example one its option accepts.
+  const documented = (audio: FeatureOptionEntry[]): Record<string, FeatureOptionEntry[]> => ({ ...OPTIONS, Audio: audio });
+  const volume: FeatureOptionEntry = { default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume", valueType: { max: 100, type: "integer" } };
+
+  test("composes an example into the entry it stands for", () => {
+
+    assert.equal(composeOptionExample("Audio.Volume", { value: 80 }), "Enable.Audio.Volume=80");
+    assert.equal(composeOptionExample("Audio.Volume", { id: "ABC123", value: " 20 " }), "Enable.Audio.Volume.ABC123=20");
+    assert.equal(composeOptionExample("Motion.Detect", { enabled: false, id: "ABC123" }), "Disable.Motion.Detect.ABC123");
+  });
+
+  test("accepts documentation the options can stand behind", () => {
+
+    assert.doesNotThrow(() => buildCatalogIndex(CATEGORIES, documented([
+
+      { ...volume, examples: [ { value: 80 }, { id: "ABC123", value: 20 }, { enabled: false, id: "ABC123" } ], links: [{ title: "Guide", url: "https://example.com" }],
+        since: "2.4.0" },
+      { default: true, deprecated: { notice: "Use the mixer.", replacement: "network.mtu" }, description: "Mute parent toggle.", examples: [{ enabled: false }],
+        name: "Mute" }
+    ])));
+  });
+
+  test("refuses an example its option could not accept", () => {
+
+    const refuses = (example: NonNullable<FeatureOptionEntry["examples"]>[number], message: string, option: FeatureOptionEntry = volume): void => {
+
+      assert.throws(() => buildCatalogIndex(CATEGORIES, documented([{ ...option, examples: [example] }])), { message });
+    };
+
+    refuses({ value: "loud" }, "FeatureOptions: example \"Enable.Audio.Volume=loud\" of option \"Audio.Volume\" fails its declared value type. Expected a whole number " +
+      "of at most 100.");
+    refuses({ enabled: false, value: 10 }, "FeatureOptions: example \"Disable.Audio.Volume=10\" of option \"Audio.Volume\" carries a value, which only an enabling " +
+      "example of a value-centric option may.");
+    refuses({ id: "ABC123" }, "FeatureOptions: example \"Enable.Audio.Volume.ABC123\" of option \"Audio.Volume\" addresses a device without a value, which reads as " +
+      "a global value instead.");
+    refuses({ id: "ABC123", value: 10 }, "FeatureOptions: example \"Enable.Audio.Volume.ABC123=10\" of option \"Audio.Volume\" addresses a scope the option does not " +
+      "declare.", { ...volume, scopes: ["global"] });
+    refuses({ value: 10 }, "FeatureOptions: example \"Enable.Audio.Mute=10\" of option \"Audio.Mute\" carries a value, which only an enabling example of a " +
+      "value-centric option may.", { default: true, description: "Mute parent toggle.", name: "Mute" });
+  });
+
+  test("refuses a deprecation whose replacement the catalog does not otherwise declare", () => {
+
+    for(const replacement of [ "Audio.Mixer", "audio.VOLUME" ]) {
+
+      assert.throws(() => buildCatalogIndex(CATEGORIES, documented([{ ...volume, deprecated: { notice: "Going away.", replacement } }])),
+        { message: "FeatureOptions: option \"Audio.Volume\" is deprecated in favor of \"" + replacement + "\", which the catalog does not otherwise declare." });
+    }
+  });
+});
+
+describe("FeatureOptions - device capabilities", () => {
+
+  // A catalog whose audio options need hardware not every device has: volume needs a microphone, and muting needs the speaker as well.
+  const CAPABLE_OPTIONS: Record<string, FeatureOptionEntry[]> = {
+
+    ...OPTIONS,
+    Audio: [
+
+      { default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume", requires: ["hasAudio"] },
+      { default: true, description: "Mute parent toggle.", group: "", name: "Mute", requires: [ "hasAudio", "hasSpeaker" ] }
+    ]
+  };
+
+  const catalog = buildCatalogIndex(CATEGORIES, CAPABLE_OPTIONS);
+
+  test("resolves an option the device cannot support to its default, whatever is configured", () => {
+
+    const configIndex = buildConfigIndex(catalog, [ "Enable.Audio.Volume.CAM1=80", "Disable.Audio.Mute" ]);
+
+    assert.deepEqual(resolveScope({ capabilities: ["hasMotion"], catalog, configIndex, device: "CAM1", option: "audio.volume" }), { enabled: false, scope: "none" });
+    assert.deepEqual(resolveScope({ capabilities: ["hasAudio"], catalog, configIndex, device: "CAM1", option: "Audio.Mute" }), { enabled: true, scope: "none" },
+      "every capability the option names must be met");
+    assert.deepEqual(resolveScope({ capabilities: ["hasAudio"], catalog, configIndex, device: "CAM1", option: "Audio.Volume" }),
+      { enabled: true, optionValue: "80", scope: "device" });
+    assert.equal(resolveScope({ catalog, configIndex, device: "CAM1", option: "Audio.Mute" }).scope, "global", "unknown capabilities support every option");
+  });
+
+  test("answers support through one predicate", () => {
+
+    assert.equal(isOptionSupported({ capabilities: [ "hasSpeaker", "hasAudio" ], catalog, option: "AUDIO.MUTE" }), true);
+    assert.equal(isOptionSupported({ capabilities: ["hasaudio"], catalog, option: "Audio.Volume" }), false, "capability names match exactly");
+    assert.equal(isOptionSupported({ capabilities: [], catalog, option: "Motion.Detect" }), true, "an option that requires nothing is supported everywhere");
+    assert.equal(isOptionSupported({ capabilities: [], catalog, option: "Unknown.Option" }), true);
+    assert.deepEqual(catalog.requires, { "audio.mute": [ "hasAudio", "hasSpeaker" ], "audio.volume": ["hasAudio"] });
+  });
+
+  test("reads each device's capabilities from the map the plugin sets, by id or alias", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, CAPABLE_OPTIONS, [ "Enable.Audio.Volume=70", "Disable.Audio.Mute" ]);
+
+    fo.capabilities = { Cam1: ["hasMotion"], DOORBELL: [ "hasAudio", "hasSpeaker" ] };
+    fo.aliases = { FrontDoor: "DOORBELL" };
+
+    assert.equal(fo.value("Audio.Volume", "CAM1"), null, "an unsupported value option reads as disabled, its default");
+    assert.equal(fo.scope("Audio.Volume", "cam1"), "none");
+    assert.equal(fo.isSupported("Audio.Mute", "CAM1"), false);
+    assert.equal(fo.value("Audio.Volume", "FrontDoor"), "70");
+    assert.equal(fo.test("Audio.Mute", "frontdoor"), false);
+    assert.equal(fo.test("Audio.Mute", "UNDESCRIBED"), false, "a device without capabilities meets every requirement");
+    assert.equal(fo.test("Audio.Mute"), false, "a query without a device is not gated");
+    assert.deepEqual(fo.summarizeDeviations("CAM1"), [], "an unsupported option never deviates");
+  });
+
+  test("explains which capabilities the device lacks", () => {
+
+    const explanation = explainOption({ capabilities: ["hasMotion"], catalog, configuredOptions: ["Enable.Audio.Volume.CAM1=80"], device: "CAM1",
+      option: "audio.volume" });
+
+    assert.equal(explanation.message, "Audio.Volume is disabled by default, because the device lacks the capability it requires: hasAudio.");
+    assert.equal(explanation.steps[0]?.outcome, "unsupported");
+    assert.deepEqual(explanation.resolved, { enabled: false, scope: "none" });
+  });
+
+  test("notifies watchers when capabilities change what an option resolves to", () => {
+
+    const fo = new FeatureOptions(CATEGORIES, CAPABLE_OPTIONS, ["Enable.Audio.Volume.CAM1=80"]);
+    const seen: (string | null | undefined)[] = [];
+
+    fo.watch("Audio.Volume", { device: "CAM1" }, (current) => seen.push(current.value));
+    fo.capabilities = { CAM1: [] };
+    fo.capabilities = null;
+
+    assert.deepEqual(seen, [ null, "80" ]);
+    assert.deepEqual(fo.capabilities, {});
+  });
+});
@@ -9,15 +9,22 @@
  * The module exports two complementary surfaces:
  *
  *   - **Pure functional core.** Catalog and config indices ({@link CatalogIndex}, {@link ConfigIndex}) carry every derived view of the catalog and configured options;
- *     pure builders ({@link buildCatalogIndex}, {@link buildConfigIndex}) construct them from raw inputs; pure transforms ({@link applySetOption},
- *     {@link applyClearOption}, {@link normalizeConfiguredOptions}) compute new configured-options arrays without mutation; pure queries ({@link resolveScope},
- *     {@link getDefaultValue}, {@link isValueOption}, {@link hasValueContent}, {@link optionExists}, {@link isDependencyMet}, {@link expandOption},
- *     {@link enumerateConfiguredEntries}) answer scope-aware questions over those indices. This is the single source of truth for option-array semantics, consumed
- *     wherever immutable state is the discipline (reducer-driven UIs, server-side renderers, time-travel debuggers, future consumers we have not built yet).
+ *     pure builders ({@link buildCatalogIndex}, {@link buildConfigIndex}, {@link buildAliasIndex}) construct them from raw inputs; pure transforms
+ *     ({@link applySetOption}, {@link applySetOptionWithReport}, {@link applyClearOption}, {@link applyProfile}, {@link renameConfiguredId},
+ *     {@link normalizeConfiguredOptions}, {@link migrateConfiguredOptions}) compute new configured-options arrays without mutation, and {@link localizeCatalog}
+ *     projects the catalog's descriptions into a reader's language; pure queries
+ *     ({@link resolveScope}, {@link getDefaultValue}, {@link isValueOption}, {@link hasValueContent}, {@link optionExists}, {@link isDependencyMet},
+ *     {@link isOptionSupported}, {@link checkConstraints}, {@link requiresRestart}, {@link explainOption}, {@link expandOption}, {@link composeOptionExample},
+ *     {@link enumerateConfiguredEntries}, {@link parseConfiguredEntry},
+ *     {@link extractProfile}, {@link presetProfile}, {@link staleConfiguredIds}, {@link summarizeDeviations}, {@link diffConfiguredOptions},
+ *     {@link validateOptionValue}, {@link validateConfiguredOptions}, {@link lintConfiguredOptions}) answer scope-aware questions over those indices. This is the
+ *     single source of truth for option-array semantics, consumed wherever immutable state is the discipline (reducer-driven UIs, server-side renderers,
+ *     time-travel debuggers, future consumers we have not built yet).
  *
  *   - **Imperative class façade.** {@link FeatureOptions} bundles a {@link CatalogIndex}, a configured-options array, and a {@link ConfigIndex} into one object whose
  *     mutating methods (`setOption` / `clearOption` / the setters) delegate to the pure transforms internally. This is the legacy-friendly surface used by every
- *     plugin's Node-side code; the class's public API surface is identical to the pure-function core it delegates to.
+ *     plugin's Node-side code; the class's public API surface is identical to the pure-function core it delegates to. The one addition is change subscription
+ *     ({@link FeatureOptions.watch}), which only a stateful surface can offer.
  *
  * Two surfaces, one set of semantics. The class is a convenience over the pure functions, not a parallel implementation.
  *
@@ -59,10 +66,38 @@
  * row only on views the declaration admits, and the webUI's inheritance probe consults it too, so a click-time prediction and resolution always agree. An entry
  * that declares nothing is valid at every level, which is what lets a plugin narrow its catalog one entry at a time.
  *
+ * ### Overrides
+ *
+ * Above the configured options sits an optional override layer: entries in the same grammar, supplied from outside the configuration - the `HBPU_OPTIONS`
+ * environment variable through {@link parseOptionOverrides}, or a debugging tool's own flags - and resolved ahead of every configured scope. An override decides
+ * an option with the scope `"override"`, so a plugin can say where a surprising setting came from. Overrides are never part of the configured-options array, so no
+ * transform reads them and no save can write them back.
+ *
+ * ### Aliases
+ *
+ * Scoped entries are keyed on a device or controller id, which changes when the hardware does. An alias map ({@link FeatureOptionAliases}) names one id as
+ * standing for another - a replaced device's old id for its new one, or a friendly name for an id - and resolution reads an aliased id as all of them, so the
+ * options a user configured survive the swap until {@link renameConfiguredId} rewrites them for good. {@link staleConfiguredIds} lists the ids nothing answers
+ * to anymore.
+ *
+ * ### Capabilities
+ *
+ * Not every device can use every option: a doorbell chime means nothing on a camera without one. A catalog entry names the device capabilities it needs through
+ * {@link FeatureOptionEntry.requires}, and the plugin describes each device's capabilities through {@link FeatureOptionCapabilities}. One predicate,
+ * {@link isOptionSupported}, decides the match everywhere: resolution returns an unsupported option's default whatever is configured, the webUI does not offer
+ * its row on that device's view, and the documentation renderer lists what each option requires.
+ *
+ * ### Localization
+ *
+ * A catalog is written in English and may ship its descriptions in other languages through {@link FeatureCatalogSettings.translations}. {@link localizeCatalog}
+ * projects the categories and options into a reader's locale, falling back to English for anything a translation leaves out, and every built-in
+ * {@link FeatureOptionRenderer} takes the same locale for its decimal separator and unit labels. Option names and values never change with the locale.
+ *
  * @module
  */
 import type { HomebridgePluginLogging, Nullable } from "./util.ts";
 import { formatBps, formatBytes, formatMs, formatPercent, formatSeconds } from "./formatters.ts";
+import { onAbort } from "./abort.ts";
 
 /**
  * Named built-in formatters available to {@link FeatureOptionEntry.render}. The string literals double as discoverable, autocomplete-friendly names and as the
@@ -78,6 +113,14 @@ import { formatBps, formatBytes, formatMs, formatPercent, formatSeconds } from "
  */
 export type FeatureOptionFormatter = "bps" | "bytes" | "kbps" | "ms" | "percent" | "seconds";
 
+/**
+ * A value renderer: maps the raw stored value of a value-centric option to a display string, in `locale` when the caller names one. Every built-in
+ * {@link FeatureOptionFormatter} honors the locale and falls back to English; an inline renderer is free to ignore it.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionRenderer = (value: string, locale?: string) => string;
+
 // The lookup table the catalog-index builder consults to resolve a string-named renderer to the function that implements it. Plugin-side formatting logic that
 // would otherwise be duplicated across every plugin (each one reaching into util.ts to wrap formatBps for their bandwidth option, etc.) lives here once - any
 // improvement to a built-in formatter's behavior propagates to every plugin that opts into the name. Adding a new formatter is a two-line change: extend the type
@@ -85,27 +128,29 @@ export type FeatureOptionFormatter = "bps" | "bytes" | "kbps" | "ms" | "percent"
 //
 // The registry is module-scope and not exported. Per-plugin customization belongs in the function escape hatch on `render`; there is deliberately no API to mutate
 // the shared registry, which would create initialization-order bugs and let test fixtures leak across files.
-const BUILT_IN_FORMATTERS: Readonly<Record<FeatureOptionFormatter, (value: string) => string>> = {
+//
+// Each entry forwards the optional locale to its formatter, which renders the decimal separator and unit label in it and falls back to English.
+const BUILT_IN_FORMATTERS: Readonly<Record<FeatureOptionFormatter, FeatureOptionRenderer>> = {
 
   // Bitrate stored as bits per second. Delegates to formatBps which selects the right human-readable magnitude (bps / kbps / Mbps).
-  bps: (value: string): string => formatBps(Number.parseFloat(value)),
+  bps: (value: string, locale?: string): string => formatBps(Number.parseFloat(value), locale),
 
   // Byte count rendered as bytes / KB / MB / GB via the 1024-based convention every operating system uses for file and buffer sizes.
-  bytes: (value: string): string => formatBytes(Number.parseFloat(value)),
+  bytes: (value: string, locale?: string): string => formatBytes(Number.parseFloat(value), locale),
 
   // Bitrate stored as kilobits per second. We scale into bits and reuse formatBps so the magnitude selection stays identical to the bps formatter - the only
   // difference between bps and kbps is the storage convention the plugin chose, never the displayed form.
-  kbps: (value: string): string => formatBps(Number.parseFloat(value) * 1000),
+  kbps: (value: string, locale?: string): string => formatBps(Number.parseFloat(value) * 1000, locale),
 
   // Duration stored as milliseconds. formatMs promotes through ms / s / min / hr based on magnitude.
-  ms: (value: string): string => formatMs(Number.parseFloat(value)),
+  ms: (value: string, locale?: string): string => formatMs(Number.parseFloat(value), locale),
 
   // Percentage rendered through the shared formatPercent helper so the precision policy stays uniform across every formatter in the registry - whole numbers carry
   // no decimal, fractional values get one decimal place.
-  percent: (value: string): string => formatPercent(Number.parseFloat(value)),
+  percent: (value: string, locale?: string): string => formatPercent(Number.parseFloat(value), locale),
 
   // Duration stored as seconds. formatSeconds promotes through s / min / hr based on magnitude.
-  seconds: (value: string): string => formatSeconds(Number.parseFloat(value))
+  seconds: (value: string, locale?: string): string => formatSeconds(Number.parseFloat(value), locale)
 };
 
 // Resolve a built-in formatter by name. Accepts an arbitrary string (not just a `FeatureOptionFormatter` literal) so the lookup naturally returns `undefined` when a
@@ -113,26 +158,393 @@ const BUILT_IN_FORMATTERS: Readonly<Record<FeatureOptionFormatter, (value: strin
 // here keeps the call site clean and names the intent: "look up a registered formatter by name; the result may not exist." Without the widening at this single
 // boundary, TypeScript narrows the literal-keyed indexing tightly enough that the runtime safety check at the call site looks dead, and the runtime guard would either be
 // suppressed (silently weakening defense against JS callers) or removed (allowing the silent-fallback failure mode the design exists to prevent).
-function resolveBuiltInFormatter(name: string): ((value: string) => string) | undefined {
+function resolveBuiltInFormatter(name: string): FeatureOptionRenderer | undefined {
 
-  return (BUILT_IN_FORMATTERS as Readonly<Record<string, (value: string) => string>>)[name];
+  return (BUILT_IN_FORMATTERS as Readonly<Record<string, FeatureOptionRenderer>>)[name];
 }
 
+/**
+ * When a change to a feature option takes effect, as a catalog entry declares it through {@link FeatureOptionEntry.apply}:
+ *
+ *   - `live` - the plugin reads the option as it needs it, so a changed setting applies to the running plugin as soon as it reaches the instance.
+ *   - `restart` - the plugin reads the option once, while it starts up, so a changed setting is saved but does nothing until Homebridge restarts.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionApply = "live" | "restart";
+
 /**
  * The scope levels at which a feature option may be configured, and the vocabulary a catalog entry uses to declare where it belongs. These are the same levels
- * {@link resolveScope} walks: {@link OptionScope} is this union plus the `"none"` outcome resolution reports when nothing was configured anywhere, so the
- * declaration side and the resolution side read from one vocabulary and cannot drift apart.
+ * {@link resolveScope} walks: {@link OptionScope} is this union plus the `"none"` outcome resolution reports when nothing was configured anywhere and the
+ * `"override"` outcome it reports when the override layer decided, so the declaration side and the resolution side read from one vocabulary and cannot drift
+ * apart.
  */
 export type FeatureOptionScope = "controller" | "device" | "global";
 
+/**
+ * The typed value declaration a value-centric catalog entry may carry through {@link FeatureOptionEntry.valueType}. Each variant names the shape a configured
+ * value must take, so a value the user typed is checked once, by the engine, rather than re-parsed and range-checked by every plugin's accessory code:
+ *
+ *   - `integer` / `float` - a decimal number, whole for `integer`, optionally bounded by an inclusive `min` and `max`.
+ *   - `duration` - a number of seconds, optionally suffixed by a unit (`ms`, `s`, `m`, or `h`), so `90`, `90s`, and `1.5m` all read as ninety seconds. Bounds are
+ *     inclusive and expressed in seconds. Read the value back with {@link FeatureOptions.getDuration}.
+ *   - `enum` - one of a fixed list of values. Matching folds case, and an accepted value reads back in the casing the catalog declared.
+ *   - `regex` - any value the `pattern` matches in full; the pattern is anchored at both ends for you.
+ *   - `url` - an absolute URL, optionally restricted to the listed `protocols` (named without the trailing colon, e.g. `"rtsp"`).
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionValueType =
+  { max?: number; min?: number; type: "duration" | "float" | "integer" } |
+  { pattern: string; type: "regex" } |
+  { protocols?: readonly [string, ...string[]]; type: "url" } |
+  { type: "enum"; values: readonly [string, ...string[]] };
+
+/**
+ * The kinds of finding {@link lintConfiguredOptions} reports, one per way a configured entry can fail to say what its author meant:
+ *
+ *   - `conflicting-entry` - a second entry for the same option at the same scope that says something different. The first one wins, so this one is ignored.
+ *   - `duplicate-entry` - a second entry for the same option at the same scope that says the same thing. Harmless, and pointless.
+ *   - `invalid-value` - a value that does not satisfy the option's declared {@link FeatureOptionValueType}. Resolution ignores it.
+ *   - `legacy-form` - an entry in the legacy dot grammar that {@link normalizeConfiguredOptions} would rewrite into the canonical form.
+ *   - `malformed-entry` - a string that is not a feature option entry at all, because it opens with neither `Enable` nor `Disable`.
+ *   - `migrated-entry` - an entry addressing an option the catalog has since renamed, split, remapped, or removed. Resolution reads it through the catalog's
+ *     {@link FeatureOptionMigration} table, so it works as written until the option's migration history is itself retired.
+ *   - `scope-not-declared` - an entry at a scope level the option's {@link FeatureOptionEntry.scopes} declaration excludes. Resolution ignores it.
+ *   - `unknown-option` - an entry that addresses no option in the catalog - typically a typo, or an option a plugin release removed.
+ *   - `unmet-dependency` - an enable for a grouped option whose parent resolves disabled at the same scope, so the enable has no effect.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionDiagnosticCode = "conflicting-entry" | "duplicate-entry" | "invalid-value" | "legacy-form" | "malformed-entry" | "migrated-entry" |
+  "scope-not-declared" | "unknown-option" | "unmet-dependency";
+
+/**
+ * A suggested fix for a {@link FeatureOptionDiagnostic}: what to do in words, and - when the edit is mechanical - the entries to put in the offending entry's place.
+ *
+ * @property description - A complete, human-readable sentence describing the fix.
+ * @property replacement - Optional. The entries that replace the offending one, in order; an empty array removes it. Absent when the fix takes a judgment only the
+ *                         user can make. A replacement never changes how any option resolves unless its description says so - removing an entry the engine
+ *                         already ignores, or restating an entry in the canonical form, are the edits a UI can offer as a single click.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionFix {
+
+  description: string;
+  replacement?: readonly string[];
+}
+
+/**
+ * One structured finding about a configured-options array, as reported by {@link lintConfiguredOptions} and {@link validateConfiguredOptions}. Carries enough
+ * to point at the offending entry, to say what is wrong with it in words a user can act on, and to offer a fix, so plugin startup logging and the webUI present
+ * the same finding the same way.
+ *
+ * @property code     - The kind of finding. See {@link FeatureOptionDiagnosticCode}.
+ * @property entry    - The configured entry exactly as written.
+ * @property fix      - The suggested fix.
+ * @property index    - The entry's position in the configured-options array.
+ * @property message  - A complete, human-readable sentence describing the finding.
+ * @property option   - The feature option the entry addresses, in the casing the entry carried. The empty string when the entry addresses none.
+ * @property severity - How much the finding matters. An `"error"` is an entry the engine ignores; a `"warning"` is an entry that works, or does nothing harmful,
+ *                      but deserves attention; an `"info"` is an entry that works exactly as written and is merely out of date.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDiagnostic {
+
+  code: FeatureOptionDiagnosticCode;
+  entry: string;
+  fix: FeatureOptionFix;
+  index: number;
+  message: string;
+  option: string;
+  severity: "error" | "info" | "warning";
+}
+
+/**
+ * One step in a catalog's migration history: a change to an option that existing configured entries were written against. Declared through
+ * {@link FeatureCatalogSettings.migrations}, so a plugin that renames, splits, or retires an option says so once, in the catalog, and every configuration written
+ * against the old shape keeps meaning what its author intended. The kinds:
+ *
+ *   - `rename` - `from` is now called `to`. Each entry's action, scope id, and value carry over unchanged.
+ *   - `split` - `from` is now several options, `to`. Each entry becomes one entry per target, carrying its action and scope id to each, and its value to each target
+ *     that is value-centric.
+ *   - `remap` - a value of the value-centric `option` is now spelled differently. `values` maps each old value to its replacement; matching folds case.
+ *   - `remove` - `from` is gone. Its entries are dropped, and `message` tells the user why, and what to use instead when there is something to use.
+ *
+ * Option names are expanded names in the catalog's casing, matched without regard to case. A migration applies only to an entry that addresses no current catalog
+ * option, so a rename whose new name extends the old one - `Video.Transcode` to `Video.Transcode.Hardware` - never mistakes an entry already written against the new
+ * name for an old one carrying a scope id. A `rename` or `split` target must be a catalog option, or the former name of a migration that applies after it; any other
+ * target throws at catalog-build time.
+ *
+ * @property from    - The option's former name. For `rename`, `split`, and `remove`.
+ * @property kind    - The kind of change. See above.
+ * @property message - Optional for every kind but `remove`. The sentence reported when the migration applies, in place of the one composed from the migration.
+ * @property option  - The option whose values changed. For `remap`.
+ * @property to      - The option's new name, or for `split` its new names in order.
+ * @property values  - The old value to new value map. For `remap`.
+ * @property version - The catalog version that made the change. Migrations apply in version order, so a later step can build on an earlier one - an option
+ *                     renamed twice chains through both renames.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionMigration =
+  { from: string; kind: "remove"; message: string; version: number } |
+  { from: string; kind: "rename"; message?: string; to: string; version: number } |
+  { from: string; kind: "split"; message?: string; to: readonly [string, ...string[]]; version: number } |
+  { kind: "remap"; message?: string; option: string; values: Readonly<Record<string, string>>; version: number };
+
+/**
+ * One migration applied to one configured entry, as reported by {@link migrateConfiguredOptions} and {@link FeatureOptions.migrations}. Carries what a plugin needs to
+ * log the change and what a UI needs to show it.
+ *
+ * @property entry       - The entry the migration applied to, as it stood before this step. For the first step that is the entry as configured; a later step in a
+ *                         chain sees the previous step's output.
+ * @property index       - The configured entry's position in the input array.
+ * @property message     - A complete, human-readable sentence describing the change.
+ * @property migration   - The migration that applied.
+ * @property replacement - The entries that took the entry's place. Empty when the migration removed it.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionMigrationRecord {
+
+  entry: string;
+  index: number;
+  message: string;
+  migration: FeatureOptionMigration;
+  replacement: readonly string[];
+}
+
+/**
+ * A declarative constraint between catalog options, carried in {@link FeatureCatalogSettings.constraints}. Each kind states which combinations of enabled options
+ * make sense together:
+ *
+ *   - `exclusive` - at most one of `options` may be enabled. Enabling one through {@link applySetOption} clears the others at the same scope, so choosing
+ *     `Record.Continuous` drops a `Record.EventsOnly` configured alongside it.
+ *   - `conflicts` - `option` may not be enabled together with any of `conflicts`, though those may be enabled together. Enabling either side clears the other at the
+ *     same scope.
+ *   - `requires` - `option` has no effect unless every one of `requires` is enabled. Nothing is cleared for this kind: there is no entry whose removal would satisfy
+ *     it, so {@link checkConstraints} reports it and the plugin decides what an unmet requirement means.
+ *
+ * Option names are expanded names in the catalog's casing, matched without regard to case. Every named option must be one the catalog declares; a constraint naming
+ * anything else throws at catalog-build time. Constraints are evaluated on what options resolve to, so a constraint holds or fails at an address - a device, a
+ * controller, or the global scope - rather than in the configured-options array as a whole.
+ *
+ * @property conflicts - The options `option` may not be enabled with. For `conflicts`.
+ * @property kind      - The kind of constraint. See above.
+ * @property message   - Optional. The sentence reported when the constraint fails, in place of the one composed from the constraint.
+ * @property option    - The constrained option. For `conflicts` and `requires`.
+ * @property options   - The options at most one of which may be enabled. For `exclusive`.
+ * @property requires  - The options `option` needs enabled. For `requires`.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionConstraint =
+  { conflicts: readonly [string, ...string[]]; kind: "conflicts"; message?: string; option: string } |
+  { kind: "exclusive"; message?: string; options: readonly [string, string, ...string[]] } |
+  { kind: "requires"; message?: string; option: string; requires: readonly [string, ...string[]] };
+
+/**
+ * One constraint that fails at an address, as reported by {@link checkConstraints} and {@link FeatureOptions.checkConstraints}.
+ *
+ * @property constraint - The constraint that fails.
+ * @property message    - A complete, human-readable sentence describing the failure.
+ * @property options    - The options involved, in catalog case: the enabled ones for `exclusive`, and for `conflicts` and `requires` the constrained option followed
+ *                        by the enabled conflicts or the requirements that are not enabled.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionConstraintViolation {
+
+  constraint: FeatureOptionConstraint;
+  message: string;
+  options: string[];
+}
+
+/**
+ * A portable copy of the options configured at one scope, as {@link extractProfile} produces it and {@link applyProfile} applies it. Its entries carry no scope
+ * id, so the profile can be saved to a file, shared, and applied to any device or controller - the camera it was taken from, another camera, or forty of them.
+ *
+ * @property options - The profile's entries, in the configured-options grammar but without a scope id: `Disable.Motion.Detect`, `Enable.Audio.Volume=40`.
+ * @property version - The catalog version the profile was written against. See {@link FeatureCatalogSettings.version}. Applying a profile runs its entries through
+ *                     the migrations the catalog has made since that version, so a profile taken before an option was renamed still lands on the option's current
+ *                     name, while one taken after it is left alone by the rename.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionProfile {
+
+  options: readonly string[];
+  version: number;
+}
+
+/**
+ * A named profile a plugin ships with its catalog, carried in {@link FeatureCatalogSettings.presets} - a "Low Bandwidth" preset a user can apply to a camera
+ * without composing it by hand. {@link presetProfile} turns one into a {@link FeatureOptionProfile} for {@link applyProfile}.
+ *
+ * Every entry must address a catalog option at the global scope, in the grammar {@link FeatureOptionProfile.options} uses; a preset carrying anything else throws
+ * at catalog-build time.
+ *
+ * @property description - A short, human-readable description of what the preset is for.
+ * @property name        - The preset's name, unique within the catalog without regard to case.
+ * @property options     - The preset's entries. See {@link FeatureOptionProfile.options}.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionPreset {
+
+  description: string;
+  name: string;
+  options: readonly string[];
+}
+
+/**
+ * The kinds of conflict {@link applyProfile} reports:
+ *
+ *   - `cleared` - a constraint between catalog options cleared an entry already configured at the target, because the profile enabled a rival. See
+ *     {@link FeatureOptionConstraint}.
+ *   - `newer-version` - the profile was written against a later version of the catalog than this one. Its entries are still applied, but the migrations between
+ *     the two versions are ones this catalog cannot run, so an entry may not mean here what it meant where the profile was taken.
+ *   - `replaced` - the target already had an entry for one of the profile's options that said something different, and the profile's entry took its place.
+ *   - `unknown-option` - a profile entry addresses no catalog option, or addresses one at a scope, and was skipped. A profile written against a later release of
+ *     the catalog is the usual source.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionProfileConflictCode = "cleared" | "newer-version" | "replaced" | "unknown-option";
+
+/**
+ * One conflict met while applying a profile, as {@link applyProfile} reports it.
+ *
+ * @property code    - The kind of conflict. See {@link FeatureOptionProfileConflictCode}.
+ * @property entry   - For `cleared`, the configured entry the constraint cleared. For `newer-version`, which concerns the whole profile, the empty string. Otherwise
+ *                     the profile entry involved, exactly as the profile carries it.
+ * @property id      - The scope the conflict arose at. The empty string for the global scope, for an `unknown-option` entry, which was skipped everywhere, and for
+ *                     `newer-version`.
+ * @property message - A complete, human-readable sentence describing the conflict.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionProfileConflict {
+
+  code: FeatureOptionProfileConflictCode;
+  entry: string;
+  id: string;
+  message: string;
+}
+
+/**
+ * One language's descriptions for a catalog, carried in {@link FeatureCatalogSettings.translations}. Every key must name something the catalog declares, without
+ * regard to case; a translation that names anything else throws at catalog-build time. A table need not be complete - whatever it leaves out stays in English.
+ *
+ * @property categories - Optional. Category descriptions, keyed by category name.
+ * @property options    - Optional. Option descriptions, keyed by expanded option name (the form {@link expandOption} produces).
+ *
+ * @example
+ *
+ * ```ts
+ * const translations = { de: { categories: { Motion: "Bewegung" }, options: { "Motion.Detect": "Bewegungserkennung aktivieren." } } };
+ * ```
+ *
+ * @category Feature Options
+ */
+export interface FeatureCatalogTranslation {
+
+  categories?: Readonly<Record<string, string>>;
+  options?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Catalog-level settings: what a catalog declares about itself rather than about any one option. Passed to {@link buildCatalogIndex} and the
+ * {@link FeatureOptions} constructor alongside the categories and options, and preserved on the {@link CatalogIndex} so a rebuild carries them forward.
+ *
+ * @property constraints  - Optional. The constraints between the catalog's options. See {@link FeatureOptionConstraint}.
+ * @property migrations   - Optional. The catalog's migration history. See {@link FeatureOptionMigration}.
+ * @property presets      - Optional. The named profiles the catalog ships with. See {@link FeatureOptionPreset}.
+ * @property translations - Optional. The catalog's descriptions in other languages, keyed by BCP 47 locale tag (`"de"`, `"pt-BR"`). See
+ *                          {@link FeatureCatalogTranslation} and {@link localizeCatalog}.
+ * @property version      - Optional. The catalog's current version - a positive integer a plugin advances whenever a release changes an option in a way a
+ *                          migration records. Defaults to 0, which declares no history, so any migration must name a version this reaches.
+ *
+ * @category Feature Options
+ */
+export interface FeatureCatalogSettings {
+
+  constraints?: readonly FeatureOptionConstraint[];
+  migrations?: readonly FeatureOptionMigration[];
+  presets?: readonly FeatureOptionPreset[];
+  translations?: Readonly<Record<string, FeatureCatalogTranslation>>;
+  version?: number;
+}
+
+/**
+ * A usage example for a feature option, carried in {@link FeatureOptionEntry.examples}. The documentation renderer and the webUI show it as the configured-options
+ * entry it composes into - `Enable.Motion.Sensitivity.ABC123=high` - through {@link composeOptionExample}, so a reader sees exactly what to write.
+ *
+ * @property enabled - Optional. Whether the example enables the option. Defaults to true.
+ * @property id      - Optional. The device or controller id the example addresses. Absent addresses the global scope. Either way, the option's declared scopes must
+ *                     admit it.
+ * @property value   - Optional. The value the example sets. Only an enabling example of a value-centric option may carry one, and it must satisfy the option's
+ *                     declared value type.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionExample {
+
+  enabled?: boolean;
+  id?: string;
+  value?: number | string;
+}
+
+/**
+ * The deprecation notice a feature option carries in {@link FeatureOptionEntry.deprecated}. A deprecated option still resolves exactly as before; the notice is what
+ * the documentation renderer and the webUI show a user so they can move off it before a release removes it.
+ *
+ * @property notice      - What the user should know, as a complete sentence: why the option is going away, or when.
+ * @property replacement - Optional. The expanded name of the option that supersedes this one, which the catalog must declare.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDeprecation {
+
+  notice: string;
+  replacement?: string;
+}
+
+/**
+ * A link to further documentation for a feature option, carried in {@link FeatureOptionEntry.links}.
+ *
+ * @property title - The link's text.
+ * @property url   - The address it points to.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionLink {
+
+  title: string;
+  url: string;
+}
+
 /**
  * Entry describing a feature option.
  *
+ * @property apply           - Optional. When a change to the option takes effect, named in the {@link FeatureOptionApply} vocabulary. Declare `"restart"` for an
+ *                             option the plugin only reads at startup - an MQTT topic, a hardware transcoding choice - so the settings page, the documentation
+ *                             renderer, and a hot reload can each tell the user that saving it is not enough. Absent means `"live"`, which is what an entry that
+ *                             declares nothing gets: the framework only warns about what the catalog says.
  * @property default         - Default enabled/disabled state for this feature option.
  * @property defaultValue    - Optional. Default value for value-based feature options.
+ * @property deprecated      - Optional. Marks the option as on its way out, with a notice and the option replacing it. See {@link FeatureOptionDeprecation}. A
+ *                             replacement the catalog does not declare throws at catalog-rebuild time.
  * @property description     - Description of the feature option for display or documentation.
+ * @property examples        - Optional. Usage examples, shown as the configured-options entries they compose into. See {@link FeatureOptionExample}. An example the
+ *                             option could not accept - a value on a toggle, a value its value type refuses, a scope it does not declare - throws at
+ *                             catalog-rebuild time, since an example that does not work teaches the wrong thing.
  * @property group           - Optional. Grouping/category for the feature option.
  * @property inputSize       - Optional. Width of the input field for a value-based feature option. Defaults to 5 characters.
+ * @property links           - Optional. Links to further documentation, listed after the option's description. See {@link FeatureOptionLink}.
  * @property meta            - Optional. An opaque, plugin-private annotation channel the core never interprets. HBPU's types deliberately cannot see inside `TMeta`;
  *                             the value is carried verbatim through the catalog and forwarded to the documentation renderer's closures (the only surface that knows its
  *                             concrete shape). This mirrors the OpenAPI `x-*` extension discipline, made type-safe: a plugin parameterizes the entry with its own
@@ -145,20 +557,31 @@ export type FeatureOptionScope = "controller" | "device" | "global";
  *                             value renders; ignored for plain boolean options. When absent, values render as the raw string returned by {@link FeatureOptions.value}.
  *                             An unrecognized formatter name throws at catalog-rebuild time, surfacing the misconfiguration loudly rather than silently producing the
  *                             raw-value fallback.
+ * @property requires        - Optional. The device capabilities this option needs, as names the plugin chooses (`["hasAudio", "isDoorbell"]`). The plugin
+ *                             supplies each device's capabilities (see {@link FeatureOptionCapabilities}), and an option whose requirements a device does not meet
+ *                             is unsupported there: it resolves to its default whatever is configured, and the settings page does not offer it on that device's
+ *                             view. Every name must be met, and names match exactly. A device whose capabilities were never supplied meets every requirement, so
+ *                             declaring this changes nothing until the plugin describes its devices.
  * @property scopes          - Optional. The scope levels this option may be configured at - one or more of them, named in the {@link FeatureOptionScope} vocabulary.
- *                             Absent means every level, which is what an entry that declares nothing gets. Declared, it is true at every surface the framework
- *                             owns: the option renders only on views the declaration admits - a global view needs `"global"`, a controller view needs `"controller"`,
- *                             and a device view needs either `"controller"` or `"device"` - it resolves only at the declared levels, and a row inherits from a higher
- *                             scope only through them. What you cannot resolve, you are neither offered nor promised through inheritance. Which devices see a
- *                             device-view row stays with the plugin's `validOption`, refining the rows the declaration already admits. Declare consistent levels
- *                             across a group: a child's dependency check resolves the PARENT's option, so a parent declared narrower than its children ignores parent
- *                             configuration at exactly the levels the children are still editable from. The tuple is non-empty by construction, since an option
- *                             declaring no level at all would render nowhere and resolve nowhere.
+ *                             Absent means every level, which is what an entry that declares nothing gets. Declared, it is true at every surface the framework owns: the
+ *                             option renders only on views the declaration admits - a global view needs `"global"`, a controller view needs `"controller"`, and a device
+ *                             view needs either `"controller"` or `"device"` - it resolves only at the declared levels, and a row inherits from a higher scope only
+ *                             through them. What you cannot resolve, you are neither offered nor promised through inheritance. Which devices see a device-view row stays
+ *                             with `requires` and the plugin's `validOption`, refining the rows the declaration already admits. Declare consistent levels across a group:
+ *                             a child's dependency check resolves the PARENT's option, so a parent declared narrower than its children ignores parent configuration at
+ *                             exactly the levels the children are still editable from. The tuple is non-empty by construction, since an option declaring no level at all
+ *                             would render nowhere and resolve nowhere.
  * @property secret          - Optional. True declares that the option's value is a secret the settings page must not display in clear text by default: the field
  *                             renders masked, with a reveal the user operates when they want to read or check what they typed. Presentation only - parsing, storage,
  *                             scope resolution, and the documentation renderer treat a secret option exactly like any other value option, and its value lands in
  *                             `config.json` as plain text like every other value. What the masking buys is protection from someone reading the settings page over
  *                             the user's shoulder; it is not secrecy at rest, and a plugin handling real credentials should say so in the option's description.
+ * @property since           - Optional. The plugin version the option was introduced in, as the plugin writes its versions (`"2.4.0"`). Documentation only.
+ * @property valueType       - Optional. The shape a configured value must take - a bounded number, a duration, one of a fixed list, a pattern, or a URL - named in
+ *                             the {@link FeatureOptionValueType} vocabulary. Only a value-centric option may declare one. A configured value that fails the
+ *                             declaration is inert: resolution skips it as though it had never been written, {@link validateConfiguredOptions} reports it, and
+ *                             the webUI refuses to save it. A declared `defaultValue` that fails its own declaration, a pattern that does not compile, or bounds
+ *                             that cross throw at catalog-rebuild time, the same loud-at-load discipline an unknown formatter name gets.
  *
  * @typeParam TMeta - The concrete type of the opaque {@link FeatureOptionEntry.meta} annotation. Defaults to `unknown`, so a bare `FeatureOptionEntry` (the form every
  *                    existing core consumer uses) resolves to `FeatureOptionEntry<unknown>` and stays assignable to the parameterized form, keeping the core non-generic.
@@ -180,16 +603,23 @@ export type FeatureOptionScope = "controller" | "device" | "global";
  */
 export interface FeatureOptionEntry<TMeta = unknown> {
 
+  apply?: FeatureOptionApply;
   default: boolean;
   defaultValue?: number | string;
+  deprecated?: FeatureOptionDeprecation;
   description: string;
+  examples?: readonly FeatureOptionExample[];
   group?: string;
   inputSize?: number;
+  links?: readonly FeatureOptionLink[];
   meta?: TMeta;
   name: string;
-  render?: FeatureOptionFormatter | ((value: string) => string);
+  render?: FeatureOptionFormatter | FeatureOptionRenderer;
+  requires?: readonly [string, ...string[]];
   scopes?: readonly [FeatureOptionScope, ...FeatureOptionScope[]];
   secret?: boolean;
+  since?: string;
+  valueType?: FeatureOptionValueType;
 }
 
 /**
@@ -213,9 +643,10 @@ export interface FeatureCategoryEntry<TMeta = unknown> {
 
 /**
  * Describes all possible scope hierarchy locations for a feature option. The configurable levels are {@link FeatureOptionScope}, shared with the catalog entry's
- * `scopes` declaration; `"none"` is the resolution-only outcome saying no configured entry matched at any level and the catalog default applied.
+ * `scopes` declaration; `"none"` is the resolution-only outcome saying no configured entry matched at any level and the catalog default applied, and `"override"`
+ * the one saying an entry in the override layer decided, ahead of anything configured.
  */
-export type OptionScope = FeatureOptionScope | "none";
+export type OptionScope = FeatureOptionScope | "none" | "override";
 
 /**
  * Resolved view of a feature option through the scope hierarchy. Captures the scope where the option was found, whether it's enabled, and the raw string value for
@@ -224,7 +655,8 @@ export type OptionScope = FeatureOptionScope | "none";
  *
  * @property enabled         - The resolved enabled state at the highest-precedence scope where the option was found.
  * @property optionValue     - The raw string value when a value-centric option was set with an explicit value at the resolved scope. Absent otherwise.
- * @property scope           - The scope where the option resolved, or "none" when no explicit entry was found at any scope.
+ * @property scope           - The scope where the option resolved, "override" when an override decided it, or "none" when no explicit entry was found at any
+ *                             scope.
  */
 export interface ResolvedOptionEntry {
 
@@ -233,6 +665,113 @@ export interface ResolvedOptionEntry {
   scope: OptionScope;
 }
 
+/**
+ * One scope level's part in resolving a feature option, as {@link explainOption} reports it. The outcomes:
+ *
+ *   - `applied` - a configured entry here decided the option.
+ *   - `not-declared` - the option's {@link FeatureOptionEntry.scopes} exclude this level, so resolution walked past it, and past any entry configured here.
+ *   - `shadowed` - a configured entry here was outranked by the entry at a higher-precedence level.
+ *   - `unsupported` - a configured entry here would have counted, but the device lacks a capability the option's {@link FeatureOptionEntry.requires} names, so
+ *     resolution passed over it.
+ *   - `unset` - nothing is configured here, so resolution continued to the next level.
+ *
+ * @property enabled - The enabled state the entry here says. Present when an entry is configured here.
+ * @property entry   - The configured entry here, exactly as written. Absent when nothing is configured here. When several entries address the level, this is the
+ *                     first, which is the one the lookup index holds.
+ * @property id      - The device or controller id the level was looked up under. Absent for the global level.
+ * @property level    - The scope level.
+ * @property outcome  - What this level contributed. See above.
+ * @property override - Present and true for a level of the override layer, where `entry` is the override rather than a configured entry.
+ * @property value    - The value the entry here carries, when it carries one.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionExplanationStep {
+
+  enabled?: boolean;
+  entry?: string;
+  id?: string;
+  level: FeatureOptionScope;
+  outcome: "applied" | "not-declared" | "shadowed" | "unset" | "unsupported";
+  override?: boolean;
+  value?: string;
+}
+
+/**
+ * The full account of how a feature option resolved at a given scope, as {@link explainOption} and {@link FeatureOptions.explain} report it: every level walked,
+ * the catalog default, the group-parent dependency, and the result, with a sentence summing them up for a debug log or a tooltip.
+ *
+ * @property default    - The option's catalog default, or the caller's fallback when the option is not in the catalog.
+ * @property dependency - The group-parent dependency, for an option that has a parent group: the parent's expanded name, its own resolution at the same scope, and
+ *                        whether it is met - the same answer {@link isDependencyMet} gives. Absent for an option with no parent.
+ * @property known      - Whether the option is in the catalog at all. An unknown option resolves to the caller's fallback, which is almost always a misspelling.
+ * @property message    - A complete, human-readable sentence explaining the result.
+ * @property option     - The option, in the casing the catalog declares it when the catalog knows it.
+ * @property resolved   - The result, exactly as {@link resolveScope} returns it.
+ * @property steps      - Each level walked, in precedence order: device and controller when their ids were supplied, and global always - first through the
+ *                        override layer when overrides were supplied, then through the configured options.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionExplanation {
+
+  default: boolean;
+  dependency?: { met: boolean; parent: string; resolved: ResolvedOptionEntry };
+  known: boolean;
+  message: string;
+  option: string;
+  resolved: ResolvedOptionEntry;
+  steps: FeatureOptionExplanationStep[];
+}
+
+/**
+ * How an option's effective state departs from its catalog default: `"disabled"` for a default-on option turned off, `"enabled"` for a default-off option turned
+ * on, and `"set"` for a value-centric option left on but given a value other than its declared default. These are the three lines
+ * {@link FeatureOptions.logFeature} emits.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionDeviationChange = "disabled" | "enabled" | "set";
+
+/**
+ * One option whose effective state departs from its catalog default, as {@link summarizeDeviations} reports it.
+ *
+ * @property change      - How the option departs from its default. See {@link FeatureOptionDeviationChange}.
+ * @property description - The option's description, as the catalog declares it.
+ * @property option      - The option's expanded name, in the casing the catalog declares.
+ * @property rendered    - The effective value through the option's renderer (see {@link FeatureOptionEntry.render}), or the raw value when it declares none.
+ *                         Present exactly when `value` is.
+ * @property value       - The effective raw value of an enabled value-centric option. Absent for a boolean option, a disabled one, and a value-centric option with
+ *                         no value anywhere.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDeviation {
+
+  change: FeatureOptionDeviationChange;
+  description: string;
+  option: string;
+  rendered?: string;
+  value?: string;
+}
+
+/**
+ * The deviations one category resolves at one scope, so a startup summary can say "these came from the device, those from the global configuration" in a line
+ * apiece. Produced by {@link summarizeDeviations}.
+ *
+ * @property category   - The category, as the catalog declares it.
+ * @property deviations - The category's deviating options resolved at `scope`, in catalog order.
+ * @property scope      - The scope those options resolved at. Never `"none"`, since an option resolved at no scope holds its default.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDeviationGroup {
+
+  category: FeatureCategoryEntry;
+  deviations: FeatureOptionDeviation[];
+  scope: OptionScope;
+}
+
 /**
  * One configured entry's reading of a single feature option: where it sits, what it says, and the value it carries when it carries one. Yielded by
  * {@link enumerateConfiguredEntries}, one record per entry that addresses the option.
@@ -256,20 +795,106 @@ export interface ConfiguredOptionEntry {
 }
 
 /**
- * Immutable derived index over the catalog inputs ({@link FeatureCategoryEntry}[] + the options map). Every field except `categories` / `options` is derived from
- * those two; the index bundles them with their derivations so a single value carries everything any caller needs to make catalog-level decisions in O(1).
+ * The grammar a configured entry's value was read under. `"canonical"` is the payload-delimiter form the engine writes (`Enable.Audio.Volume.Kitchen=50`), and
+ * `"legacy"` the older dot form it still reads (`Enable.Audio.Volume.Kitchen.50`), which {@link normalizeConfiguredOptions} rewrites as configurations are saved.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionEntryGrammar = "canonical" | "legacy";
+
+/**
+ * One configured-options entry as the engine reads it, produced by {@link parseConfiguredEntry}. Where {@link ConfiguredOptionEntry} answers "what did the user write
+ * about this option," this answers "what does this line say," for a line that may address any option or none.
+ *
+ * @property enabled - True for an `Enable` entry, false for a `Disable` entry.
+ * @property grammar - The grammar the entry's value was read under. An entry carrying no value reads under the canonical grammar, which is the only one that can
+ *                     address an option without one.
+ * @property id      - The device or controller identifier the entry addresses, in the casing the entry carried. The empty string for a global entry.
+ * @property known   - True when the entry addresses an option the catalog declares.
+ * @property option  - The option the entry addresses, in the casing the catalog declares. For an unknown option there is no catalog name to anchor an id against,
+ *                     so this is the entry's whole address - everything between the action and the payload delimiter - as written.
+ * @property value   - The raw value the entry carries, in the casing the entry carried, exactly as {@link ConfiguredOptionEntry.value} reports it.
+ *
+ * @category Feature Options
+ */
+export interface ConfiguredEntryReading extends ConfiguredOptionEntry {
+
+  grammar: FeatureOptionEntryGrammar;
+  known: boolean;
+  option: string;
+}
+
+/**
+ * How one option's configuration moved between two configured-options arrays, as {@link diffConfiguredOptions} reports it: `"added"` for a scope that gained an
+ * entry, `"removed"` for a scope that lost one, `"changed"` for a scope whose entry now says something else, and `"moved"` for an entry that left one scope and
+ * reappeared, saying the same thing, at another.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionDiffChange = "added" | "changed" | "moved" | "removed";
+
+/**
+ * What one side of a {@link FeatureOptionDiff} says about an option at one scope.
+ *
+ * @property enabled - True for an `Enable` entry, false for a `Disable` entry.
+ * @property id      - The device or controller identifier the entry addresses, in the casing the entry carried. Absent for the global scope.
+ * @property value   - The raw value the entry carries, exactly as {@link ConfiguredOptionEntry.value} reports it.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDiffSetting {
+
+  enabled: boolean;
+  id?: string;
+  value?: string;
+}
+
+/**
+ * One effective change between two configured-options arrays, for one option at one scope. Produced by {@link diffConfiguredOptions}.
+ *
+ * @property after           - What the later array says. Absent for a `"removed"` change.
+ * @property before          - What the earlier array said. Absent for an `"added"` change.
+ * @property change          - What kind of change this is. See {@link FeatureOptionDiffChange}. A `"moved"` change carries both sides, each with its own scope.
+ * @property option          - The option's expanded name, in catalog case.
+ * @property requiresRestart - True when the option only takes effect at startup. See {@link requiresRestart}.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionDiff {
+
+  after?: FeatureOptionDiffSetting;
+  before?: FeatureOptionDiffSetting;
+  change: FeatureOptionDiffChange;
+  option: string;
+  requiresRestart: boolean;
+}
+
+/**
+ * Immutable derived index over the catalog inputs ({@link FeatureCategoryEntry}[] + the options map + the {@link FeatureCatalogSettings}). Every field except
+ * `categories` / `options` / `settings` is derived from those three; the index bundles them with their derivations so a single value carries everything any caller
+ * needs to make catalog-level decisions in O(1).
  *
  * The index is built once per catalog at {@link buildCatalogIndex}; it is unchanged across configured-options mutations, so a consumer that holds a stable
  * reference can rely on its query results until the catalog itself changes. The {@link FeatureOptions} class holds one internally; consumers driving reducers
  * directly hold it as state and reuse it across every dispatch that does not touch the catalog.
  *
+ * @property applies                - Lowercased-key map from canonical option name to the {@link FeatureOptionApply} semantics its catalog entry declares. Like
+ *                                    `scopes`, only a declaring entry gets a key, so an absent key reads as "applies live."
  * @property categories             - The raw category list, preserved for callers that need to iterate it (rendering, validation, log enumeration).
+ * @property constraints            - The catalog's constraints, each proven to name only catalog options. See {@link FeatureOptionConstraint}.
  * @property defaults               - Lowercased-key map from canonical option name (the form {@link expandOption} produces) to its catalog-declared default.
  * @property groupParents           - Reverse index from a child option's expanded name to its parent group's expanded name. Catalog case preserved on the keys.
  * @property groups                 - Forward index from a parent group's expanded name to its child options' expanded names.
+ * @property migrations             - The catalog's migrations in the order they apply: by version, and in declaration order within a version.
+ * @property optionNames            - Lowercased-key map from canonical option name to the name as the catalog declares it, in catalog order. The other maps answer
+ *                                    "is this an option" in O(1); this one answers "what is it called" for the places that show a user a name.
  * @property options                - The raw options map, preserved alongside categories for the same reason.
- * @property renderers              - Lowercased-key map from canonical option name to its resolved value renderer (built-in or inline function). Built-in names
- *                                    that fail to resolve throw at index-build time rather than degrading silently at log time.
+ * @property presets                - Lowercased-key map from preset name to the {@link FeatureOptionPreset} the catalog declares under it.
+ * @property renderers              - Lowercased-key map from canonical option name to its resolved {@link FeatureOptionRenderer} (built-in or inline function).
+ *                                    Built-in names that fail to resolve throw at index-build time rather than degrading silently at log time.
+ * @property requires               - Lowercased-key map from canonical option name to the device capabilities its catalog entry requires. Like `scopes`, only a
+ *                                    declaring entry gets a key, so an absent key reads as "supported everywhere." See {@link FeatureOptionEntry.requires}.
+ * @property settings               - The raw catalog-level settings, preserved alongside categories and options so a rebuild from them carries the settings forward.
  * @property scopes                 - Lowercased-key map from canonical option name to the scope levels its catalog entry declares. An option that declares nothing
  *                                    has no key here, which is how the absent-means-every-level default stays free: the lookup returns `undefined` and every
  *                                    consumer reads that as "no restriction." See {@link FeatureOptionEntry.scopes}.
@@ -277,18 +902,28 @@ export interface ConfiguredOptionEntry {
  *                                    every Enable-entry parse.
  * @property valueOptions           - Lowercased-key map from canonical option name to its declared default value. The presence of a key in this map is the SSOT
  *                                    for "this option is value-centric."
+ * @property valueTypes             - Lowercased-key map from canonical option name to its declared {@link FeatureOptionValueType}. Like `scopes`, only a declaring
+ *                                    entry gets a key, so an absent key reads as "any value goes."
  */
 export interface CatalogIndex {
 
+  readonly applies: Readonly<Record<string, FeatureOptionApply>>;
   readonly categories: readonly FeatureCategoryEntry[];
+  readonly constraints: readonly FeatureOptionConstraint[];
   readonly defaults: Readonly<Record<string, boolean>>;
   readonly groupParents: Readonly<Record<string, string>>;
   readonly groups: Readonly<Record<string, readonly string[]>>;
+  readonly migrations: readonly FeatureOptionMigration[];
+  readonly optionNames: Readonly<Record<string, string>>;
   readonly options: Readonly<Record<string, readonly FeatureOptionEntry[]>>;
-  readonly renderers: Readonly<Record<string, (value: string) => string>>;
+  readonly presets: Readonly<Record<string, FeatureOptionPreset>>;
+  readonly renderers: Readonly<Record<string, FeatureOptionRenderer>>;
+  readonly requires: Readonly<Record<string, readonly string[]>>;
   readonly scopes: Readonly<Record<string, readonly FeatureOptionScope[]>>;
+  readonly settings: FeatureCatalogSettings;
   readonly sortedValueOptionNames: readonly string[];
   readonly valueOptions: Readonly<Record<string, number | string | undefined>>;
+  readonly valueTypes: Readonly<Record<string, FeatureOptionValueType>>;
 }
 
 /**
@@ -303,12 +938,43 @@ export interface CatalogIndex {
 export type ConfigIndex = ReadonlyMap<string, Readonly<{ enabled: boolean; value?: string }>>;
 
 /**
- * Arguments for {@link applySetOption} and {@link FeatureOptions.setOption}. Carries the full mutation intent: the option key, optional scope id, enabled state,
- * and optional value for value-centric options.
+ * A map of device and controller identifier aliases: each key is an id that may appear in a configured entry or a query, and its value the id it stands for. A
+ * replaced device's old id mapped to its new one keeps the options configured for the old device applying to the new, and a friendly name mapped to an id lets
+ * entries and callers address a device by the name a user knows it by. Aliases chain - a device replaced twice maps its first id to its second and its second to
+ * its third - and match without regard to case, as ids do everywhere else.
  *
- * @property enabled - True to enable, false to disable.
- * @property id      - Optional device or controller scope identifier. Omit to address the global scope.
- * @property option  - Feature option to set (case-insensitive).
+ * @category Feature Options
+ */
+export type FeatureOptionAliases = Readonly<Record<string, string>>;
+
+/**
+ * A map of device capabilities: each key is a device id, and its value the capabilities that device has, named as the catalog's
+ * {@link FeatureOptionEntry.requires} names them. Ids match without regard to case, as they do everywhere else, and through any alias of the device; capability
+ * names match exactly. A device with no key here has unknown capabilities, which meets every requirement - only a device the plugin has described can be found
+ * wanting.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionCapabilities = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * Immutable lookup index over {@link FeatureOptionAliases}. Each key is a lowercased id that belongs to an alias chain, and its value every id that addresses the
+ * same scope, in the order resolution tries them: the id the chain ends at first, then each alias of it in declaration order. An id that belongs to no chain has
+ * no key, and addresses only itself.
+ *
+ * Built by {@link buildAliasIndex}; consumed by {@link resolveScope} and {@link optionExists} alongside the {@link ConfigIndex}.
+ *
+ * @category Feature Options
+ */
+export type AliasIndex = ReadonlyMap<string, readonly string[]>;
+
+/**
+ * Arguments for {@link applySetOption} and {@link FeatureOptions.setOption}. Carries the full mutation intent: the option key, optional scope id, enabled state,
+ * and optional value for value-centric options.
+ *
+ * @property enabled - True to enable, false to disable.
+ * @property id      - Optional device or controller scope identifier. Omit to address the global scope.
+ * @property option  - Feature option to set (case-insensitive).
  * @property value   - Optional value for value-centric options. Honored only when `enabled` is true and the option is value-centric. Free-form at either scope:
  *                     the composed entry carries it behind a payload delimiter, trimmed of surrounding whitespace, and it persists only when content survives the
  *                     trim (see {@link hasValueContent}). At a device or controller scope an enable without value content reduces to clearing the scope, because
@@ -335,20 +1001,66 @@ export interface ClearOptionArgs {
   option: string;
 }
 
+/**
+ * The effective state of a feature option at one address, as {@link FeatureOptions.watch} reports it to its listeners: the answers {@link FeatureOptions.test} and
+ * {@link FeatureOptions.value} give, plus the scope the option resolved at.
+ *
+ * @property enabled - Whether the option is enabled, as {@link FeatureOptions.test} reports it.
+ * @property scope   - Where the option resolved. See {@link OptionScope}.
+ * @property value   - The option's value, as {@link FeatureOptions.value} reports it: `null` for a boolean option or a disabled one.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionSnapshot {
+
+  enabled: boolean;
+  scope: OptionScope;
+  value: Nullable<string | undefined>;
+}
+
+/**
+ * Options accepted by {@link FeatureOptions.watch}: the address to watch, and the subscription's lifetime.
+ *
+ * @property controller - Optional controller scope identifier.
+ * @property device     - Optional device scope identifier.
+ * @property signal     - Optional {@link AbortSignal}. When it aborts, the listener is removed. A signal that has already aborted registers nothing.
+ *
+ * @category Feature Options
+ */
+export interface FeatureOptionWatchInit {
+
+  controller?: string;
+  device?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A listener registered with {@link FeatureOptions.watch}, called with the option's new effective state and the one it replaced.
+ *
+ * @category Feature Options
+ */
+export type FeatureOptionListener = (current: FeatureOptionSnapshot, previous: FeatureOptionSnapshot) => void;
+
 // Internal parse result for a single configured-options entry. `primaryKey` is the raw lowercased tail (always registered on the index). `valueKey` and `value`
 // appear only when the tail decomposes as a known value-centric option plus a value - they tell the index where to also register the extracted value for O(1)
 // lookups, and `canonicalEntry` carries the same decoding re-composed in the canonical form. `tailOriginal` is that same tail with the casing the entry was
 // written in, which is what lets a reader hand back an identifier as the user typed it: the lookup keys are lowercased slices of this string, so a key's length
 // is an offset into it. Shared between buildConfigIndex (writer), entryAddressesScope (reader), enumerateConfiguredEntries (reader), and
-// normalizeConfiguredOptions (rewriter) so none of them can disagree on what any given entry "means" under the storage format.
+// normalizeConfiguredOptions (rewriter) so none of them can disagree on what any given entry "means" under the storage format. When the option declares a value
+// type, `valueError` carries the reason a value fails it and `typedValue` the value as resolution reads it - the two are never both present. `grammar` names
+// which of the two value forms settled the value reading, and is absent when the entry has none.
 interface ParsedConfigEntry {
 
   canonicalEntry?: string;
   enabled: boolean;
+  grammar?: FeatureOptionEntryGrammar;
   primaryKey: string;
   tailOriginal: string;
+  typedValue?: string;
   value?: string;
+  valueError?: string;
   valueKey?: string;
+  valueOption?: string;
 }
 
 /**
@@ -401,6 +1113,132 @@ export function hasValueContent(value: string): boolean {
   return /[^=]/.test(value.trim());
 }
 
+// The unit suffixes a duration value may carry, and the number of seconds each stands for. A bare number carries no suffix and reads as seconds.
+const DURATION_UNITS: Readonly<Record<string, number>> = { h: 3600, m: 60, ms: 0.001, s: 1 };
+
+// Read a duration value as a number of seconds, or NaN when the text is not a duration. Shared by the value-type check and FeatureOptions.getDuration, so the text a
+// check accepts and the number a plugin reads back come from one reading and cannot disagree.
+function parseDurationSeconds(value: string): number {
+
+  const match = /^(\d+\.?\d*|\.\d+)\s*(ms|s|m|h)?$/i.exec(value.trim());
+
+  if(!match?.[1]) {
+
+    return Number.NaN;
+  }
+
+  return Number.parseFloat(match[1]) * (DURATION_UNITS[(match[2] ?? "s").toLowerCase()] ?? Number.NaN);
+}
+
+// Phrase the inclusive bounds of a numeric value type as the tail of an "Expected ..." sentence, or the empty string when the declaration sets none.
+function describeBounds({ max, min }: { max?: number; min?: number }, unit: string): string {
+
+  if((min !== undefined) && (max !== undefined)) {
+
+    return " between " + min.toString() + " and " + max.toString() + unit;
+  }
+
+  if(min !== undefined) {
+
+    return " of at least " + min.toString() + unit;
+  }
+
+  return (max !== undefined) ? (" of at most " + max.toString() + unit) : "";
+}
+
+// Check a value against an option's declared value type. Returns the value as resolution should read it - the catalog's own spelling for an enum member, the trimmed
+// text otherwise - or, when the value fails, the reason as a complete sentence a user can act on. This is the single definition of "a valid value", shared by the
+// entry parser (which is how the index, the normalizer, and every diagnostic see it), the catalog builder's check of declared defaults, and validateOptionValue, which
+// the webUI consults before it lets a value be saved.
+function checkValue(valueType: FeatureOptionValueType, value: string): { error: string } | { value: string } {
+
+  const text = value.trim();
+
+  switch(valueType.type) {
+
+    case "duration":
+    case "float":
+    case "integer": {
+
+      let parsed: number;
+
+      if(valueType.type === "duration") {
+
+        parsed = parseDurationSeconds(text);
+      } else {
+
+        parsed = ((valueType.type === "integer") ? /^[+-]?\d+$/ : /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i).test(text) ? Number(text) : Number.NaN;
+      }
+
+      const noun = { duration: "a duration", float: "a number", integer: "a whole number" }[valueType.type];
+      const unit = (valueType.type === "duration") ? " seconds" : "";
+
+      if(Number.isNaN(parsed) || ((valueType.min !== undefined) && (parsed < valueType.min)) || ((valueType.max !== undefined) && (parsed > valueType.max))) {
+
+        return { error: "Expected " + noun + describeBounds(valueType, unit) + ((valueType.type === "duration") ? ", such as 30s, 5m, or 2h." : ".") };
+      }
+
+      return { value: text };
+    }
+
+    case "enum": {
+
+      const member = valueType.values.find((candidate) => candidate.toLowerCase() === text.toLowerCase());
+
+      return (member === undefined) ? { error: "Expected one of: " + valueType.values.join(", ") + "." } : { value: member };
+    }
+
+    case "regex":
+
+      return new RegExp("^(?:" + valueType.pattern + ")$", "u").test(text) ? { value: text } : { error: "Expected a value matching " + valueType.pattern + "." };
+
+    case "url": {
+
+      const protocol = URL.canParse(text) ? new URL(text).protocol.slice(0, -1) : undefined;
+
+      if((protocol === undefined) || (valueType.protocols && !valueType.protocols.some((candidate) => candidate.toLowerCase() === protocol))) {
+
+        return { error: (valueType.protocols ? ("Expected a URL using " + valueType.protocols.join(" or ")) : "Expected an absolute URL") + "." };
+      }
+
+      return { value: text };
+    }
+
+    default:
+
+      return { value: text };
+  }
+}
+
+/**
+ * Check a candidate value for a feature option against the option's declared {@link FeatureOptionValueType}, the same check resolution applies to a configured
+ * entry. Exported so a UI accepting a value can refuse one the engine would ignore, with the same reason the engine would give - a prediction that has to agree
+ * with {@link buildConfigIndex} exactly.
+ *
+ * A value without content (see {@link hasValueContent}) is not a value at all and always passes, as does any value for an option that declares no type.
+ *
+ * @param catalog - The catalog index.
+ * @param option  - The option key (case-insensitive).
+ * @param value   - The candidate value text.
+ *
+ * @returns The reason the value fails, as a complete sentence, or `undefined` when the value is acceptable.
+ *
+ * @category Feature Options
+ */
+export function validateOptionValue(catalog: CatalogIndex, option: string, value: string): string | undefined {
+
+  const valueType = catalog.valueTypes[option.toLowerCase()];
+
+  if(!valueType || !hasValueContent(value)) {
+
+    return undefined;
+  }
+
+  const checked = checkValue(valueType, value);
+
+  return ("error" in checked) ? checked.error : undefined;
+}
+
 // Compose a configured-options entry from its parts, and the single place in this module that knows how to write one. Everything up to the payload delimiter is
 // the address - the canonical action, the option name, and an optional scope id, joined by dots - and everything after it is the value. An absent value composes
 // the bare address; a present value composes behind the delimiter, trimmed first, so the canonical value domain excludes edge whitespace and the tolerant parse
@@ -415,6 +1253,23 @@ function composeEntry({ enabled, id, option, value }: { enabled: boolean; id?: s
   return (payload === undefined) ? address : (address + "=" + payload);
 }
 
+/**
+ * Compose the configured-options entry a usage example stands for: `Enable.Motion.Sensitivity.ABC123=high` for an enabling example at a device with a value. This is
+ * how the documentation renderer and the webUI show a {@link FeatureOptionExample}, written by the same composer every other entry is, so an example always reads
+ * in the form a save would write.
+ *
+ * @param option  - The option's expanded name, as the example should spell it.
+ * @param example - The example.
+ *
+ * @returns The configured-options entry.
+ *
+ * @category Feature Options
+ */
+export function composeOptionExample(option: string, example: FeatureOptionExample): string {
+
+  return composeEntry({ enabled: example.enabled ?? true, id: example.id, option, value: (example.value === undefined) ? undefined : String(example.value) });
+}
+
 // Parse a single configured-options entry into the lookup keys it would register on the index. Returns null for non-canonical entries (no action prefix, or an
 // unknown action). Otherwise returns the primary (raw-tail) key, optionally accompanied by a derived value key with the extracted value for value-centric Enable
 // entries. This is the SSOT for entry decoding - buildConfigIndex (which uses it to populate the index), entryAddressesScope (which uses it to decide whether a
@@ -431,6 +1286,9 @@ function composeEntry({ enabled, id, option, value }: { enabled: boolean; id?: s
 // Greedy longest-prefix matching against the value-option registry handles the case where a shorter value-centric option name is a prefix of a longer option in
 // the catalog - the longer match wins, so an entry like `Enable.Audio.Volume.50` (when both `Audio` and `Audio.Volume` are value-centric) is unambiguously parsed
 // as `Audio.Volume` with value `50`, not `Audio` with value `Volume.50`.
+//
+// Whichever grammar settles the reading, the value is then checked against the option's declared value type in one place below the loop, so every form a value can
+// be written in is held to the same declaration.
 function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry | null {
 
   const dotIndex = rawEntry.indexOf(".");
@@ -452,6 +1310,11 @@ function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry
   const tail = tailOriginal.toLowerCase();
   const parsed: ParsedConfigEntry = { enabled, primaryKey: tail, tailOriginal };
 
+  // The value reading the loop below settles on, when it settles on one: the option it addresses in both casings, the scope id in both casings for a scoped
+  // reading, the value itself, and whether the reading re-composes into a canonical entry.
+  let decoded: { canonical: boolean; grammar: FeatureOptionEntryGrammar; id?: string; idLower?: string; optName: string; optionOriginal: string; value: string } |
+    undefined;
+
   // Value extraction is only meaningful for Enable entries - a disabled option carries no value regardless of trailing segments.
   if(!enabled) {
 
@@ -496,9 +1359,7 @@ function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry
 
         // Global form: the option name is the whole address. The payload may be empty here - `Enable.Option=` reads as "enabled globally, no value given" -
         // because no legacy value can sit against the option name without a dot ahead of it, so there is no competing reading to protect.
-        parsed.canonicalEntry = composeEntry({ enabled, option: optionOriginal, value });
-        parsed.valueKey = optName;
-        parsed.value = value;
+        decoded = { canonical: true, grammar: "canonical", optName, optionOriginal, value };
 
         break;
       }
@@ -512,9 +1373,7 @@ function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry
       // or normalizing a composed entry would rewrite it.
       if(idLower.length && !idLower.includes(".") && hasValueContent(value)) {
 
-        parsed.canonicalEntry = composeEntry({ enabled, id: remainderOriginal.slice(1, address.length), option: optionOriginal, value });
-        parsed.valueKey = optName + "." + idLower;
-        parsed.value = value;
+        decoded = { canonical: true, grammar: "canonical", id: remainderOriginal.slice(1, address.length), idLower, optName, optionOriginal, value };
 
         break;
       }
@@ -545,13 +1404,7 @@ function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry
       // user's file that only the user can settle - so the entry stays exactly as written. A segment containing "=" is the exception: the composer cannot
       // address a scope whose id carries the delimiter, so the scope reading is unwritable, the global-value reading is the only live one, and the entry can
       // modernize into the form that states it outright.
-      if(extra.includes("=")) {
-
-        parsed.canonicalEntry = composeEntry({ enabled, option: optionOriginal, value: extraOriginal });
-      }
-
-      parsed.valueKey = optName;
-      parsed.value = extraOriginal;
+      decoded = { canonical: extra.includes("="), grammar: "legacy", optName, optionOriginal, value: extraOriginal };
     } else {
 
       const idLower = extra.slice(0, separatorIndex);
@@ -559,16 +1412,46 @@ function parseEntry(catalog: CatalogIndex, rawEntry: string): ParsedConfigEntry
 
       // The id-and-value reading always registers on the index; it re-composes canonically only when the value carries content, because the canonical grammar
       // has no scoped spelling for a contentless payload and a rewrite has to re-read as exactly what it replaced.
-      if(hasValueContent(valueOriginal)) {
+      decoded = { canonical: hasValueContent(valueOriginal), grammar: "legacy", id: extraOriginal.slice(0, separatorIndex), idLower, optName, optionOriginal,
+        value: valueOriginal };
+    }
 
-        parsed.canonicalEntry = composeEntry({ enabled, id: extraOriginal.slice(0, separatorIndex), option: optionOriginal, value: valueOriginal });
-      }
+    break;
+  }
+
+  if(!decoded) {
+
+    return parsed;
+  }
+
+  const { canonical, grammar, id, idLower, optName, optionOriginal, value } = decoded;
+  const valueType = catalog.valueTypes[optName];
+
+  parsed.grammar = grammar;
+  parsed.valueKey = (idLower === undefined) ? optName : (optName + "." + idLower);
+  parsed.valueOption = optName;
+  parsed.value = value;
 
-      parsed.valueKey = optName + "." + idLower;
-      parsed.value = valueOriginal;
+  // Hold the value to the option's declared type. A value without content is no value at all, so there is nothing to check; a failing value keeps its reason, which
+  // is what keeps it off the index; a passing one carries the reading resolution uses, which for an enum member is the catalog's own spelling.
+  if(valueType && hasValueContent(value)) {
+
+    const checked = checkValue(valueType, value);
+
+    if("error" in checked) {
+
+      parsed.valueError = checked.error;
+    } else {
+
+      parsed.typedValue = checked.value;
     }
+  }
 
-    break;
+  // A canonical re-composition writes the typed reading when there is one, so normalizing an enum member also settles it on the declared spelling. A failing value
+  // still modernizes into the canonical form - the form is the engine's to settle, the value is the user's to correct.
+  if(canonical) {
+
+    parsed.canonicalEntry = composeEntry({ enabled, id, option: optionOriginal, value: parsed.typedValue ?? value });
   }
 
   return parsed;
@@ -599,7 +1482,10 @@ function entryAddressesScope({ catalog, rawEntry, target }: { catalog: CatalogIn
 /**
  * Build the catalog-derived index from raw categories + options. The result carries the raw inputs alongside every derivation needed for O(1) catalog queries -
  * defaults, value-options registry, groups (both directions), renderers, and the longest-first cache the entry parser consumes. Throws when a built-in formatter
- * name on a `render` declaration does not resolve, surfacing the misconfiguration at load time rather than silently degrading the log-emission path.
+ * name on a `render` declaration does not resolve, surfacing the misconfiguration at load time rather than silently degrading the log-emission path, and likewise
+ * when a {@link FeatureOptionEntry.valueType} declaration cannot hold (see there) or a {@link FeatureOptionMigration} could never apply: a version the catalog
+ * version does not reach, a former name the catalog still declares, or a remap of an option that carries no values. A usage example the option could not accept
+ * and a deprecation naming a replacement the catalog does not declare throw too.
  *
  * The index is the catalog-side input to every other pure helper in this module. Build it once per catalog; reuse it across every configured-options mutation
  * because the catalog is unchanged across those mutations. Categories without an entry in the options map are skipped silently (a plugin defines a category for
@@ -607,17 +1493,24 @@ function entryAddressesScope({ catalog, rawEntry, target }: { catalog: CatalogIn
  *
  * @param categories - The raw category list.
  * @param options    - The raw options map keyed by category name.
+ * @param settings   - Optional. The catalog-level settings. See {@link FeatureCatalogSettings}.
  *
  * @returns The immutable catalog index.
  */
-export function buildCatalogIndex(categories: readonly FeatureCategoryEntry[], options: Readonly<Record<string, readonly FeatureOptionEntry[]>>): CatalogIndex {
+export function buildCatalogIndex(categories: readonly FeatureCategoryEntry[], options: Readonly<Record<string, readonly FeatureOptionEntry[]>>,
+  settings: FeatureCatalogSettings = {}): CatalogIndex {
 
+  const applies: Record<string, FeatureOptionApply> = {};
   const defaults: Record<string, boolean> = {};
   const groupParents: Record<string, string> = {};
   const groups: Record<string, string[]> = {};
-  const renderers: Record<string, (value: string) => string> = {};
+  const optionNames: Record<string, string> = {};
+  const renderers: Record<string, FeatureOptionRenderer> = {};
+  const requires: Record<string, readonly string[]> = {};
   const scopes: Record<string, readonly FeatureOptionScope[]> = {};
   const valueOptions: Record<string, number | string | undefined> = {};
+  const valueTypes: Record<string, FeatureOptionValueType> = {};
+  const deprecations: [ string, FeatureOptionDeprecation ][] = [];
 
   for(const category of categories) {
 
@@ -633,6 +1526,7 @@ export function buildCatalogIndex(categories: readonly FeatureCategoryEntry[], o
       const entry = expandOption(category, option);
 
       defaults[entry.toLowerCase()] = option.default;
+      optionNames[entry.toLowerCase()] = entry;
 
       // Track value-centric options separately so the lookup index built later knows which entries can carry a value.
       if("defaultValue" in option) {
@@ -669,6 +1563,38 @@ export function buildCatalogIndex(categories: readonly FeatureCategoryEntry[], o
         scopes[entry.toLowerCase()] = option.scopes;
       }
 
+      // Register the declared capability requirements on the same terms, so resolution can tell an unsupported option without reaching back into the options map.
+      if(option.requires) {
+
+        requires[entry.toLowerCase()] = option.requires;
+      }
+
+      // Register the declared apply semantics on the same terms: only a declaring entry gets a key, and the absent key is the live default.
+      if(option.apply) {
+
+        applies[entry.toLowerCase()] = option.apply;
+      }
+
+      // Register the declared value type, after proving the declaration can hold: it belongs on a value-centric option, its pattern compiles, its bounds do not
+      // cross, and the option's own default satisfies it. Each of those is a catalog bug the user could never work around from the settings page, so each throws
+      // here rather than surfacing later as every configured value being quietly ignored.
+      if(option.valueType) {
+
+        assertValueType({ entry, option, valueType: option.valueType });
+        valueTypes[entry.toLowerCase()] = option.valueType;
+      }
+
+      // Prove every usage example is one the option accepts. A deprecation waits for the loop to finish, since its replacement may be declared further on.
+      for(const example of option.examples ?? []) {
+
+        assertExample({ entry, example, option });
+      }
+
+      if(option.deprecated) {
+
+        deprecations.push([ entry, option.deprecated ]);
+      }
+
       if(option.group !== undefined) {
 
         const expandedGroup = category.name + (option.group.length ? ("." + option.group) : "");
@@ -681,289 +1607,1816 @@ export function buildCatalogIndex(categories: readonly FeatureCategoryEntry[], o
     }
   }
 
+  for(const [ entry, deprecation ] of deprecations) {
+
+    assertDeprecation({ defaults, deprecation, entry });
+  }
+
   // Cache the value-option names sorted longest-first. parseEntry consumes this directly on every Enable-entry parse; precomputing here means the sort runs once
   // per catalog change rather than once per parse. The list mirrors valueOptions's key set, so any future mutation that touches valueOptions must rebuild through
   // this method to keep the two views consistent.
   const sortedValueOptionNames = Object.keys(valueOptions).sort((a, b) => b.length - a.length);
 
-  return { categories, defaults, groupParents, groups, options, renderers, scopes, sortedValueOptionNames, valueOptions };
-}
+  // Order the migration history the way it applies. The sort is stable, so migrations sharing a version keep the order the catalog declared them in.
+  const migrations = [...(settings.migrations ?? [])].sort((a, b) => a.version - b.version);
 
-/**
- * Build the configured-options lookup index from a catalog index + the configured-options array. Each entry contributes one or two lookup keys via the shared
- * `parseEntry`: the raw tail (always) and an extracted value key (for value-centric Enable entries). First-write-wins on collision so the earliest entry in
- * the array takes precedence over later duplicates - users hand-editing config and accidentally listing an option twice get the natural "first one is canonical"
- * semantic.
- *
- * Rebuild whenever the configured-options array changes; reuse across reads.
- *
- * @param catalog           - The catalog index that defines what counts as a value-centric option.
- * @param configuredOptions - The array of configured option strings.
- *
- * @returns The immutable lookup index.
- */
-export function buildConfigIndex(catalog: CatalogIndex, configuredOptions: readonly string[]): ConfigIndex {
+  for(const [ index, migration ] of migrations.entries()) {
 
-  const lookup = new Map<string, Readonly<{ enabled: boolean; value?: string }>>();
+    assertMigration({ defaults, later: migrations.slice(index + 1), migration, valueOptions, version: settings.version ?? 0 });
+  }
 
-  for(const rawEntry of configuredOptions) {
+  const constraints = settings.constraints ?? [];
 
-    const parsed = parseEntry(catalog, rawEntry);
+  for(const constraint of constraints) {
 
-    if(!parsed) {
+    assertConstraint({ constraint, defaults });
+  }
 
-      continue;
-    }
+  for(const [ locale, translation ] of Object.entries(settings.translations ?? {})) {
 
-    if(!lookup.has(parsed.primaryKey)) {
+    assertTranslation({ categories, defaults, locale, translation });
+  }
 
-      lookup.set(parsed.primaryKey, { enabled: parsed.enabled });
-    }
+  const presets: Record<string, FeatureOptionPreset> = {};
+  const catalog: CatalogIndex = {
 
-    if(parsed.valueKey && !lookup.has(parsed.valueKey)) {
+    applies, categories, constraints, defaults, groupParents, groups, migrations, optionNames, options, presets, renderers, requires, scopes, settings,
+    sortedValueOptionNames, valueOptions, valueTypes
+  };
 
-      lookup.set(parsed.valueKey, { enabled: true, value: parsed.value });
-    }
+  // Presets are proven against the finished index, since telling whether an entry addresses a catalog option takes the same parse resolution uses.
+  for(const preset of settings.presets ?? []) {
+
+    assertPreset({ catalog, preset });
+    presets[preset.name.toLowerCase()] = preset;
   }
 
-  return lookup;
+  return catalog;
 }
 
-// Decide whether a lookup key addresses a given option. A key does so when it is the option itself - the global scope - or the option followed by a single
-// dot-free identifier segment, which is the only scoped address the grammar can write. A key that is itself a catalog option name is that option rather than a
-// scope of a shorter one: `Enable.Motion.Detect` is the `Motion.Detect` option, never `Motion` at a scope named "Detect", and the catalog is what settles it.
-function keyAddressesOption({ catalog, key, optionKey }: { catalog: CatalogIndex; key: string; optionKey: string }): boolean {
+// Prove a usage example is one the option accepts, throwing a message that names the example when it is not. An example is documentation a user copies as
+// written, so one the engine would skip, refuse, or read as something else teaches exactly the wrong thing. The last check is the subtle one: an enabling example
+// of a value-centric option at a device must carry a value, because without one the legacy grammar reads the id as the global value instead.
+function assertExample({ entry, example, option }: { entry: string; example: FeatureOptionExample; option: FeatureOptionEntry }): void {
 
-  if(key === optionKey) {
+  const prefix = "FeatureOptions: example \"" + composeOptionExample(entry, example) + "\" of option \"" + entry + "\" ";
+  const valueCentric = "defaultValue" in option;
+  const enabled = example.enabled ?? true;
+  const value = (example.value === undefined) ? undefined : String(example.value);
 
-    return true;
+  if((value !== undefined) && (!valueCentric || !enabled)) {
+
+    throw new Error(prefix + "carries a value, which only an enabling example of a value-centric option may.");
   }
 
-  if(!key.startsWith(optionKey + ".") || (key in catalog.defaults)) {
+  const checked = ((value !== undefined) && option.valueType) ? checkValue(option.valueType, value) : undefined;
 
-    return false;
+  if(checked && ("error" in checked)) {
+
+    throw new Error(prefix + "fails its declared value type. " + checked.error);
   }
 
-  const id = key.slice(optionKey.length + 1);
+  const level = (example.id === undefined) ? "global" : "device";
 
-  return !!id.length && !id.includes(".");
-}
+  if(option.scopes && !option.scopes.includes(level) && ((level === "global") || !option.scopes.includes("controller"))) {
 
-// Recover a scope identifier in the casing the entry carried. The lookup keys are lowercased slices of the same tail, so the matched key's length is where the
-// identifier ends and the option name's length is where it begins. A key equal in length to the option name is the global address, which has no identifier.
-function originalId({ key, optionKey, tailOriginal }: { key: string; optionKey: string; tailOriginal: string }): string {
+    throw new Error(prefix + "addresses a scope the option does not declare.");
+  }
 
-  return (key.length > optionKey.length) ? tailOriginal.slice(optionKey.length + 1, key.length) : "";
+  if(valueCentric && enabled && (example.id !== undefined) && !hasValueContent(value ?? "")) {
+
+    throw new Error(prefix + "addresses a device without a value, which reads as a global value instead.");
+  }
 }
 
-/**
- * Enumerate every configured entry that addresses one feature option, decoding each through the engine's own grammar. This is the supported way to discover which
- * scopes a plugin's users have configured an option at, and with what - a plugin that scans the configured-options array itself is re-implementing the storage
- * format, and the two readings drift the moment the grammar grows.
- *
- * Yields one {@link ConfiguredOptionEntry} per addressing entry, in the order the entries appear in the array, and nothing at all for an option nobody configured.
- * Matching folds case, because the storage format does; the yielded identifiers and values keep the casing the entry was written in, because that is the text the
- * user typed and a consumer displaying it should show it back unchanged.
- *
- * Two things this deliberately does not do, both of which belong to {@link resolveScope}: it applies no precedence - a device entry and a global entry for the
- * same option are two records here, not one winner - and it substitutes no catalog default, so an option with no entries yields nothing rather than a record
- * carrying its default. Ask this what the user wrote; ask {@link resolveScope} what applies. Duplicate entries addressing the same scope each yield a record, so
- * the first-write-wins rule the lookup index applies is visible here as two records rather than resolved away.
- *
- * @param args
- * @param args.catalog           - The catalog index, which defines what counts as a value-centric option and which names are options in their own right.
- * @param args.category          - Optional. The option's category, composed with `option` exactly as {@link expandOption} composes them. Omit it when `option` is
- *                                 already the expanded name.
- * @param args.configuredOptions - The raw configured-options array.
- * @param args.option            - The feature option to enumerate: an option entry or name to be composed with `category`, or the expanded name on its own.
- *
- * @returns A generator over the configured entries addressing the option.
- *
- * @example
- *
- * ```ts
- * // Every device that has this option configured, and the value each one carries.
- * for(const entry of enumerateConfiguredEntries({ catalog, configuredOptions, option: "Audio.Volume" })) {
- *
- *   log.info("Volume is configured.", { enabled: entry.enabled, scope: entry.id.length ? entry.id : "global", value: entry.value });
- * }
- * ```
- *
- * @category Feature Options
- */
-export function *enumerateConfiguredEntries({ catalog, category, configuredOptions, option }: {
+// Prove a deprecation points somewhere, throwing a message that names the option when its replacement is not a catalog option other than itself.
+function assertDeprecation({ defaults, deprecation, entry }: { defaults: Readonly<Record<string, boolean>>; deprecation: FeatureOptionDeprecation;
+  entry: string; }): void {
 
-  catalog: CatalogIndex;
-  category?: FeatureCategoryEntry | string;
-  configuredOptions: readonly string[];
-  option: FeatureOptionEntry | string;
-}): Generator<ConfiguredOptionEntry, void, undefined> {
+  const replacement = deprecation.replacement;
 
-  // An absent category means the caller already holds the expanded name; supplying one composes through the same helper every other call site composes with.
-  const expanded = (category === undefined) ? ((typeof option === "string") ? option : option.name) : expandOption(category, option);
-  const optionKey = expanded.toLowerCase();
+  if((replacement !== undefined) && (!(replacement.toLowerCase() in defaults) || (replacement.toLowerCase() === entry.toLowerCase()))) {
+
+    throw new Error("FeatureOptions: option \"" + entry + "\" is deprecated in favor of \"" + replacement + "\", which the catalog does not otherwise declare.");
+  }
+}
+
+// Prove a migration can apply, throwing a message that names it when it cannot. A migration whose former name the catalog still declares would never fire, since
+// migrations pass over entries that address a current option, and one whose version outruns the catalog's is a release that forgot to advance the version. A rename
+// or split target must be a catalog option, or the former name of a migration that applies after it - otherwise a misspelled target would quietly move a user's
+// entry to an option nothing reads.
+function assertMigration({ defaults, later, migration, valueOptions, version }: { defaults: Readonly<Record<string, boolean>>;
+  later: readonly FeatureOptionMigration[]; migration: FeatureOptionMigration; valueOptions: Readonly<Record<string, number | string | undefined>>;
+  version: number; }): void {
+
+  const name = (migration.kind === "remap") ? migration.option : migration.from;
+
+  if(!Number.isInteger(migration.version) || (migration.version < 1) || (migration.version > version)) {
+
+    throw new Error("FeatureOptions: migration of \"" + name + "\" declares version " + migration.version.toString() + ", which the catalog version " +
+      version.toString() + " does not reach.");
+  }
+
+  if(migration.kind === "remap") {
+
+    if(!(name.toLowerCase() in valueOptions)) {
+
+      throw new Error("FeatureOptions: value remap declared on option \"" + name + "\", which is not a value-centric catalog option.");
+    }
+
+    return;
+  }
+
+  if(name.toLowerCase() in defaults) {
+
+    throw new Error("FeatureOptions: migration from \"" + name + "\" names an option the catalog still declares.");
+  }
+
+  if(migration.kind === "remove") {
+
+    return;
+  }
+
+  const targets: readonly string[] = (migration.kind === "rename") ? [migration.to] : migration.to;
+  const unknown = targets.find((target) => !(target.toLowerCase() in defaults) &&
+    !later.some((step) => (step.kind !== "remap") && (step.from.toLowerCase() === target.toLowerCase())));
+
+  if(unknown !== undefined) {
+
+    throw new Error("FeatureOptions: migration from \"" + name + "\" moves entries to \"" + unknown + "\", which is not a catalog option.");
+  }
+}
+
+// Prove a constraint names only catalog options. A misspelled name would leave the constraint silently unable to fail, which is a catalog bug no user could notice
+// from the settings page, so it throws here.
+function assertConstraint({ constraint, defaults }: { constraint: FeatureOptionConstraint; defaults: Readonly<Record<string, boolean>> }): void {
+
+  const unknown = constraintOptions(constraint).find((option) => !(option.toLowerCase() in defaults));
+
+  if(unknown !== undefined) {
+
+    throw new Error("FeatureOptions: " + constraint.kind + " constraint names \"" + unknown + "\", which is not a catalog option.");
+  }
+}
+
+// Prove a preset can apply as written: its name is not already taken, and every entry addresses a catalog option at the global scope. A preset entry the engine
+// could not place would be skipped each time a user applied the preset, which is a catalog bug only the plugin can fix, so it throws here.
+function assertPreset({ catalog, preset }: { catalog: CatalogIndex; preset: FeatureOptionPreset }): void {
+
+  if(preset.name.toLowerCase() in catalog.presets) {
+
+    throw new Error("FeatureOptions: preset \"" + preset.name + "\" is declared more than once.");
+  }
+
+  const unplaced = preset.options.find((entry) => !profileEntry(catalog, entry));
+
+  if(unplaced !== undefined) {
+
+    throw new Error("FeatureOptions: preset \"" + preset.name + "\" carries \"" + unplaced + "\", which does not address a catalog option globally.");
+  }
+}
+
+// Prove a translation describes only what the catalog declares, throwing a message that names the stray key when it does not. A key that matches nothing is a
+// typo or a leftover from an option since renamed, and either way its text would never be shown.
+function assertTranslation({ categories, defaults, locale, translation }: { categories: readonly FeatureCategoryEntry[];
+  defaults: Readonly<Record<string, boolean>>; locale: string; translation: FeatureCatalogTranslation; }): void {
+
+  const names = new Set(categories.map((category) => category.name.toLowerCase()));
+  const category = Object.keys(translation.categories ?? {}).find((name) => !names.has(name.toLowerCase()));
+  const option = Object.keys(translation.options ?? {}).find((name) => !(name.toLowerCase() in defaults));
+
+  if(category !== undefined) {
+
+    throw new Error("FeatureOptions: the \"" + locale + "\" translation describes category \"" + category + "\", which the catalog does not declare.");
+  }
+
+  if(option !== undefined) {
+
+    throw new Error("FeatureOptions: the \"" + locale + "\" translation describes option \"" + option + "\", which the catalog does not declare.");
+  }
+}
+
+// Every option a constraint names, constrained option first.
+function constraintOptions(constraint: FeatureOptionConstraint): readonly string[] {
+
+  switch(constraint.kind) {
+
+    case "conflicts":
+
+      return [ constraint.option, ...constraint.conflicts ];
+
+    case "exclusive":
+
+      return constraint.options;
+
+    case "requires":
+
+      return [ constraint.option, ...constraint.requires ];
+  }
+}
+
+// Prove a catalog entry's value-type declaration can hold, throwing a message that names the option when it cannot. Called once per declaring entry at
+// catalog-build time, so the checks cost nothing at resolution time.
+function assertValueType({ entry, option, valueType }: { entry: string; option: FeatureOptionEntry; valueType: FeatureOptionValueType }): void {
+
+  if(!("defaultValue" in option)) {
+
+    throw new Error("FeatureOptions: value type declared on option \"" + entry + "\", which is not value-centric.");
+  }
+
+  if(valueType.type === "regex") {
+
+    try {
+
+      new RegExp(valueType.pattern, "u");
+    } catch(error) {
+
+      throw new Error("FeatureOptions: invalid pattern declared on option \"" + entry + "\": " + (error as Error).message, { cause: error });
+    }
+  }
+
+  if(("min" in valueType) && ("max" in valueType) && (valueType.min !== undefined) && (valueType.max !== undefined) && (valueType.min > valueType.max)) {
+
+    throw new Error("FeatureOptions: value type on option \"" + entry + "\" declares a minimum greater than its maximum.");
+  }
+
+  const defaultValue = option.defaultValue?.toString();
+
+  if((defaultValue !== undefined) && hasValueContent(defaultValue)) {
+
+    const checked = checkValue(valueType, defaultValue);
+
+    if("error" in checked) {
+
+      throw new Error("FeatureOptions: default value \"" + defaultValue + "\" of option \"" + entry + "\" fails its declared value type. " + checked.error);
+    }
+  }
+}
+
+// The translation a locale reads, matched without regard to case: the table for the locale itself, then the table for its language alone, so a "de-AT" reader
+// gets a catalog's "de" text. Undefined when neither exists, which is the English fallback.
+function translationFor(translations: Readonly<Record<string, FeatureCatalogTranslation>>, locale: string): FeatureCatalogTranslation | undefined {
+
+  const tags = Object.keys(translations);
+  const wanted = locale.toLowerCase();
+  const language = wanted.split("-")[0];
+  const tag = tags.find((candidate) => candidate.toLowerCase() === wanted) ?? tags.find((candidate) => candidate.toLowerCase() === language);
+
+  return (tag === undefined) ? undefined : translations[tag];
+}
+
+/**
+ * Project a catalog's categories and options into a locale, replacing each description the locale's {@link FeatureCatalogTranslation} supplies and leaving the
+ * rest in English. The locale's own table is used when the catalog ships one, and otherwise the table for its language alone, so a `"de-AT"` reader gets the
+ * `"de"` text; with neither, or with no locale at all, the catalog comes back as declared.
+ *
+ * Pure: the entries come back as copies wherever a description changed, with every other field - `meta` included - carried over as is. Only descriptions are
+ * translated; names, defaults, and values are what configured entries are written in, so they never change with the reader's language.
+ *
+ * @typeParam TOptionMeta   - The concrete type of an option entry's opaque `meta` annotation, carried through unchanged.
+ * @typeParam TCategoryMeta - The concrete type of a category entry's opaque `meta` annotation, carried through unchanged.
+ * @param args
+ * @param args.categories   - The catalog's category list.
+ * @param args.locale       - Optional. The BCP 47 locale tag to project into. Omit it for English.
+ * @param args.options      - The catalog's options map keyed by category name.
+ * @param args.translations - Optional. The catalog's translations. See {@link FeatureCatalogSettings.translations}.
+ *
+ * @returns The categories and options, described in the locale.
+ *
+ * @example
+ *
+ * ```ts
+ * const { categories, options } = localizeCatalog({ categories: featureOptionCategories, locale: navigator.language, options: featureOptions, translations });
+ * ```
+ *
+ * @category Feature Options
+ */
+export function localizeCatalog<TOptionMeta = unknown, TCategoryMeta = unknown>({ categories, locale, options, translations = {} }: {
+
+  categories: readonly FeatureCategoryEntry<TCategoryMeta>[];
+  locale?: string;
+  options: Readonly<Record<string, readonly FeatureOptionEntry<TOptionMeta>[]>>;
+  translations?: Readonly<Record<string, FeatureCatalogTranslation>>;
+}): { categories: FeatureCategoryEntry<TCategoryMeta>[]; options: Record<string, FeatureOptionEntry<TOptionMeta>[]> } {
+
+  const translation = locale ? translationFor(translations, locale) : undefined;
+
+  // Keys match without regard to case, as option names do everywhere else, so each table is folded once up front.
+  const fold = (table: Readonly<Record<string, string>> = {}): Map<string, string> => new Map(Object.entries(table).map(([ key, text ]) => [ key.toLowerCase(), text ]));
+  const categoryText = fold(translation?.categories);
+  const optionText = fold(translation?.options);
+
+  return {
+
+    categories: categories.map((category) => {
+
+      const description = categoryText.get(category.name.toLowerCase());
+
+      return (description === undefined) ? category : { ...category, description };
+    }),
+
+    options: Object.fromEntries(Object.entries(options).map(([ name, entries ]) => [ name, entries.map((option) => {
+
+      const description = optionText.get(expandOption(name, option).toLowerCase());
+
+      return (description === undefined) ? option : { ...option, description };
+    }) ]))
+  };
+}
+
+/**
+ * Build the configured-options lookup index from a catalog index + the configured-options array. Each entry contributes one or two lookup keys via the shared
+ * `parseEntry`: the raw tail (always) and an extracted value key (for value-centric Enable entries). First-write-wins on collision so the earliest entry in
+ * the array takes precedence over later duplicates - users hand-editing config and accidentally listing an option twice get the natural "first one is canonical"
+ * semantic.
+ *
+ * A value that fails its option's declared {@link FeatureOptionEntry.valueType} contributes no value key, so it never reaches resolution; an enum member registers
+ * in the catalog's own spelling. {@link validateConfiguredOptions} reports what was passed over and why.
+ *
+ * Rebuild whenever the configured-options array changes; reuse across reads.
+ *
+ * @param catalog           - The catalog index that defines what counts as a value-centric option.
+ * @param configuredOptions - The array of configured option strings.
+ *
+ * @returns The immutable lookup index.
+ */
+export function buildConfigIndex(catalog: CatalogIndex, configuredOptions: readonly string[]): ConfigIndex {
+
+  const lookup = new Map<string, Readonly<{ enabled: boolean; value?: string }>>();
+
+  for(const rawEntry of configuredOptions) {
+
+    const parsed = parseEntry(catalog, rawEntry);
+
+    if(!parsed) {
+
+      continue;
+    }
+
+    if(!lookup.has(parsed.primaryKey)) {
+
+      lookup.set(parsed.primaryKey, { enabled: parsed.enabled });
+    }
+
+    // A value that fails the option's declared type registers nothing, so resolution walks past it exactly as though it had never been written and the next scope
+    // down answers instead. The raw-tail key above still registers, because the entry's address is well-formed even when its value is not.
+    if(parsed.valueKey && (parsed.valueError === undefined) && !lookup.has(parsed.valueKey)) {
+
+      lookup.set(parsed.valueKey, { enabled: true, value: parsed.typedValue ?? parsed.value });
+    }
+  }
+
+  return lookup;
+}
+
+/**
+ * Build an {@link AliasIndex} from an alias map. Each alias is followed to the id its chain ends at, and every id along the way is grouped under it, so a lookup
+ * for any of them answers with the whole group in one step.
+ *
+ * @param aliases - The alias map. See {@link FeatureOptionAliases}.
+ *
+ * @returns The alias index.
+ *
+ * @throws When an alias chain leads back to an id already on it, since such a chain names no device at all.
+ *
+ * @category Feature Options
+ */
+export function buildAliasIndex(aliases: FeatureOptionAliases): AliasIndex {
+
+  const targets = new Map(Object.entries(aliases).map(([ alias, id ]) => [ alias.toLowerCase(), id ]));
+  const groups = new Map<string, string[]>();
+
+  for(const alias of Object.keys(aliases)) {
+
+    const visited = new Set([alias.toLowerCase()]);
+    let id = alias;
+
+    // Follow the chain until it reaches an id that is no one's alias. Revisiting an id means the chain is a loop, which no configuration can have meant.
+    for(let next = targets.get(id.toLowerCase()); next !== undefined; next = targets.get(id.toLowerCase())) {
+
+      if(visited.has(next.toLowerCase())) {
+
+        throw new Error("FeatureOptions: the alias \"" + alias + "\" leads back to \"" + next + "\", so it names no device.");
+      }
+
+      visited.add(next.toLowerCase());
+      id = next;
+    }
+
+    const group = groups.get(id.toLowerCase()) ?? [id];
+
+    group.push(alias);
+    groups.set(id.toLowerCase(), group);
+  }
+
+  return new Map([...groups.values()].flatMap((group) => group.map((id) => [ id.toLowerCase(), group ] as const)));
+}
+
+// The ids that address the same scope as `id`, in the order resolution tries them. Without an alias index, or for an id that belongs to no chain, that is the id
+// alone.
+function aliasedIds(aliasIndex: AliasIndex | undefined, id: string): readonly string[] {
+
+  return aliasIndex?.get(id.toLowerCase()) ?? [id];
+}
+
+// Decide whether a lookup key addresses a given option. A key does so when it is the option itself - the global scope - or the option followed by a single
+// dot-free identifier segment, which is the only scoped address the grammar can write. A key that is itself a catalog option name is that option rather than a
+// scope of a shorter one: `Enable.Motion.Detect` is the `Motion.Detect` option, never `Motion` at a scope named "Detect", and the catalog is what settles it.
+function keyAddressesOption({ catalog, key, optionKey }: { catalog: CatalogIndex; key: string; optionKey: string }): boolean {
+
+  if(key === optionKey) {
+
+    return true;
+  }
+
+  if(!key.startsWith(optionKey + ".") || (key in catalog.defaults)) {
+
+    return false;
+  }
+
+  const id = key.slice(optionKey.length + 1);
+
+  return !!id.length && !id.includes(".");
+}
+
+// Recover a scope identifier in the casing the entry carried. The lookup keys are lowercased slices of the same tail, so the matched key's length is where the
+// identifier ends and the option name's length is where it begins. A key equal in length to the option name is the global address, which has no identifier.
+function originalId({ key, optionKey, tailOriginal }: { key: string; optionKey: string; tailOriginal: string }): string {
+
+  return (key.length > optionKey.length) ? tailOriginal.slice(optionKey.length + 1, key.length) : "";
+}
+
+/**
+ * Enumerate every configured entry that addresses one feature option, decoding each through the engine's own grammar. This is the supported way to discover which
+ * scopes a plugin's users have configured an option at, and with what - a plugin that scans the configured-options array itself is re-implementing the storage
+ * format, and the two readings drift the moment the grammar grows.
+ *
+ * Yields one {@link ConfiguredOptionEntry} per addressing entry, in the order the entries appear in the array, and nothing at all for an option nobody configured.
+ * Matching folds case, because the storage format does; the yielded identifiers and values keep the casing the entry was written in, because that is the text the
+ * user typed and a consumer displaying it should show it back unchanged.
+ *
+ * Two things this deliberately does not do, both of which belong to {@link resolveScope}: it applies no precedence - a device entry and a global entry for the
+ * same option are two records here, not one winner - and it substitutes no catalog default, so an option with no entries yields nothing rather than a record
+ * carrying its default. Ask this what the user wrote; ask {@link resolveScope} what applies. Duplicate entries addressing the same scope each yield a record, so
+ * the first-write-wins rule the lookup index applies is visible here as two records rather than resolved away.
+ *
+ * @param args
+ * @param args.catalog           - The catalog index, which defines what counts as a value-centric option and which names are options in their own right.
+ * @param args.category          - Optional. The option's category, composed with `option` exactly as {@link expandOption} composes them. Omit it when `option` is
+ *                                 already the expanded name.
+ * @param args.configuredOptions - The raw configured-options array.
+ * @param args.option            - The feature option to enumerate: an option entry or name to be composed with `category`, or the expanded name on its own.
+ *
+ * @returns A generator over the configured entries addressing the option.
+ *
+ * @example
+ *
+ * ```ts
+ * // Every device that has this option configured, and the value each one carries.
+ * for(const entry of enumerateConfiguredEntries({ catalog, configuredOptions, option: "Audio.Volume" })) {
+ *
+ *   log.info("Volume is configured.", { enabled: entry.enabled, scope: entry.id.length ? entry.id : "global", value: entry.value });
+ * }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function *enumerateConfiguredEntries({ catalog, category, configuredOptions, option }: {
+
+  catalog: CatalogIndex;
+  category?: FeatureCategoryEntry | string;
+  configuredOptions: readonly string[];
+  option: FeatureOptionEntry | string;
+}): Generator<ConfiguredOptionEntry, void, undefined> {
+
+  // An absent category means the caller already holds the expanded name; supplying one composes through the same helper every other call site composes with.
+  const expanded = (category === undefined) ? ((typeof option === "string") ? option : option.name) : expandOption(category, option);
+  const optionKey = expanded.toLowerCase();
 
   if(!optionKey.length) {
 
-    return;
-  }
+    return;
+  }
+
+  for(const rawEntry of configuredOptions) {
+
+    const parsed = parseEntry(catalog, rawEntry);
+
+    if(!parsed) {
+
+      continue;
+    }
+
+    const { primaryKey, tailOriginal, valueKey } = parsed;
+
+    /* One entry can decode two ways - the raw tail, and for a value-centric Enable the extracted value key - and the value reading is the entry's meaning whenever
+     * it addresses this option. `Enable.Audio.Volume.50` is the Audio.Volume option carrying 50, so that is the record it yields; the lookup index also registers
+     * its raw tail (an enable at a scope named "50"), a second live reading the index keeps because no canonical entry can express both, but it is not what the
+     * entry says about this option.
+     */
+    if((valueKey !== undefined) && keyAddressesOption({ catalog, key: valueKey, optionKey })) {
+
+      yield { enabled: parsed.enabled, id: originalId({ key: valueKey, optionKey, tailOriginal }), value: parsed.value };
+
+      continue;
+    }
+
+    if(!keyAddressesOption({ catalog, key: primaryKey, optionKey })) {
+
+      continue;
+    }
+
+    yield { enabled: parsed.enabled, id: originalId({ key: primaryKey, optionKey, tailOriginal }) };
+  }
+}
+
+// The part of an entry's tail that follows a former option name - an optional scope id and an optional value, in either grammar - or undefined when the tail does
+// not begin with that name. The name must end on a segment boundary, so a former "Video.Rate" claims "Video.Rate.ABC" and "Video.Rate=5" but not "Video.Rates".
+function formerNameRemainder(tailOriginal: string, name: string): string | undefined {
+
+  if(!tailOriginal.toLowerCase().startsWith(name.toLowerCase())) {
+
+    return undefined;
+  }
+
+  const remainder = tailOriginal.slice(name.length);
+
+  return (!remainder.length || remainder.startsWith(".") || remainder.startsWith("=")) ? remainder : undefined;
+}
+
+// Join option names the way a sentence lists them: "A", "A and B", "A, B, and C" - or with "or" in place of "and" when the sentence offers a choice.
+function listNames(names: readonly string[], conjunction = "and"): string {
+
+  return (names.length < 3) ? names.join(" " + conjunction + " ") : (names.slice(0, -1).join(", ") + ", " + conjunction + " " + (names.at(-1) ?? ""));
+}
+
+// Apply one migration to one entry. Returns the entries that take its place and the sentence that says so, or undefined when the migration does not apply. The
+// action prefix carries over in the casing the entry was written in, since migrating an entry is not the moment to modernize it - normalizeConfiguredOptions does
+// that on the save that persists the result.
+function migrateEntry(catalog: CatalogIndex, migration: FeatureOptionMigration, entry: string): { message: string; replacement: readonly string[] } | undefined {
+
+  const parsed = parseEntry(catalog, entry);
+
+  if(!parsed) {
+
+    return undefined;
+  }
+
+  const address = entryAddress(catalog, parsed);
+
+  if(migration.kind === "remap") {
+
+    // A remap rewrites a value of a live option, so it wants exactly the entries the other kinds pass over: those that address the option and carry a value.
+    const current = ((address?.option === migration.option.toLowerCase()) && (parsed.valueOption === address.option)) ? parsed.value?.trim().toLowerCase() : undefined;
+    const value = Object.entries(migration.values).find(([from]) => from.toLowerCase() === current)?.[1];
+
+    if(!address || (value === undefined)) {
+
+      return undefined;
+    }
+
+    return {
+
+      message: migration.message ?? ("The value \"" + (parsed.value ?? "").trim() + "\" for " + migration.option + " is now \"" + value + "\"."),
+      replacement: [composeEntry({ enabled: true, id: address.id, option: migration.option, value })]
+    };
+  }
+
+  const remainder = address ? undefined : formerNameRemainder(parsed.tailOriginal, migration.from);
+
+  if(remainder === undefined) {
+
+    return undefined;
+  }
+
+  const action = entry.slice(0, entry.indexOf(".") + 1);
+
+  switch(migration.kind) {
+
+    case "remove":
+
+      return { message: migration.message, replacement: [] };
+
+    case "rename":
+
+      return { message: migration.message ?? (migration.from + " has been renamed to " + migration.to + "."), replacement: [action + migration.to + remainder] };
+
+    case "split": {
+
+      // A canonical value travels only to the targets that can carry one. A boolean target keeps the action and the scope id, and leaves the value behind.
+      const delimiter = remainder.indexOf("=");
+      const unvalued = (delimiter === -1) ? remainder : remainder.slice(0, delimiter);
+
+      return {
+
+        message: migration.message ?? (migration.from + " has been split into " + listNames(migration.to) + "."),
+        replacement: migration.to.map((target) => action + target + (isValueOption(catalog, target) ? remainder : unvalued))
+      };
+    }
+
+    default:
+
+      return undefined;
+  }
+}
+
+/**
+ * Apply the catalog's {@link FeatureOptionMigration} history to a configured-options array, reporting each migration that applied. This is how a configuration
+ * written against an earlier release of a plugin's catalog keeps meaning what its author intended: entries addressing a renamed option are rewritten to its new
+ * name, entries addressing a split option fan out to its successors, old values of a remapped option take their new spelling, and entries addressing a removed
+ * option are dropped with the catalog's reason.
+ *
+ * Each entry runs through the whole history in version order, so a chain of migrations composes - an option renamed in one release and split in the next reaches
+ * its final shape in one pass, with a record per step. Entries addressing a current catalog option pass through every rename, split, and removal untouched.
+ *
+ * Pure: does not mutate the input array. When no migration applied, returns the input array reference itself so reference-equality consumers can detect a no-op
+ * without a contents comparison. {@link normalizeConfiguredOptions} runs this first, so a save persists the migrated array; {@link FeatureOptions} resolves through
+ * it, so a plugin honors an old entry before anything has been saved.
+ *
+ * @param catalog           - The catalog index carrying the migration history.
+ * @param configuredOptions - The configured-options array to migrate.
+ * @param since             - Optional. The catalog version the array was written against: only the migrations made after it apply. Defaults to 0, which
+ *                            applies the whole history.
+ *
+ * @returns The migrated array, and one {@link FeatureOptionMigrationRecord} per migration step applied, in array order.
+ *
+ * @example
+ *
+ * ```ts
+ * const { applied, configuredOptions } = migrateConfiguredOptions(catalog, config.options);
+ *
+ * for(const record of applied) {
+ *
+ *   log.info("Migrated \"%s\": %s", record.entry, record.message);
+ * }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function migrateConfiguredOptions(catalog: CatalogIndex, configuredOptions: readonly string[], since = 0): {
+
+  applied: FeatureOptionMigrationRecord[];
+  configuredOptions: readonly string[];
+} {
+
+  const applied: FeatureOptionMigrationRecord[] = [];
+  const migrations = catalog.migrations.filter((migration) => migration.version > since);
+
+  // A catalog without a history - the common case - costs nothing at all, and neither does an array already written against the catalog's latest migration.
+  if(!migrations.length) {
+
+    return { applied, configuredOptions };
+  }
+
+  const migrated = configuredOptions.flatMap((configured, index) => {
+
+    let entries: readonly string[] = [configured];
+
+    for(const migration of migrations) {
+
+      entries = entries.flatMap((entry) => {
+
+        const result = migrateEntry(catalog, migration, entry);
+
+        if(!result) {
+
+          return [entry];
+        }
+
+        applied.push({ entry, index, message: result.message, migration, replacement: result.replacement });
+
+        return result.replacement;
+      });
+    }
+
+    return entries;
+  });
+
+  return { applied, configuredOptions: applied.length ? migrated : configuredOptions };
+}
+
+/**
+ * Rewrite every entry that decodes as a value form of a catalog option into the canonical `Enable.Option[.id]=value` shape, leaving every other entry exactly as
+ * it was found. Pure: does not mutate the input array, and returns the input reference itself when no entry needed rewriting, so reference-equality consumers can
+ * detect a no-op without comparing contents.
+ *
+ * Entries pass through byte-verbatim unless the parser accounts for them completely - boolean options, options absent from the catalog, and malformed strings are
+ * never rewritten, because a configuration file is a user's own text and we only reshape the parts whose meaning we can state exactly. Re-composing an entry that
+ * is already canonical yields the identical string, so running this repeatedly is stable.
+ *
+ * The legacy single-trailing-segment form (`Enable.Audio.Volume.50`) is deliberately left alone for the same reason. That segment does double duty - the lookup
+ * index registers it as the option's global value and, through the primary key, as an enable at a scope carrying that same name - and no single canonical entry
+ * expresses both. Rewriting it would settle, on the user's behalf, an ambiguity only the user can settle, so it stays as written. A segment containing "=" is the
+ * exception: the composer cannot address a scope whose id carries the delimiter, so only the global-value reading is live there, and the entry modernizes like
+ * any other unambiguous legacy form.
+ *
+ * Before any of that, the array runs through the catalog's migration history via {@link migrateConfiguredOptions}, so an entry written against an option the
+ * catalog has since renamed, split, remapped, or removed comes out addressing what the catalog declares today. Call that directly when the migrations applied
+ * need reporting; this returns only the result.
+ *
+ * {@link applySetOption} and {@link applyClearOption} run their results through this, which is the whole of the upgrade path: a stored configuration modernizes as
+ * part of a save the user already asked for, and never merely because something read it. One consequence is worth stating plainly, since it becomes visible in the
+ * saved file: a legacy entry whose dotted tail the engine reads as an id plus a value is rewritten to say so outright, so `Enable.Audio.Volume.St. Andrews` (read
+ * as the id "St" carrying the value " Andrews") normalizes to `Enable.Audio.Volume.St=Andrews`, the value trimmed to the canonical domain. Resolution is unchanged
+ * either way - the reading a user may not have intended stops being latent and becomes something they can see and correct.
+ *
+ * @param catalog           - The catalog index that defines which option names are value-centric.
+ * @param configuredOptions - The configured-options array to normalize.
+ *
+ * @returns The normalized array, or the input array reference itself when every entry was already canonical.
+ */
+export function normalizeConfiguredOptions(catalog: CatalogIndex, configuredOptions: readonly string[]): readonly string[] {
+
+  const migrated = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+  let normalized: string[] | undefined;
+
+  for(const [ index, entry ] of migrated.entries()) {
+
+    const canonical = normalizeEntry(catalog, entry);
+
+    if(canonical === entry) {
+
+      continue;
+    }
+
+    // Copy on the first entry that actually changes. An array that is already canonical - the common case by far, since the composer only ever writes canonical
+    // entries - costs a parse per entry and no allocation at all.
+    normalized ??= [...migrated];
+    normalized[index] = canonical;
+  }
+
+  return normalized ?? migrated;
+}
+
+/**
+ * Check every configured entry's value against its option's declared {@link FeatureOptionEntry.valueType} and report each one that fails, in array order. This
+ * is the structured account of what {@link buildConfigIndex} passes over: a failing value never reaches resolution, and this is where a plugin learns that it
+ * happened, and why, so it can tell the user at startup rather than leave them wondering why their setting did nothing.
+ *
+ * Pure and read-only. Entries the engine does not read as a value of a typed option - boolean options, unknown options, malformed strings, values without
+ * content - produce no finding.
+ *
+ * @param catalog           - The catalog index carrying the declared value types.
+ * @param configuredOptions - The configured-options array to check.
+ *
+ * @returns One `"invalid-value"` {@link FeatureOptionDiagnostic} per failing entry, empty when every value satisfies its declaration.
+ *
+ * @example
+ *
+ * ```ts
+ * for(const diagnostic of validateConfiguredOptions(catalog, configuredOptions)) {
+ *
+ *   log.error(diagnostic.message);
+ * }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function validateConfiguredOptions(catalog: CatalogIndex, configuredOptions: readonly string[]): FeatureOptionDiagnostic[] {
+
+  const diagnostics: FeatureOptionDiagnostic[] = [];
+
+  for(const [ index, entry ] of configuredOptions.entries()) {
+
+    const parsed = parseEntry(catalog, entry);
+
+    if(parsed) {
+
+      diagnostics.push(...invalidValueDiagnostics({ entry, index, parsed }));
+    }
+  }
+
+  return diagnostics;
+}
+
+// The invalid-value finding for one parsed entry, as a zero- or one-element list so both reporters can spread it. Shared by validateConfiguredOptions and
+// lintConfiguredOptions so the two cannot phrase the same finding two ways. Removal is the mechanical fix because it changes nothing: resolution already walks
+// past the value, so the entry is doing nothing but hiding the mistake.
+function invalidValueDiagnostics({ entry, index, parsed }: { entry: string; index: number; parsed: ParsedConfigEntry }): FeatureOptionDiagnostic[] {
+
+  if((parsed.valueError === undefined) || (parsed.valueOption === undefined)) {
+
+    return [];
+  }
+
+  const option = parsed.tailOriginal.slice(0, parsed.valueOption.length);
+
+  return [{
+
+    code: "invalid-value",
+    entry,
+    fix: { description: "Correct the value, or remove the entry. " + parsed.valueError, replacement: [] },
+    index,
+    message: "The value \"" + (parsed.value ?? "").trim() + "\" configured for " + option + " is invalid and will be ignored. " + parsed.valueError,
+    option,
+    severity: "error"
+  }];
+}
+
+// The number of single-character insertions, deletions, and substitutions that turn one string into another. Used to suggest the catalog option a mistyped entry
+// most likely meant; the strings involved are option names, so the quadratic cost is a few hundred comparisons at most.
+function editDistance(a: string, b: string): number {
+
+  let previous = Array.from({ length: b.length + 1 }, (_, column) => column);
+
+  for(let row = 1; row <= a.length; row++) {
+
+    const current = [row];
+
+    for(let column = 1; column <= b.length; column++) {
+
+      const substitution = (previous[column - 1] ?? 0) + ((a[row - 1] === b[column - 1]) ? 0 : 1);
+
+      current.push(Math.min((previous[column] ?? 0) + 1, (current[column - 1] ?? 0) + 1, substitution));
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+// Settle which option an entry addresses and at which scope, the same way resolution reads it: the value reading when the entry has one, otherwise the raw tail as
+// either an option name alone or an option name plus a single dot-free id. Returns null when neither reading lands on a catalog option. The id comes back in the
+// casing the entry carried, and empty for a global entry.
+function entryAddress(catalog: CatalogIndex, parsed: ParsedConfigEntry): { id: string; option: string } | null {
+
+  const { primaryKey, tailOriginal, valueKey, valueOption } = parsed;
+
+  if((valueKey !== undefined) && (valueOption !== undefined)) {
+
+    return { id: originalId({ key: valueKey, optionKey: valueOption, tailOriginal }), option: valueOption };
+  }
+
+  if(primaryKey in catalog.defaults) {
+
+    return { id: "", option: primaryKey };
+  }
+
+  const optionKey = primaryKey.slice(0, primaryKey.lastIndexOf("."));
+
+  if(optionKey.length && (optionKey in catalog.defaults) && keyAddressesOption({ catalog, key: primaryKey, optionKey })) {
+
+    return { id: originalId({ key: primaryKey, optionKey, tailOriginal }), option: optionKey };
+  }
+
+  return null;
+}
+
+/**
+ * Read a single configured-options entry the way the engine does, and report what it says: the option it addresses, whether it enables or disables it, the scope,
+ * the value, and which of the two value grammars matched. This is the parser every resolver, transform, and diagnostic in this module decodes entries through, so
+ * support tooling that explains a pasted line - `Enable.Audio.Volume.Kitchen=50` - reads it exactly as a running plugin would, rather than re-deriving the grammar
+ * described in this module's documentation.
+ *
+ * A legacy entry with a single trailing segment, such as `Enable.Audio.Volume.50`, is reported under its value reading: the value is what the entry means for that
+ * option, even though the lookup index also registers its raw tail as an enable at a scope named by the same segment. An entry naming an option the catalog does not
+ * declare is still reported, with `known` false, so a diagnostic can say what was written alongside the fact that nothing reads it.
+ *
+ * @param catalog - The catalog index, which defines what counts as a value-centric option and which names are options in their own right.
+ * @param entry   - The configured-options entry to read.
+ *
+ * @returns The entry's reading, or `null` when the entry is not in the grammar at all - no `Enable` or `Disable` action ahead of the first dot.
+ *
+ * @example
+ *
+ * ```ts
+ * parseConfiguredEntry(catalog, "enable.audio.volume.Kitchen.50");
+ * // => { enabled: true, grammar: "legacy", id: "Kitchen", known: true, option: "Audio.Volume", value: "50" }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function parseConfiguredEntry(catalog: CatalogIndex, entry: string): ConfiguredEntryReading | null {
+
+  const parsed = parseEntry(catalog, entry);
+
+  if(!parsed) {
+
+    return null;
+  }
+
+  const address = entryAddress(catalog, parsed);
+  const { enabled, grammar = "canonical", tailOriginal } = parsed;
+
+  // With no catalog option to anchor on, an id cannot be told apart from the name ahead of it, so the whole address stands as the option and a canonical payload,
+  // when there is one, as its value.
+  if(!address) {
+
+    const payloadIndex = tailOriginal.indexOf("=");
+
+    if(payloadIndex === -1) {
+
+      return { enabled, grammar, id: "", known: false, option: tailOriginal };
+    }
+
+    return { enabled, grammar, id: "", known: false, option: tailOriginal.slice(0, payloadIndex).trimEnd(), value: tailOriginal.slice(payloadIndex + 1).trim() };
+  }
+
+  const option = catalog.optionNames[address.option] ?? address.option;
+
+  return (parsed.value === undefined) ? { enabled, grammar, id: address.id, known: true, option } :
+    { enabled, grammar, id: address.id, known: true, option, value: parsed.value };
+}
+
+// Suggest the catalog option a mistyped entry most likely meant. Each dot-boundary prefix of the entry's tail is a candidate option name - the id, when there is
+// one, is whatever follows - and the closest catalog name wins, provided it is close enough to be a typo rather than a different word: within two edits, or a
+// quarter of the name's length for a long one. Returns the corrected entry alongside the name, or null when nothing is close.
+function suggestOption(catalog: CatalogIndex, entry: string, parsed: ParsedConfigEntry): { entry: string; option: string } | null {
+
+  const action = entry.slice(0, entry.indexOf(".") + 1);
+  const { tailOriginal } = parsed;
+
+  // A canonical value rides after the first "=", and is carried over untouched - only the address in front of it is a candidate for correction.
+  const valueIndex = tailOriginal.indexOf("=");
+  const address = (valueIndex === -1) ? tailOriginal : tailOriginal.slice(0, valueIndex);
+  const value = tailOriginal.slice(address.length);
+  let best: { distance: number; entry: string; option: string } | null = null;
+
+  for(let end = address.length; end > 0; end = address.lastIndexOf(".", end - 1)) {
+
+    const candidate = address.slice(0, end).toLowerCase();
+
+    for(const [ key, name ] of Object.entries(catalog.optionNames)) {
+
+      const distance = editDistance(candidate, key);
+
+      if((distance <= Math.max(2, Math.floor(name.length / 4))) && (!best || (distance < best.distance))) {
+
+        best = { distance, entry: action + name + address.slice(end) + value, option: name };
+      }
+    }
+  }
+
+  return best && { entry: best.entry, option: best.option };
+}
+
+// Describe a scope the way a finding's sentence wants it: "globally" for the empty id, "at <id>" for the rest.
+function describeScope(id: string): string {
+
+  return id.length ? ("at " + id) : "globally";
+}
+
+/**
+ * Lint a configured-options array against the catalog, reporting every entry that does not say what its author most likely meant. Where
+ * {@link buildConfigIndex} quietly settles each of these - an unknown name addresses nothing, a second entry for a scope loses to the first, a value or a scope
+ * the catalog rules out is passed over - this says so, entry by entry, with a fix. The findings, by {@link FeatureOptionDiagnosticCode}:
+ *
+ *   - an entry that is not a feature option entry at all, or that addresses no catalog option (with the closest catalog name suggested when one is close enough to
+ *     be a typo);
+ *   - a value that fails the option's declared {@link FeatureOptionEntry.valueType}, as {@link validateConfiguredOptions} reports it;
+ *   - an entry at a scope level the option's {@link FeatureOptionEntry.scopes} excludes. A global entry is checked against `"global"`; a scoped entry names a device
+ *     or a controller, which the array alone cannot tell apart, so it is flagged only when the option declares neither;
+ *   - a second entry for the same option at the same scope - a duplicate when it says the same thing, a conflict when it says something the first entry overrules;
+ *   - an enable for a grouped option whose parent resolves disabled at the entry's scope, reading a scoped entry's id as a device;
+ *   - an entry in the legacy dot grammar, which {@link normalizeConfiguredOptions} would rewrite.
+ *
+ * An entry the catalog's {@link FeatureOptionMigration} history applies to is reported as migrated, with the rewrite as its fix, and judged no further - resolution
+ * reads it as the entries it migrates to, and those are what a save persists.
+ *
+ * Pure and read-only. Findings come back in array order, and within one entry in the order listed above. An entry that addresses no option yields only that
+ * finding, since nothing else about it can be judged.
+ *
+ * @param catalog           - The catalog index.
+ * @param configuredOptions - The configured-options array to lint.
+ *
+ * @returns The findings, empty when the array is clean.
+ *
+ * @example
+ *
+ * ```ts
+ * for(const finding of lintConfiguredOptions(catalog, configuredOptions)) {
+ *
+ *   log[(finding.severity === "error") ? "error" : "warn"]("%s %s", finding.message, finding.fix.description);
+ * }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function lintConfiguredOptions(catalog: CatalogIndex, configuredOptions: readonly string[]): FeatureOptionDiagnostic[] {
+
+  const configIndex = buildConfigIndex(catalog, configuredOptions);
+  const diagnostics: FeatureOptionDiagnostic[] = [];
+  const seen = new Map<string, { enabled: boolean; entry: string; value?: string }>();
+
+  for(const [ index, entry ] of configuredOptions.entries()) {
+
+    const parsed = parseEntry(catalog, entry);
+
+    if(!parsed) {
+
+      diagnostics.push({
+
+        code: "malformed-entry",
+        entry,
+        fix: { description: "Begin the entry with Enable or Disable, or remove it.", replacement: [] },
+        index,
+        message: "\"" + entry + "\" is not a feature option entry and will be ignored.",
+        option: "",
+        severity: "error"
+      });
+
+      continue;
+    }
+
+    // An entry the catalog's migration history rewrites is judged by what it migrates to, which is what resolution reads. Its own finding offers the rewrite; the
+    // entries it becomes are linted on the save that persists them.
+    const migrated = migrateConfiguredOptions(catalog, [entry]);
+
+    const [firstStep] = migrated.applied;
+
+    if(firstStep) {
+
+      const former = (firstStep.migration.kind === "remap") ? firstStep.migration.option : firstStep.migration.from;
+
+      diagnostics.push({
+
+        code: "migrated-entry",
+        entry,
+        fix: { description: migrated.configuredOptions.length ? ("Rewrite the entry as " + listNames(migrated.configuredOptions.map((next) => "\"" + next + "\"")) +
+          ".") : "Remove the entry.", replacement: migrated.configuredOptions },
+        index,
+        message: migrated.applied.map((record) => record.message).join(" "),
+        option: parsed.tailOriginal.slice(0, former.length),
+        severity: migrated.configuredOptions.length ? "info" : "warning"
+      });
+
+      continue;
+    }
+
+    const address = entryAddress(catalog, parsed);
+
+    if(!address) {
+
+      const suggestion = suggestOption(catalog, entry, parsed);
+
+      diagnostics.push({
+
+        code: "unknown-option",
+        entry,
+        fix: suggestion ? { description: "Did you mean " + suggestion.option + "?", replacement: [suggestion.entry] } :
+          { description: "Remove the entry.", replacement: [] },
+        index,
+        message: "\"" + entry + "\" does not match any feature option and will be ignored.",
+        option: "",
+        severity: "error"
+      });
+
+      continue;
+    }
+
+    const option = parsed.tailOriginal.slice(0, address.option.length);
+
+    diagnostics.push(...invalidValueDiagnostics({ entry, index, parsed }));
+
+    // A scoped entry names a device or a controller, and only the plugin knows which, so the declaration rules out a scoped entry only when it admits neither.
+    const declaredScopes = catalog.scopes[address.option];
+
+    if(declaredScopes && (address.id.length ? (!declaredScopes.includes("device") && !declaredScopes.includes("controller")) : !declaredScopes.includes("global"))) {
+
+      diagnostics.push({
+
+        code: "scope-not-declared",
+        entry,
+        fix: { description: "Remove the entry. " + option + " can be configured " + declaredScopes.map((scope) => "at the " + scope + " level").join(" or ") + ".",
+          replacement: [] },
+        index,
+        message: option + " cannot be configured " + describeScope(address.id) + ", so this entry is ignored.",
+        option,
+        severity: "error"
+      });
+    }
+
+    // A value the declaration rejects never reached the index, so it neither shadows a later entry nor is shadowed by an earlier one - its finding is the one
+    // above, and the duplicate bookkeeping passes it by.
+    if(parsed.valueError === undefined) {
+
+      const key = targetKey(address.option, address.id);
+      const value = parsed.typedValue ?? parsed.value;
+      const first = seen.get(key);
+
+      if(!first) {
+
+        seen.set(key, { enabled: parsed.enabled, entry, value });
+      } else if((first.enabled === parsed.enabled) && ((first.value ?? "").trim() === (value ?? "").trim())) {
+
+        diagnostics.push({
+
+          code: "duplicate-entry",
+          entry,
+          fix: { description: "Remove the entry.", replacement: [] },
+          index,
+          message: "\"" + entry + "\" repeats the earlier \"" + first.entry + "\".",
+          option,
+          severity: "warning"
+        });
+      } else {
+
+        diagnostics.push({
+
+          code: "conflicting-entry",
+          entry,
+          fix: { description: "Remove the entry, or remove \"" + first.entry + "\" if this is the setting you want.", replacement: [] },
+          index,
+          message: option + " is already configured " + describeScope(address.id) + " by \"" + first.entry + "\", which takes precedence, so this entry is ignored.",
+          option,
+          severity: "error"
+        });
+      }
+    }
+
+    // The group index is keyed in catalog case, so recover the declared spelling of the option before consulting it.
+    const declared = catalog.optionNames[address.option] ?? "";
+    const parent = catalog.groupParents[declared];
+
+    if(parsed.enabled && parent && !isDependencyMet({ catalog, configIndex, device: address.id || undefined, option: declared })) {
+
+      diagnostics.push({
+
+        code: "unmet-dependency",
+        entry,
+        fix: { description: "Enable " + parent + " " + describeScope(address.id) + ", or remove the entry." },
+        index,
+        message: option + " is enabled " + describeScope(address.id) + ", but has no effect while " + parent + " is disabled there.",
+        option,
+        severity: "warning"
+      });
+    }
+
+    const canonical = normalizeEntry(catalog, entry);
+
+    if(canonical !== entry) {
+
+      diagnostics.push({
+
+        code: "legacy-form",
+        entry,
+        fix: { description: "Rewrite the entry as \"" + canonical + "\".", replacement: [canonical] },
+        index,
+        message: "\"" + entry + "\" uses the legacy dot form, which is rewritten as \"" + canonical + "\" on the next save.",
+        option,
+        severity: "info"
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Compute the new configured-options array after setting an option's enabled state (and optionally its value) at a given scope. Drops any prior entry addressing
+ * the same option-at-scope so the new entry is the sole survivor, then appends the freshly composed entry string. Pure: does not mutate the input array.
+ *
+ * The composed entry's action segment is canonical "Enable" / "Disable"; the option and id segments preserve the caller's casing for readability since the
+ * lookup-index keys are case-insensitive anyway. Values are emitted only when meaningful - disabled or non-value options never carry one - so a subsequent
+ * {@link applyClearOption} or {@link applySetOption} addressing the same scope cleanly replaces whatever was there, in either the canonical or the legacy form,
+ * because the matcher decodes entries through the same parser.
+ *
+ * A value always rides behind the payload delimiter, at either scope, which is what makes it free-form: periods, interior spaces, and even further "=" characters
+ * need no escaping. Surrounding whitespace is trimmed first, and a value persists only when content survives the trim - see {@link hasValueContent}. At the
+ * global scope an enable without content composes the bare entry, which resolution reads as "enabled, no value given". At a device or controller scope there is
+ * no such spelling - a scoped entry always carries a value - so an enable without content reduces to clearing the scope: any entry addressing it is dropped and
+ * resolution falls back to inheritance. The surviving entries are normalized on the way through, so the save the caller asked for also modernizes anything still
+ * in the legacy form.
+ *
+ * An enable also honors the catalog's `exclusive` and `conflicts` constraints: every entry enabling a rival option at the same scope is cleared, so the caller's
+ * choice stands alone there. See {@link FeatureOptionConstraint}. Call {@link applySetOptionWithReport} directly when the cleared entries need reporting; this
+ * returns only the result.
+ *
+ * @param options
+ * @param options.args              - The mutation intent: option key, optional scope id, enabled state, optional value. See {@link SetOptionArgs}.
+ * @param options.catalog           - The catalog index that defines what counts as a value-centric option (which determines whether to emit a value at all).
+ * @param options.configuredOptions - The current configured-options array.
+ *
+ * @returns The new configured-options array - a fresh allocation whenever an entry was written or removed, or the input array reference itself when a scoped
+ *          enable without value content found nothing to drop, mirroring {@link applyClearOption}'s reference-stable no-op.
+ */
+export function applySetOption(
+  { args, catalog, configuredOptions }: { args: SetOptionArgs; catalog: CatalogIndex; configuredOptions: readonly string[] }
+): readonly string[] {
+
+  return applySetOptionWithReport({ args, catalog, configuredOptions }).configuredOptions;
+}
+
+// The options whose enabled entries an enable of `option` clears at its scope: the other members of every exclusive constraint it belongs to, and the other side of
+// every conflicts constraint it appears on. Names come back lowercased, ready for targetKey.
+function constraintRivals(catalog: CatalogIndex, option: string): string[] {
+
+  const key = option.toLowerCase();
+  const rivals = new Set<string>();
+
+  for(const constraint of catalog.constraints) {
+
+    const named = constraintOptions(constraint).map((name) => name.toLowerCase());
+
+    if(!named.includes(key) || (constraint.kind === "requires")) {
+
+      continue;
+    }
+
+    // An exclusive constraint sets every member against every other; a conflicts constraint sets its option against each conflict, but not the conflicts against
+    // one another.
+    const against = ((constraint.kind === "exclusive") || (named[0] === key)) ? named : [named[0] ?? ""];
+
+    for(const rival of against) {
+
+      if(rival !== key) {
+
+        rivals.add(rival);
+      }
+    }
+  }
+
+  return [...rivals];
+}
+
+/**
+ * Compute the new configured-options array after setting an option at a given scope, exactly as {@link applySetOption} does, and report the entries the catalog's
+ * constraints cleared along the way. This is the form to call when the user should hear that enabling one option switched another off.
+ *
+ * @param options
+ * @param options.args              - The mutation intent: option key, optional scope id, enabled state, optional value. See {@link SetOptionArgs}.
+ * @param options.catalog           - The catalog index, which defines value-centric options and carries the constraints.
+ * @param options.configuredOptions - The current configured-options array.
+ *
+ * @returns The entries the constraints cleared, in array order, and the new configured-options array, which is the input array reference itself under the same
+ *          no-op rule {@link applySetOption} follows.
+ *
+ * @category Feature Options
+ */
+export function applySetOptionWithReport(
+  { args, catalog, configuredOptions }: { args: SetOptionArgs; catalog: CatalogIndex; configuredOptions: readonly string[] }
+): { cleared: readonly string[]; configuredOptions: readonly string[] } {
+
+  // A value is meaningful only on an Enable of a value-centric option, and only when it carries content; everything else composes the bare address.
+  const valued = args.enabled && isValueOption(catalog, args.option);
+  const trimmed = (valued && (args.value !== undefined)) ? args.value.toString().trim() : "";
+  const valueType = catalog.valueTypes[args.option.toLowerCase()];
+  const checked = (valued && valueType && hasValueContent(trimmed)) ? checkValue(valueType, trimmed) : undefined;
+
+  // An enum member composes in the catalog's own spelling, the same reading the index would register for it. A value that fails its declared type is still written
+  // as given - the caller asked for it, and validateConfiguredOptions is where it surfaces - and resolution passes over it.
+  const value = (valued && hasValueContent(trimmed)) ? ((checked && ("value" in checked)) ? checked.value : trimmed) : undefined;
+
+  // A value-centric option enabled at a scope persists only with a value. The grammar has no scoped spelling for "enabled here, nothing given" - the bare form
+  // would put the id where the legacy grammar reads a global value - so the request reduces to its observable meaning: any entry addressing the scope is dropped
+  // and resolution falls back to inheritance. Delegating states that reduction literally, and carries applyClearOption's reference-stable no-op with it.
+  if(valued && (value === undefined) && args.id?.length) {
+
+    return { cleared: [], configuredOptions: applyClearOption({ args: { id: args.id, option: args.option }, catalog, configuredOptions }) };
+  }
+
+  const target = targetKey(args.option, args.id);
+
+  // The entries that survive the replacement modernize as part of the save the caller already asked for. The entry composed below is canonical by construction, so
+  // it needs no pass of its own. Migration runs ahead of the match, so an entry still written against an option's former name is replaced like any other rather
+  // than surviving to shadow the new one once it migrates.
+  const current = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+  const surviving = normalizeConfiguredOptions(catalog, current.filter((entry) => !entryAddressesScope({ catalog, rawEntry: entry, target })));
+
+  // An enable clears whatever enables a rival at the same scope. A Disable entry for a rival already agrees with the caller's choice, so it stays.
+  const rivals = args.enabled ? constraintRivals(catalog, args.option).map((rival) => targetKey(rival, args.id)) : [];
+  const cleared = rivals.length ? surviving.filter((entry) => (parseEntry(catalog, entry)?.enabled === true) &&
+    rivals.some((rival) => entryAddressesScope({ catalog, rawEntry: entry, target: rival }))) : [];
+
+  return {
+
+    cleared,
+    configuredOptions: [ ...surviving.filter((entry) => !cleared.includes(entry)), composeEntry({ enabled: args.enabled, id: args.id, option: args.option, value }) ]
+  };
+}
+
+/**
+ * Compute the new configured-options array after clearing every entry addressing an option at a given scope. The match is value-aware: for value-centric options
+ * it covers the bare scoped entry and any entry carrying a value, in either the canonical or the legacy form, so a subsequent {@link applySetOption} cleanly
+ * replaces whatever was there.
+ *
+ * Pure: does not mutate the input array. When no entry matched the target and none needed modernizing, returns the input array reference unchanged so
+ * reference-equality consumers can detect a no-op without a contents comparison. Surviving entries are normalized on the way through, so a clear carries the same
+ * upgrade-on-save behavior a set does. See {@link normalizeConfiguredOptions}.
+ *
+ * @param options
+ * @param options.args              - The addressing intent: option key, optional scope id. See {@link ClearOptionArgs}.
+ * @param options.catalog           - The catalog index that defines what counts as a value-centric option (which the matcher consults via the shared parser).
+ * @param options.configuredOptions - The current configured-options array.
+ *
+ * @returns The new configured-options array, or the input array reference itself when nothing matched and nothing needed rewriting.
+ */
+export function applyClearOption(
+  { args, catalog, configuredOptions }: { args: ClearOptionArgs; catalog: CatalogIndex; configuredOptions: readonly string[] }
+): readonly string[] {
+
+  const target = targetKey(args.option, args.id);
+
+  // Migrate ahead of the match for the same reason applySetOption does: an entry under an option's former name addresses the same target once it migrates.
+  const current = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+  const filtered = current.filter((entry) => !entryAddressesScope({ catalog, rawEntry: entry, target }));
+  const normalized = normalizeConfiguredOptions(catalog, filtered);
+
+  // Reference-stable no-op: nothing migrated, nothing matched the target, and no survivor needed rewriting, so callers comparing references see no change without
+  // inspecting contents.
+  return ((current === configuredOptions) && (normalized === filtered) && (filtered.length === configuredOptions.length)) ? configuredOptions : normalized;
+}
+
+// Read a profile entry: the option it addresses in catalog case, whether it enables it, and the value it carries. Returns null for an entry that addresses no catalog
+// option, or addresses one at a scope - a profile's entries are unscoped by definition, and the scope is what applying one supplies.
+function profileEntry(catalog: CatalogIndex, entry: string): { enabled: boolean; option: string; value?: string } | null {
+
+  const parsed = parseEntry(catalog, entry);
+  const address = parsed && entryAddress(catalog, parsed);
+  const option = address && !address.id.length && catalog.optionNames[address.option];
+
+  if(!parsed || !option) {
+
+    return null;
+  }
+
+  if(!parsed.enabled || (parsed.valueOption === undefined)) {
+
+    return { enabled: parsed.enabled, option };
+  }
+
+  return { enabled: true, option, value: parsed.typedValue ?? parsed.value };
+}
+
+// Describe an option's state the way a conflict's sentence wants it: "disabled", "enabled", or "enabled with <value>".
+function describeState({ enabled, value }: { enabled: boolean; value?: string }): string {
+
+  return enabled ? (hasValueContent(value ?? "") ? ("enabled with " + (value ?? "")) : "enabled") : "disabled";
+}
+
+/**
+ * Extract the options configured at one scope into a portable {@link FeatureOptionProfile}, ready to save, share, or apply elsewhere with {@link applyProfile}.
+ * The profile carries one entry per catalog option the scope configures, in catalog order and without the scope id, so it states what the scope itself says -
+ * what it inherits from a controller or the global scope stays behind.
+ *
+ * Pure and read-only. Entries are read through the catalog's migration history, and where the scope carries more than one entry for an option the first one wins,
+ * as it does in resolution.
+ *
+ * @param options
+ * @param options.catalog           - The catalog index, whose version the profile records.
+ * @param options.configuredOptions - The configured-options array.
+ * @param options.id                - The device or controller identifier to extract, matched without regard to case. The empty string extracts the global scope.
+ *
+ * @returns The profile.
+ *
+ * @example
+ *
+ * ```ts
+ * // Copy the front door camera's configuration to every other camera.
+ * const profile = extractProfile({ catalog, configuredOptions, id: "FRONTDOOR" });
+ * const { configuredOptions: next } = applyProfile({ catalog, configuredOptions, ids: otherCameras, profile });
+ * ```
+ *
+ * @category Feature Options
+ */
+export function extractProfile({ catalog, configuredOptions, id }: { catalog: CatalogIndex; configuredOptions: readonly string[]; id: string }): FeatureOptionProfile {
+
+  const current = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+  const options: string[] = [];
 
-  for(const rawEntry of configuredOptions) {
+  for(const option of Object.values(catalog.optionNames)) {
 
-    const parsed = parseEntry(catalog, rawEntry);
+    for(const entry of enumerateConfiguredEntries({ catalog, configuredOptions: current, option })) {
 
-    if(!parsed) {
+      if(entry.id.toLowerCase() === id.toLowerCase()) {
 
-      continue;
+        options.push(composeEntry({ enabled: entry.enabled, option, value: entry.enabled ? entry.value : undefined }));
+
+        break;
+      }
     }
+  }
 
-    const { primaryKey, tailOriginal, valueKey } = parsed;
+  return { options, version: catalog.settings.version ?? 0 };
+}
 
-    /* One entry can decode two ways - the raw tail, and for a value-centric Enable the extracted value key - and the value reading is the entry's meaning whenever
-     * it addresses this option. `Enable.Audio.Volume.50` is the Audio.Volume option carrying 50, so that is the record it yields; the lookup index also registers
-     * its raw tail (an enable at a scope named "50"), a second live reading the index keeps because no canonical entry can express both, but it is not what the
-     * entry says about this option.
-     */
-    if((valueKey !== undefined) && keyAddressesOption({ catalog, key: valueKey, optionKey })) {
+/**
+ * Apply a {@link FeatureOptionProfile} to one or more scopes, entry by entry through {@link applySetOptionWithReport}, and report what the profile ran into along
+ * the way. Each profile entry replaces whatever the target configured for that option and leaves the rest of the target's entries alone, so a preset that speaks
+ * to three options changes those three and nothing else.
+ *
+ * The profile's entries run first through the migrations the catalog made after the version the profile was written against - the earlier ones were already
+ * behind the profile when it was taken. A profile written against a later version than the catalog's own is reported once, before anything else, and applied as
+ * it stands. An entry that then addresses no catalog option - the usual mark of a profile written against a later release of the catalog - is skipped and
+ * reported once. A target that already configured an option differently is reported as replaced, and an entry the catalog's constraints cleared to make room for
+ * the profile is reported as cleared.
+ *
+ * Pure: does not mutate the input array or the profile.
+ *
+ * @param options
+ * @param options.catalog           - The catalog index.
+ * @param options.configuredOptions - The current configured-options array.
+ * @param options.ids               - The device or controller identifiers to apply the profile to, in order. The empty string addresses the global scope.
+ * @param options.profile           - The profile to apply. See {@link extractProfile} and {@link presetProfile}.
+ *
+ * @returns The new configured-options array, and the conflicts met in the order they arose.
+ *
+ * @category Feature Options
+ */
+export function applyProfile({ catalog, configuredOptions, ids, profile }: {
 
-      yield { enabled: parsed.enabled, id: originalId({ key: valueKey, optionKey, tailOriginal }), value: parsed.value };
+  catalog: CatalogIndex;
+  configuredOptions: readonly string[];
+  ids: readonly string[];
+  profile: FeatureOptionProfile;
+}): { configuredOptions: readonly string[]; conflicts: FeatureOptionProfileConflict[] } {
+
+  const conflicts: FeatureOptionProfileConflict[] = [];
+  const entries: { entry: string; read: { enabled: boolean; option: string; value?: string } }[] = [];
+  const version = catalog.settings.version ?? 0;
+
+  if(profile.version > version) {
+
+    conflicts.push({ code: "newer-version", entry: "", id: "", message: "The profile was written against version " + profile.version.toString() + " of the " +
+      "catalog, later than this catalog's version " + version.toString() + ", so its entries may not mean here what they meant there." });
+  }
+
+  for(const entry of migrateConfiguredOptions(catalog, profile.options, profile.version).configuredOptions) {
+
+    const read = profileEntry(catalog, entry);
+
+    if(!read) {
+
+      conflicts.push({ code: "unknown-option", entry, id: "", message: "The profile entry \"" + entry + "\" addresses no option in this catalog, and was skipped." });
 
       continue;
     }
 
-    if(!keyAddressesOption({ catalog, key: primaryKey, optionKey })) {
+    entries.push({ entry, read });
+  }
 
-      continue;
+  let next = configuredOptions;
+
+  for(const id of ids) {
+
+    for(const { entry, read } of entries) {
+
+      const configured = [...enumerateConfiguredEntries({ catalog, configuredOptions: next, option: read.option })];
+      const before = configured.find((candidate) => candidate.id.toLowerCase() === id.toLowerCase());
+
+      if(before && ((before.enabled !== read.enabled) || (read.enabled && ((before.value ?? "") !== (read.value ?? ""))))) {
+
+        conflicts.push({ code: "replaced", entry, id, message: read.option + " " + describeScope(id) + " was " + describeState(before) + ", and the profile " +
+          "replaced it with " + describeState(read) + "." });
+      }
+
+      const { cleared, configuredOptions: applied } = applySetOptionWithReport({ args: { ...read, id }, catalog, configuredOptions: next });
+
+      for(const clearedEntry of cleared) {
+
+        conflicts.push({ code: "cleared", entry: clearedEntry, id, message: "Enabling " + read.option + " " + describeScope(id) + " cleared \"" + clearedEntry +
+          "\", which a constraint does not allow alongside it." });
+      }
+
+      next = applied;
     }
+  }
 
-    yield { enabled: parsed.enabled, id: originalId({ key: primaryKey, optionKey, tailOriginal }) };
+  return { configuredOptions: next, conflicts };
+}
+
+/**
+ * Return the catalog's preset of the given name as a {@link FeatureOptionProfile}, ready for {@link applyProfile}.
+ *
+ * @param catalog - The catalog index carrying the presets. See {@link FeatureCatalogSettings.presets}.
+ * @param name    - The preset's name, matched without regard to case.
+ *
+ * @returns The preset's profile, written against the catalog's current version, or undefined when the catalog declares no preset by that name.
+ *
+ * @category Feature Options
+ */
+export function presetProfile(catalog: CatalogIndex, name: string): FeatureOptionProfile | undefined {
+
+  const preset = catalog.presets[name.toLowerCase()];
+
+  return preset && { options: preset.options, version: catalog.settings.version ?? 0 };
+}
+
+// Locate the scope id inside a configured entry, when the entry addresses a catalog option at a device or controller: the option it addresses, and where in the
+// entry string the id sits. The id follows the option name and its dot in every form the grammar has, so its offsets fall out of the option's length and its own.
+function entryIdSpan(catalog: CatalogIndex, entry: string): { end: number; id: string; option: string; start: number } | null {
+
+  const parsed = parseEntry(catalog, entry);
+  const address = parsed && entryAddress(catalog, parsed);
+
+  if(!address?.id.length) {
+
+    return null;
   }
+
+  const start = entry.indexOf(".") + 1 + address.option.length + 1;
+
+  return { end: start + address.id.length, id: address.id, option: address.option, start };
 }
 
 /**
- * Rewrite every entry that decodes as a value form of a catalog option into the canonical `Enable.Option[.id]=value` shape, leaving every other entry exactly as
- * it was found. Pure: does not mutate the input array, and returns the input reference itself when no entry needed rewriting, so reference-equality consumers can
- * detect a no-op without comparing contents.
+ * Rewrite every configured entry addressing one device or controller id so it addresses another - the transform a plugin runs when a device is replaced, so its
+ * options follow it to the new id rather than being orphaned under the old. Only the id changes: each entry keeps its action, its option's casing, its value, and
+ * the grammar it was written in. Entries naming an option the catalog does not declare are left alone, since without the option's name there is no telling which
+ * segment is the id.
  *
- * Entries pass through byte-verbatim unless the parser accounts for them completely - boolean options, options absent from the catalog, and malformed strings are
- * never rewritten, because a configuration file is a user's own text and we only reshape the parts whose meaning we can state exactly. Re-composing an entry that
- * is already canonical yields the identical string, so running this repeatedly is stable.
+ * When the new id already carries an entry for an option, that entry stands and the old id's entry for the same option is dropped: the new device's own setting
+ * is the more recent intent, and keeping both would leave an entry that never applies.
  *
- * The legacy single-trailing-segment form (`Enable.Audio.Volume.50`) is deliberately left alone for the same reason. That segment does double duty - the lookup
- * index registers it as the option's global value and, through the primary key, as an enable at a scope carrying that same name - and no single canonical entry
- * expresses both. Rewriting it would settle, on the user's behalf, an ambiguity only the user can settle, so it stays as written. A segment containing "=" is the
- * exception: the composer cannot address a scope whose id carries the delimiter, so only the global-value reading is live there, and the entry modernizes like
- * any other unambiguous legacy form.
+ * @param args
+ * @param args.catalog           - The catalog index.
+ * @param args.configuredOptions - The configured-options array.
+ * @param args.from              - The id to rewrite, matched without regard to case.
+ * @param args.to                - The id to rewrite it to, written as given.
  *
- * {@link applySetOption} and {@link applyClearOption} run their results through this, which is the whole of the upgrade path: a stored configuration modernizes as
- * part of a save the user already asked for, and never merely because something read it. One consequence is worth stating plainly, since it becomes visible in the
- * saved file: a legacy entry whose dotted tail the engine reads as an id plus a value is rewritten to say so outright, so `Enable.Audio.Volume.St. Andrews` (read
- * as the id "St" carrying the value " Andrews") normalizes to `Enable.Audio.Volume.St=Andrews`, the value trimmed to the canonical domain. Resolution is unchanged
- * either way - the reading a user may not have intended stops being latent and becomes something they can see and correct.
+ * @returns The rewritten array, or the input array itself when no entry addresses `from`.
  *
- * @param catalog           - The catalog index that defines which option names are value-centric.
- * @param configuredOptions - The configured-options array to normalize.
+ * @throws When `to` is empty or contains a period or an equals sign, since no entry can address such an id.
  *
- * @returns The normalized array, or the input array reference itself when every entry was already canonical.
+ * @category Feature Options
  */
-export function normalizeConfiguredOptions(catalog: CatalogIndex, configuredOptions: readonly string[]): readonly string[] {
+export function renameConfiguredId({ catalog, configuredOptions, from, to }: {
 
-  let normalized: string[] | undefined;
+  catalog: CatalogIndex;
+  configuredOptions: readonly string[];
+  from: string;
+  to: string;
+}): readonly string[] {
 
-  for(const [ index, entry ] of configuredOptions.entries()) {
+  if(!to.length || to.includes(".") || to.includes("=")) {
 
-    const canonical = normalizeEntry(catalog, entry);
+    throw new Error("FeatureOptions: \"" + to + "\" cannot be a device or controller id, because no configured entry can address it.");
+  }
 
-    if(canonical === entry) {
+  const spans = configuredOptions.map((entry) => entryIdSpan(catalog, entry));
 
-      continue;
-    }
+  if(!spans.some((span) => span?.id.toLowerCase() === from.toLowerCase())) {
 
-    // Copy on the first entry that actually changes. An array that is already canonical - the common case by far, since the composer only ever writes canonical
-    // entries - costs a parse per entry and no allocation at all.
-    normalized ??= [...configuredOptions];
-    normalized[index] = canonical;
+    return configuredOptions;
   }
 
-  return normalized ?? configuredOptions;
+  // The options the new id already configures, which its own entries keep. A rename that only changes the id's casing has no other id to defer to.
+  const taken = new Set((from.toLowerCase() === to.toLowerCase()) ? [] :
+    spans.filter((span) => span?.id.toLowerCase() === to.toLowerCase()).map((span) => span?.option));
+
+  return configuredOptions.flatMap((entry, index) => {
+
+    const span = spans[index];
+
+    if(span?.id.toLowerCase() !== from.toLowerCase()) {
+
+      return [entry];
+    }
+
+    return taken.has(span.option) ? [] : [entry.slice(0, span.start) + to + entry.slice(span.end)];
+  });
 }
 
 /**
- * Compute the new configured-options array after setting an option's enabled state (and optionally its value) at a given scope. Drops any prior entry addressing
- * the same option-at-scope so the new entry is the sole survivor, then appends the freshly composed entry string. Pure: does not mutate the input array.
+ * List the device and controller ids the configured options address that are not among the devices a plugin knows about - the scopes a replaced or removed
+ * device left behind, for a plugin to report so the user can rename or remove them. An id counts as known when it, or any id aliased together with it, is in
+ * `knownIds`. Entries are read through the catalog's migration history, and only entries addressing a catalog option contribute an id.
  *
- * The composed entry's action segment is canonical "Enable" / "Disable"; the option and id segments preserve the caller's casing for readability since the
- * lookup-index keys are case-insensitive anyway. Values are emitted only when meaningful - disabled or non-value options never carry one - so a subsequent
- * {@link applyClearOption} or {@link applySetOption} addressing the same scope cleanly replaces whatever was there, in either the canonical or the legacy form,
- * because the matcher decodes entries through the same parser.
+ * @param args
+ * @param args.aliases           - Optional. The device and controller id aliases. See {@link FeatureOptionAliases}.
+ * @param args.catalog           - The catalog index.
+ * @param args.configuredOptions - The configured-options array.
+ * @param args.knownIds          - Every device and controller id the plugin currently knows about, matched without regard to case.
  *
- * A value always rides behind the payload delimiter, at either scope, which is what makes it free-form: periods, interior spaces, and even further "=" characters
- * need no escaping. Surrounding whitespace is trimmed first, and a value persists only when content survives the trim - see {@link hasValueContent}. At the
- * global scope an enable without content composes the bare entry, which resolution reads as "enabled, no value given". At a device or controller scope there is
- * no such spelling - a scoped entry always carries a value - so an enable without content reduces to clearing the scope: any entry addressing it is dropped and
- * resolution falls back to inheritance. The surviving entries are normalized on the way through, so the save the caller asked for also modernizes anything still
- * in the legacy form.
+ * @returns The stale ids, each once and in the casing of its first entry, in configured-options order.
  *
- * @param options
- * @param options.args              - The mutation intent: option key, optional scope id, enabled state, optional value. See {@link SetOptionArgs}.
- * @param options.catalog           - The catalog index that defines what counts as a value-centric option (which determines whether to emit a value at all).
- * @param options.configuredOptions - The current configured-options array.
+ * @example
  *
- * @returns The new configured-options array - a fresh allocation whenever an entry was written or removed, or the input array reference itself when a scoped
- *          enable without value content found nothing to drop, mirroring {@link applyClearOption}'s reference-stable no-op.
+ * ```ts
+ * for(const id of staleConfiguredIds({ catalog, configuredOptions, knownIds: devices.map((device) => device.id) })) {
+ *
+ *   log.warn("Feature options are configured for %s, which is no longer present.", id);
+ * }
+ * ```
+ *
+ * @category Feature Options
  */
-export function applySetOption(
-  { args, catalog, configuredOptions }: { args: SetOptionArgs; catalog: CatalogIndex; configuredOptions: readonly string[] }
-): readonly string[] {
+export function staleConfiguredIds({ aliases = {}, catalog, configuredOptions, knownIds }: {
 
-  // A value is meaningful only on an Enable of a value-centric option, and only when it carries content; everything else composes the bare address.
-  const valued = args.enabled && isValueOption(catalog, args.option);
-  const trimmed = (valued && (args.value !== undefined)) ? args.value.toString().trim() : "";
-  const value = (valued && hasValueContent(trimmed)) ? trimmed : undefined;
+  aliases?: FeatureOptionAliases;
+  catalog: CatalogIndex;
+  configuredOptions: readonly string[];
+  knownIds: Iterable<string>;
+}): string[] {
 
-  // A value-centric option enabled at a scope persists only with a value. The grammar has no scoped spelling for "enabled here, nothing given" - the bare form
-  // would put the id where the legacy grammar reads a global value - so the request reduces to its observable meaning: any entry addressing the scope is dropped
-  // and resolution falls back to inheritance. Delegating states that reduction literally, and carries applyClearOption's reference-stable no-op with it.
-  if(valued && (value === undefined) && args.id?.length) {
+  const aliasIndex = buildAliasIndex(aliases);
+  const known = new Set([...knownIds].map((id) => id.toLowerCase()));
+  const stale = new Map<string, string>();
+
+  for(const entry of migrateConfiguredOptions(catalog, configuredOptions).configuredOptions) {
+
+    const id = entryIdSpan(catalog, entry)?.id;
+
+    if((id !== undefined) && !stale.has(id.toLowerCase()) && !aliasedIds(aliasIndex, id).some((candidate) => known.has(candidate.toLowerCase()))) {
+
+      stale.set(id.toLowerCase(), id);
+    }
+  }
+
+  return [...stale.values()];
+}
+
+// What a configured-options array says about an option at each scope, keyed by the folded id. The first entry for a scope is the one resolution reads, so it is
+// the one kept.
+function scopeSettings({ catalog, configuredOptions, option }: {
+
+  catalog: CatalogIndex;
+  configuredOptions: readonly string[];
+  option: string;
+}): Map<string, FeatureOptionDiffSetting> {
+
+  const settings = new Map<string, FeatureOptionDiffSetting>();
+
+  for(const { enabled, id, value } of enumerateConfiguredEntries({ catalog, configuredOptions, option })) {
+
+    if(!settings.has(id.toLowerCase())) {
 
-    return applyClearOption({ args: { id: args.id, option: args.option }, catalog, configuredOptions });
+      settings.set(id.toLowerCase(), { enabled, ...(id.length ? { id } : {}), ...((value === undefined) ? {} : { value }) });
+    }
   }
 
-  const target = targetKey(args.option, args.id);
+  return settings;
+}
 
-  // The entries that survive the replacement modernize as part of the save the caller already asked for. The entry composed below is canonical by construction, so
-  // it needs no pass of its own.
-  const surviving = normalizeConfiguredOptions(catalog, configuredOptions.filter((entry) => !entryAddressesScope({ catalog, rawEntry: entry, target })));
+// Whether two diff settings say the same thing, wherever each of them sits.
+function sameSetting(a: FeatureOptionDiffSetting, b: FeatureOptionDiffSetting): boolean {
 
-  return [ ...surviving, composeEntry({ enabled: args.enabled, id: args.id, option: args.option, value }) ];
+  return (a.enabled === b.enabled) && (a.value === b.value);
 }
 
 /**
- * Compute the new configured-options array after clearing every entry addressing an option at a given scope. The match is value-aware: for value-centric options
- * it covers the bare scoped entry and any entry carrying a value, in either the canonical or the legacy form, so a subsequent {@link applySetOption} cleanly
- * replaces whatever was there.
+ * Compare two configured-options arrays option by option and scope by scope, and report what changed in effect rather than in text. Both arrays are read the way
+ * the engine reads them - through the catalog's migration history, in either entry grammar, with ids folded to lower case and the first entry for a scope winning -
+ * so a save that only rewrites legacy entries, reorders the array, recases an id, or adds a duplicate reports nothing.
  *
- * Pure: does not mutate the input array. When no entry matched the target and none needed modernizing, returns the input array reference unchanged so
- * reference-equality consumers can detect a no-op without a contents comparison. Surviving entries are normalized on the way through, so a clear carries the same
- * upgrade-on-save behavior a set does. See {@link normalizeConfiguredOptions}.
+ * Each scope that gained, lost, or changed an entry is one change. An entry that left one scope and reappeared at another saying the same thing is reported once, as
+ * moved, rather than as a removal and an unrelated addition. A change is reported only when it moves what resolution answers at the scope it touches: an entry added
+ * that restates what the scope already resolved to - enabling a default-on option, say - changes nothing and is left out.
  *
- * @param options
- * @param options.args              - The addressing intent: option key, optional scope id. See {@link ClearOptionArgs}.
- * @param options.catalog           - The catalog index that defines what counts as a value-centric option (which the matcher consults via the shared parser).
- * @param options.configuredOptions - The current configured-options array.
+ * Pure and read-only.
  *
- * @returns The new configured-options array, or the input array reference itself when nothing matched and nothing needed rewriting.
+ * @param catalog - The catalog index.
+ * @param before  - The earlier configured-options array.
+ * @param after   - The later configured-options array.
+ *
+ * @returns The changes, in catalog order, and within one option with the global scope ahead of the ids.
+ *
+ * @example
+ *
+ * ```ts
+ * const changes = diffConfiguredOptions(catalog, previous, configuredOptions);
+ *
+ * if(changes.length) {
+ *
+ *   log.info("Feature options saved:\n%s", renderFeatureOptionsDiff({ changes }));
+ * }
+ * ```
+ *
+ * @category Feature Options
  */
-export function applyClearOption(
-  { args, catalog, configuredOptions }: { args: ClearOptionArgs; catalog: CatalogIndex; configuredOptions: readonly string[] }
-): readonly string[] {
+export function diffConfiguredOptions(catalog: CatalogIndex, before: readonly string[], after: readonly string[]): FeatureOptionDiff[] {
+
+  const read = (configuredOptions: readonly string[]): { configIndex: ConfigIndex; configuredOptions: readonly string[] } => {
+
+    const migrated = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+
+    return { configIndex: buildConfigIndex(catalog, migrated), configuredOptions: migrated };
+  };
+
+  const [ earlier, later ] = [ read(before), read(after) ];
+  const diff: FeatureOptionDiff[] = [];
+
+  for(const option of Object.values(catalog.optionNames)) {
+
+    const previous = scopeSettings({ catalog, configuredOptions: earlier.configuredOptions, option });
+    const current = scopeSettings({ catalog, configuredOptions: later.configuredOptions, option });
+
+    // Whether resolution answers differently at a scope, read as the global scope for the empty id and as a device or a controller for the rest.
+    const differs = (setting?: FeatureOptionDiffSetting): boolean => {
+
+      const addresses = (setting?.id === undefined) ? [{}] : [ { device: setting.id }, { controller: setting.id } ];
+
+      return addresses.some((address) => {
+
+        const was = resolveScope({ catalog, configIndex: earlier.configIndex, ...address, option });
+        const is = resolveScope({ catalog, configIndex: later.configIndex, ...address, option });
+
+        return (was.enabled !== is.enabled) || (was.optionValue !== is.optionValue);
+      });
+    };
+
+    const changes: FeatureOptionDiff[] = [];
+    const added = [...current].filter(([id]) => !previous.has(id)).map(([ , setting ]) => setting);
+    const restart = requiresRestart(catalog, option);
+
+    for(const [ id, setting ] of previous) {
+
+      const next = current.get(id);
+
+      if(next) {
+
+        if(!sameSetting(setting, next) && differs(next)) {
+
+          changes.push({ after: next, before: setting, change: "changed", option, requiresRestart: restart });
+        }
+
+        continue;
+      }
+
+      // A removal paired with an addition that says the same thing is one entry changing scope.
+      const moved = added.findIndex((candidate) => sameSetting(candidate, setting));
+
+      if(moved === -1) {
+
+        if(differs(setting)) {
+
+          changes.push({ before: setting, change: "removed", option, requiresRestart: restart });
+        }
+
+        continue;
+      }
+
+      const [target] = added.splice(moved, 1);
+
+      if(differs(setting) || differs(target)) {
+
+        changes.push({ after: target, before: setting, change: "moved", option, requiresRestart: restart });
+      }
+    }
+
+    for(const setting of added) {
+
+      if(differs(setting)) {
+
+        changes.push({ after: setting, change: "added", option, requiresRestart: restart });
+      }
+    }
+
+    const scope = ({ after, before }: FeatureOptionDiff): string => (before ?? after)?.id?.toLowerCase() ?? "";
+
+    diff.push(...changes.sort((a, b) => scope(a).localeCompare(scope(b))));
+  }
+
+  return diff;
+}
+
+// One level of the scope walk, as walkScopeLevels reports it: the level, the id it was looked up under, whether the option declares it, the lookup key, what
+// the index holds there, and whether the index is the override layer's.
+interface ScopeLevelVisit {
+
+  declared: boolean;
+  found?: Readonly<{ enabled: boolean; value?: string }>;
+  id?: string;
+  key: string;
+  level: FeatureOptionScope;
+  override: boolean;
+}
+
+// Walk the scope hierarchy for an option in precedence order - device, then controller, then global - yielding each level the caller supplied an id for, and the
+// global level always. This is the single definition of the walk: resolveScope stops at the first declared level that carries an entry, and explainOption visits
+// every level to account for each one, so the two cannot disagree about the order or about what a level holds. The option's declared levels are looked up once;
+// undefined means the entry declared nothing, in which case every level counts as declared. A device or controller level with aliases is still one level: the
+// first of its ids carrying an entry is the one the visit reports, and the id its alias chain ends at when none does.
+function *walkScopeLevels({ aliasIndex, catalog, configIndex, controller, device, option, overrideIndex }: {
+
+  aliasIndex?: AliasIndex;
+  catalog: CatalogIndex;
+  configIndex: ConfigIndex;
+  controller?: string;
+  device?: string;
+  option: string;
+  overrideIndex?: ConfigIndex;
+}): Generator<ScopeLevelVisit> {
+
+  const normalizedOption = option.toLowerCase();
+  const declaredScopes = catalog.scopes[normalizedOption];
 
-  const target = targetKey(args.option, args.id);
-  const filtered = configuredOptions.filter((entry) => !entryAddressesScope({ catalog, rawEntry: entry, target }));
-  const normalized = normalizeConfiguredOptions(catalog, filtered);
+  // The override layer is walked level by level ahead of the configured options, so a device override still outranks a global one, and the whole layer outranks
+  // anything configured. Its levels answer to the option's declaration like any other, since an override is a debugging aid, not a way around the catalog.
+  for(const index of overrideIndex ? [ overrideIndex, configIndex ] : [configIndex]) {
+
+    const visit = (level: FeatureOptionScope, requested?: string): ScopeLevelVisit => {
+
+      const ids = (requested === undefined) ? [undefined] : aliasedIds(aliasIndex, requested);
+      const id = ids.find((candidate) => index.has(targetKey(normalizedOption, candidate))) ?? ids[0];
+      const key = targetKey(normalizedOption, id);
+
+      return { declared: !declaredScopes || declaredScopes.includes(level), found: index.get(key), id, key, level, override: index === overrideIndex };
+    };
+
+    if(device) {
 
-  // Reference-stable no-op: nothing matched the target and no survivor needed rewriting, so callers comparing references see no change without inspecting contents.
-  return ((normalized === filtered) && (filtered.length === configuredOptions.length)) ? configuredOptions : normalized;
+      yield visit("device", device);
+    }
+
+    if(controller) {
+
+      yield visit("controller", controller);
+    }
+
+    yield visit("global");
+  }
 }
 
 /**
@@ -972,69 +3425,59 @@ export function applyClearOption(
  * {@link FeatureOptions.value}, and {@link FeatureOptions.logFeature} all consume the same `ResolvedOptionEntry` shape from one walk.
  *
  * Resolution precedence: device beats controller beats global beats default. An explicit entry at a higher-precedence scope short-circuits the lookup, so the
- * cost is O(1) in the configured-options array size.
+ * cost is O(1) in the configured-options array size. When an override index is supplied, the same walk runs through it first, and an override that decides the
+ * option reports the scope `"override"`.
  *
  * The walk visits only the levels the option's catalog entry declares through {@link FeatureOptionEntry.scopes}. An option that declares nothing is valid
  * everywhere and walks every level; one that names its levels resolves at those and skips a configured entry sitting at any other, so an entry written where the
  * option was never meant to apply cannot reach the accessories it was never meant to reach.
  *
+ * When an alias index is supplied, a device or controller id is read as every id its alias chain groups together: an entry written under any of them applies,
+ * with the id the chain ends at taking precedence over its aliases. See {@link FeatureOptionAliases}.
+ *
+ * When capabilities are supplied, an option whose {@link FeatureOptionEntry.requires} they do not meet resolves to its default without a walk at all, so no
+ * configured entry or override can turn on what the device cannot do. See {@link isOptionSupported}.
+ *
  * @param args
+ * @param args.aliasIndex         - Optional. The device and controller id aliases, built by {@link buildAliasIndex}.
+ * @param args.capabilities       - Optional. The capabilities of the device being resolved. Omit when they are unknown, and every option counts as supported.
  * @param args.catalog            - The catalog index (consulted for the default when no scope matched).
  * @param args.configIndex        - The configured-options lookup index.
  * @param args.controller         - Optional controller scope identifier.
  * @param args.defaultReturnValue - Fallback for options that don't appear in the catalog's defaults. Defaults to false.
  * @param args.device             - Optional device scope identifier.
  * @param args.option             - The option key to resolve (case-insensitive).
+ * @param args.overrideIndex      - Optional. The override layer's lookup index, built by {@link buildConfigIndex} from the overrides.
  *
  * @returns The resolved view: scope, enabled state, optional raw value.
  */
-export function resolveScope({ catalog, configIndex, controller, defaultReturnValue = false, device, option }: {
+export function resolveScope({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue = false, device, option, overrideIndex }: {
 
+  aliasIndex?: AliasIndex;
+  capabilities?: readonly string[];
   catalog: CatalogIndex;
   configIndex: ConfigIndex;
   controller?: string;
   defaultReturnValue?: boolean;
   device?: string;
   option: string;
+  overrideIndex?: ConfigIndex;
 }): ResolvedOptionEntry {
 
-  const normalizedOption = option.toLowerCase();
-
-  // The option's declared levels, looked up once and consulted by each of the level checks below. Undefined means the entry declared nothing, in which case every
-  // level is walked. A configured entry at a level the option does not declare is skipped and the walk continues downward, exactly as though the user had never
-  // written it - which is what makes the declaration true for every query built on this one traversal.
-  const declaredScopes = catalog.scopes[normalizedOption];
-
-  // Check to see if we have a device-level option first.
-  if(device && (!declaredScopes || declaredScopes.includes("device"))) {
-
-    const deviceEntry = configIndex.get(normalizedOption + "." + device.toLowerCase());
-
-    if(deviceEntry) {
-
-      return { enabled: deviceEntry.enabled, optionValue: deviceEntry.value, scope: "device" };
-    }
-  }
-
-  // Now check to see if we have a controller-level option.
-  if(controller && (!declaredScopes || declaredScopes.includes("controller"))) {
-
-    const controllerEntry = configIndex.get(normalizedOption + "." + controller.toLowerCase());
-
-    if(controllerEntry) {
+  // An option the device cannot support is settled before the walk: whatever is configured for it was written for a device that could, and the default is the
+  // only state the plugin can honestly act on.
+  if(!isOptionSupported({ capabilities, catalog, option })) {
 
-      return { enabled: controllerEntry.enabled, optionValue: controllerEntry.value, scope: "controller" };
-    }
+    return { enabled: getDefaultValue({ catalog, defaultReturnValue, option }), scope: "none" };
   }
 
-  // Finally, we check for a global-level value.
-  if(!declaredScopes || declaredScopes.includes("global")) {
-
-    const globalEntry = configIndex.get(normalizedOption);
+  // Take the first level that both carries an entry and is one the option declares. A configured entry at a level the option does not declare is skipped and the
+  // walk continues downward, exactly as though the user had never written it - which is what makes the declaration true for every query built on this one traversal.
+  for(const { declared, found, level, override } of walkScopeLevels({ aliasIndex, catalog, configIndex, controller, device, option, overrideIndex })) {
 
-    if(globalEntry) {
+    if(declared && found) {
 
-      return { enabled: globalEntry.enabled, optionValue: globalEntry.value, scope: "global" };
+      return { enabled: found.enabled, optionValue: found.value, scope: override ? "override" : level };
     }
   }
 
@@ -1059,6 +3502,23 @@ export function getDefaultValue({ catalog, defaultReturnValue = false, option }:
   return catalog.defaults[option.toLowerCase()] ?? defaultReturnValue;
 }
 
+/**
+ * Return whether a device supports a feature option - whether its capabilities include every one the option's {@link FeatureOptionEntry.requires} names. This is
+ * the one predicate behind capability gating: {@link resolveScope} consults it before walking the scopes, and the settings page consults it before offering a row,
+ * so an option the device cannot use is neither resolved nor shown.
+ *
+ * @param args
+ * @param args.capabilities - Optional. The device's capabilities. Undefined means unknown, which supports every option.
+ * @param args.catalog      - The catalog index.
+ * @param args.option       - The option key (case-insensitive). An option the catalog does not declare requires nothing, and is supported.
+ *
+ * @returns True when the option declares no requirement or the capabilities meet all of them, false otherwise.
+ */
+export function isOptionSupported({ capabilities, catalog, option }: { capabilities?: readonly string[]; catalog: CatalogIndex; option: string }): boolean {
+
+  return !capabilities || (catalog.requires[option.toLowerCase()] ?? []).every((capability) => capabilities.includes(capability));
+}
+
 /**
  * Return whether a feature option is value-centric (carries a `defaultValue` in its catalog declaration). The presence of the option's lowercased key in the
  * catalog's `valueOptions` map is the SSOT for this predicate.
@@ -1078,6 +3538,20 @@ export function isValueOption(catalog: CatalogIndex, option: string): boolean {
   return option.toLowerCase() in catalog.valueOptions;
 }
 
+/**
+ * Return whether a change to a feature option only takes effect once Homebridge restarts - whether its catalog entry declares `apply: "restart"`. This is the
+ * question a settings page or a hot reload asks before telling the user that saving was not enough. See {@link FeatureOptionApply}.
+ *
+ * @param catalog - The catalog index.
+ * @param option  - The option key (case-insensitive). An option the catalog does not declare returns false.
+ *
+ * @returns True when the option applies only at startup, false otherwise.
+ */
+export function requiresRestart(catalog: CatalogIndex, option: string): boolean {
+
+  return catalog.applies[option.toLowerCase()] === "restart";
+}
+
 /**
  * Return whether an option has been explicitly configured at the given scope. Distinct from {@link resolveScope}, which walks the hierarchy; this predicate
  * answers only "did the user set this entry at THIS scope?" without consulting any higher or lower scopes.
@@ -1087,15 +3561,16 @@ export function isValueOption(catalog: CatalogIndex, option: string): boolean {
  * takes effect.
  *
  * @param args
+ * @param args.aliasIndex  - Optional. The device and controller id aliases. An entry written under any id aliased together with `id` counts.
  * @param args.configIndex - The configured-options lookup index.
  * @param args.id          - Optional scope identifier (device or controller). Omit to address the global scope.
  * @param args.option      - The option key (case-insensitive).
  *
  * @returns True when an explicit entry addresses this option-at-scope.
  */
-export function optionExists({ configIndex, id, option }: { configIndex: ConfigIndex; id?: string; option: string }): boolean {
+export function optionExists({ aliasIndex, configIndex, id, option }: { aliasIndex?: AliasIndex; configIndex: ConfigIndex; id?: string; option: string }): boolean {
 
-  return configIndex.has(option.toLowerCase() + (id ? "." + id.toLowerCase() : ""));
+  return (id ? aliasedIds(aliasIndex, id) : [undefined]).some((candidate) => configIndex.has(targetKey(option, candidate)));
 }
 
 /**
@@ -1108,23 +3583,29 @@ export function optionExists({ configIndex, id, option }: { configIndex: ConfigI
  * the pre-built `catalog.groupParents` index, so the predicate is O(1) regardless of option-key length.
  *
  * @param args
+ * @param args.aliasIndex         - Optional. The device and controller id aliases. See {@link resolveScope}.
+ * @param args.capabilities       - Optional. The capabilities of the device at the address. See {@link resolveScope}.
  * @param args.catalog            - The catalog index.
  * @param args.configIndex        - The configured-options lookup index.
  * @param args.controller         - Optional controller scope identifier.
  * @param args.defaultReturnValue - Fallback default for options not in the catalog. Defaults to false.
  * @param args.device             - Optional device scope identifier.
  * @param args.option             - Fully-qualified feature option string (e.g., `"Motion.Sensitivity"`). Case-insensitive.
+ * @param args.overrideIndex      - Optional. The override layer's lookup index. See {@link resolveScope}.
  *
  * @returns `true` when the option has no dependency or its parent is currently enabled at the requested scope; `false` when the parent is currently disabled.
  */
-export function isDependencyMet({ catalog, configIndex, controller, defaultReturnValue = false, device, option }: {
+export function isDependencyMet({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue = false, device, option, overrideIndex }: {
 
+  aliasIndex?: AliasIndex;
+  capabilities?: readonly string[];
   catalog: CatalogIndex;
   configIndex: ConfigIndex;
   controller?: string;
   defaultReturnValue?: boolean;
   device?: string;
   option: string;
+  overrideIndex?: ConfigIndex;
 }): boolean {
 
   const parent = catalog.groupParents[option];
@@ -1134,7 +3615,399 @@ export function isDependencyMet({ catalog, configIndex, controller, defaultRetur
     return true;
   }
 
-  return resolveScope({ catalog, configIndex, controller, defaultReturnValue, device, option: parent }).enabled;
+  return resolveScope({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue, device, option: parent, overrideIndex }).enabled;
+}
+
+/**
+ * Check the catalog's constraints at an address and report every one that fails. Each option a constraint names is resolved through {@link resolveScope} at the
+ * requested device + controller view, so a constraint fails only where the options it names actually resolve enabled together - a device that overrides one of two
+ * globally-enabled exclusive options satisfies the constraint even though the global scope does not.
+ *
+ * Pure and read-only. {@link applySetOption} keeps `exclusive` and `conflicts` constraints from being broken at the scope it writes, but an option enabled through
+ * inheritance or by its catalog default can still meet another at a lower scope, and `requires` is never enforced, so this is where a plugin learns what to tell the
+ * user.
+ *
+ * @param args
+ * @param args.aliasIndex         - Optional. The device and controller id aliases. See {@link resolveScope}.
+ * @param args.capabilities       - Optional. The capabilities of the device at the address. See {@link resolveScope}.
+ * @param args.catalog            - The catalog index, which carries the constraints.
+ * @param args.configIndex        - The configured-options lookup index.
+ * @param args.controller         - Optional controller scope identifier.
+ * @param args.defaultReturnValue - Fallback default for options not in the catalog. Defaults to false.
+ * @param args.device             - Optional device scope identifier.
+ * @param args.overrideIndex      - Optional. The override layer's lookup index. See {@link resolveScope}.
+ *
+ * @returns One violation per failing constraint, in the order the catalog declares them. Empty when every constraint holds.
+ *
+ * @category Feature Options
+ */
+export function checkConstraints({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue = false, device, overrideIndex }: {
+
+  aliasIndex?: AliasIndex;
+  capabilities?: readonly string[];
+  catalog: CatalogIndex;
+  configIndex: ConfigIndex;
+  controller?: string;
+  defaultReturnValue?: boolean;
+  device?: string;
+  overrideIndex?: ConfigIndex;
+}): FeatureOptionConstraintViolation[] {
+
+  const address = { aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue, device, overrideIndex };
+  const enabled = (option: string): boolean => resolveScope({ ...address, option }).enabled;
+  const violations: FeatureOptionConstraintViolation[] = [];
+
+  for(const constraint of catalog.constraints) {
+
+    let options: string[] = [];
+    let message = "";
+
+    switch(constraint.kind) {
+
+      case "conflicts": {
+
+        const conflicting = enabled(constraint.option) ? constraint.conflicts.filter(enabled) : [];
+
+        if(conflicting.length) {
+
+          options = [ constraint.option, ...conflicting ];
+          message = constraint.option + " cannot be enabled together with " + listNames(conflicting) + ".";
+        }
+
+        break;
+      }
+
+      case "exclusive": {
+
+        const chosen = constraint.options.filter(enabled);
+
+        if(chosen.length > 1) {
+
+          options = chosen;
+          message = "At most one of " + listNames(constraint.options, "or") + " may be enabled, but " + listNames(chosen) + " are.";
+        }
+
+        break;
+      }
+
+      case "requires": {
+
+        const missing = enabled(constraint.option) ? constraint.requires.filter((option) => !enabled(option)) : [];
+
+        if(missing.length) {
+
+          options = [ constraint.option, ...missing ];
+          message = constraint.option + " has no effect unless " + listNames(missing) + ((missing.length === 1) ? " is" : " are") + " enabled.";
+        }
+
+        break;
+      }
+    }
+
+    if(options.length) {
+
+      violations.push({ constraint, message: constraint.message ?? message, options });
+    }
+  }
+
+  return violations;
+}
+
+// Decide whether, and how, a resolved option departs from its catalog default. This is the single definition FeatureOptions.logFeature and summarizeDeviations
+// share, so a per-option log line and a startup summary cannot disagree. The boolean axis deviates when the effective state differs from the default; the value
+// axis, for an enabled value-centric option, when the effective value - the resolved one, or the declared default when the resolved entry carries none - differs
+// from the declared default. Values compare as strings, because the index stores stringified user input while the catalog types defaultValue as
+// `number | string`, and coercing both is the one normalization that makes the comparison total.
+function optionDeviation({ catalog, defaultReturnValue, locale, option, resolved }: {
+
+  catalog: CatalogIndex;
+  defaultReturnValue: boolean;
+  locale?: string;
+  option: string;
+  resolved: ResolvedOptionEntry;
+}): { change: FeatureOptionDeviationChange; rendered?: string; value?: string } | undefined {
+
+  const key = option.toLowerCase();
+  const booleanDeviates = resolved.enabled !== getDefaultValue({ catalog, defaultReturnValue, option });
+
+  // A disabled option carries no value worth reporting, and a boolean one has nothing beyond its state.
+  if(!resolved.enabled || !(key in catalog.valueOptions)) {
+
+    return booleanDeviates ? { change: resolved.enabled ? "enabled" : "disabled" } : undefined;
+  }
+
+  const declaredDefault = catalog.valueOptions[key]?.toString();
+  const value = resolved.optionValue?.length ? resolved.optionValue : declaredDefault;
+
+  if(!booleanDeviates && ((value === undefined) || (value === declaredDefault))) {
+
+    return undefined;
+  }
+
+  // A value-centric option with no value anywhere - no declared default and none configured - is enabled with nothing to render, so it reports as a plain enable.
+  if(value === undefined) {
+
+    return { change: "enabled" };
+  }
+
+  return { change: booleanDeviates ? "enabled" : "set", rendered: catalog.renderers[key]?.(value, locale) ?? value, value };
+}
+
+/**
+ * Walk the whole catalog at an address and report every option whose effective state departs from its default, grouped by category and by the scope each
+ * resolved at. This is the batch form of {@link FeatureOptions.logFeature}: where that logs one option per call, this lets a plugin emit one compact summary per
+ * accessory at startup. Deviation is judged exactly as `logFeature` judges it - a default-on option turned off, a default-off option turned on, or a value moved
+ * off its declared default - and values come back both raw and through the catalog's renderers.
+ *
+ * @param args
+ * @param args.aliasIndex    - Optional. The device and controller id aliases. See {@link resolveScope}.
+ * @param args.capabilities  - Optional. The capabilities of the device at the address. An option it does not support holds its default, and never deviates.
+ * @param args.catalog       - The catalog index.
+ * @param args.configIndex   - The configured-options lookup index.
+ * @param args.controller    - Optional controller scope identifier.
+ * @param args.device        - Optional device scope identifier.
+ * @param args.locale        - Optional. The BCP 47 locale tag the renderers render values in. See {@link FeatureOptionRenderer}. Omit it for English.
+ * @param args.overrideIndex - Optional. The override layer's lookup index. See {@link resolveScope}.
+ *
+ * @returns One group per category and scope that has deviations: categories in catalog order, and within a category the scopes in precedence order - override,
+ *          device, controller, global. Empty when everything holds its default.
+ *
+ * @example
+ *
+ * ```ts
+ * for(const { category, deviations, scope } of featureOptions.summarizeDeviations(camera.id, nvr.id)) {
+ *
+ *   log.info("%s (%s): %s.", category.description, scope, deviations.map((deviation) => deviation.option + " " + deviation.change).join(", "));
+ * }
+ * ```
+ *
+ * @category Feature Options
+ */
+export function summarizeDeviations({ aliasIndex, capabilities, catalog, configIndex, controller, device, locale, overrideIndex }: {
+
+  aliasIndex?: AliasIndex;
+  capabilities?: readonly string[];
+  catalog: CatalogIndex;
+  configIndex: ConfigIndex;
+  controller?: string;
+  device?: string;
+  locale?: string;
+  overrideIndex?: ConfigIndex;
+}): FeatureOptionDeviationGroup[] {
+
+  const groups: FeatureOptionDeviationGroup[] = [];
+
+  for(const category of catalog.categories) {
+
+    const byScope = new Map<OptionScope, FeatureOptionDeviation[]>();
+
+    for(const entry of catalog.options[category.name] ?? []) {
+
+      const option = expandOption(category, entry);
+      const resolved = resolveScope({ aliasIndex, capabilities, catalog, configIndex, controller, device, option, overrideIndex });
+      const deviation = optionDeviation({ catalog, defaultReturnValue: false, locale, option, resolved });
+
+      if(deviation) {
+
+        byScope.set(resolved.scope, [ ...(byScope.get(resolved.scope) ?? []), { ...deviation, description: entry.description, option } ]);
+      }
+    }
+
+    for(const scope of [ "override", "device", "controller", "global" ] as const) {
+
+      const deviations = byScope.get(scope);
+
+      if(deviations) {
+
+        groups.push({ category, deviations, scope });
+      }
+    }
+  }
+
+  return groups;
+}
+
+// The configured entry the lookup index holds under a key: the first entry registering it, exactly as buildConfigIndex decides first-write-wins.
+function entryForKey({ catalog, configuredOptions, key }: { catalog: CatalogIndex; configuredOptions: readonly string[]; key: string }): string | undefined {
+
+  return configuredOptions.find((entry) => {
+
+    const parsed = parseEntry(catalog, entry);
+
+    return parsed && ((parsed.primaryKey === key) || ((parsed.valueKey === key) && (parsed.valueError === undefined)));
+  });
+}
+
+// Describe a scope level the way an explanation's sentence wants it.
+function describeLevel({ id, level }: { id?: string; level: FeatureOptionScope }): string {
+
+  return id ? ("at " + level + " " + id) : "globally";
+}
+
+/**
+ * Parse a list of override entries, as the `HBPU_OPTIONS` environment variable carries them: configured-options entries separated by commas, with whitespace
+ * around each ignored and empty items dropped. Entries are returned as written, in order; they resolve through the same grammar and catalog migrations as
+ * configured entries do. A value containing a comma cannot be expressed in this form - pass such an override to {@link FeatureOptions.overrides} directly.
+ *
+ * @param text - The override list, or undefined when the variable is unset.
+ *
+ * @returns The override entries, empty when there are none.
+ *
+ * @example
+ *
+ * ```ts
+ * // HBPU_OPTIONS="Enable.Debug.Video, Disable.Motion.Detect.ABC123"
+ * featureOptions.overrides = parseOptionOverrides(process.env.HBPU_OPTIONS);
+ * ```
+ *
+ * @category Feature Options
+ */
+export function parseOptionOverrides(text: string | undefined): string[] {
+
+  return (text ?? "").split(",").map((entry) => entry.trim()).filter((entry) => entry.length);
+}
+
+/**
+ * Explain how a feature option resolves at a given scope. Where {@link resolveScope} returns only the answer, this returns the whole walk behind it: each scope
+ * level in precedence order with the configured entry found there and what it contributed, the entries passed over because the option's
+ * {@link FeatureOptionEntry.scopes} exclude their level, the catalog default, and the group-parent dependency {@link isDependencyMet} evaluates - so "why is motion
+ * detection off on my doorbell?" has an answer a plugin can log and a UI can show.
+ *
+ * The walk is the one resolution uses, so the explanation cannot disagree with the result; `resolved` is that result. Configured entries are read through the
+ * catalog's migration history, as {@link FeatureOptions} reads them, and the entries reported are the migrated ones. Overrides, when supplied, are read the same
+ * way and walked first, so an explanation says when an override is what decided the option. With aliases, a level's step reports the id whose entry it found.
+ * With capabilities the device does not meet the option's requirements with, the explanation names the ones it lacks.
+ *
+ * @param args
+ * @param args.aliases            - Optional. The device and controller id aliases. See {@link FeatureOptionAliases}.
+ * @param args.capabilities       - Optional. The capabilities of the device at the address. See {@link resolveScope}.
+ * @param args.catalog            - The catalog index.
+ * @param args.configuredOptions  - The configured-options array.
+ * @param args.controller         - Optional controller scope identifier.
+ * @param args.defaultReturnValue - Fallback for options that don't appear in the catalog's defaults. Defaults to false.
+ * @param args.device             - Optional device scope identifier.
+ * @param args.option             - The option key to explain (case-insensitive).
+ * @param args.overrides          - Optional. The override entries, which outrank every configured one. See {@link parseOptionOverrides}.
+ *
+ * @returns The explanation.
+ *
+ * @example
+ *
+ * ```ts
+ * log.debug(explainOption({ catalog, configuredOptions, device: doorbell.id, option: "Motion.Detect" }).message);
+ * ```
+ *
+ * @category Feature Options
+ */
+export function explainOption({ aliases = {}, capabilities, catalog, configuredOptions, controller, defaultReturnValue = false, device, option, overrides = [] }: {
+
+  aliases?: FeatureOptionAliases;
+  capabilities?: readonly string[];
+  catalog: CatalogIndex;
+  configuredOptions: readonly string[];
+  controller?: string;
+  defaultReturnValue?: boolean;
+  device?: string;
+  option: string;
+  overrides?: readonly string[];
+}): FeatureOptionExplanation {
+
+  const current = migrateConfiguredOptions(catalog, configuredOptions).configuredOptions;
+  const currentOverrides = migrateConfiguredOptions(catalog, overrides).configuredOptions;
+  const configIndex = buildConfigIndex(catalog, current);
+  const overrideIndex = currentOverrides.length ? buildConfigIndex(catalog, currentOverrides) : undefined;
+  const aliasIndex = buildAliasIndex(aliases);
+  const name = catalog.optionNames[option.toLowerCase()];
+  const resolved = resolveScope({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue, device, option, overrideIndex });
+  const missing = (catalog.requires[option.toLowerCase()] ?? []).filter((capability) => capabilities && !capabilities.includes(capability));
+  const steps: FeatureOptionExplanationStep[] = [];
+  let applied = false;
+
+  for(const { declared, found, id, key, level, override } of walkScopeLevels({ aliasIndex, catalog, configIndex, controller, device, option, overrideIndex })) {
+
+    const step: FeatureOptionExplanationStep = { id, level, outcome: "unset" };
+
+    // Only the override layer's steps carry the flag, so an explanation without overrides reads exactly as it always has.
+    if(override) {
+
+      step.override = true;
+    }
+
+    if(found) {
+
+      Object.assign(step, { enabled: found.enabled, entry: entryForKey({ catalog, configuredOptions: override ? currentOverrides : current, key }), value: found.value });
+    }
+
+    if(!declared) {
+
+      step.outcome = "not-declared";
+    } else if(found && missing.length) {
+
+      step.outcome = "unsupported";
+    } else if(found) {
+
+      step.outcome = applied ? "shadowed" : "applied";
+      applied = true;
+    }
+
+    steps.push(step);
+  }
+
+  const label = name ?? option;
+  const state = resolved.enabled ? "enabled" : "disabled";
+  const winner = steps.find((step) => step.outcome === "applied");
+  const sentences: string[] = [];
+
+  if(winner) {
+
+    sentences.push(label + " is " + state + ((resolved.optionValue !== undefined) ? (" with the value \"" + resolved.optionValue + "\"") : "") + " " +
+      describeLevel(winner) + " by " + (winner.override ? "the override " : "") + "\"" + (winner.entry ?? "") + "\".");
+  } else if(missing.length) {
+
+    sentences.push(label + " is " + state + " by default, because the device lacks " + ((missing.length === 1) ? "the capability" : "the capabilities") +
+      " it requires: " + missing.join(", ") + ".");
+  } else if(name) {
+
+    sentences.push(label + " is " + state + " by default, because no configured entry applies to it.");
+  } else {
+
+    sentences.push(label + " is not a feature option, so it resolves to " + state + ".");
+  }
+
+  for(const step of steps) {
+
+    if((step.outcome === "not-declared") && step.entry) {
+
+      sentences.push((step.override ? "The override " : "") + "\"" + step.entry + "\" is ignored, because " + label + " cannot be configured " + describeLevel(step) +
+        ".");
+    }
+  }
+
+  const parent = name && catalog.groupParents[name];
+  let dependency: FeatureOptionExplanation["dependency"];
+
+  if(parent) {
+
+    const parentResolved = resolveScope({ aliasIndex, capabilities, catalog, configIndex, controller, defaultReturnValue, device, option: parent, overrideIndex });
+
+    dependency = { met: parentResolved.enabled, parent, resolved: parentResolved };
+
+    if(!dependency.met && resolved.enabled) {
+
+      sentences.push("It has no effect while " + parent + " is disabled.");
+    }
+  }
+
+  return {
+
+    default: getDefaultValue({ catalog, defaultReturnValue, option }),
+    dependency,
+    known: name !== undefined,
+    message: sentences.join(" "),
+    option: label,
+    resolved,
+    steps
+  };
 }
 
 // Utility function to parse and return a numeric configuration parameter. Distinguishes exactly two outcomes: null when the option is explicitly disabled, and
@@ -1209,9 +4082,23 @@ export class FeatureOptions {
    */
   public defaultReturnValue: boolean;
 
+  /**
+   * The BCP 47 locale tag that {@link FeatureOptions.logFeature} and {@link FeatureOptions.summarizeDeviations} render values in, through each option's
+   * {@link FeatureOptionRenderer}. Undefined, the default, renders in English.
+   */
+  public locale?: string;
+
+  #aliasIndex?: AliasIndex;
+  #aliases: FeatureOptionAliases = {};
+  #capabilities: FeatureOptionCapabilities = {};
+  #capabilityIndex = new Map<string, readonly string[]>();
   #catalog: CatalogIndex;
-  #configIndex: ConfigIndex;
+  #configIndex: ConfigIndex = new Map();
   #configuredOptions: string[];
+  #migrations: readonly FeatureOptionMigrationRecord[] = [];
+  #overrideIndex?: ConfigIndex;
+  #overrides: string[] = [];
+  #watchers = new Set<{ controller?: string; device?: string; last: FeatureOptionSnapshot; listener: FeatureOptionListener; option: string }>();
 
   /**
    * Create a new FeatureOptions instance.
@@ -1219,6 +4106,7 @@ export class FeatureOptions {
    * @param categories        - Array of feature option categories.
    * @param options           - Dictionary mapping category names to arrays of feature options.
    * @param configuredOptions - Optional. Array of currently configured option strings.
+   * @param settings          - Optional. Catalog-level settings, such as the migration history. See {@link FeatureCatalogSettings}.
    *
    * @example
    *
@@ -1226,12 +4114,27 @@ export class FeatureOptions {
    * const featureOpts = new FeatureOptions(categories, options, ["Enable.motion.detect"]);
    * ```
    */
-  constructor(categories: FeatureCategoryEntry[], options: Record<string, FeatureOptionEntry[]>, configuredOptions: string[] = []) {
+  constructor(categories: FeatureCategoryEntry[], options: Record<string, FeatureOptionEntry[]>, configuredOptions: string[] = [],
+    settings: FeatureCatalogSettings = {}) {
+
+    this.#catalog = buildCatalogIndex(categories, options, settings);
+    this.#configuredOptions = configuredOptions;
+    this.#reindex();
+    this.defaultReturnValue = false;
+  }
+
+  /**
+   * Check the catalog's constraints at an address. See {@link checkConstraints}.
+   *
+   * @param device        - Optional device scope identifier.
+   * @param controller    - Optional controller scope identifier.
+   *
+   * @returns Returns one violation per failing constraint, or an empty array when every constraint holds.
+   */
+  public checkConstraints(device?: string, controller?: string): FeatureOptionConstraintViolation[] {
 
-    this.#catalog = buildCatalogIndex(categories, options);
-    this.#configuredOptions = configuredOptions;
-    this.#configIndex = buildConfigIndex(this.#catalog, configuredOptions);
-    this.defaultReturnValue = false;
+    return checkConstraints({ aliasIndex: this.#aliasIndex, capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, configIndex: this.#configIndex,
+      controller, defaultReturnValue: this.defaultReturnValue, device, overrideIndex: this.#overrideIndex });
   }
 
   /**
@@ -1259,7 +4162,30 @@ export class FeatureOptions {
    */
   public exists(option: string, id?: string): boolean {
 
-    return optionExists({ configIndex: this.#configIndex, id, option });
+    return optionExists({ aliasIndex: this.#aliasIndex, configIndex: this.#configIndex, id, option });
+  }
+
+  /**
+   * Explain how an option resolves at a given scope: every level walked, the entry found at each, the entries passed over because of the option's declared scopes,
+   * the group-parent dependency, and the catalog default. See {@link explainOption}.
+   *
+   * @param option        - Feature option to explain.
+   * @param device        - Optional device scope identifier.
+   * @param controller    - Optional controller scope identifier.
+   *
+   * @returns Returns the full resolution trace, with a sentence summing it up.
+   *
+   * @example
+   *
+   * ```ts
+   * // "Motion.Detect is disabled at device ABC123 by "Disable.Motion.Detect.ABC123"."
+   * log.debug(featureOpts.explain("Motion.Detect", "ABC123").message);
+   * ```
+   */
+  public explain(option: string, device?: string, controller?: string): FeatureOptionExplanation {
+
+    return explainOption({ aliases: this.#aliases, capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, configuredOptions: this.#configuredOptions,
+      controller, defaultReturnValue: this.defaultReturnValue, device, option, overrides: this.#overrides });
   }
 
   /**
@@ -1279,7 +4205,8 @@ export class FeatureOptions {
    */
   public isDependencyMet(option: string, device?: string, controller?: string): boolean {
 
-    return isDependencyMet({ catalog: this.#catalog, configIndex: this.#configIndex, controller, defaultReturnValue: this.defaultReturnValue, device, option });
+    return isDependencyMet({ aliasIndex: this.#aliasIndex, capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, configIndex: this.#configIndex,
+      controller, defaultReturnValue: this.defaultReturnValue, device, option, overrideIndex: this.#overrideIndex });
   }
 
   /**
@@ -1295,6 +4222,21 @@ export class FeatureOptions {
     return expandOption(category, option);
   }
 
+  /**
+   * Parse a duration feature option value, as declared by a `duration` {@link FeatureOptionEntry.valueType}. Unit suffixes are honored, so `90`, `90s`, and `1.5m`
+   * all read as 90.
+   *
+   * @param option        - Feature option to check.
+   * @param device        - Optional device scope identifier.
+   * @param controller    - Optional controller scope identifier.
+   *
+   * @returns Returns the value of a value-centric option as a number of seconds, `undefined` if it doesn't exist or couldn't be parsed, and `null` if disabled.
+   */
+  public getDuration(option: string, device?: string, controller?: string): Nullable<number | undefined> {
+
+    return parseOptionNumeric(this.value(option, device, controller), parseDurationSeconds);
+  }
+
   /**
    * Parse a floating point feature option value.
    *
@@ -1347,6 +4289,20 @@ export class FeatureOptions {
     return this.exists(option);
   }
 
+  /**
+   * Return whether a device supports an option - whether the capabilities set for it meet the option's {@link FeatureOptionEntry.requires}. An unsupported
+   * option resolves to its default on that device whatever is configured. See {@link isOptionSupported}.
+   *
+   * @param option        - Feature option to check.
+   * @param device        - Optional device scope identifier. Omit, or name a device without capabilities set, and every option is supported.
+   *
+   * @returns Returns true if the device supports the option and false otherwise.
+   */
+  public isSupported(option: string, device?: string): boolean {
+
+    return isOptionSupported({ capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, option });
+  }
+
   /**
    * Return whether an option is value-centric or not.
    *
@@ -1359,6 +4315,28 @@ export class FeatureOptions {
     return isValueOption(this.#catalog, option);
   }
 
+  /**
+   * Lint the configured options against the catalog. See {@link lintConfiguredOptions} for the findings reported.
+   *
+   * @returns Returns the findings, in configured-options order. Empty when the configured options are clean.
+   */
+  public lint(): FeatureOptionDiagnostic[] {
+
+    return lintConfiguredOptions(this.#catalog, this.#configuredOptions);
+  }
+
+  /**
+   * Read a single configured-options entry the way this instance's catalog does. See {@link parseConfiguredEntry} for the reading reported.
+   *
+   * @param entry - The configured-options entry to read.
+   *
+   * @returns Returns the entry's reading, or `null` when the entry is not in the grammar at all.
+   */
+  public parseEntry(entry: string): ConfiguredEntryReading | null {
+
+    return parseConfiguredEntry(this.#catalog, entry);
+  }
+
   /**
    * Emit an INFO-level log line for a feature option, but only when the user's effective configuration deviates from the declared default.
    *
@@ -1388,6 +4366,7 @@ export class FeatureOptions {
    * is used. The renderer may be either a {@link FeatureOptionFormatter} string naming a built-in formatter from the shared registry (preferred when the format exists
    * there, since this keeps the catalog JSON-serializable and lets every plugin share one implementation) or an inline function for bespoke cases. Declaring the
    * renderer at the option's catalog entry keeps display formatting a single source of truth shared by `logFeature` and any future surface that displays the value.
+   * The value renders in {@link FeatureOptions.locale}.
    *
    * Scope precedence matches {@link FeatureOptions.test}: device wins over controller wins over global wins over default. Pass the scope arguments that describe the
    * vantage point you want to log from - typically a device identifier for accessory-level configuration, optionally with a controller identifier when the plugin's
@@ -1416,67 +4395,32 @@ export class FeatureOptions {
    */
   public logFeature(option: string, label: string, log: HomebridgePluginLogging, device?: string, controller?: string): void {
 
-    const effective = this.test(option, device, controller);
-    const defaultEnabled = this.defaultValue(option);
-    const booleanDeviates = effective !== defaultEnabled;
-
-    // Disabled: emit only when the user turned off something whose default is on. Value-centric options collapse to the same shape here - the value is irrelevant
-    // when the option is off, and the operator only needs to know it was disabled.
-    if(!effective) {
-
-      if(booleanDeviates) {
-
-        log.info("%s disabled.", label);
-      }
-
-      return;
-    }
-
-    // Enabled. For plain boolean options that is the whole story.
-    if(!this.isValue(option)) {
-
-      if(booleanDeviates) {
-
-        log.info("%s enabled.", label);
-      }
-
-      return;
-    }
-
-    // Enabled, value-centric option. Resolve the effective value (an explicit user value when set, otherwise the registered catalog default) and compare against the
-    // declared default to detect value-axis deviation. We compare normalized strings because the registry stores stringified user input while the catalog's defaultValue
-    // is typed as `number | string`; coercing both to string is the one normalization that makes the comparison total.
-    const declaredDefault = this.#catalog.valueOptions[option.toLowerCase()]?.toString();
-    const effectiveValue = this.value(option, device, controller) ?? declaredDefault;
-    const valueDeviates = (effectiveValue !== undefined) && (effectiveValue !== declaredDefault);
+    const resolved = this.#resolve(option, device, controller);
+    const deviation = optionDeviation({ catalog: this.#catalog, defaultReturnValue: this.defaultReturnValue, locale: this.locale, option, resolved });
 
-    if(!booleanDeviates && !valueDeviates) {
+    if(!deviation) {
 
       return;
     }
 
-    // Defensive fallback for the degenerate case of a value-centric catalog entry with no concrete value anywhere - no registered default and no explicit value at any
-    // scope. The option is enabled per the user's choice but there is nothing meaningful to render after "at"; emitting "<label> enabled at ." would mislead a reader,
-    // so we collapse to the boolean-axis message shape and let the catalog declaration's malformed-ness surface elsewhere.
-    if(effectiveValue === undefined) {
+    // Message shape splits on which axis deviated: "enabled at" when the user turned a value-centric feature on, "set to" when only the value moved away from the
+    // registered default. Both forms always carry the effective value, since for value-centric options the value is what the operator most needs to see. An
+    // option with nothing to render - a boolean, a disabled option, or a value-centric one with no value anywhere - collapses to the plain state.
+    if(deviation.rendered === undefined) {
 
-      log.info("%s enabled.", label);
+      log.info((deviation.change === "disabled") ? "%s disabled." : "%s enabled.", label);
 
       return;
     }
 
-    const renderedValue = this.#catalog.renderers[option.toLowerCase()]?.(effectiveValue) ?? effectiveValue;
+    if(deviation.change === "set") {
 
-    // Message shape splits on which axis deviated: "enabled at" when the user turned the feature on (boolean axis crossed), "set to" when only the value moved away
-    // from the registered default. Both forms always carry the effective value, since for value-centric options the value is what the operator most needs to see.
-    if(booleanDeviates) {
-
-      log.info("%s enabled at %s.", label, renderedValue);
+      log.info("%s set to %s.", label, deviation.rendered);
 
       return;
     }
 
-    log.info("%s set to %s.", label, renderedValue);
+    log.info("%s enabled at %s.", label, deviation.rendered);
   }
 
   /**
@@ -1511,7 +4455,7 @@ export class FeatureOptions {
     this.#configuredOptions = next as string[];
 
     // Only the index depends on the configured-options array; the catalog-derived state is unchanged across config mutations and need not be touched here.
-    this.#configIndex = buildConfigIndex(this.#catalog, this.#configuredOptions);
+    this.#reindex();
   }
 
   /**
@@ -1528,8 +4472,13 @@ export class FeatureOptions {
    * Saving also modernizes: any surviving entry still in the legacy dot form is rewritten into the canonical form as part of the same mutation. See
    * {@link normalizeConfiguredOptions} for what that does and does not touch.
    *
+   * An enable honors the catalog's `exclusive` and `conflicts` constraints, clearing whatever enables a rival option at the same scope. See
+   * {@link applySetOptionWithReport}.
+   *
    * @param args - The mutation intent: option key, optional scope id, enabled state, and optional value. See {@link SetOptionArgs}.
    *
+   * @returns Returns the entries the catalog's constraints cleared, so the caller can tell the user what their choice switched off. Empty when nothing was cleared.
+   *
    * @example
    *
    * ```ts
@@ -1540,22 +4489,133 @@ export class FeatureOptions {
    * featureOpts.setOption({ enabled: true, id: "ABC123", option: "Audio.Volume", value: 50 });
    * ```
    */
-  public setOption(args: SetOptionArgs): void {
+  public setOption(args: SetOptionArgs): readonly string[] {
 
-    const next = applySetOption({ args, catalog: this.#catalog, configuredOptions: this.#configuredOptions });
+    const { cleared, configuredOptions: next } = applySetOptionWithReport({ args, catalog: this.#catalog, configuredOptions: this.#configuredOptions });
 
     // Reference-stable no-op: a scoped enable without value content that found nothing to drop leaves the array and the index already coherent. Skip the rebuild
     // and preserve the array reference so callers holding a snapshot see a stable identity for unchanged state.
     if(next === this.#configuredOptions) {
 
-      return;
+      return cleared;
     }
 
     // Same readonly-to-mutable cast rationale as clearOption above.
     this.#configuredOptions = next as string[];
 
     // Only the index depends on the configured-options array; the catalog-derived state is unchanged across config mutations and need not be touched here.
-    this.#configIndex = buildConfigIndex(this.#catalog, this.#configuredOptions);
+    this.#reindex();
+
+    return cleared;
+  }
+
+  /**
+   * Report every option whose effective state departs from its default at an address, grouped by category and by the scope each resolved at. See
+   * {@link summarizeDeviations}.
+   *
+   * @param device        - Optional device scope identifier.
+   * @param controller    - Optional controller scope identifier.
+   *
+   * @returns Returns the deviation groups, empty when everything holds its default.
+   */
+  public summarizeDeviations(device?: string, controller?: string): FeatureOptionDeviationGroup[] {
+
+    return summarizeDeviations({ aliasIndex: this.#aliasIndex, capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, configIndex: this.#configIndex,
+      controller, device, locale: this.locale, overrideIndex: this.#overrideIndex });
+  }
+
+  /**
+   * Extract the options configured at one scope into a portable profile. See {@link extractProfile}.
+   *
+   * @param id            - The device or controller identifier to extract. The empty string extracts the global scope.
+   *
+   * @returns Returns the profile.
+   */
+  public extractProfile(id: string): FeatureOptionProfile {
+
+    return extractProfile({ catalog: this.#catalog, configuredOptions: this.#configuredOptions, id });
+  }
+
+  /**
+   * Apply a profile to one or more scopes, replacing what each configures for the profile's options. See {@link applyProfile}.
+   *
+   * @param profile       - The profile to apply. A catalog preset becomes one through {@link presetProfile}.
+   * @param ids           - The device or controller identifiers to apply it to. The empty string addresses the global scope.
+   *
+   * @returns Returns the conflicts met along the way, empty when the profile applied cleanly.
+   *
+   * @example
+   *
+   * ```ts
+   * // Apply the plugin's "Low Bandwidth" preset to two cameras.
+   * const preset = presetProfile(featureOpts.catalog, "Low Bandwidth");
+   *
+   * if(preset) {
+   *
+   *   featureOpts.applyProfile(preset, [ "ABC123", "DEF456" ]);
+   * }
+   * ```
+   */
+  public applyProfile(profile: FeatureOptionProfile, ids: readonly string[]): FeatureOptionProfileConflict[] {
+
+    const { conflicts, configuredOptions: next } = applyProfile({ catalog: this.#catalog, configuredOptions: this.#configuredOptions, ids, profile });
+
+    if(next !== this.#configuredOptions) {
+
+      this.#configuredOptions = next as string[];
+      this.#reindex();
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Rewrite every configured entry addressing one device or controller id so it addresses another. See {@link renameConfiguredId}.
+   *
+   * @param from          - The id to rewrite, matched without regard to case.
+   * @param to            - The id to rewrite it to.
+   *
+   * @example
+   *
+   * ```ts
+   * // The doorbell was replaced: carry its options over to the new unit.
+   * featureOpts.renameId("AABBCCDDEEFF", "112233445566");
+   * ```
+   */
+  public renameId(from: string, to: string): void {
+
+    const next = renameConfiguredId({ catalog: this.#catalog, configuredOptions: this.#configuredOptions, from, to });
+
+    if(next !== this.#configuredOptions) {
+
+      this.#configuredOptions = next as string[];
+      this.#reindex();
+    }
+  }
+
+  /**
+   * List the device and controller ids the configured options address that are not among the devices the plugin knows about, honoring the instance's aliases.
+   * See {@link staleConfiguredIds}.
+   *
+   * @param knownIds      - Every device and controller id the plugin currently knows about.
+   *
+   * @returns Returns the stale ids, empty when every configured scope belongs to a known device.
+   */
+  public staleIds(knownIds: Iterable<string>): string[] {
+
+    return staleConfiguredIds({ aliases: this.#aliases, catalog: this.#catalog, configuredOptions: this.#configuredOptions, knownIds });
+  }
+
+  /**
+   * Return whether a change to an option only takes effect once Homebridge restarts. See {@link requiresRestart}.
+   *
+   * @param option        - Feature option to check.
+   *
+   * @returns Returns true if the option applies only at startup and false otherwise.
+   */
+  public requiresRestart(option: string): boolean {
+
+    return requiresRestart(this.#catalog, option);
   }
 
   /**
@@ -1569,7 +4629,7 @@ export class FeatureOptions {
    */
   public scope(option: string, device?: string, controller?: string): OptionScope {
 
-    return resolveScope({ catalog: this.#catalog, configIndex: this.#configIndex, controller, defaultReturnValue: this.defaultReturnValue, device, option }).scope;
+    return this.#resolve(option, device, controller).scope;
   }
 
   /**
@@ -1583,7 +4643,7 @@ export class FeatureOptions {
    */
   public test(option: string, device?: string, controller?: string): boolean {
 
-    return resolveScope({ catalog: this.#catalog, configIndex: this.#configIndex, controller, defaultReturnValue: this.defaultReturnValue, device, option }).enabled;
+    return this.#resolve(option, device, controller).enabled;
   }
 
   /**
@@ -1605,7 +4665,7 @@ export class FeatureOptions {
     }
 
     // Resolve the option through the scope hierarchy in a single traversal. This gives us the scope, enabled state, and raw value in one pass.
-    const resolved = resolveScope({ catalog: this.#catalog, configIndex: this.#configIndex, controller, defaultReturnValue: this.defaultReturnValue, device, option });
+    const resolved = this.#resolve(option, device, controller);
 
     // If the option has been explicitly disabled at any scope, or wasn't configured and its default is disabled, there's no value.
     if(!resolved.enabled) {
@@ -1630,6 +4690,107 @@ export class FeatureOptions {
     return undefined;
   }
 
+  /**
+   * Watch an option's effective state at an address, calling `listener` whenever it changes. A change is judged on what the option resolves to - its enabled
+   * state and its value, as {@link FeatureOptions.test} and {@link FeatureOptions.value} answer - rather than on the configured-options array, so an edit elsewhere
+   * in the array, or one that moves where the option resolves without changing what it resolves to, fires nothing. Every path that can change resolution is
+   * covered: {@link FeatureOptions.setOption}, {@link FeatureOptions.clearOption}, and replacing the configured options, overrides, categories, or options
+   * outright.
+   *
+   * Listeners run synchronously, once the change is complete, so a listener that queries the instance sees the new state throughout. Every listener runs even if an
+   * earlier one throws; the error is rethrown to the caller of the mutation afterwards, as an `AggregateError` when more than one listener threw.
+   *
+   * @param option        - Feature option to watch.
+   * @param init          - The address to watch, and an optional signal that ends the subscription. See {@link FeatureOptionWatchInit}.
+   * @param listener      - Called with the new state and the previous one.
+   *
+   * @example
+   *
+   * ```ts
+   * // Follow the doorbell's motion detection until the controller is aborted.
+   * const subscription = new AbortController();
+   *
+   * featureOpts.watch("Motion.Detect", { device: doorbell.id, signal: subscription.signal }, (current) => {
+   *
+   *   doorbell.motionDetection = current.enabled;
+   * });
+   * ```
+   */
+  public watch(option: string, init: FeatureOptionWatchInit, listener: FeatureOptionListener): void {
+
+    const { controller, device, signal } = init;
+
+    // A subscription whose lifetime has already ended can never fire, so it registers nothing rather than holding a listener nobody can remove.
+    if(signal?.aborted) {
+
+      return;
+    }
+
+    const watcher = { controller, device, last: this.#snapshot(option, device, controller), listener, option };
+
+    this.#watchers.add(watcher);
+
+    if(signal) {
+
+      onAbort(signal, () => this.#watchers.delete(watcher));
+    }
+  }
+
+  /**
+   * Return the device and controller id aliases. See {@link FeatureOptionAliases}.
+   *
+   * @returns Returns the alias map, as it was set.
+   */
+  public get aliases(): FeatureOptionAliases {
+
+    return this.#aliases;
+  }
+
+  /**
+   * Set the device and controller id aliases. Resolution and {@link FeatureOptions.exists} read an id as every id aliased together with it, so options configured
+   * under a replaced device's old id, or under a friendly name, apply to the device the alias names.
+   *
+   * @param aliases       - The alias map. See {@link FeatureOptionAliases}.
+   *
+   * @throws When an alias chain leads back to an id already on it. See {@link buildAliasIndex}.
+   */
+  public set aliases(aliases: FeatureOptionAliases | null | undefined) {
+
+    // The alias index is built before anything is assigned, so a map that fails to build leaves the instance resolving exactly as it did.
+    const aliasIndex = (aliases && Object.keys(aliases).length) ? buildAliasIndex(aliases) : undefined;
+
+    this.#aliases = aliases ?? {};
+    this.#aliasIndex = aliasIndex;
+
+    // Aliases change what resolution reads without touching the configured options, so the lookup index stands and only watchers need to hear about it.
+    this.#notify();
+  }
+
+  /**
+   * Return the device capabilities. See {@link FeatureOptionCapabilities}.
+   *
+   * @returns Returns the capability map, as it was set.
+   */
+  public get capabilities(): FeatureOptionCapabilities {
+
+    return this.#capabilities;
+  }
+
+  /**
+   * Set the device capabilities. Resolution at a device reads its capabilities here, so an option whose {@link FeatureOptionEntry.requires} the device does not
+   * meet resolves to its default there, whatever is configured for it.
+   *
+   * @param capabilities  - The capability map, keyed by device id. See {@link FeatureOptionCapabilities}.
+   */
+  public set capabilities(capabilities: FeatureOptionCapabilities | null | undefined) {
+
+    this.#capabilities = capabilities ?? {};
+    this.#capabilityIndex = new Map(Object.entries(this.#capabilities).map(([ id, names ]) => [ id.toLowerCase(), names ]));
+
+    // Capabilities, like aliases, change what resolution reads without touching the configured options.
+    this.#notify();
+  }
+
   /**
    * Return the list of available feature option categories.
    *
@@ -1653,8 +4814,19 @@ export class FeatureOptions {
     // The catalog derivation depends on categories, and the value-options registry (rebuilt by the catalog pass) feeds the index parser, so both stages must run
     // in order. The class assembles a new catalog from the new categories + current options, then a new config index from the new catalog + current configured
     // options.
-    this.#catalog = buildCatalogIndex(category, this.#catalog.options);
-    this.#configIndex = buildConfigIndex(this.#catalog, this.#configuredOptions);
+    this.#catalog = buildCatalogIndex(category, this.#catalog.options, this.#catalog.settings);
+    this.#reindex();
+  }
+
+  /**
+   * Return the catalog index the instance resolves against, for callers that drive the pure functional core alongside the class - normalizing an array before it
+   * is assigned to {@link configuredOptions}, say, or linting one that has not been.
+   *
+   * @returns Returns the current catalog index.
+   */
+  public get catalog(): CatalogIndex {
+
+    return this.#catalog;
   }
 
   /**
@@ -1677,7 +4849,7 @@ export class FeatureOptions {
     this.#configuredOptions = options ?? [];
 
     // The catalog-derived state is unchanged across config mutations; only the lookup index needs rebuilding.
-    this.#configIndex = buildConfigIndex(this.#catalog, this.#configuredOptions);
+    this.#reindex();
   }
 
   /**
@@ -1703,6 +4875,18 @@ export class FeatureOptions {
     return this.#catalog.groups as Record<string, string[]>;
   }
 
+  /**
+   * Return the catalog migrations that apply to the configured options. Resolution already reads the configured options through them, so every query answers as
+   * though the migrated array were configured; this is the account a plugin logs at startup so the user knows their configuration is due an update, and
+   * {@link migrateConfiguredOptions} produces the array to persist. Empty once the configured options are current, which every save leaves them.
+   *
+   * @returns Returns one record per migration step applied, in configured-options order.
+   */
+  public get migrations(): readonly FeatureOptionMigrationRecord[] {
+
+    return this.#migrations;
+  }
+
   /**
    * Return the list of available feature options.
    *
@@ -1724,7 +4908,126 @@ export class FeatureOptions {
 
     // The catalog derivation depends on the option definitions, and the index parser consults the resulting value-options registry, so both stages must run in
     // order. The class assembles a new catalog from the current categories + new options, then a new config index from the new catalog + current configured options.
-    this.#catalog = buildCatalogIndex(this.#catalog.categories, options ?? {});
-    this.#configIndex = buildConfigIndex(this.#catalog, this.#configuredOptions);
+    this.#catalog = buildCatalogIndex(this.#catalog.categories, options ?? {}, this.#catalog.settings);
+    this.#reindex();
+  }
+
+  /**
+   * Return the override entries, which outrank every configured scope. See {@link parseOptionOverrides}.
+   *
+   * @returns Returns the override entries, as they were set.
+   */
+  public get overrides(): string[] {
+
+    return this.#overrides;
+  }
+
+  /**
+   * Set the override entries. They resolve ahead of the configured options and report the scope `"override"`, but are kept apart from them, so
+   * {@link FeatureOptions.configuredOptions} - and anything a plugin saves from it - never carries an override.
+   *
+   * @param overrides     - Array of override entries, in the configured-options grammar.
+   */
+  public set overrides(overrides: string[] | null | undefined) {
+
+    this.#overrides = overrides ?? [];
+    this.#reindex();
+  }
+
+  // Rebuild the lookup index over the configured options, read through the catalog's migration history so an entry written against an option's former name
+  // resolves as its author meant it. The configured array itself is left exactly as the caller supplied it - rewriting it is a save's job, not a read's.
+  #reindex(): void {
+
+    const { applied, configuredOptions } = migrateConfiguredOptions(this.#catalog, this.#configuredOptions);
+
+    // The override layer is read through the same history. An instance without overrides holds no index at all, so resolution walks no override levels.
+    const overrides = migrateConfiguredOptions(this.#catalog, this.#overrides).configuredOptions;
+
+    this.#migrations = applied;
+    this.#configIndex = buildConfigIndex(this.#catalog, configuredOptions);
+    this.#overrideIndex = overrides.length ? buildConfigIndex(this.#catalog, overrides) : undefined;
+
+    this.#notify();
+  }
+
+  // Resolve an option at an address through the override layer and the configured options.
+  #resolve(option: string, device?: string, controller?: string): ResolvedOptionEntry {
+
+    return resolveScope({ aliasIndex: this.#aliasIndex, capabilities: this.#capabilitiesOf(device), catalog: this.#catalog, configIndex: this.#configIndex,
+      controller, defaultReturnValue: this.defaultReturnValue, device, option, overrideIndex: this.#overrideIndex });
+  }
+
+  // Look up the capabilities set for a device, under its own id or any id aliased together with it. Undefined - no device, or one the plugin never described -
+  // is the unknown that supports every option.
+  #capabilitiesOf(device?: string): readonly string[] | undefined {
+
+    if(device === undefined) {
+
+      return undefined;
+    }
+
+    for(const id of aliasedIds(this.#aliasIndex, device)) {
+
+      const capabilities = this.#capabilityIndex.get(id.toLowerCase());
+
+      if(capabilities) {
+
+        return capabilities;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Tell each watcher whose option's effective state changed. Each watcher is diffed against the snapshot it last saw, so a watcher that a listener added mid-pass
+  // is handled on the state it actually observed, while one that a listener removed mid-pass does not fire at all. The snapshot advances even when nothing
+  // effective changed, so a later diff measures from where resolution currently stands.
+  #notify(): void {
+
+    const errors: unknown[] = [];
+
+    for(const watcher of [...this.#watchers]) {
+
+      // The pass walks a copy so a listener that adds a watcher does not extend it, but a watcher an earlier listener removed has ended its subscription and must not
+      // fire.
+      if(!this.#watchers.has(watcher)) {
+
+        continue;
+      }
+
+      const previous = watcher.last;
+      const current = this.#snapshot(watcher.option, watcher.device, watcher.controller);
+
+      watcher.last = current;
+
+      if((current.enabled === previous.enabled) && (current.value === previous.value)) {
+
+        continue;
+      }
+
+      try {
+
+        watcher.listener(current, previous);
+      } catch(error) {
+
+        errors.push(error);
+      }
+    }
+
+    if(errors.length === 1) {
+
+      throw errors[0];
+    }
+
+    if(errors.length) {
+
+      throw new AggregateError(errors, "FeatureOptions: " + errors.length.toString() + " change listeners threw.");
+    }
+  }
+
+  // The effective state of an option at an address, in the shape watchers receive it.
+  #snapshot(option: string, device?: string, controller?: string): FeatureOptionSnapshot {
+
+    return { enabled: this.test(option, device, controller), scope: this.scope(option, device, controller), value: this.value(option, device, controller) };
   }
 }
@@ -11,8 +11,13 @@
  * imports of any kind, so shipping it alongside `featureOptions.js` is safe in any runtime that can execute ES2024+ JavaScript.
  *
  * **Precision policy.** Whole numbers render without a trailing decimal place ("5" not "5.0"); fractional numbers render to one decimal place. Centralizing the
- * precision policy in `formatMagnitude` means tightening it later - more precision, a thousands separator, locale-aware formatting - is a single-line change
- * rather than a sweep across every format helper.
+ * precision policy in `formatMagnitude` means tightening it later - more precision, a thousands separator - is a single-line change rather than a sweep across
+ * every format helper.
+ *
+ * **Locales.** Every formatter takes an optional BCP 47 locale. A locale the runtime can format renders through `Intl.NumberFormat`, so the decimal separator and
+ * the unit label are the locale's own ("2,5 Mb/s", "1,5 Std."), under the same precision policy. English is the fallback: an absent locale, one the runtime cannot
+ * format, and any English locale all render the labels this module has always written ("2.5 Mbps", "1.5 hr"), so a caller that starts passing the browser's
+ * language changes nothing for an English reader.
  *
  * **Consumers.** `util.ts` re-exports these for the server-side surface; `featureOptions.ts` imports directly from here to keep its browser-runnable dependency
  * graph free of `util.ts`. Both consumers share one implementation - the file is the join point.
@@ -39,10 +44,47 @@ function formatMagnitude(value: number): string {
   return ((value % 1) === 0 ? value.toFixed(0) : value.toFixed(1));
 }
 
+// The locale a formatter renders under, or undefined for the English fallback. A malformed tag throws in Intl rather than falling back, so it is caught here and
+// read as English along with a locale the runtime has no data for. An English locale falls back too, since Intl's English labels ("kb/s", "sec") are not this
+// module's.
+function formattingLocale(locale: string | undefined): string | undefined {
+
+  if(!locale) {
+
+    return undefined;
+  }
+
+  try {
+
+    return (Intl.NumberFormat.supportedLocalesOf(locale).length && (new Intl.Locale(locale).language !== "en")) ? locale : undefined;
+  } catch {
+
+    return undefined;
+  }
+}
+
+// Render a value with its unit. The English fallback is the module's own form: the number, then the label, which carries its own leading space where it takes one.
+// A locale renders both through Intl, with the unit named in Intl's unit vocabulary. An exact value - the bottom rung of a ladder, which the formatters print as
+// given rather than under the precision policy - keeps every fraction digit it has.
+function formatUnit({ exact = false, label, locale, unit, value }: { exact?: boolean; label: string; locale?: string; unit: string; value: number }): string {
+
+  const tag = formattingLocale(locale);
+
+  if(!tag) {
+
+    return (exact ? value.toString() : formatMagnitude(value)) + label;
+  }
+
+  const digits = exact ? { maximumFractionDigits: 20 } : { maximumFractionDigits: 1, minimumFractionDigits: ((value % 1) === 0) ? 0 : 1 };
+
+  return new Intl.NumberFormat(tag, { ...digits, style: "unit", unit, unitDisplay: "short", useGrouping: false }).format(value);
+}
+
 /**
  * Format a bitrate value into a human-readable form as bps, kbps, or Mbps.
  *
  * @param value           - The bitrate value to convert, in bits per second.
+ * @param locale          - Optional. The BCP 47 locale to render in. Defaults to English.
  *
  * @returns Returns the value as a human-readable string.
  *
@@ -55,23 +97,24 @@ function formatMagnitude(value: number): string {
  * formatBps(2560);       // "2.6 kbps".
  * formatBps(1000000);    // "1 Mbps".
  * formatBps(2560000);    // "2.6 Mbps".
+ * formatBps(2560000, "de");    // "2,6 Mb/s".
  * ```
  *
  * @category Utilities
  */
-export function formatBps(value: number): string {
+export function formatBps(value: number, locale?: string): string {
 
   if(value < 1000) {
 
-    return value.toString() + " bps";
+    return formatUnit({ exact: true, label: " bps", locale, unit: "bit-per-second", value });
   }
 
   if(value < 1000000) {
 
-    return formatMagnitude(value / 1000) + " kbps";
+    return formatUnit({ label: " kbps", locale, unit: "kilobit-per-second", value: value / 1000 });
   }
 
-  return formatMagnitude(value / 1000000) + " Mbps";
+  return formatUnit({ label: " Mbps", locale, unit: "megabit-per-second", value: value / 1000000 });
 }
 
 /**
@@ -79,6 +122,7 @@ export function formatBps(value: number): string {
  * displaying file and buffer sizes.
  *
  * @param value           - The byte count to convert.
+ * @param locale          - Optional. The BCP 47 locale to render in. Defaults to English.
  *
  * @returns Returns the value as a human-readable string.
  *
@@ -96,29 +140,29 @@ export function formatBps(value: number): string {
  *
  * @category Utilities
  */
-export function formatBytes(value: number): string {
+export function formatBytes(value: number, locale?: string): string {
 
   if(value < BYTES_PER_KB) {
 
-    return value.toString() + " bytes";
+    return formatUnit({ exact: true, label: " bytes", locale, unit: "byte", value });
   }
 
   if(value < BYTES_PER_MB) {
 
-    return formatMagnitude(value / BYTES_PER_KB) + " KB";
+    return formatUnit({ label: " KB", locale, unit: "kilobyte", value: value / BYTES_PER_KB });
   }
 
   if(value < BYTES_PER_GB) {
 
-    return formatMagnitude(value / BYTES_PER_MB) + " MB";
+    return formatUnit({ label: " MB", locale, unit: "megabyte", value: value / BYTES_PER_MB });
   }
 
   if(value < BYTES_PER_TB) {
 
-    return formatMagnitude(value / BYTES_PER_GB) + " GB";
+    return formatUnit({ label: " GB", locale, unit: "gigabyte", value: value / BYTES_PER_GB });
   }
 
-  return formatMagnitude(value / BYTES_PER_TB) + " TB";
+  return formatUnit({ label: " TB", locale, unit: "terabyte", value: value / BYTES_PER_TB });
 }
 
 /**
@@ -126,6 +170,7 @@ export function formatBytes(value: number): string {
  * values stay in milliseconds for precision, longer durations promote to seconds, minutes, and hours.
  *
  * @param value           - The duration to convert, in milliseconds.
+ * @param locale          - Optional. The BCP 47 locale to render in. Defaults to English.
  *
  * @returns Returns the value as a human-readable string.
  *
@@ -141,24 +186,24 @@ export function formatBytes(value: number): string {
  *
  * @category Utilities
  */
-export function formatMs(value: number): string {
+export function formatMs(value: number, locale?: string): string {
 
   if(value < MS_PER_SECOND) {
 
-    return value.toString() + " ms";
+    return formatUnit({ exact: true, label: " ms", locale, unit: "millisecond", value });
   }
 
   if(value < MS_PER_MINUTE) {
 
-    return formatMagnitude(value / MS_PER_SECOND) + " s";
+    return formatUnit({ label: " s", locale, unit: "second", value: value / MS_PER_SECOND });
   }
 
   if(value < MS_PER_HOUR) {
 
-    return formatMagnitude(value / MS_PER_MINUTE) + " min";
+    return formatUnit({ label: " min", locale, unit: "minute", value: value / MS_PER_MINUTE });
   }
 
-  return formatMagnitude(value / MS_PER_HOUR) + " hr";
+  return formatUnit({ label: " hr", locale, unit: "hour", value: value / MS_PER_HOUR });
 }
 
 /**
@@ -166,6 +211,7 @@ export function formatMs(value: number): string {
  * via the shared internal helper: whole numbers render without a trailing decimal, fractional numbers render to one decimal place.
  *
  * @param value           - The percentage value to convert. Treated as already-scaled into percent units (50 means 50%, not 0.5).
+ * @param locale          - Optional. The BCP 47 locale to render in. Defaults to English.
  *
  * @returns Returns the value as a human-readable string ending in `%`.
  *
@@ -180,9 +226,9 @@ export function formatMs(value: number): string {
  *
  * @category Utilities
  */
-export function formatPercent(value: number): string {
+export function formatPercent(value: number, locale?: string): string {
 
-  return formatMagnitude(value) + "%";
+  return formatUnit({ label: "%", locale, unit: "percent", value });
 }
 
 /**
@@ -190,6 +236,7 @@ export function formatPercent(value: number): string {
  * in seconds rather than milliseconds.
  *
  * @param value           - The duration to convert, in seconds.
+ * @param locale          - Optional. The BCP 47 locale to render in. Defaults to English.
  *
  * @returns Returns the value as a human-readable string.
  *
@@ -200,21 +247,22 @@ export function formatPercent(value: number): string {
  * formatSeconds(90);          // "1.5 min".
  * formatSeconds(1800);        // "30 min".
  * formatSeconds(5400);        // "1.5 hr".
+ * formatSeconds(5400, "fr");  // "1,5 h".
  * ```
  *
  * @category Utilities
  */
-export function formatSeconds(value: number): string {
+export function formatSeconds(value: number, locale?: string): string {
 
   if(value < 60) {
 
-    return value.toString() + " s";
+    return formatUnit({ exact: true, label: " s", locale, unit: "second", value });
   }
 
   if(value < 3600) {
 
-    return formatMagnitude(value / 60) + " min";
+    return formatUnit({ label: " min", locale, unit: "minute", value: value / 60 });
   }
 
-  return formatMagnitude(value / 3600) + " hr";
+  return formatUnit({ label: " hr", locale, unit: "hour", value: value / 3600 });
 }
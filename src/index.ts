@@ -8,8 +8,12 @@ export * from "./clock.ts";
 export * from "./docChrome.ts";
 export * from "./featureOptions.ts";
 export * from "./featureOptions-docs.ts";
+export * from "./featureOptions-reload.ts";
+export * from "./featureOptions-search.ts";
 export * from "./homebridge-enums.ts";
 export * from "./mqttClient.ts";
+export * from "./mqttDiscovery.ts";
+export * from "./mqttQueue.ts";
 export * from "./rate-budget.ts";
 export * from "./service.ts";
 export * from "./timer-registry.ts";
@@ -8,18 +8,29 @@
  * the FFmpeg integration suite that auto-enables when an FFmpeg binary is on PATH.
  */
 import { HbpuAbortError, isHbpuAbortReason } from "./util.ts";
-import { MqttClient, createMqttClient, logGetterPublishOutcome, mqttFeatureOptions, redactBrokerUrl, redactKnownBrokerUrl, routeMqttBrokerError } from "./mqttClient.ts";
+import type { MqttAvailability, MqttPublishOptions, MqttTopicParams } from "./mqttClient.ts";
+import { MqttClient, createMqttClient, logGetterPublishOutcome, matchMqttTopic, mqttFeatureOptions, redactBrokerUrl, redactKnownBrokerUrl,
+  resolveMqttPublishOptions, routeMqttBrokerError } from "./mqttClient.ts";
 import { awaitConnect, logContains, recordClientPublishes, recordSubscribes, recordWireUnsubscribes, startTestBroker, waitForLog } from "./mqtt.helpers.ts";
 import { capturingLog, silentLog } from "./testing.helpers.ts";
 import { describe, test } from "node:test";
+import { generate, parser } from "mqtt-packet";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { BackpressureOverflowError } from "./backpressure.ts";
 import type { CapturingLog } from "./testing.helpers.ts";
 import type { FeatureOptionEntry } from "./featureOptions.ts";
 import { FeatureOptions } from "./featureOptions.ts";
+import type { MqttQueueConfig } from "./mqttQueue.ts";
+import type { Packet } from "mqtt-packet";
+import type { Socket } from "node:net";
+import type { TestBroker } from "./mqtt.helpers.ts";
 import assert from "node:assert/strict";
 import { createServer } from "node:net";
 import { setTimeout as delay } from "node:timers/promises";
 import { format } from "node:util";
+import { join } from "node:path";
 import { once } from "node:events";
+import { tmpdir } from "node:os";
 
 // Render the first entry of `log` as a single interpolated string by feeding `(message, ...params)` through `node:util.format`, matching how a real logger would
 // print the entry. Asserts that at least one entry exists so a regression that silently swallows the log call fails loudly here rather than producing a misleading
@@ -47,8 +58,12 @@ const UNREACHABLE_BROKER = "mqtt://127.0.0.1:1";
 // that exercise the wire pass `brokerUrl: broker.url` from a per-test {@link startTestBroker} handle.
 interface ClientOverrides {
 
+  availability?: MqttAvailability;
   brokerUrl?: string;
   log?: CapturingLog;
+  protocolVersion?: 4 | 5;
+  publishDefaults?: MqttPublishOptions;
+  queue?: MqttQueueConfig;
   reconnectInterval?: number;
   signal?: AbortSignal;
 }
@@ -57,8 +72,12 @@ function makeClient(overrides: ClientOverrides = {}): MqttClient {
 
   return new MqttClient({
 
+    availability: overrides.availability,
     brokerUrl: overrides.brokerUrl ?? UNREACHABLE_BROKER,
     log: overrides.log ?? silentLog(),
+    protocolVersion: overrides.protocolVersion,
+    publishDefaults: overrides.publishDefaults,
+    queue: overrides.queue,
     reconnectInterval: overrides.reconnectInterval ?? 0,
     topicPrefix: "test"
   }, {
@@ -88,6 +107,146 @@ async function startResetServer(): Promise<{ url: string } & AsyncDisposable> {
   };
 }
 
+// Start a stand-in MQTT 5 broker that refuses every QoS 1 publish to `refused` with a "Not authorized" PUBACK, acknowledges everything else, and records the topic
+// of each publish it receives. aedes speaks MQTT 3.1.1 only, where a broker cannot refuse a publish short of dropping the connection; MQTT 5 refuses one through the
+// PUBACK's reason code and stays connected, which is the case a queued publish must not be able to stall the client with.
+async function startRefusingBroker(refused: string): Promise<{ topics: string[]; url: string } & AsyncDisposable> {
+
+  const sockets = new Set<Socket>();
+  const topics: string[] = [];
+  const server = createServer((socket) => {
+
+    const incoming = parser({ protocolVersion: 5 });
+    const send = (packet: Packet): boolean => socket.write(generate(packet, { protocolVersion: 5 }));
+
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("data", (chunk: Buffer) => incoming.parse(chunk));
+
+    incoming.on("packet", (packet) => {
+
+      if(packet.cmd === "connect") {
+
+        send({ cmd: "connack", reasonCode: 0, sessionPresent: false });
+      }
+
+      if(packet.cmd === "pingreq") {
+
+        send({ cmd: "pingresp" });
+      }
+
+      if(packet.cmd === "publish") {
+
+        topics.push(packet.topic);
+
+        if(packet.qos === 1) {
+
+          send({ cmd: "puback", messageId: packet.messageId, reasonCode: (packet.topic === refused) ? 0x87 : 0 });
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+
+  const port = (server.address() as { port: number }).port;
+
+  return {
+
+    topics,
+    url: "mqtt://127.0.0.1:" + port.toString(),
+    [Symbol.asyncDispose]: async (): Promise<void> => new Promise((resolve, reject) => {
+
+      sockets.forEach((socket) => socket.destroy());
+      server.close((error) => error ? reject(error) : resolve());
+    })
+  };
+}
+
+// Start a stand-in MQTT 5 broker that sends a copy of each message it delivers for every subscription the message matches, each copy tagged with the identifier of its
+// own subscription - what MQTT 5 permits a broker to do with overlapping subscriptions, and what mosquitto does. aedes sends a single copy however many of a client's
+// subscriptions match.
+async function startCopyingBroker(): Promise<{ deliver: (topic: string, payload: string) => void; filters: Map<string, number>; url: string } & AsyncDisposable> {
+
+  const filters = new Map<string, number>();
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+
+    const incoming = parser({ protocolVersion: 5 });
+    const send = (packet: Packet): boolean => socket.write(generate(packet, { protocolVersion: 5 }));
+
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("data", (chunk: Buffer) => incoming.parse(chunk));
+
+    incoming.on("packet", (packet) => {
+
+      if(packet.cmd === "connect") {
+
+        send({ cmd: "connack", reasonCode: 0, sessionPresent: false });
+      }
+
+      if(packet.cmd === "pingreq") {
+
+        send({ cmd: "pingresp" });
+      }
+
+      if(packet.cmd === "subscribe") {
+
+        for(const { topic } of packet.subscriptions) {
+
+          filters.set(topic, Number(packet.properties?.subscriptionIdentifier));
+        }
+
+        send({ cmd: "suback", granted: packet.subscriptions.map(() => 0), messageId: packet.messageId });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+
+  const port = (server.address() as { port: number }).port;
+
+  return {
+
+    deliver: (topic: string, payload: string): void => {
+
+      for(const [ filter, id ] of filters) {
+
+        if(matchMqttTopic(filter, topic)) {
+
+          sockets.forEach((socket) => socket.write(generate({ cmd: "publish", dup: false, payload, properties: { subscriptionIdentifier: id }, qos: 0, retain: false,
+            topic }, { protocolVersion: 5 })));
+        }
+      }
+    },
+    filters,
+    url: "mqtt://127.0.0.1:" + port.toString(),
+    [Symbol.asyncDispose]: async (): Promise<void> => new Promise((resolve, reject) => {
+
+      sockets.forEach((socket) => socket.destroy());
+      server.close((error) => error ? reject(error) : resolve());
+    })
+  };
+}
+
+// Record the delivery flags and payload of every client-originated publish the broker sees. The shared {@link recordClientPublishes} keeps only topic and payload,
+// which is all most suites assert on; the QoS, retain, and availability suites are about the flags.
+function recordFlags(broker: TestBroker): { payload: string; qos: number; retain: boolean; topic: string }[] {
+
+  const flags: { payload: string; qos: number; retain: boolean; topic: string }[] = [];
+
+  broker.aedes.on("publish", (packet, aedesClient) => {
+
+    if(aedesClient) {
+
+      flags.push({ payload: (packet.payload as Buffer).toString(), qos: packet.qos, retain: packet.retain, topic: packet.topic });
+    }
+  });
+
+  return flags;
+}
+
 describe("MqttClient - construction", () => {
 
   test("is not aborted on construction", async () => {
@@ -242,6 +401,551 @@ describe("MqttClient - publish signal composition", () => {
   });
 });
 
+describe("MqttClient - publish QoS and retain (real broker)", () => {
+
+  test("publishes with the client's defaults, and a publish's own options override them field by field", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url, publishDefaults: { qos: 1, retain: true } });
+
+    await awaitConnect(broker);
+    await client.publish("device1/state", "on");
+    await client.publish("device1/event", "motion", { retain: false });
+
+    assert.deepEqual(flags, [ { payload: "on", qos: 1, retain: true, topic: "test/device1/state" }, { payload: "motion", qos: 1, retain: false,
+      topic: "test/device1/event" } ]);
+  });
+
+  test("publishes an unprefixed topic as given", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+    await client.publish("homeassistant/switch/light/config", "{}", { prefixed: false, qos: 1 });
+
+    assert.deepEqual(flags.map(({ topic }) => topic), ["homeassistant/switch/light/config"]);
+  });
+
+  test("a retained publish reaches a subscriber that arrives after it", async () => {
+
+    await using broker = await startTestBroker();
+    await using publisher = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+    await publisher.publish("device1/state", "on", { qos: 1, retain: true });
+
+    await using subscriber = makeClient({ brokerUrl: broker.url });
+    const received: PromiseWithResolvers<string> = Promise.withResolvers();
+
+    await awaitConnect(broker);
+    subscriber.subscribe("device1/state", (payload) => received.resolve(payload.toString()));
+
+    assert.equal(await received.promise, "on", "the broker must deliver the retained state on subscribe");
+  });
+
+  test("a QoS 1 publish resolves only once the broker acknowledges it, while a QoS 0 publish does not wait", async () => {
+
+    // Holding aedes's authorization callback holds the broker's PUBACK with it, which is what separates the two levels: mqtt.js completes a QoS 0 publish once it is
+    // written, and a QoS 1 publish only on the PUBACK.
+    await using broker = await startTestBroker();
+    const held: (() => void)[] = [];
+
+    broker.aedes.authorizePublish = (_client, _packet, callback): void => {
+
+      held.push(() => callback(null));
+    };
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+    await client.publish("device1/event", "motion");
+
+    let acknowledged = false;
+    const pending = client.publish("device1/state", "on", { qos: 1 }).then(() => acknowledged = true);
+
+    await delay(SETTLE_MS);
+
+    assert.equal(acknowledged, false, "a QoS 1 publish must not resolve before the PUBACK");
+
+    held.forEach((release) => release());
+    await pending;
+
+    assert.equal(acknowledged, true);
+  });
+
+  test("subscribeGet publishes its reply with the reply options", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+    const publishes = recordClientPublishes(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    const subscribeRoundTrip = once(broker.aedes, "subscribe");
+
+    client.subscribeGet("device1/switch", "Switch", () => "on", { reply: { qos: 1, retain: true } });
+
+    await subscribeRoundTrip;
+
+    broker.aedes.publish({ cmd: "publish", dup: false, payload: Buffer.from("true"), qos: 0, retain: false, topic: "test/device1/switch/get" }, () => { /* ack */ });
+
+    await publishes.awaitFirst;
+
+    assert.deepEqual(flags, [{ payload: "on", qos: 1, retain: true, topic: "test/device1/switch" }]);
+  });
+});
+
+describe("MqttClient - availability (real broker)", () => {
+
+  // Resolve once a subscriber arriving now would read `payload` as the retained availability - the way Home Assistant reads it after a restart.
+  const readRetained = async (broker: TestBroker): Promise<string> => {
+
+    await using reader = makeClient({ brokerUrl: broker.url });
+    const received: PromiseWithResolvers<string> = Promise.withResolvers();
+
+    reader.subscribe("availability", (payload) => received.resolve(payload.toString()));
+
+    return await received.promise;
+  };
+
+  test("registers a retained offline will under the topic prefix when it connects", async () => {
+
+    await using broker = await startTestBroker();
+    const wills: unknown[] = [];
+
+    broker.aedes.preConnect = (_client, packet, callback): void => {
+
+      wills.push(packet.will && { ...packet.will, payload: packet.will.payload.toString() });
+      callback(null, true);
+    };
+
+    await using _client = makeClient({ availability: { topic: "availability" }, brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    assert.deepEqual(wills, [{ payload: "offline", qos: 1, retain: true, topic: "test/availability" }]);
+  });
+
+  test("announces the plugin online, retained, when it connects", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+    const publishes = recordClientPublishes(broker);
+
+    await using _client = makeClient({ availability: { onlinePayload: "up", qos: 0, topic: "availability" }, brokerUrl: broker.url });
+
+    await publishes.awaitFirst;
+
+    assert.deepEqual(flags, [{ payload: "up", qos: 0, retain: true, topic: "test/availability" }]);
+    assert.equal(await readRetained(broker), "up");
+  });
+
+  test("announces the plugin offline, retained, before an abort closes the connection", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+    const publishes = recordClientPublishes(broker);
+    const client = makeClient({ availability: { topic: "availability" }, brokerUrl: broker.url });
+
+    await publishes.awaitFirst;
+
+    const disconnect = once(broker.aedes, "clientDisconnect");
+
+    client.abort();
+    await disconnect;
+
+    assert.deepEqual(flags.map(({ payload, retain }) => [ payload, retain ]), [ [ "online", true ], [ "offline", true ] ]);
+    assert.equal(await readRetained(broker), "offline");
+  });
+
+  test("leaves the broker to announce the plugin offline when the connection drops", async () => {
+
+    await using broker = await startTestBroker();
+    const dropped: PromiseWithResolvers<void> = Promise.withResolvers();
+
+    // Sever the connection from the broker's side once the online message lands, standing in for a plugin that died without a chance to say goodbye. The broker
+    // answers by publishing the will.
+    broker.aedes.on("publish", (packet, aedesClient) => {
+
+      if(aedesClient && (packet.payload.toString() === "online")) {
+
+        aedesClient.conn.destroy();
+      }
+
+      if((packet.topic === "test/availability") && (packet.payload.toString() === "offline")) {
+
+        dropped.resolve();
+      }
+    });
+
+    await using _client = makeClient({ availability: { topic: "availability" }, brokerUrl: broker.url });
+
+    await dropped.promise;
+
+    assert.equal(await readRetained(broker), "offline");
+  });
+});
+
+describe("MqttClient - offline publish queue (real broker)", () => {
+
+  test("holds publishes while the broker is unreachable, within its limit, and reports how deep it runs", async () => {
+
+    await using client = makeClient({ queue: { limit: 2 } });
+    const first = client.publish("device1/state", "on");
+    const rest = [ client.publish("device1/state", "off"), client.publish("device1/event", "motion") ];
+
+    await assert.rejects(first, BackpressureOverflowError);
+    assert.deepEqual(client.queueMetrics, { depth: 2, dropped: 1, failed: 0, peakDepth: 2, rejected: 0, superseded: 0 });
+    assert.equal(makeClient().queueMetrics, null, "a client without a queue has no metrics to report");
+
+    client.abort();
+
+    for(const publish of rest) {
+
+      // eslint-disable-next-line no-await-in-loop
+      await assert.rejects(publish, (error) => isHbpuAbortReason(error, "shutdown"));
+    }
+  });
+
+  test("a full queue under reject-new refuses the publish", async () => {
+
+    await using client = makeClient({ queue: { limit: 1, policy: "reject-new" } });
+    const held = client.publish("device1/state", "on");
+
+    await assert.rejects(client.publish("device1/state", "off"), BackpressureOverflowError);
+    assert.equal(client.queueMetrics?.rejected, 1);
+
+    client.abort();
+    await assert.rejects(held);
+  });
+
+  test("a publish whose own signal aborts leaves the queue, and disposing the client leaves the queue's file current", async () => {
+
+    const directory = await mkdtemp(join(tmpdir(), "hbpu-mqtt-queue-"));
+
+    try {
+
+      const path = join(directory, "queue.json");
+      const client = makeClient({ queue: { limit: 10, path } });
+      const controller = new AbortController();
+      const withdrawn = client.publish("device1/event", "motion", { signal: controller.signal });
+      const held = client.publish("device1/state", "on", { qos: 1 });
+
+      controller.abort();
+
+      await assert.rejects(withdrawn, { name: "AbortError" });
+      assert.equal(client.queueMetrics?.depth, 1);
+
+      const shutdown = assert.rejects(held, (error) => isHbpuAbortReason(error, "shutdown"));
+
+      await client[Symbol.asyncDispose]();
+      await shutdown;
+
+      assert.deepEqual(JSON.parse(await readFile(path, "utf8")), [{ options: { qos: 1, retain: false }, payload: Buffer.from("on").toString("base64"),
+        topic: "test/device1/state" }], "an abort of the client keeps what the queue holds for the next start");
+    } finally {
+
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  test("a queued publish the broker refuses gives way after its attempts, and the publishes after it still go out", async () => {
+
+    await using broker = await startRefusingBroker("test/device1/locked");
+    await using client = makeClient({ brokerUrl: broker.url, protocolVersion: 5, queue: { limit: 10 } });
+
+    await assert.rejects(client.publish("device1/locked", "on", { qos: 1 }), /Not authorized/);
+    await client.publish("device1/state", "on", { qos: 1 });
+
+    while(client.queueMetrics?.failed !== 1) {
+
+      // eslint-disable-next-line no-await-in-loop
+      await delay(5);
+    }
+
+    assert.deepEqual(broker.topics.filter((topic) => topic === "test/device1/locked").length, 3, "the refused publish is attempted three times in all");
+    assert.ok(broker.topics.includes("test/device1/state"));
+    assert.equal(client.queueMetrics.depth, 0);
+  });
+
+  test("sends the queued publishes, in order, once the broker accepts the connection", async () => {
+
+    await using broker = await startTestBroker();
+    const flags = recordFlags(broker);
+    let accepting = false;
+
+    // Refuse connections until the publishes are queued, standing in for a broker that is down.
+    broker.aedes.preConnect = (_client, _packet, callback): void => callback(null, accepting);
+
+    await using client = makeClient({ brokerUrl: broker.url, queue: { limit: 10, policy: "keep-latest" }, reconnectInterval: 0.05 });
+    const publishes = [ client.publish("device1/state", "off"), client.publish("device1/event", "motion", { qos: 1 }), client.publish("device1/state", "on",
+      { qos: 1, retain: true }) ];
+
+    assert.equal(client.queueMetrics?.depth, 2);
+
+    accepting = true;
+    await Promise.all(publishes);
+
+    assert.deepEqual(flags, [ { payload: "motion", qos: 1, retain: false, topic: "test/device1/event" }, { payload: "on", qos: 1, retain: true,
+      topic: "test/device1/state" } ], "the state publish waits with its latest value, behind the event queued before it");
+    assert.equal(client.queueMetrics.depth, 0);
+  });
+
+  test("sends what an earlier run left in the queue's file when it connects", async () => {
+
+    const directory = await mkdtemp(join(tmpdir(), "hbpu-mqtt-queue-"));
+
+    try {
+
+      const path = join(directory, "queue.json");
+
+      await writeFile(path, JSON.stringify([{ options: { qos: 1, retain: true }, payload: Buffer.from("on").toString("base64"), topic: "test/device1/state" }]));
+
+      await using broker = await startTestBroker();
+      const publishes = recordClientPublishes(broker);
+
+      await using _client = makeClient({ brokerUrl: broker.url, queue: { limit: 10, path } });
+
+      await publishes.awaitFirst;
+
+      assert.deepEqual(publishes.entries, [{ payload: "on", topic: "test/device1/state" }]);
+    } finally {
+
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  test("keeps a queued publish in the queue's file when the client ends before the broker acknowledges it", async () => {
+
+    const directory = await mkdtemp(join(tmpdir(), "hbpu-mqtt-queue-"));
+
+    try {
+
+      const path = join(directory, "queue.json");
+      const stored = JSON.stringify([{ options: { qos: 1, retain: true }, payload: Buffer.from("on").toString("base64"), topic: "test/device1/state" }]);
+
+      await writeFile(path, stored);
+
+      await using broker = await startTestBroker();
+      const received: PromiseWithResolvers<void> = Promise.withResolvers();
+
+      // Never answer a publish, standing in for a broker that goes away before its acknowledgement reaches us.
+      broker.aedes.authorizePublish = (): void => received.resolve();
+
+      const client = makeClient({ brokerUrl: broker.url, queue: { limit: 10, path } });
+
+      await received.promise;
+      await client[Symbol.asyncDispose]();
+      await delay(SETTLE_MS);
+
+      assert.equal(await readFile(path, "utf8"), stored, "the publish is sent again on the next start");
+    } finally {
+
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+});
+
+describe("MqttClient - wildcard subscriptions (real broker)", () => {
+
+  test("subscribes with the wire-level filter and hands each handler the levels its named wildcards matched", async () => {
+
+    await using broker = await startTestBroker();
+    const subscribed = recordSubscribes(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    const received: { params: MqttTopicParams; payload: string; route: string }[] = [];
+    const all: PromiseWithResolvers<void> = Promise.withResolvers();
+    const record = (route: string) => (payload: Buffer, params: MqttTopicParams): void => {
+
+      received.push({ params, payload: payload.toString(), route });
+
+      if(received.length === 3) {
+
+        all.resolve();
+      }
+    };
+
+    const subscribeRoundTrip = once(broker.aedes, "subscribe");
+
+    // Two patterns that differ only in their names share one broker subscription; each still reads its parameters under its own names.
+    client.subscribe("cameras/+id/set", record("id"));
+    client.subscribe("cameras/+camera/set", record("camera"));
+    client.subscribe("cameras/#path", record("path"));
+
+    await subscribeRoundTrip;
+    await delay(SETTLE_MS);
+
+    assert.deepEqual(subscribed, [ "test/cameras/+/set", "test/cameras/#" ]);
+
+    broker.aedes.publish({ cmd: "publish", dup: false, payload: Buffer.from("on"), qos: 0, retain: false, topic: "test/cameras/front/set" }, () => { /* ack */ });
+
+    await all.promise;
+
+    assert.deepEqual(received.sort((a, b) => a.route.localeCompare(b.route)), [
+
+      { params: { camera: "front" }, payload: "on", route: "camera" },
+      { params: { id: "front" }, payload: "on", route: "id" },
+      { params: { path: "front/set" }, payload: "on", route: "path" }
+    ]);
+  });
+
+  test("aborting the last handler on a wildcard filter unsubscribes the filter at the broker", async () => {
+
+    await using broker = await startTestBroker();
+    const unsubscribed = recordWireUnsubscribes(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    const sub = new AbortController();
+    const subscribeRoundTrip = once(broker.aedes, "subscribe");
+
+    client.subscribe("cameras/+id/set", () => { /* handler */ }, { signal: sub.signal });
+
+    await subscribeRoundTrip;
+
+    const unsubscribeRoundTrip = once(broker.aedes, "unsubscribe");
+
+    sub.abort();
+
+    await unsubscribeRoundTrip;
+
+    assert.deepEqual(unsubscribed, ["test/cameras/+/set"]);
+  });
+
+  test("one handler under two patterns that differ only in their names holds two subscriptions, and ending one leaves the other", async () => {
+
+    await using broker = await startTestBroker();
+    const unsubscribed = recordWireUnsubscribes(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    const received: MqttTopicParams[] = [];
+    let delivered: PromiseWithResolvers<void> = Promise.withResolvers();
+    const handler = (_payload: Buffer, params: MqttTopicParams): void => {
+
+      received.push(params);
+      delivered.resolve();
+    };
+
+    const byId = new AbortController();
+    const subscribeRoundTrip = once(broker.aedes, "subscribe");
+
+    client.subscribe("cameras/+id/set", handler, { signal: byId.signal });
+    client.subscribe("cameras/+camera/set", handler);
+
+    await subscribeRoundTrip;
+
+    const inject = async (): Promise<void> => {
+
+      delivered = Promise.withResolvers();
+      broker.aedes.publish({ cmd: "publish", dup: false, payload: Buffer.from("on"), qos: 0, retain: false, topic: "test/cameras/front/set" }, () => { /* ack */ });
+      await delivered.promise;
+      await delay(SETTLE_MS);
+    };
+
+    await inject();
+
+    assert.deepEqual(received.splice(0), [ { id: "front" }, { camera: "front" } ]);
+
+    byId.abort();
+    await inject();
+
+    assert.deepEqual(received, [{ camera: "front" }], "the pattern that was not ended still names its parameters its own way");
+    assert.deepEqual(unsubscribed, [], "the filter still has a subscriber");
+  });
+
+  test("an exact subscription and a wildcard subscription that both match a topic each deliver it once", async () => {
+
+    await using broker = await startTestBroker();
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    const received: string[] = [];
+    const subscribeRoundTrip = once(broker.aedes, "subscribe");
+
+    client.subscribe("cameras/+id/set", () => void received.push("wildcard"));
+    client.subscribe("cameras/front/set", () => void received.push("exact"));
+    client.subscribe("cameras/back/set", () => void received.push("other"));
+
+    await subscribeRoundTrip;
+    await delay(SETTLE_MS);
+
+    broker.aedes.publish({ cmd: "publish", dup: false, payload: Buffer.from("on"), qos: 0, retain: false, topic: "test/cameras/front/set" }, () => { /* ack */ });
+
+    await delay(SETTLE_MS);
+
+    assert.deepEqual(received.sort(), [ "exact", "wildcard" ]);
+  });
+
+  test("over MQTT 5, a broker sending a copy per overlapping subscription reaches each handler once", async () => {
+
+    await using broker = await startCopyingBroker();
+    await using client = makeClient({ brokerUrl: broker.url, protocolVersion: 5 });
+
+    const received: { params: MqttTopicParams; route: string }[] = [];
+    const all: PromiseWithResolvers<void> = Promise.withResolvers();
+    const record = (route: string) => (_payload: Buffer, params: MqttTopicParams): void => {
+
+      received.push({ params, route });
+
+      if(received.length === 3) {
+
+        all.resolve();
+      }
+    };
+
+    client.subscribe("cameras/+id/set", record("id"));
+    client.subscribe("cameras/front/set", record("exact"));
+    client.subscribe("cameras/#path", record("path"));
+
+    while(broker.filters.size < 3) {
+
+      // eslint-disable-next-line no-await-in-loop
+      await delay(5);
+    }
+
+    assert.equal(new Set(broker.filters.values()).size, 3, "each filter carries its own subscription identifier");
+
+    broker.deliver("test/cameras/front/set", "on");
+
+    await all.promise;
+    await delay(SETTLE_MS);
+
+    assert.deepEqual(received.sort((a, b) => a.route.localeCompare(b.route)), [
+
+      { params: {}, route: "exact" },
+      { params: { id: "front" }, route: "id" },
+      { params: { path: "front/set" }, route: "path" }
+    ], "three copies arrive, and each reaches only the handlers of its own subscription");
+  });
+
+  test("rejects a pattern that could not match the way it reads", async () => {
+
+    await using client = makeClient();
+
+    for(const pattern of [ "cameras/a+b/set", "cameras/#/set", "cameras/+id/+id", "cameras/+i#d" ]) {
+
+      assert.throws(() => client.subscribe(pattern, () => { /* handler */ }), /invalid topic pattern/, pattern);
+    }
+  });
+});
+
 describe("MqttClient - subscribe semantics", () => {
 
   test("pre-aborted per-subscription signal is a silent no-op", async () => {
@@ -695,7 +1399,7 @@ describe("MqttClient - subscribeGet", () => {
   test("a successful response publish emits the info-level \"status published\" log entry", async () => {
 
     // Policy: a successful publish emits `log.info("%s status published.", type)`. The dual failure-path assertion on `log.error("failed to publish ...")` is
-    // intentionally not exercised here: HBPU's response publish runs at QoS 0, where mqtt.js's publish callback fires on socket-write completion regardless of
+    // intentionally not exercised here: HBPU's response publish runs at QoS 0 by default, where mqtt.js's publish callback fires on socket-write completion regardless of
     // broker-side processing - so any broker-side rejection (authorizePublish error, post-publish disconnect, etc.) lands AFTER the publish callback has already
     // resolved successfully. The `.catch` branch in subscribeGet's `void this.publish(...).then(info).catch(error)` chain is defensive code covering the rare
     // socket-write-failure case (kernel-level send error, mqtt.js-internal serialization fault); reproducing those against a real broker requires contrived
@@ -832,6 +1536,23 @@ describe("MqttClient - unsubscribe ergonomics", () => {
       "unsubscribe(id, topic) must dispatch the wire-level unsubscribe on the prefixed topic");
   });
 
+  test("unsubscribe(id, topic) of a topic never subscribed is a silent no-op, even one that is not a valid pattern", async () => {
+
+    await using broker = await startTestBroker();
+    const unsubscribed = recordWireUnsubscribes(broker);
+
+    await using client = makeClient({ brokerUrl: broker.url });
+
+    await awaitConnect(broker);
+
+    client.unsubscribe("device1", "motion");
+    client.unsubscribe("device1", "a+b/#/set");
+
+    await delay(SETTLE_MS);
+
+    assert.deepEqual(unsubscribed, [], "the broker never hears about a filter the client did not subscribe to");
+  });
+
   test("unsubscribe after client abort is a silent no-op", async () => {
 
     // After abort, the subscription map has been cleared and the transport has ended. The unsubscribe call must short-circuit rather than try to touch the dead
@@ -1197,6 +1918,25 @@ describe("logGetterPublishOutcome - pure function", () => {
   });
 });
 
+describe("resolveMqttPublishOptions - pure function", () => {
+
+  test("publishes at QoS 0, unretained, with no properties when nothing is set", () => {
+
+    assert.deepEqual(resolveMqttPublishOptions({}), { qos: 0, retain: false });
+  });
+
+  test("layers a publish's own options over the defaults field by field", () => {
+
+    const defaults: MqttPublishOptions = { contentType: "text/plain", messageExpiryInterval: 300, qos: 1, retain: true };
+
+    assert.deepEqual(resolveMqttPublishOptions({}, defaults), { properties: { contentType: "text/plain", messageExpiryInterval: 300 }, qos: 1, retain: true });
+    assert.deepEqual(resolveMqttPublishOptions({ contentType: "application/json", qos: 2, retain: false }, defaults),
+      { properties: { contentType: "application/json", messageExpiryInterval: 300 }, qos: 2, retain: false });
+    assert.deepEqual(resolveMqttPublishOptions({ messageExpiryInterval: 0, qos: 0 }, { qos: 2 }), { properties: { messageExpiryInterval: 0 }, qos: 0, retain: false },
+      "an explicit zero is a value, not an absence");
+  });
+});
+
 describe("MqttClient - connect / close edge flag", () => {
 
   test("close without a prior connect is silent (no disconnect spam during initial retry loop)", async () => {
@@ -1409,6 +2149,27 @@ const REDACTION_FIXTURES: readonly { expected: string; input: string }[] = [
   { expected: "<broker URL redacted>", input: "not-a-valid-url" }
 ];
 
+describe("matchMqttTopic - pure function", () => {
+
+  test("matches literal levels exactly and captures named single-level wildcards", () => {
+
+    assert.deepEqual(matchMqttTopic("cameras/front/set", "cameras/front/set"), {});
+    assert.deepEqual(matchMqttTopic("cameras/+id/set", "cameras/front/set"), { id: "front" });
+    assert.deepEqual(matchMqttTopic("+/+id/set", "cameras/front/set"), { id: "front" }, "an unnamed wildcard matches without capturing");
+    assert.equal(matchMqttTopic("cameras/+id/set", "cameras/front/get"), null);
+    assert.equal(matchMqttTopic("cameras/+id", "cameras/front/set"), null, "a single-level wildcard never spans two levels");
+    assert.equal(matchMqttTopic("cameras/+id/set", "cameras/front"), null);
+  });
+
+  test("a multi-level wildcard matches every remaining level, including none", () => {
+
+    assert.deepEqual(matchMqttTopic("cameras/#path", "cameras/front/motion/set"), { path: "front/motion/set" });
+    assert.deepEqual(matchMqttTopic("cameras/#path", "cameras"), { path: "" });
+    assert.deepEqual(matchMqttTopic("cameras/+id/#", "cameras/front/motion"), { id: "front" });
+    assert.equal(matchMqttTopic("cameras/#path", "doorbells/front"), null);
+  });
+});
+
 describe("redactBrokerUrl / redactKnownBrokerUrl - credential excision", () => {
 
   test("every broker URL shape redacts to its pinned form", () => {
@@ -24,7 +24,9 @@
 import type { FeatureCategoryEntry, FeatureOptionEntry } from "./featureOptions.ts";
 import { HbpuAbortError, composeSignals, formatErrorMessage, markHandled, onAbort, runWithAbort, waitWithSignal } from "./util.ts";
 import type { HomebridgePluginLogging, Nullable } from "./util.ts";
-import type { MqttClient as MqttJsClient } from "mqtt";
+import type { IClientPublishOptions, IPublishPacket, MqttClient as MqttJsClient } from "mqtt";
+import type { MqttQueueConfig, MqttQueueMetrics } from "./mqttQueue.ts";
+import { MqttPublishQueue } from "./mqttQueue.ts";
 import { connect } from "mqtt";
 import util from "node:util";
 
@@ -32,19 +34,30 @@ import util from "node:util";
 // back without hammering it with reconnect attempts, while still recovering well within the timescale a user would notice as "the plugin is broken."
 const MQTT_DEFAULT_RECONNECT_INTERVAL = 60;
 
+// The largest subscription identifier MQTT 5 allows.
+const MQTT_MAX_SUBSCRIPTION_ID = 268435455;
+
 // Module-scope success sentinel for `subscribeSet` handler invocations. `runWithAbort` returns `null` when its composed signal fires, so we use a sentinel to
 // distinguish "user setter ran to completion" from "the invocation was cancelled." Hoisted once at module load rather than allocated per message, and declared as
 // `unique symbol` so the typed comparison below keeps its narrowing precision.
 const SUBSCRIBE_SET_OK: unique symbol = Symbol("mqtt:subscribeSet:ok");
 
+/**
+ * The topic levels a message matched against the named wildcards of a subscription's topic pattern, keyed by wildcard name. See {@link MqttClient.subscribe}.
+ *
+ * @category Utilities
+ */
+export type MqttTopicParams = Readonly<Record<string, string>>;
+
 /**
  * A handler for raw MQTT messages delivered on a subscribed topic.
  *
  * @param payload - The message payload as received from the broker.
+ * @param params  - The topic levels the message matched against the subscription's named wildcards. Empty for a pattern that names none.
  *
  * @category Utilities
  */
-export type MqttHandler = (payload: Buffer) => Promise<void> | void;
+export type MqttHandler = (payload: Buffer, params: MqttTopicParams) => Promise<void> | void;
 
 /**
  * A handler invoked by {@link MqttClient.subscribeGet} when a "true" message arrives on the `/get` topic. Returns the current value as a string that will be published
@@ -149,12 +162,76 @@ export function mqttFeatureOptions({ defaultTopic, scopes = ["global"] }: MqttFe
   };
 }
 
+/**
+ * An MQTT quality-of-service level: `0` delivers at most once, `1` at least once, and `2` exactly once.
+ *
+ * @category Utilities
+ */
+export type MqttQos = 0 | 1 | 2;
+
+/**
+ * How a message is published: its delivery guarantee, whether the broker keeps it, and the MQTT 5 properties it carries. Accepted per publish through
+ * {@link MqttPublishInit}, per `/get` reply through {@link MqttSubscribeGetInit}, and as client-wide defaults through {@link MqttConfig.publishDefaults}.
+ *
+ * `contentType` and `messageExpiryInterval` are MQTT 5 properties. They reach the broker only when the client connects with `protocolVersion: 5`; an MQTT 3.1.1
+ * connection has no field to carry them in and drops them.
+ *
+ * @property contentType           - Optional MQTT 5 content type describing the payload (for example, `"application/json"`).
+ * @property messageExpiryInterval - Optional MQTT 5 lifetime of the message, in seconds. A broker discards a retained or queued message once it expires, so a stale
+ *                                   state never reaches a subscriber that connects too late for it to be true.
+ * @property qos                   - Optional quality-of-service level. See {@link MqttQos}. Defaults to `0`.
+ * @property retain                - Optional. When `true`, the broker keeps the message and delivers it to every later subscriber of the topic, so a dashboard that
+ *                                   connects after a state change still sees the current state. Defaults to `false`.
+ *
+ * @category Utilities
+ */
+export interface MqttPublishOptions {
+
+  contentType?: string;
+  messageExpiryInterval?: number;
+  qos?: MqttQos;
+  retain?: boolean;
+}
+
+/**
+ * How an {@link MqttClient} tells subscribers whether its plugin is online. Every message lands, retained, on one topic under {@link MqttConfig.topicPrefix}, so a
+ * subscriber that connects at any point - Home Assistant, Node-RED, a dashboard - reads the plugin's current availability from it:
+ *
+ *   - On every connect and reconnect, the client publishes the online payload.
+ *   - When the client ends through {@link MqttClient.abort} while connected, it publishes the offline payload before closing the connection.
+ *   - When the connection drops any other way - the process dies, the network fails - the broker publishes the offline payload on the client's behalf, as the Last
+ *     Will the client registered when it connected.
+ *
+ * @property offlinePayload - Optional payload announcing the plugin is offline. Defaults to `"offline"`.
+ * @property onlinePayload  - Optional payload announcing the plugin is online. Defaults to `"online"`.
+ * @property qos            - Optional quality-of-service level of the will and the online message. See {@link MqttQos}. Defaults to `1`. The offline message
+ *                            published on abort always goes at QoS 0, so ending the client never waits on the broker.
+ * @property topic          - The relative topic (tail) the availability messages go to (for example, `"availability"`).
+ *
+ * @category Utilities
+ */
+export interface MqttAvailability {
+
+  offlinePayload?: string;
+  onlinePayload?: string;
+  qos?: MqttQos;
+  topic: string;
+}
+
 /**
  * Static configuration for an {@link MqttClient}. Captures the broker connection parameters and the topic-prefix convention the client applies to every topic it
  * touches.
  *
+ * @property availability      - Optional availability messages - a Last Will, an online message on every connect, and an offline message on abort. See
+ *                               {@link MqttAvailability}.
  * @property brokerUrl         - The MQTT broker URL (for example, `"mqtt://localhost:1883"`).
  * @property log               - Logger used for connection and publish/subscribe tracing.
+ * @property protocolVersion   - Optional MQTT protocol version to connect with: `4` for MQTT 3.1.1 or `5` for MQTT 5. Defaults to `4`. Only an MQTT 5 connection
+ *                               carries the properties in {@link MqttPublishOptions}, and only an MQTT 5 connection tags each subscription with an identifier, so
+ *                               a broker that sends a copy of a message per overlapping subscription still reaches each handler once.
+ * @property publishDefaults   - Optional publish options applied to every publish that does not set its own. See {@link MqttPublishOptions}.
+ * @property queue             - Optional bounded queue that holds publishes made while the broker is unreachable, in place of mqtt.js's unbounded in-memory
+ *                               buffer. See {@link mqttQueue!MqttQueueConfig | MqttQueueConfig}.
  * @property reconnectInterval - Seconds to wait between transient reconnect attempts. Defaults to 60.
  * @property topicPrefix       - Prefix prepended to every topic the client publishes or subscribes to. The caller is responsible for the remaining path structure;
  *                               this class never reinterprets the topic beyond concatenation.
@@ -163,8 +240,12 @@ export function mqttFeatureOptions({ defaultTopic, scopes = ["global"] }: MqttFe
  */
 export interface MqttConfig {
 
+  availability?: MqttAvailability;
   brokerUrl: string;
   log: HomebridgePluginLogging;
+  protocolVersion?: 4 | 5;
+  publishDefaults?: MqttPublishOptions;
+  queue?: MqttQueueConfig;
   reconnectInterval?: number;
   topicPrefix: string;
 }
@@ -347,6 +428,115 @@ export function redactKnownBrokerUrl(text: string, brokerUrl: string): string {
   return text.split(brokerUrl).join(redactBrokerUrl(brokerUrl));
 }
 
+/**
+ * Match a topic against a topic pattern, returning the levels the pattern's named wildcards captured, or `null` when the topic does not match. Pure function: the
+ * dispatch in {@link MqttClient} routes every incoming message through it, and tests cover the matching rules by calling it directly.
+ *
+ * A pattern is an MQTT topic filter whose wildcards may carry a name, route-style: `+` matches exactly one level and `#` matches every remaining level - including
+ * none, so `cameras/#` matches `cameras` too - and `+id` or `#rest` does the same while capturing what it matched as `params.id` or `params.rest`. A `#` capture is
+ * the matched levels joined with `/`, or an empty string when it matched none.
+ *
+ * @param pattern - The topic pattern. Assumed valid; {@link MqttClient.subscribe} validates a pattern before it is ever matched.
+ * @param topic   - The topic of a message.
+ *
+ * @returns The captured levels, keyed by wildcard name, or `null` when `topic` does not match `pattern`.
+ *
+ * @example
+ *
+ * ```ts
+ * matchMqttTopic("cameras/+id/set", "cameras/front/set");      // { id: "front" }
+ * matchMqttTopic("cameras/#path", "cameras/front/motion/set"); // { path: "front/motion/set" }
+ * matchMqttTopic("cameras/+id/set", "cameras/front/get");      // null
+ * ```
+ *
+ * @category Utilities
+ */
+export function matchMqttTopic(pattern: string, topic: string): Nullable<MqttTopicParams> {
+
+  const levels = topic.split("/");
+  const params: Record<string, string> = {};
+  const segments = pattern.split("/");
+
+  for(const [ index, segment ] of segments.entries()) {
+
+    if(segment.startsWith("#")) {
+
+      if(segment.length > 1) {
+
+        params[segment.slice(1)] = levels.slice(index).join("/");
+      }
+
+      return params;
+    }
+
+    const level = levels[index];
+
+    if(level === undefined) {
+
+      return null;
+    }
+
+    if(segment.startsWith("+")) {
+
+      if(segment.length > 1) {
+
+        params[segment.slice(1)] = level;
+      }
+
+      continue;
+    }
+
+    if(segment !== level) {
+
+      return null;
+    }
+  }
+
+  return (levels.length === segments.length) ? params : null;
+}
+
+// Validate a topic pattern and return the MQTT topic filter the broker is subscribed with: the pattern with its wildcard names stripped. A wildcard has to fill a
+// whole level, `#` has to be the last level, and no name may repeat - a pattern breaking any of those could never match the way it reads, so we reject it up front
+// rather than subscribe to something the caller did not mean.
+function toMqttTopicFilter(pattern: string): string {
+
+  const names = new Set<string>();
+  const segments = pattern.split("/");
+
+  for(const [ index, segment ] of segments.entries()) {
+
+    const wildcard = /^[+#]/.test(segment);
+    const name = segment.slice(1);
+
+    if((wildcard && /[+#]/.test(name)) || (!wildcard && /[+#]/.test(segment)) || (segment.startsWith("#") && (index !== (segments.length - 1))) ||
+      (wildcard && name.length && names.has(name))) {
+
+      throw new Error("MqttClient: invalid topic pattern \"" + pattern + "\".");
+    }
+
+    if(wildcard && name.length) {
+
+      names.add(name);
+    }
+  }
+
+  return stripMqttWildcardNames(pattern);
+}
+
+// Strip the names from a topic pattern's wildcards, leaving the MQTT topic filter it reads as, without judging whether the pattern is valid.
+function stripMqttWildcardNames(pattern: string): string {
+
+  return pattern.split("/").map((segment) => /^[+#]/.test(segment) ? segment.charAt(0) : segment).join("/");
+}
+
+// One wire-level subscription: the identifier an MQTT 5 broker tags each delivery for it with, and the handlers subscribed through each pattern that reads as its
+// filter.
+interface MqttSubscription {
+
+  id: number;
+  patterns: Map<string, Set<MqttHandler>>;
+}
+
 /**
  * Per-subscription options accepted by {@link MqttClient.subscribe}, {@link MqttClient.subscribeGet}, and {@link MqttClient.subscribeSet}.
  *
@@ -361,6 +551,20 @@ export interface MqttSubscribeInit {
   signal?: AbortSignal;
 }
 
+/**
+ * Per-subscription options accepted by {@link MqttClient.subscribeGet}.
+ *
+ * @property reply  - Optional publish options for the reply carrying the getter's value, layered over {@link MqttConfig.publishDefaults}. See
+ *                    {@link MqttPublishOptions}.
+ * @property signal - Optional {@link AbortSignal} that auto-unsubscribes this handler. See {@link MqttSubscribeInit}.
+ *
+ * @category Utilities
+ */
+export interface MqttSubscribeGetInit extends MqttSubscribeInit {
+
+  reply?: MqttPublishOptions;
+}
+
 /**
  * Per-subscription options accepted by {@link MqttClient.subscribeSet}.
  *
@@ -378,18 +582,53 @@ export interface MqttSubscribeSetInit {
 }
 
 /**
- * Per-publish options accepted by {@link MqttClient.publish}.
+ * Per-publish options accepted by {@link MqttClient.publish}: the {@link MqttPublishOptions} for this message, each layered over
+ * {@link MqttConfig.publishDefaults}, plus where the topic lives and a signal.
  *
- * @property signal - Optional {@link AbortSignal}. When it aborts before the broker acknowledges the publish, the returned promise rejects with `signal.reason`.
- *                    Composes with the connection-level signal.
+ * @property prefixed - Optional. When `false`, the topic is published as given rather than under {@link MqttConfig.topicPrefix} - for a topic another system owns,
+ *                      such as Home Assistant's discovery topics. Defaults to `true`.
+ * @property signal   - Optional {@link AbortSignal}. When it aborts before the publish completes, the returned promise rejects with `signal.reason`. Composes with
+ *                      the connection-level signal.
  *
  * @category Utilities
  */
-export interface MqttPublishInit {
+export interface MqttPublishInit extends MqttPublishOptions {
 
+  prefixed?: boolean;
   signal?: AbortSignal;
 }
 
+/**
+ * Resolve the options mqtt.js publishes a message with, layering a publish's own {@link MqttPublishOptions} over the client's defaults field by field. Pure function:
+ * {@link MqttClient.publish} routes every publish through it, and tests cover the layering by calling it directly - the in-process test broker speaks MQTT 3.1.1
+ * and never sees the MQTT 5 properties.
+ *
+ * @param options  - The publish's own options. A field left unset falls back to `defaults`.
+ * @param defaults - Optional client-wide defaults. See {@link MqttConfig.publishDefaults}.
+ *
+ * @returns The mqtt.js publish options: the QoS level and retain flag, both always set, and a `properties` object only when a content type or expiry applies.
+ *
+ * @category Utilities
+ */
+export function resolveMqttPublishOptions(options: MqttPublishOptions, defaults: MqttPublishOptions = {}): IClientPublishOptions {
+
+  const properties: NonNullable<IClientPublishOptions["properties"]> = {};
+  const contentType = options.contentType ?? defaults.contentType;
+  const messageExpiryInterval = options.messageExpiryInterval ?? defaults.messageExpiryInterval;
+
+  if(contentType !== undefined) {
+
+    properties.contentType = contentType;
+  }
+
+  if(messageExpiryInterval !== undefined) {
+
+    properties.messageExpiryInterval = messageExpiryInterval;
+  }
+
+  return { ...(Object.keys(properties).length ? { properties } : {}), qos: options.qos ?? defaults.qos ?? 0, retain: options.retain ?? defaults.retain ?? false };
+}
+
 /**
  * Signal-driven MQTT client with automatic topic-prefix management, composed connection lifetime, and per-operation signal support.
  *
@@ -407,6 +646,9 @@ export interface MqttPublishInit {
  *
  * // Abort-aware publish.
  * await mqtt.publish("device1/status", "on");
+ *
+ * // A retained state message, resolved once the broker acknowledges it.
+ * await mqtt.publish("device1/state", "on", { qos: 1, retain: true });
  * ```
  *
  * @category Utilities
@@ -418,14 +660,20 @@ export class MqttClient implements AsyncDisposable {
    */
   public readonly signal: AbortSignal;
 
+  readonly #availability: Nullable<Required<MqttAvailability>>;
   readonly #brokerUrl: string;
   readonly #controller: AbortController;
   readonly #log: HomebridgePluginLogging;
   readonly #mqtt: MqttJsClient;
+  readonly #publishDefaults: MqttPublishOptions;
+  readonly #queue: Nullable<MqttPublishQueue>;
   readonly #reconnectInterval: number;
-  readonly #subscriptions: Map<string, Set<MqttHandler>>;
+  readonly #subscriptionIds: Map<number, string>;
+  readonly #subscriptions: Map<string, MqttSubscription>;
   readonly #topicPrefix: string;
+  readonly #wildcardFilters: Set<string>;
   #isConnected: boolean;
+  #nextSubscriptionId: number;
 
   /**
    * Construct and start a new MQTT client.
@@ -443,12 +691,18 @@ export class MqttClient implements AsyncDisposable {
    */
   public constructor(config: MqttConfig, init: MqttClientInit = {}) {
 
+    this.#availability = config.availability ? { offlinePayload: "offline", onlinePayload: "online", qos: 1, ...config.availability } : null;
     this.#brokerUrl = config.brokerUrl;
     this.#isConnected = false;
     this.#log = config.log;
+    this.#nextSubscriptionId = 1;
+    this.#publishDefaults = config.publishDefaults ?? {};
+    this.#queue = config.queue ? new MqttPublishQueue(config.queue, { log: config.log }) : null;
     this.#reconnectInterval = config.reconnectInterval ?? MQTT_DEFAULT_RECONNECT_INTERVAL;
+    this.#subscriptionIds = new Map();
     this.#subscriptions = new Map();
     this.#topicPrefix = config.topicPrefix;
+    this.#wildcardFilters = new Set();
 
     this.#controller = new AbortController();
     this.signal = composeSignals(init.signal, this.#controller.signal);
@@ -463,7 +717,16 @@ export class MqttClient implements AsyncDisposable {
       // certificate-chain verification would break those common self-signed setups and force users to hand-wire a CA bundle, so we accept the broker's certificate as
       // presented. The trust boundary here is the user's own network and their own broker, not a public endpoint, which makes this the correct posture rather than a
       // weakening of transport security.
-      this.#mqtt = connect(this.#brokerUrl, { reconnectPeriod: this.#reconnectInterval * 1000, rejectUnauthorized: false });
+      //
+      // The will, when availability is configured, is what announces the plugin offline when the connection ends without a chance to say so itself.
+      this.#mqtt = connect(this.#brokerUrl, {
+
+        protocolVersion: config.protocolVersion ?? 4,
+        reconnectPeriod: this.#reconnectInterval * 1000,
+        rejectUnauthorized: false,
+        ...(this.#availability && { will: { payload: Buffer.from(this.#availability.offlinePayload), qos: this.#availability.qos, retain: true,
+          topic: this.#expandTopic(this.#availability.topic) } })
+      });
     } catch(error) {
 
       throw new Error("MqttClient: connection setup failed.", { cause: error });
@@ -479,15 +742,23 @@ export class MqttClient implements AsyncDisposable {
   }
 
   /**
-   * Publish `payload` to `topic`, returning a promise that resolves when the broker acknowledges the publish, or rejects on failure or abort.
+   * Publish `payload` to `topic`, returning a promise that resolves once the publish completes for its QoS level, or rejects on failure or abort.
    *
    * The topic is prefixed with the configured {@link MqttConfig.topicPrefix} before being sent; callers supply the topic tail (for example, `"device1/status"`).
+   * Completion follows the QoS level the publish resolves to: at QoS 0 the message has been written to the connection, which is all QoS 0 promises; at QoS 1 the
+   * broker has acknowledged it (PUBACK); at QoS 2 the broker has completed the exactly-once handshake (PUBCOMP).
+   *
+   * With {@link MqttConfig.queue} configured, a publish made while the broker is unreachable waits in the client's bounded queue and is sent, in order, when the
+   * connection returns; the promise then settles as above. A publish the full queue refuses or drops rejects with
+   * {@link backpressure!BackpressureOverflowError | BackpressureOverflowError}. Aborting the publish's own signal withdraws it from the queue; once it has been handed
+   * to the connection, as a publish made while connected is at once, the abort only stops the wait. Aborting the client leaves the queue as it is, so a queue with a
+   * file sends what it holds after the next start.
    *
    * @param topic   - The relative topic (tail) to publish to.
    * @param payload - The payload to publish. Buffers and strings are passed through unchanged.
-   * @param init    - Optional per-publish options. See {@link MqttPublishInit}.
+   * @param init    - Optional per-publish options, each layered over {@link MqttConfig.publishDefaults}. See {@link MqttPublishInit}.
    *
-   * @returns A promise that resolves once the broker acknowledges, or rejects on error or abort.
+   * @returns A promise that resolves once the publish completes for its QoS level, or rejects on error, overflow, or abort.
    */
   public async publish(topic: string, payload: Buffer | string, init: MqttPublishInit = {}): Promise<void> {
 
@@ -497,16 +768,33 @@ export class MqttClient implements AsyncDisposable {
     // still enqueue inside mqtt.js's internal buffer (which is already being flushed by `end(true)`), producing a phantom write.
     composed.throwIfAborted();
 
-    const full = this.#expandTopic(topic);
+    const full = (init.prefixed === false) ? topic : this.#expandTopic(topic);
 
     this.#log.debug("MQTT publish: %s.", full);
 
+    const options = resolveMqttPublishOptions(init, this.#publishDefaults);
+
+    // A publish queues while the broker is unreachable, and also while earlier queued publishes - including any restored from the queue's file - have yet to go out,
+    // so it never overtakes them. Otherwise a fresh state value could reach the broker ahead of the stale one it replaced.
+    if(this.#queue && (!this.#isConnected || !this.#queue.idle)) {
+
+      const queued = this.#queue.enqueue({ options, payload: Buffer.from(payload), topic: full }, init.signal);
+
+      // Connected, the queue is only waiting on its file or on a publish being retried, so there is no connect coming to drain it. Drain it now.
+      if(this.#isConnected) {
+
+        void this.#drainQueue(this.#queue);
+      }
+
+      return waitWithSignal(queued, composed);
+    }
+
     // Wrap mqtt.js's callback-style publish in a promise, then race it against the composed signal through `waitWithSignal` - the canonical primitive every other
     // signal-aware wait in this library uses. `Promise.withResolvers` is the codebase-wide pattern for callback-bridged deferreds; using it here keeps the hop from
     // mqtt.js's callback shape to a Promise on the same primitive every other wrap in HBPU uses.
     const { promise: ackPromise, resolve, reject }: PromiseWithResolvers<void> = Promise.withResolvers();
 
-    this.#mqtt.publish(full, payload, (error) => {
+    this.#mqtt.publish(full, payload, options, (error) => {
 
       if(error) {
 
@@ -525,9 +813,15 @@ export class MqttClient implements AsyncDisposable {
    * Subscribe to `topic` with the given handler. The topic is prefixed with the configured {@link MqttConfig.topicPrefix} before being registered with the broker.
    * Multiple handlers may subscribe to the same topic; each gets independent delivery.
    *
-   * @param topic   - The relative topic (tail) to subscribe to.
-   * @param handler - Callback invoked with each received payload.
+   * The topic may be a pattern with MQTT wildcards, each optionally named route-style: `"cameras/+id/set"` receives `"cameras/front/set"` and hands the handler
+   * `{ id: "front" }`. See {@link matchMqttTopic} for the matching rules. The prefix still applies - a wildcard never reaches past it - and so do the signal semantics:
+   * aborting the subscription's signal removes this handler, and the wire-level subscription goes with the last handler on the same filter.
+   *
+   * @param topic   - The relative topic (tail) or topic pattern to subscribe to.
+   * @param handler - Callback invoked with each received payload and the levels the topic's named wildcards matched.
    * @param init    - Optional per-subscription options. See {@link MqttSubscribeInit}.
+   *
+   * @throws `Error` when `topic` is not a valid pattern: a wildcard that does not fill a whole level, a `#` before the last level, or a wildcard name used twice.
    */
   public subscribe(topic: string, handler: MqttHandler, init: MqttSubscribeInit = {}): void {
 
@@ -538,20 +832,38 @@ export class MqttClient implements AsyncDisposable {
       return;
     }
 
-    const full = this.#expandTopic(topic);
+    // Subscriptions are keyed by the wire-level filter, so patterns that differ only in their wildcard names share one broker subscription, and within a filter by
+    // the pattern, so each handler keeps the parameter names it subscribed with - even a handler subscribed under two such patterns, which holds two subscriptions.
+    const pattern = this.#expandTopic(topic);
+    const full = toMqttTopicFilter(pattern);
 
     this.#log.debug("MQTT subscribe: %s.", full);
 
-    let handlers = this.#subscriptions.get(full);
+    let subscription = this.#subscriptions.get(full);
 
-    if(!handlers) {
+    if(!subscription) {
 
-      handlers = new Set();
-      this.#subscriptions.set(full, handlers);
+      subscription = { id: this.#nextSubscriptionId, patterns: new Map() };
+      this.#nextSubscriptionId = (this.#nextSubscriptionId % MQTT_MAX_SUBSCRIPTION_ID) + 1;
+      this.#subscriptions.set(full, subscription);
+      this.#subscriptionIds.set(subscription.id, full);
+
+      if(full.includes("+") || full.includes("#")) {
+
+        this.#wildcardFilters.add(full);
+      }
 
       // First handler on this topic: issue the wire-level subscribe. Subsequent handlers on the same topic reuse the existing broker subscription, matching the
-      // "pay once per topic" cost model the MQTT protocol naturally provides.
-      this.#mqtt.subscribe(full);
+      // "pay once per topic" cost model the MQTT protocol naturally provides. mqtt.js sends the subscription identifier on an MQTT 5 connection only.
+      this.#mqtt.subscribe(full, { properties: { subscriptionIdentifier: subscription.id }, qos: 0 });
+    }
+
+    let handlers = subscription.patterns.get(pattern);
+
+    if(!handlers) {
+
+      handlers = new Set();
+      subscription.patterns.set(pattern, handlers);
     }
 
     handlers.add(handler);
@@ -563,7 +875,7 @@ export class MqttClient implements AsyncDisposable {
 
       const composed = composeSignals(this.signal, init.signal);
 
-      onAbort(composed, () => this.#removeHandler(full, handler));
+      onAbort(composed, () => this.#removeHandler(full, pattern, handler));
     }
   }
 
@@ -571,12 +883,12 @@ export class MqttClient implements AsyncDisposable {
    * Subscribe to the `/get` child of `topic`. When a `"true"` message arrives on the get topic, the provided `getValue` callback runs and its return value is
    * published back on the parent topic. The classic HomeKit "get" pattern, wrapped once.
    *
-   * @param topic    - The relative topic (tail); the `/get` suffix is appended automatically.
+   * @param topic    - The relative topic (tail); the `/get` suffix is appended automatically. A concrete topic rather than a pattern, since the reply is published on it.
    * @param type     - Human-readable label used in log messages (for example, `"Temperature"`).
    * @param getValue - Callback returning the current value as a string, invoked on each incoming `"true"` message.
-   * @param init     - Optional per-subscription options. See {@link MqttSubscribeInit}.
+   * @param init     - Optional per-subscription options, including the publish options for the reply. See {@link MqttSubscribeGetInit}.
    */
-  public subscribeGet(topic: string, type: string, getValue: MqttGetHandler, init: MqttSubscribeInit = {}): void {
+  public subscribeGet(topic: string, type: string, getValue: MqttGetHandler, init: MqttSubscribeGetInit = {}): void {
 
     this.subscribe(topic + "/get", (message: Buffer) => {
 
@@ -592,7 +904,7 @@ export class MqttClient implements AsyncDisposable {
       // Sequence both log lines through {@link logGetterPublishOutcome} so the routing between success and failure is expressible as a pure function and testable in
       // isolation. The publish promise settles exactly once - either `.then` (success) or `.catch` (failure) runs - and each path forwards its outcome through the
       // single routing point, keeping the log surface honest about what actually happened on the wire.
-      void this.publish(topic, getValue())
+      void this.publish(topic, getValue(), init.reply)
         .then(() => logGetterPublishOutcome(this.#log, type, { ok: true }))
         .catch((error: unknown) => logGetterPublishOutcome(this.#log, type, { error, ok: false }));
     }, init);
@@ -656,6 +968,8 @@ export class MqttClient implements AsyncDisposable {
    * cancellation semantic the method cannot deliver. Callers composing teardown through a signal remove handlers by aborting the per-subscription signal they passed
    * to `subscribe*` instead.
    *
+   * A topic that was never subscribed is a silent no-op, whatever it reads as - including one that would not be a valid pattern to subscribe with.
+   *
    * @param id    - The device or accessory identifier portion of the topic. An empty string short-circuits the whole call.
    * @param topic - The topic tail relative to the id.
    */
@@ -668,10 +982,8 @@ export class MqttClient implements AsyncDisposable {
       return;
     }
 
-    const full = this.#expandTopic(id + "/" + topic);
-
-    this.#subscriptions.delete(full);
-    this.#mqtt.unsubscribe(full);
+    // Look the filter up rather than validate the pattern: only a filter we subscribed with can be removed, and every one of those was valid when it was added.
+    this.#dropSubscription(stripMqttWildcardNames(this.#expandTopic(id + "/" + topic)));
   }
 
   /**
@@ -693,14 +1005,16 @@ export class MqttClient implements AsyncDisposable {
 
   /**
    * `AsyncDisposable` implementation. Aborts the client (defaulting to `"shutdown"`), which tears the MQTT connection down and rejects any pending publishes through
-   * the regular teardown path.
+   * the regular teardown path, then waits for the publish queue's file, when one is configured, to be written with what the queue still holds.
    *
-   * @returns A promise that resolves once teardown has been scheduled. MQTT.js's `end(true)` completes synchronously for userland purposes, so the awaited microtask
-   *          is all the ordering the caller needs.
+   * @returns A promise that resolves once teardown has been scheduled and the queue's file is current. MQTT.js's `end(true)` completes synchronously for userland
+   *          purposes, so the queue's file is the only thing left to wait on.
    */
   public async [Symbol.asyncDispose](): Promise<void> {
 
     this.abort();
+
+    await this.#queue?.saved();
   }
 
   /**
@@ -711,6 +1025,31 @@ export class MqttClient implements AsyncDisposable {
     return this.signal.aborted;
   }
 
+  /**
+   * The availability messages this client publishes, with every default filled in, or `null` when none are configured. See {@link MqttConfig.availability}.
+   */
+  public get availability(): Nullable<Readonly<Required<MqttAvailability>>> {
+
+    return this.#availability;
+  }
+
+  /**
+   * A snapshot of the publish queue's depth and of what it has turned away, or `null` when no queue is configured. See
+   * {@link mqttQueue!MqttQueueMetrics | MqttQueueMetrics}.
+   */
+  public get queueMetrics(): Nullable<MqttQueueMetrics> {
+
+    return this.#queue?.metrics ?? null;
+  }
+
+  /**
+   * The prefix this client places every topic under. See {@link MqttConfig.topicPrefix}.
+   */
+  public get topicPrefix(): string {
+
+    return this.#topicPrefix;
+  }
+
   // Wire up the MQTT.js event handlers that drive message dispatch, connection lifecycle logging, and error escalation. Extracted into a helper so the constructor
   // reads as a linear flow (set up state -> compose signal -> connect -> wire events).
   #wireMqttEvents(client: MqttJsClient): void {
@@ -722,6 +1061,24 @@ export class MqttClient implements AsyncDisposable {
       // Every surface in this module that prints the broker URL routes through the shared redactor, so a configured credential never reaches the log stream. Keeping
       // that rule in one exported function - rather than at each call site - is what lets the connected log and the construction-failure log stay in agreement.
       this.#log.info("MQTT Broker: Connected to %s (topic: %s).", redactBrokerUrl(this.#brokerUrl), this.#topicPrefix);
+
+      // A reconnect follows a dropped connection, which the broker has answered by publishing our will - so every connect, not just the first, announces the plugin
+      // online again.
+      if(this.#availability) {
+
+        this.#publishAvailability(this.#availability, "onlinePayload", this.#availability.qos, (error) => {
+
+          if(error) {
+
+            this.#log.error("MQTT: failed to publish availability: %s.", formatErrorMessage(error));
+          }
+        });
+      }
+
+      if(this.#queue) {
+
+        void this.#drainQueue(this.#queue);
+      }
     });
 
     client.on("close", () => {
@@ -738,18 +1095,29 @@ export class MqttClient implements AsyncDisposable {
       this.#log.info("MQTT Broker: Connection closed.");
     });
 
-    client.on("message", (topic: string, message: Buffer) => {
+    client.on("message", (topic: string, message: Buffer, packet: IPublishPacket) => {
 
-      const handlers = this.#subscriptions.get(topic);
+      // An MQTT 5 broker names the subscriptions each delivery is for, so a broker that sends one copy per overlapping subscription reaches each handler once, through
+      // the copy for its own filter. An MQTT 3.1.1 message carries only its concrete topic: we look up the exact filter it matches directly and match it against
+      // the wildcard filters, and a broker that sends a copy per overlapping subscription delivers each copy to every handler it matches. Matching also yields each
+      // handler's named parameters.
+      const ids = packet.properties?.subscriptionIdentifier;
+      const filters = (ids === undefined) ? [ topic, ...this.#wildcardFilters ] : [ids].flat().flatMap((id) => this.#subscriptionIds.get(id) ?? []);
+      const deliveries = filters.flatMap((filter) => [...(this.#subscriptions.get(filter)?.patterns ?? [])].flatMap(([ pattern, handlers ]) => {
 
-      if(!handlers) {
+        const params = matchMqttTopic(pattern, topic);
+
+        return params ? [...handlers].map((handler) => ({ handler, params })) : [];
+      }));
+
+      if(!deliveries.length) {
 
         return;
       }
 
-      // Snapshot the handler set before iterating so a handler that removes itself (or a sibling) mid-dispatch cannot alter which handlers this dispatch pass
-      // invokes. Iterating the live Set directly would still be spec-correct - Set iteration order and hole-skipping on delete are well-defined - but it would make
-      // the invocation set implicit and mutation-order-dependent. The snapshot cost is O(n) in handlers per topic, same as the dispatch itself, so the overhead is
+      // Snapshot the matching handlers before invoking any so a handler that removes itself (or a sibling) mid-dispatch cannot alter which handlers this dispatch
+      // pass invokes. Iterating the live maps directly would still be spec-correct - Map iteration order and hole-skipping on delete are well-defined - but it would
+      // make the invocation set implicit and mutation-order-dependent. The snapshot cost is O(n) in handlers, same as the dispatch itself, so the overhead is
       // negligible. Sync handlers run inline so their effects are observable on the calling turn (matching
       // EventEmitter's dispatch model and the public contract these tests assert); only the per-handler error handling is split between the sync and async legs,
       // both of which route through the same `logHandlerError` so the log surface is single-source-of-truth. One bad handler logs but does not destabilize the
@@ -759,11 +1127,11 @@ export class MqttClient implements AsyncDisposable {
         this.#log.error("MQTT: handler for %s threw: %s.", topic, formatErrorMessage(err));
       };
 
-      for(const handler of [...handlers]) {
+      for(const { handler, params } of deliveries) {
 
         try {
 
-          const result = handler(message);
+          const result = handler(message, params);
 
           if(result instanceof Promise) {
 
@@ -791,14 +1159,16 @@ export class MqttClient implements AsyncDisposable {
     });
   }
 
-  // Remove a single handler from a topic's subscription set. When the last handler leaves, the underlying MQTT subscription is dropped so idle topics do not continue
-  // consuming broker bandwidth. Safe to call for handlers that were never registered (silently no-ops) and safe to call after the connection has aborted (the
-  // subscription map is cleared by `#teardown`, so the initial `!handlers` check short-circuits before any `#mqtt` interaction).
-  #removeHandler(full: string, handler: MqttHandler): void {
+  // Remove a single handler's subscription under one pattern from a topic's subscription set, leaving any it holds under another pattern in place. When the last
+  // handler leaves, the underlying MQTT subscription is dropped so idle topics do not continue consuming broker bandwidth. Safe to call for handlers that were never
+  // registered (silently no-ops) and safe to call after the connection has aborted (the subscription map is cleared by `#teardown`, so the initial `!handlers` check
+  // short-circuits before any `#mqtt` interaction).
+  #removeHandler(full: string, pattern: string, handler: MqttHandler): void {
 
-    const handlers = this.#subscriptions.get(full);
+    const subscription = this.#subscriptions.get(full);
+    const handlers = subscription?.patterns.get(pattern);
 
-    if(!handlers) {
+    if(!subscription || !handlers) {
 
       return;
     }
@@ -807,11 +1177,32 @@ export class MqttClient implements AsyncDisposable {
 
     if(handlers.size === 0) {
 
-      this.#subscriptions.delete(full);
-      this.#mqtt.unsubscribe(full);
+      subscription.patterns.delete(pattern);
+    }
+
+    if(subscription.patterns.size === 0) {
+
+      this.#dropSubscription(full);
     }
   }
 
+  // Drop a filter's wire-level subscription along with every handler on it. A filter with no subscription is left alone, so the broker never hears about a filter
+  // this client did not subscribe to.
+  #dropSubscription(full: string): void {
+
+    const subscription = this.#subscriptions.get(full);
+
+    if(!subscription) {
+
+      return;
+    }
+
+    this.#subscriptionIds.delete(subscription.id);
+    this.#subscriptions.delete(full);
+    this.#wildcardFilters.delete(full);
+    this.#mqtt.unsubscribe(full);
+  }
+
   // Expand a relative topic tail into the full broker-facing topic. Always concatenates with the configured prefix; the caller is responsible for any id structure
   // inside the tail. Keeping this as a single small helper means every publish / subscribe site goes through identical expansion logic, avoiding drift.
   #expandTopic(topic: string): string {
@@ -824,10 +1215,66 @@ export class MqttClient implements AsyncDisposable {
   // unambiguously done, and the underlying library's reconnect logic exits permanently. The `#mqtt` reference is not nulled: callers never reach `#mqtt` accesses
   // when the signal is aborted (every public method short-circuits on `signal.aborted`), and keeping the reference preserves the `readonly #mqtt: MqttJsClient`
   // guarantee that lets TypeScript drop every non-null assertion in the live paths.
+  //
+  // With availability configured and the connection up, the end is graceful instead: we announce the plugin offline and follow it with a clean disconnect, which
+  // tells the broker the offline message is deliberate and its copy of our will is not needed. A forced end would drop the offline message still sitting in the
+  // socket's write buffer. Publishes still awaiting an acknowledgement are dropped first - their callers were rejected when the signal aborted - so the graceful end
+  // has nothing to wait on, and the offline message goes at QoS 0 for the same reason.
   #teardown(): void {
 
+    this.#subscriptionIds.clear();
     this.#subscriptions.clear();
-    this.#mqtt.end(true);
+    this.#wildcardFilters.clear();
+
+    if(!this.#availability || !this.#isConnected) {
+
+      this.#mqtt.end(true);
+
+      return;
+    }
+
+    for(const messageId of Object.keys(this.#mqtt.outgoing)) {
+
+      this.#mqtt.removeOutgoingMessage(Number(messageId));
+    }
+
+    this.#publishAvailability(this.#availability, "offlinePayload", 0);
+    this.#mqtt.end(false);
+  }
+
+  // Send everything the queue holds, oldest first, once it has restored its file. The connection may have dropped again while the file was being read, in which case
+  // the queue keeps its contents for the next connect. Taking the whole queue in one synchronous pass is what keeps a publish made meanwhile from slipping in between.
+  // Each publish stays queued until mqtt.js reports it sent, so one that teardown removes from the connection mid-flight is still in the queue's file next start.
+  // A failed publish is retried by draining again, which does nothing without a connection, and the queue drops it once its attempts run out, so a publish the
+  // broker refuses cannot hold up the ones behind it.
+  async #drainQueue(queue: MqttPublishQueue): Promise<void> {
+
+    await queue.ready;
+
+    if(!this.#isConnected || this.signal.aborted) {
+
+      return;
+    }
+
+    for(const { message, settle } of queue.take()) {
+
+      this.#mqtt.publish(message.topic, message.payload, message.options, (error) => {
+
+        settle(error);
+
+        if(error) {
+
+          void this.#drainQueue(queue);
+        }
+      });
+    }
+  }
+
+  // Publish an availability message, retained, straight through mqtt.js. Bypassing `publish` keeps the client's publish defaults off it - an expiry meant for state
+  // messages would otherwise expire the retained availability out from under a later subscriber - and lets teardown publish after the client's signal has aborted.
+  #publishAvailability(availability: Required<MqttAvailability>, payload: "offlinePayload" | "onlinePayload", qos: MqttQos, callback?: (error?: Error) => void): void {
+
+    this.#mqtt.publish(this.#expandTopic(availability.topic), availability[payload], { qos, retain: true }, callback);
   }
 }
 
@@ -887,7 +1334,17 @@ export function createMqttClient(config: MqttClientConfigCandidate, init?: MqttC
 
   try {
 
-    return new MqttClient({ brokerUrl, log: config.log, reconnectInterval: config.reconnectInterval, topicPrefix }, init);
+    return new MqttClient({
+
+      availability: config.availability,
+      brokerUrl,
+      log: config.log,
+      protocolVersion: config.protocolVersion,
+      publishDefaults: config.publishDefaults,
+      queue: config.queue,
+      reconnectInterval: config.reconnectInterval,
+      topicPrefix
+    }, init);
   } catch(error) {
 
     // The inspected chain embeds the configured broker URL verbatim, so we excise the URL we are holding rather than trusting anything about the chain's shape.
@@ -0,0 +1,248 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * mqttDiscovery.test.ts: Unit tests for Home Assistant MQTT discovery - the message shapes the pure builder produces, and the publish, command, and removal flows
+ * HomeAssistantDiscovery drives against a real in-process aedes broker.
+ */
+import { HomeAssistantDiscovery, buildHomeAssistantDiscovery } from "./mqttDiscovery.ts";
+import type { HomeAssistantDiscoveryConfig, HomeAssistantEntity } from "./mqttDiscovery.ts";
+import { awaitConnect, recordSubscribes, startTestBroker } from "./mqtt.helpers.ts";
+import { describe, test } from "node:test";
+import { isHbpuAbortReason, isTimeoutReason } from "./util.ts";
+import type { MqttAvailability } from "./mqttClient.ts";
+import { MqttClient } from "./mqttClient.ts";
+import type { TestBroker } from "./mqtt.helpers.ts";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { silentLog } from "./testing.helpers.ts";
+
+const DEVICE = { id: "AA:BB:CC", manufacturer: "Ubiquiti", model: "G4 Pro", name: "Driveway", swVersion: "4.2" };
+
+const AVAILABILITY = { offlinePayload: "offline", onlinePayload: "online", qos: 1, topic: "availability" } as const;
+
+// Construct a test client against `broker`, under the `test` topic prefix.
+function makeClient(broker: TestBroker, availability?: MqttAvailability): MqttClient {
+
+  return new MqttClient({ availability, brokerUrl: broker.url, log: silentLog(), reconnectInterval: 0, topicPrefix: "test" });
+}
+
+// Record the delivery flags and payload of every client-originated publish the broker sees - discovery messages are about the retain flag as much as the payload.
+function recordFlags(broker: TestBroker): { payload: string; qos: number; retain: boolean; topic: string }[] {
+
+  const publishes: { payload: string; qos: number; retain: boolean; topic: string }[] = [];
+
+  broker.aedes.on("publish", (packet, aedesClient) => {
+
+    if(aedesClient) {
+
+      publishes.push({ payload: (packet.payload as Buffer).toString(), qos: packet.qos, retain: packet.retain, topic: packet.topic });
+    }
+  });
+
+  return publishes;
+}
+
+// Resolve once the broker has seen `count` subscriptions, so a test injecting a command knows the handler is listening.
+async function awaitSubscribes(subscribed: string[], count: number): Promise<void> {
+
+  while(subscribed.length < count) {
+
+    // eslint-disable-next-line no-await-in-loop
+    await delay(5);
+  }
+}
+
+describe("buildHomeAssistantDiscovery - pure function", () => {
+
+  test("describes each component under the discovery prefix, with its topics expanded under the topic prefix", () => {
+
+    const entities: HomeAssistantEntity[] = [
+
+      { component: "binary_sensor", deviceClass: "motion", id: "motion", name: "Motion", topic: "AA:BB:CC/motion" },
+      { component: "button", icon: "mdi:restart", id: "reboot", name: "Reboot", press: () => undefined, topic: "AA:BB:CC/reboot" },
+      { component: "camera", id: "snapshot", name: "Snapshot", topic: "AA:BB:CC/snapshot" },
+      { component: "sensor", deviceClass: "temperature", id: "temp", name: "Temperature", stateClass: "measurement", topic: "AA:BB:CC/temp", unit: "°C" },
+      { component: "switch", id: "light", name: "Light", set: () => undefined, topic: "AA:BB:CC/light" }
+    ];
+
+    const messages = buildHomeAssistantDiscovery({ availability: AVAILABILITY, config: { device: DEVICE, entities }, topicPrefix: "unifi" });
+    const shared = {
+
+      "availability_topic": "unifi/availability",
+      device: { identifiers: ["AA:BB:CC"], manufacturer: "Ubiquiti", model: "G4 Pro", name: "Driveway", "sw_version": "4.2" },
+      "payload_available": "online",
+      "payload_not_available": "offline"
+    };
+
+    assert.deepEqual(messages.map(({ topic }) => topic), [
+
+      "homeassistant/binary_sensor/AA_3a_BB_3a_CC-motion/config",
+      "homeassistant/button/AA_3a_BB_3a_CC-reboot/config",
+      "homeassistant/camera/AA_3a_BB_3a_CC-snapshot/config",
+      "homeassistant/sensor/AA_3a_BB_3a_CC-temp/config",
+      "homeassistant/switch/AA_3a_BB_3a_CC-light/config"
+    ], "an object id encodes what Home Assistant does not accept");
+
+    assert.deepEqual(messages.map(({ payload }) => payload), [
+
+      { ...shared, "device_class": "motion", name: "Motion", "payload_off": "false", "payload_on": "true", "state_topic": "unifi/AA:BB:CC/motion",
+        "unique_id": "AA_3a_BB_3a_CC-motion" },
+      { ...shared, "command_topic": "unifi/AA:BB:CC/reboot/set", icon: "mdi:restart", name: "Reboot", "payload_press": "press", "unique_id": "AA_3a_BB_3a_CC-reboot" },
+      { ...shared, name: "Snapshot", topic: "unifi/AA:BB:CC/snapshot", "unique_id": "AA_3a_BB_3a_CC-snapshot" },
+      { ...shared, "device_class": "temperature", name: "Temperature", "state_class": "measurement", "state_topic": "unifi/AA:BB:CC/temp",
+        "unique_id": "AA_3a_BB_3a_CC-temp", "unit_of_measurement": "°C" },
+      { ...shared, "command_topic": "unifi/AA:BB:CC/light/set", name: "Light", "payload_off": "false", "payload_on": "true", "state_topic": "unifi/AA:BB:CC/light",
+        "unique_id": "AA_3a_BB_3a_CC-light" }
+    ]);
+  });
+
+  test("leaves out what was not declared, and honors a custom discovery prefix", () => {
+
+    const config: HomeAssistantDiscoveryConfig = {
+
+      device: { id: "cam1", name: "Porch" },
+      discoveryPrefix: "ha",
+      entities: [{ component: "sensor", id: "battery", name: "Battery", topic: "cam1/battery" }]
+    };
+
+    assert.deepEqual(buildHomeAssistantDiscovery({ availability: null, config, topicPrefix: "unifi" }), [{
+
+      payload: { device: { identifiers: ["cam1"], name: "Porch" }, name: "Battery", "state_topic": "unifi/cam1/battery", "unique_id": "cam1-battery" },
+      topic: "ha/sensor/cam1-battery/config"
+    }]);
+  });
+
+  test("gives different devices and entities different object ids, however alike their ids read", () => {
+
+    const entity = (id: string): HomeAssistantEntity => ({ component: "sensor", id, name: "Sensor", topic: "sensor" });
+    const uniqueId = ([ device, id ]: [ string, string ]): unknown => {
+
+      return buildHomeAssistantDiscovery({ config: { device: { id: device, name: "Device" }, entities: [entity(id)] }, topicPrefix: "unifi" })[0]?.payload["unique_id"];
+    };
+    const pairs: [ string, string ][] = [ [ "a.b", "c" ], [ "a_b", "c" ], [ "a", "b_c" ], [ "a-b", "c" ], [ "a", "b-c" ], [ "a b", "c" ], [ "a", "b" ] ];
+
+    assert.deepEqual(pairs.map(uniqueId), [ "a_2e_b-c", "a_5f_b-c", "a-b_5f_c", "a_2d_b-c", "a-b_2d_c", "a_20_b-c", "a-b" ]);
+  });
+});
+
+describe("HomeAssistantDiscovery (real broker)", () => {
+
+  test("publishes each discovery message retained, outside the topic prefix, then the current state of each entity with a getter", async () => {
+
+    await using broker = await startTestBroker();
+    const publishes = recordFlags(broker);
+
+    const config: HomeAssistantDiscoveryConfig = {
+
+      device: { id: "cam1", name: "Porch" },
+      entities: [
+
+        { component: "binary_sensor", get: (): string => "true", id: "motion", name: "Motion", topic: "cam1/motion" },
+        { component: "camera", id: "snapshot", name: "Snapshot", topic: "cam1/snapshot" }
+      ]
+    };
+
+    await using client = makeClient(broker, { topic: "availability" });
+    await using discovery = new HomeAssistantDiscovery(client, config);
+
+    await discovery.publish();
+
+    const configs = publishes.filter(({ topic }) => topic.startsWith("homeassistant/"));
+
+    assert.deepEqual(configs.map(({ qos, retain, topic }) => [ topic, qos, retain ]),
+      [ [ "homeassistant/binary_sensor/cam1-motion/config", 1, true ], [ "homeassistant/camera/cam1-snapshot/config", 1, true ] ]);
+    assert.deepEqual(configs.map(({ payload }) => JSON.parse(payload) as unknown),
+      buildHomeAssistantDiscovery({ availability: client.availability, config, topicPrefix: "test" }).map(({ payload }) => payload),
+      "the payloads are the builder's, following the client's availability");
+    assert.ok(client.availability);
+    assert.deepEqual(publishes.filter(({ topic }) => topic === "test/cam1/motion"), [{ payload: "true", qos: 1, retain: true, topic: "test/cam1/motion" }]);
+  });
+
+  test("routes Home Assistant's commands to the switch's setter and the button's press handler", async () => {
+
+    await using broker = await startTestBroker();
+    const subscribed = recordSubscribes(broker);
+    const commands: string[] = [];
+    const received: PromiseWithResolvers<void> = Promise.withResolvers();
+    const command = (entry: string): void => {
+
+      if(commands.push(entry) === 2) {
+
+        received.resolve();
+      }
+    };
+
+    await using client = makeClient(broker);
+    await using _discovery = new HomeAssistantDiscovery(client, {
+
+      device: { id: "cam1", name: "Porch" },
+      entities: [
+
+        { component: "button", id: "reboot", name: "Reboot", press: (): void => command("press"), topic: "cam1/reboot" },
+        { component: "switch", id: "light", name: "Light", set: (value): void => command("light " + value), topic: "cam1/light" }
+      ]
+    });
+
+    await awaitConnect(broker);
+    await awaitSubscribes(subscribed, 2);
+
+    for(const [ topic, payload ] of [ [ "test/cam1/light/set", "true" ], [ "test/cam1/reboot/set", "press" ] ] as const) {
+
+      broker.aedes.publish({ cmd: "publish", dup: false, payload: Buffer.from(payload), qos: 0, retain: false, topic }, () => { /* ack */ });
+    }
+
+    await received.promise;
+
+    assert.deepEqual(commands.sort(), [ "light true", "press" ]);
+  });
+
+  test("remove clears each discovery message with an empty retained message, then aborts as closed", async () => {
+
+    await using broker = await startTestBroker();
+    const publishes = recordFlags(broker);
+
+    await using client = makeClient(broker);
+    const discovery = new HomeAssistantDiscovery(client, { device: { id: "cam1", name: "Porch" }, entities: [{ component: "camera", id: "snapshot", name: "Snapshot",
+      topic: "cam1/snapshot" }] });
+
+    await discovery.publish();
+    await discovery.remove();
+    await discovery.remove();
+
+    assert.deepEqual(publishes.map(({ payload, retain }) => [ payload.length > 0, retain ]), [ [ true, true ], [ false, true ] ], "a second remove publishes nothing");
+    assert.ok(discovery.aborted);
+    assert.ok(isHbpuAbortReason(discovery.signal.reason, "closed"));
+  });
+
+  test("remove gives up on a broker that never acknowledges once its deadline passes, and still aborts as closed", async () => {
+
+    await using broker = await startTestBroker();
+
+    // Refuse every connection, standing in for a broker that has gone away.
+    broker.aedes.preConnect = (_client, _packet, callback): void => callback(null, false);
+
+    await using client = makeClient(broker);
+    const discovery = new HomeAssistantDiscovery(client, { device: { id: "cam1", name: "Porch" }, entities: [{ component: "camera", id: "snapshot", name: "Snapshot",
+      topic: "cam1/snapshot" }] });
+
+    await assert.rejects(discovery.remove({ timeout: 50 }), (error: unknown) => isTimeoutReason(error));
+
+    assert.ok(isHbpuAbortReason(discovery.signal.reason, "closed"));
+  });
+
+  test("an abort stops the handlers and leaves the discovery messages in place", async () => {
+
+    await using broker = await startTestBroker();
+    const publishes = recordFlags(broker);
+
+    await using client = makeClient(broker);
+    const discovery = new HomeAssistantDiscovery(client, { device: { id: "cam1", name: "Porch" }, entities: [{ component: "camera", id: "snapshot", name: "Snapshot",
+      topic: "cam1/snapshot" }] });
+
+    await discovery.publish();
+    discovery.abort();
+    await discovery.remove();
+
+    assert.equal(publishes.length, 1, "an aborted discovery has nothing left to withdraw with");
+    assert.ok(isHbpuAbortReason(discovery.signal.reason, "shutdown"));
+  });
+});
@@ -0,0 +1,487 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * mqttDiscovery.ts: Home Assistant MQTT discovery for devices published through an MqttClient.
+ */
+
+/**
+ * Home Assistant MQTT discovery, layered on {@link mqttClient!MqttClient | MqttClient}.
+ *
+ * Home Assistant finds MQTT devices by reading retained configuration messages under its discovery prefix: one message per entity, at
+ * `homeassistant/<component>/<id>/config`, describing the entity and the topics its state and commands travel on. A plugin that declares its devices' entities through
+ * {@link HomeAssistantDiscovery} gets those messages published for it, its state and command topics wired to the same `/get` and `/set` handlers
+ * {@link mqttClient!MqttClient.subscribeGet | subscribeGet} and {@link mqttClient!MqttClient.subscribeSet | subscribeSet} already provide, and the entries removed
+ * again when the device goes away.
+ *
+ * Two ways of ending a discovery mean two different things. Aborting it - directly, or through the signal it was handed, typically the plugin's own - stops the
+ * handlers and leaves the entries in place, because a plugin restarting has not lost its devices. Disposing it, through {@link HomeAssistantDiscovery.remove} or
+ * `Symbol.asyncDispose`, is the device going away: the entries are cleared from the broker first, and Home Assistant drops the device.
+ *
+ * The message shapes are built by the pure {@link buildHomeAssistantDiscovery}, so a caller can inspect or test exactly what will be published without a broker.
+ *
+ * @module
+ */
+import { HbpuAbortError, composeSignals } from "./util.ts";
+import type { MqttAvailability, MqttClient, MqttGetHandler, MqttSetHandler } from "./mqttClient.ts";
+import type { Nullable } from "./util.ts";
+
+// Home Assistant's default discovery prefix. A user who changed it in Home Assistant's MQTT settings passes theirs through `discoveryPrefix`.
+const HOME_ASSISTANT_DISCOVERY_PREFIX = "homeassistant";
+
+// Default deadline, in milliseconds, for the broker to acknowledge a removal. Withdrawing entities while the broker is unreachable would otherwise wait on the
+// reconnect indefinitely, holding up whatever is disposing the discovery - typically a plugin tearing a device down.
+const HOME_ASSISTANT_REMOVE_TIMEOUT_MS = 10000;
+
+/**
+ * The device a set of Home Assistant entities belongs to. Home Assistant groups every entity that names the same device under one device entry.
+ *
+ * @property id           - A stable identifier for the device, unique across the plugin (for example, a serial number or MAC address). It also forms part of each
+ *                          entity's discovery topic and unique id.
+ * @property manufacturer - Optional manufacturer shown on the device page.
+ * @property model        - Optional model shown on the device page.
+ * @property name         - The device's name.
+ * @property swVersion    - Optional firmware or software version shown on the device page.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantDevice {
+
+  id: string;
+  manufacturer?: string;
+  model?: string;
+  name: string;
+  swVersion?: string;
+}
+
+/**
+ * What every Home Assistant entity declares, whatever its component.
+ *
+ * @property icon  - Optional Material Design icon (for example, `"mdi:cctv"`).
+ * @property id    - An identifier for the entity, unique within its device.
+ * @property name  - The entity's name. Also the label {@link mqttClient!MqttClient | MqttClient} uses for the entity in its log messages.
+ * @property topic - The relative topic (tail) the entity's state lives on, under the client's topic prefix. Commands arrive on its `/set` child.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantEntityBase {
+
+  icon?: string;
+  id: string;
+  name: string;
+  topic: string;
+}
+
+/**
+ * A binary sensor: an on or off state Home Assistant reads from `topic`, published as `"true"` or `"false"`.
+ *
+ * @property component   - `"binary_sensor"`.
+ * @property deviceClass - Optional Home Assistant device class (for example, `"motion"`).
+ * @property get         - Optional getter answering `/get` requests, and publishing the initial state. See {@link mqttClient!MqttGetHandler | MqttGetHandler}.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantBinarySensor extends HomeAssistantEntityBase {
+
+  component: "binary_sensor";
+  deviceClass?: string;
+  get?: MqttGetHandler;
+}
+
+/**
+ * A button: Home Assistant publishes a press to `topic`'s `/set` child.
+ *
+ * @property component - `"button"`.
+ * @property press     - Invoked on each press, with a signal that aborts when the client does.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantButton extends HomeAssistantEntityBase {
+
+  component: "button";
+  press: (signal: AbortSignal) => Promise<void> | void;
+}
+
+/**
+ * A camera snapshot: Home Assistant shows the latest image published to `topic`. The plugin publishes each snapshot itself, as the raw image bytes.
+ *
+ * @property component - `"camera"`.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantCamera extends HomeAssistantEntityBase {
+
+  component: "camera";
+}
+
+/**
+ * A sensor: a value Home Assistant reads from `topic`.
+ *
+ * @property component   - `"sensor"`.
+ * @property deviceClass - Optional Home Assistant device class (for example, `"temperature"`).
+ * @property get         - Optional getter answering `/get` requests, and publishing the initial state. See {@link mqttClient!MqttGetHandler | MqttGetHandler}.
+ * @property stateClass  - Optional Home Assistant state class (for example, `"measurement"`), which is what makes Home Assistant keep long-term statistics.
+ * @property unit        - Optional unit of measurement (for example, `"°C"`).
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantSensor extends HomeAssistantEntityBase {
+
+  component: "sensor";
+  deviceClass?: string;
+  get?: MqttGetHandler;
+  stateClass?: string;
+  unit?: string;
+}
+
+/**
+ * A switch: an on or off state Home Assistant reads from `topic` and sets through its `/set` child, both as `"true"` or `"false"`.
+ *
+ * @property component - `"switch"`.
+ * @property get       - Optional getter answering `/get` requests, and publishing the initial state. See {@link mqttClient!MqttGetHandler | MqttGetHandler}.
+ * @property set       - Setter invoked with each command. See {@link mqttClient!MqttSetHandler | MqttSetHandler}.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantSwitch extends HomeAssistantEntityBase {
+
+  component: "switch";
+  get?: MqttGetHandler;
+  set: MqttSetHandler;
+}
+
+/**
+ * An entity a {@link HomeAssistantDiscovery} announces, discriminated on `component`.
+ *
+ * @category Utilities
+ */
+export type HomeAssistantEntity = HomeAssistantBinarySensor | HomeAssistantButton | HomeAssistantCamera | HomeAssistantSensor | HomeAssistantSwitch;
+
+/**
+ * A device and the entities to announce for it.
+ *
+ * @property device          - The device the entities belong to. See {@link HomeAssistantDevice}.
+ * @property discoveryPrefix - Optional Home Assistant discovery prefix. Defaults to `"homeassistant"`.
+ * @property entities        - The entities to announce. See {@link HomeAssistantEntity}.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantDiscoveryConfig {
+
+  device: HomeAssistantDevice;
+  discoveryPrefix?: string;
+  entities: readonly HomeAssistantEntity[];
+}
+
+/**
+ * Construction-time options for {@link HomeAssistantDiscovery}.
+ *
+ * @property signal - Optional parent {@link AbortSignal}. When it aborts, the discovery stops its handlers and leaves its entries in place.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantDiscoveryInit {
+
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by {@link HomeAssistantDiscovery.remove}.
+ *
+ * @property timeout - Optional deadline, in milliseconds, for the broker to acknowledge every removal. Defaults to 10 seconds.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantDiscoveryRemoveInit {
+
+  timeout?: number;
+}
+
+/**
+ * One discovery message: the full topic it is published on, and its payload before serialization.
+ *
+ * @property payload - The entity's configuration, in Home Assistant's vocabulary.
+ * @property topic   - The full discovery topic, outside the client's topic prefix.
+ *
+ * @category Utilities
+ */
+export interface HomeAssistantDiscoveryMessage {
+
+  payload: Readonly<Record<string, unknown>>;
+  topic: string;
+}
+
+/**
+ * Build the discovery messages for a device's entities. Pure function: {@link HomeAssistantDiscovery} publishes exactly what this returns, serialized as JSON.
+ *
+ * Each entity's state and command topics are the full topics its relative `topic` expands to under `topicPrefix`, matching where
+ * {@link mqttClient!MqttClient | MqttClient} publishes and subscribes. When `availability` is supplied, every entity follows it, so Home Assistant marks the device
+ * unavailable whenever the plugin is offline.
+ *
+ * @param args
+ * @param args.availability - Optional availability the entities follow, typically {@link mqttClient!MqttClient.availability | MqttClient.availability}.
+ * @param args.config       - The device and its entities. See {@link HomeAssistantDiscoveryConfig}.
+ * @param args.topicPrefix  - The topic prefix the entities' topics live under, typically {@link mqttClient!MqttClient.topicPrefix | MqttClient.topicPrefix}.
+ *
+ * @returns One message per entity, in declaration order.
+ *
+ * @category Utilities
+ */
+export function buildHomeAssistantDiscovery(
+  { availability, config, topicPrefix }: { availability?: Nullable<Readonly<Required<MqttAvailability>>>; config: HomeAssistantDiscoveryConfig; topicPrefix: string }
+): HomeAssistantDiscoveryMessage[] {
+
+  const { device, discoveryPrefix = HOME_ASSISTANT_DISCOVERY_PREFIX, entities } = config;
+  const full = (topic: string): string => topicPrefix + "/" + topic;
+
+  // The fields every entity shares: who it is, which device it belongs to, and - when the plugin announces it - whether it is online.
+  const shared = {
+
+    ...(availability && { availabilityTopic: full(availability.topic), payloadAvailable: availability.onlinePayload,
+      payloadNotAvailable: availability.offlinePayload }),
+    device: { identifiers: [device.id], manufacturer: device.manufacturer, model: device.model, name: device.name, swVersion: device.swVersion }
+  };
+
+  return entities.map((entity) => {
+
+    // The device's and the entity's ids are encoded apart and joined with the one character neither encoding uses, so no two pairs share an object id.
+    const id = objectId(device.id) + "-" + objectId(entity.id);
+
+    return {
+
+      payload: toHomeAssistantKeys({ ...shared, icon: entity.icon, name: entity.name, uniqueId: id, ...componentFields(entity, full) }),
+      topic: discoveryPrefix + "/" + entity.component + "/" + id + "/config"
+    };
+  });
+}
+
+/**
+ * Announces a device's entities to Home Assistant and serves their state and command topics.
+ *
+ * Construction wires each entity's handlers: a getter answers `/get` requests through {@link mqttClient!MqttClient.subscribeGet | subscribeGet}, and a setter or
+ * press handler receives `/set` commands through {@link mqttClient!MqttClient.subscribeSet | subscribeSet}. {@link HomeAssistantDiscovery.publish} then announces the
+ * entities, and {@link HomeAssistantDiscovery.remove} withdraws them. See the module overview for how aborting differs from removing.
+ *
+ * @example
+ *
+ * ```ts
+ * import { HomeAssistantDiscovery } from "homebridge-plugin-utils";
+ *
+ * const discovery = new HomeAssistantDiscovery(mqtt, {
+ *
+ *   device: { id: camera.mac, manufacturer: "Ubiquiti", model: camera.model, name: camera.name },
+ *   entities: [
+ *
+ *     { component: "binary_sensor", deviceClass: "motion", get: () => String(camera.isMotionDetected), id: "motion", name: "Motion", topic: camera.mac + "/motion" },
+ *     { component: "camera", id: "snapshot", name: "Snapshot", topic: camera.mac + "/snapshot" }
+ *   ]
+ * }, { signal: platform.signal });
+ *
+ * await discovery.publish();
+ *
+ * // Later, when the camera is removed from the controller.
+ * await discovery.remove();
+ * ```
+ *
+ * @category Utilities
+ */
+export class HomeAssistantDiscovery implements AsyncDisposable {
+
+  /**
+   * The composed abort signal representing this discovery's lifetime. Aborts exactly once, when {@link HomeAssistantDiscovery.abort} or
+   * {@link HomeAssistantDiscovery.remove} is called, when the parent signal fires, or when the client aborts.
+   */
+  public readonly signal: AbortSignal;
+
+  readonly #client: MqttClient;
+  readonly #config: HomeAssistantDiscoveryConfig;
+  readonly #controller: AbortController;
+
+  /**
+   * Wire the entities' handlers. Nothing is published until {@link HomeAssistantDiscovery.publish} is called.
+   *
+   * @param client - The client to publish and subscribe through.
+   * @param config - The device and its entities. See {@link HomeAssistantDiscoveryConfig}.
+   * @param init   - Optional init options. See {@link HomeAssistantDiscoveryInit}.
+   */
+  public constructor(client: MqttClient, config: HomeAssistantDiscoveryConfig, init: HomeAssistantDiscoveryInit = {}) {
+
+    this.#client = client;
+    this.#config = config;
+    this.#controller = new AbortController();
+    this.signal = composeSignals(client.signal, init.signal, this.#controller.signal);
+
+    const signal = this.signal;
+
+    for(const entity of config.entities) {
+
+      if(("get" in entity) && entity.get) {
+
+        client.subscribeGet(entity.topic, entity.name, entity.get, { signal });
+      }
+
+      switch(entity.component) {
+
+        case "button":
+
+          client.subscribeSet(entity.topic, entity.name, (_value, _rawValue, setterSignal) => entity.press(setterSignal), { signal });
+
+          break;
+
+        case "switch":
+
+          client.subscribeSet(entity.topic, entity.name, entity.set, { signal });
+
+          break;
+
+        default:
+
+          break;
+      }
+    }
+  }
+
+  /**
+   * Announce the entities to Home Assistant: publish each entity's discovery message, retained, then the current state of each entity that has a getter, so Home
+   * Assistant shows a value from the start rather than waiting on the first change.
+   *
+   * @returns A promise that resolves once the broker has acknowledged every message, or rejects on error or abort.
+   */
+  public async publish(): Promise<void> {
+
+    const signal = this.signal;
+
+    const announce = async ({ payload, topic }: HomeAssistantDiscoveryMessage): Promise<void> => {
+
+      await this.#client.publish(topic, JSON.stringify(payload), { prefixed: false, qos: 1, retain: true, signal });
+    };
+
+    await Promise.all(this.#messages().map(announce));
+
+    await Promise.all(this.#config.entities.map(async (entity) => {
+
+      if(("get" in entity) && entity.get) {
+
+        await this.#client.publish(entity.topic, entity.get(), { qos: 1, retain: true, signal });
+      }
+    }));
+  }
+
+  /**
+   * Withdraw the entities from Home Assistant and stop their handlers: the device has gone away. Each discovery message is replaced with an empty retained message,
+   * which is how Home Assistant is told to delete an entity, and the discovery then aborts with `HbpuAbortError("closed")`. A discovery that has already aborted has
+   * nothing left to withdraw with and resolves without publishing.
+   *
+   * The removals are bounded by a deadline, so a broker that is unreachable cannot hold the caller up: once it passes, the removals still waiting are given up and
+   * the discovery aborts all the same, leaving whichever entries the broker never acknowledged in place.
+   *
+   * @param init - Optional removal options. See {@link HomeAssistantDiscoveryRemoveInit}.
+   *
+   * @returns A promise that resolves once the broker has acknowledged every removal, or rejects on error or when the deadline passes first - with the platform's
+   *          `TimeoutError`, which {@link util!isTimeoutReason | isTimeoutReason} recognizes.
+   */
+  public async remove(init: HomeAssistantDiscoveryRemoveInit = {}): Promise<void> {
+
+    if(this.aborted) {
+
+      return;
+    }
+
+    const signal = composeSignals(this.signal, AbortSignal.timeout(init.timeout ?? HOME_ASSISTANT_REMOVE_TIMEOUT_MS));
+
+    try {
+
+      await Promise.all(this.#messages().map(async ({ topic }) => this.#client.publish(topic, "", { prefixed: false, qos: 1, retain: true, signal })));
+    } finally {
+
+      this.abort(new HbpuAbortError("closed"));
+    }
+  }
+
+  /**
+   * Abort the discovery and stop its handlers, leaving its entries in place. Defaults to `HbpuAbortError("shutdown")` when no reason is supplied; explicit reasons
+   * pass through unchanged. Safe to call more than once.
+   *
+   * @param reason - Optional abort reason.
+   */
+  public abort(reason?: unknown): void {
+
+    if(this.aborted) {
+
+      return;
+    }
+
+    this.#controller.abort(reason ?? new HbpuAbortError("shutdown"));
+  }
+
+  /**
+   * `AsyncDisposable` implementation. Disposing a discovery is its device going away, so this removes the entries. See {@link HomeAssistantDiscovery.remove}.
+   */
+  public async [Symbol.asyncDispose](): Promise<void> {
+
+    await this.remove();
+  }
+
+  /**
+   * `true` once `this.signal` has aborted. Derived from the signal; no independent state.
+   */
+  public get aborted(): boolean {
+
+    return this.signal.aborted;
+  }
+
+  // Build the discovery messages against the client's current prefix and availability.
+  #messages(): HomeAssistantDiscoveryMessage[] {
+
+    return buildHomeAssistantDiscovery({ availability: this.#client.availability, config: this.#config, topicPrefix: this.#client.topicPrefix });
+  }
+}
+
+// The fields particular to an entity's component: the topics it reads and writes, and the payloads that mean on and off. Binary states travel as `"true"` and
+// `"false"`, the same vocabulary the rest of this library's MQTT topics use, so Home Assistant is told so rather than assuming its `ON` and `OFF`.
+function componentFields(entity: HomeAssistantEntity, full: (topic: string) => string): Record<string, unknown> {
+
+  switch(entity.component) {
+
+    case "binary_sensor":
+
+      return { deviceClass: entity.deviceClass, payloadOff: "false", payloadOn: "true", stateTopic: full(entity.topic) };
+
+    case "button":
+
+      return { commandTopic: full(entity.topic + "/set"), payloadPress: "press" };
+
+    case "camera":
+
+      return { topic: full(entity.topic) };
+
+    case "sensor":
+
+      return { deviceClass: entity.deviceClass, stateClass: entity.stateClass, stateTopic: full(entity.topic), unitOfMeasurement: entity.unit };
+
+    case "switch":
+
+      return { commandTopic: full(entity.topic + "/set"), payloadOff: "false", payloadOn: "true", stateTopic: full(entity.topic) };
+
+    default:
+
+      // Exhaustive switch over the entity DU - unreachable while the DU and the cases above stay in sync.
+      throw new Error("HomeAssistantDiscovery: unknown entity component.");
+  }
+}
+
+// Rename the keys of a payload, nested objects included, from camelCase to the snake_case Home Assistant reads - `stateTopic` becomes `state_topic` - dropping
+// the fields left undefined. Building payloads in camelCase keeps them in this codebase's own vocabulary until the moment they leave it.
+function toHomeAssistantKeys(payload: Readonly<Record<string, unknown>>): Record<string, unknown> {
+
+  return Object.fromEntries(Object.entries(payload).filter(([ , value ]) => value !== undefined).map(([ key, value ]) => [
+    key.replace(/[A-Z]/g, (letter) => "_" + letter.toLowerCase()),
+    ((typeof value === "object") && (value !== null) && !Array.isArray(value)) ? toHomeAssistantKeys(value as Record<string, unknown>) : value
+  ]));
+}
+
+// Encode an identifier in the characters Home Assistant accepts in an object id, so a MAC address or a name with spaces still yields a valid discovery topic. Letters
+// and digits pass through; every other character becomes its code point in hex between two underscores - `AA:BB` becomes `AA_3a_BB` - so two different identifiers
+// never encode alike, as a plain substitution would have `a.b` and `a_b` do.
+function objectId(id: string): string {
+
+  return id.replace(/[^a-zA-Z0-9]/gu, (character) => "_" + (character.codePointAt(0) ?? 0).toString(16) + "_");
+}
@@ -0,0 +1,336 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * mqttQueue.test.ts: Unit tests for the MqttClient publish queue - the three full-queue policies, the settling of taken publishes, the depth metrics, and the
+ * round trip through the queue's file. Persistence runs against a real tmpdir scratch file; the client-side wiring is covered by the MqttClient suite.
+ */
+import type { MqttQueueConfig, MqttQueuedPublish } from "./mqttQueue.ts";
+import { capturingLog, silentLog } from "./testing.helpers.ts";
+import { describe, test } from "node:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { BackpressureOverflowError } from "./backpressure.ts";
+import { MqttPublishQueue } from "./mqttQueue.ts";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+// A queued publish to `topic`, at QoS 1 and retained - the shape of a state message.
+function message(topic: string, payload = "on"): MqttQueuedPublish {
+
+  return { options: { qos: 1, retain: true }, payload: Buffer.from(payload), topic };
+}
+
+// Construct a queue that logs nowhere.
+function makeQueue(config: MqttQueueConfig): MqttPublishQueue {
+
+  return new MqttPublishQueue(config, { log: silentLog() });
+}
+
+// Allocate a per-test scratch directory, removed on scope exit, and return the path of a queue file inside it.
+async function makeScratchFile(): Promise<AsyncDisposable & { path: string }> {
+
+  const directory = await mkdtemp(join(tmpdir(), "hbpu-mqtt-queue-"));
+
+  return {
+
+    path: join(directory, "queue.json"),
+    async [Symbol.asyncDispose](): Promise<void> {
+
+      await rm(directory, { force: true, recursive: true });
+    }
+  };
+}
+
+describe("MqttPublishQueue - policies", () => {
+
+  test("drop-oldest makes room by rejecting the oldest publish with the overflow error", async () => {
+
+    const queue = makeQueue({ limit: 2 });
+    const first = queue.enqueue(message("a"));
+
+    void queue.enqueue(message("b"));
+    void queue.enqueue(message("c"));
+
+    await assert.rejects(first, BackpressureOverflowError);
+    assert.deepEqual(queue.metrics, { depth: 2, dropped: 1, failed: 0, peakDepth: 2, rejected: 0, superseded: 0 });
+    assert.deepEqual(queue.take().map(({ message: { topic } }) => topic), [ "b", "c" ]);
+  });
+
+  test("reject-new refuses the new publish synchronously and keeps the queue as it was", () => {
+
+    const queue = makeQueue({ limit: 1, policy: "reject-new" });
+
+    void queue.enqueue(message("a"));
+
+    assert.throws(() => queue.enqueue(message("b")), BackpressureOverflowError);
+    assert.deepEqual(queue.take().map(({ message: { topic } }) => topic), ["a"]);
+    assert.equal(queue.metrics.rejected, 1);
+  });
+
+  test("keep-latest replaces a queued publish to the same topic, and the replaced caller settles with its replacement", async () => {
+
+    const queue = makeQueue({ limit: 2, policy: "keep-latest" });
+    const stale = queue.enqueue(message("state", "off"));
+    const fresh = queue.enqueue(message("state", "on"));
+
+    void queue.enqueue(message("event"));
+
+    const taken = queue.take();
+
+    assert.deepEqual(taken.map(({ message: { payload, topic } }) => [ topic, payload.toString() ]), [ [ "state", "on" ], [ "event", "on" ] ]);
+    assert.equal(queue.metrics.superseded, 1);
+
+    for(const { settle } of taken) {
+
+      settle();
+    }
+
+    await Promise.all([ stale, fresh ]);
+  });
+
+  test("keep-latest leaves a publish already being sent in place, and queues its replacement behind it", () => {
+
+    const queue = makeQueue({ limit: 10, policy: "keep-latest" });
+
+    void queue.enqueue(message("state", "off"));
+    queue.take();
+    void queue.enqueue(message("state", "on"));
+
+    assert.deepEqual(queue.take().map(({ message: { payload } }) => payload.toString()), ["on"]);
+    assert.deepEqual(queue.metrics, { depth: 2, dropped: 0, failed: 0, peakDepth: 2, rejected: 0, superseded: 0 });
+  });
+
+  test("keep-latest still drops the oldest publish once distinct topics fill the queue", async () => {
+
+    const queue = makeQueue({ limit: 1, policy: "keep-latest" });
+    const first = queue.enqueue(message("a"));
+
+    void queue.enqueue(message("b"));
+
+    await assert.rejects(first, BackpressureOverflowError);
+    assert.equal(queue.metrics.dropped, 1);
+  });
+});
+
+describe("MqttPublishQueue - taking and settling", () => {
+
+  test("take hands over the queue oldest first, and settle resolves or rejects the publish's callers", async () => {
+
+    const queue = makeQueue({ limit: 10 });
+    const sent = queue.enqueue(message("a"));
+    const failed = queue.enqueue(message("b"));
+
+    await queue.ready;
+
+    assert.equal(queue.idle, false);
+
+    const [ first, second ] = queue.take();
+
+    assert.equal(queue.idle, true, "a queue whose publishes are all being sent has nothing ahead of a new one");
+    first?.settle();
+    second?.settle(new Error("refused"));
+
+    await sent;
+    await assert.rejects(failed, /refused/);
+  });
+
+  test("a taken publish stays queued until it settles, is not taken twice, and is taken again after a failure", () => {
+
+    const queue = makeQueue({ limit: 10 });
+
+    void queue.enqueue(message("a")).catch(() => undefined);
+
+    const [taken] = queue.take();
+
+    void queue.enqueue(message("b"));
+
+    assert.deepEqual(queue.take().map(({ message: { topic } }) => topic), ["b"], "a publish being sent is left to that send");
+    assert.equal(queue.depth, 2);
+
+    taken?.settle(new Error("connection closed"));
+
+    assert.equal(queue.idle, false);
+
+    const [retried] = queue.take();
+
+    assert.equal(retried?.message.topic, "a");
+    retried.settle();
+    assert.equal(queue.depth, 1);
+  });
+
+  test("a publish that fails on each of its attempts leaves the queue, counted as failed", () => {
+
+    const queue = makeQueue({ limit: 10 });
+
+    void queue.enqueue(message("refused")).catch(() => undefined);
+
+    for(let attempt = 1; attempt <= 3; attempt++) {
+
+      assert.equal(queue.depth, 1, "attempt " + attempt.toString());
+      queue.take()[0]?.settle(new Error("not authorized"));
+    }
+
+    assert.equal(queue.idle, true);
+    assert.deepEqual(queue.metrics, { depth: 0, dropped: 0, failed: 1, peakDepth: 1, rejected: 0, superseded: 0 });
+  });
+});
+
+describe("MqttPublishQueue - withdrawal", () => {
+
+  test("a caller whose signal aborts takes its publish out of the queue, unless another caller shares it or it is being sent", async () => {
+
+    const queue = makeQueue({ limit: 10, policy: "keep-latest" });
+    const [ alone, shared, sending ] = [ new AbortController(), new AbortController(), new AbortController() ];
+    const withdrawn = queue.enqueue(message("event"), alone.signal);
+
+    alone.abort();
+
+    await assert.rejects(withdrawn, { name: "AbortError" });
+    assert.equal(queue.depth, 0);
+
+    const replaced = queue.enqueue(message("state", "off"), shared.signal);
+
+    void queue.enqueue(message("state", "on"));
+    shared.abort();
+
+    await assert.rejects(replaced, { name: "AbortError" });
+    assert.equal(queue.depth, 1, "the replacement still has a caller of its own");
+
+    const taken = queue.enqueue(message("snapshot"), sending.signal);
+
+    queue.take();
+    sending.abort();
+
+    await assert.rejects(taken, { name: "AbortError" });
+    assert.equal(queue.depth, 2, "a publish being sent cannot be called back");
+  });
+
+  test("a withdrawn publish leaves the queue's file too", async () => {
+
+    await using scratch = await makeScratchFile();
+    const queue = makeQueue({ limit: 10, path: scratch.path });
+    const controller = new AbortController();
+
+    await queue.ready;
+
+    const withdrawn = queue.enqueue(message("state"), controller.signal);
+
+    await queue.saved();
+    controller.abort();
+
+    await assert.rejects(withdrawn);
+    await queue.saved();
+
+    assert.equal(await readFile(scratch.path, "utf8"), "[]");
+  });
+});
+
+describe("MqttPublishQueue - persistence", () => {
+
+  test("restores what an earlier queue left in its file, payloads and options intact", async () => {
+
+    await using scratch = await makeScratchFile();
+    const earlier = makeQueue({ limit: 10, path: scratch.path });
+
+    await earlier.ready;
+    void earlier.enqueue(message("state", "on"));
+    void earlier.enqueue({ options: { qos: 0, retain: false }, payload: Buffer.from([ 0, 255 ]), topic: "snapshot" });
+    await earlier.saved();
+
+    const later = makeQueue({ limit: 10, path: scratch.path });
+
+    assert.equal(later.idle, false, "a queue is not idle until its file has been read");
+    await later.ready;
+
+    assert.deepEqual(later.take().map(({ message: queued }) => queued), [ message("state", "on"), { options: { qos: 0, retain: false },
+      payload: Buffer.from([ 0, 255 ]), topic: "snapshot" } ]);
+  });
+
+  test("keeps a taken publish in the file until it is sent, so one lost mid-flight is sent again after a restart, and one sent is not", async () => {
+
+    await using scratch = await makeScratchFile();
+    const queue = makeQueue({ limit: 10, path: scratch.path });
+
+    await queue.ready;
+    void queue.enqueue(message("state")).catch(() => undefined);
+
+    const [taken] = queue.take();
+
+    taken?.settle(new Error("connection closed"));
+    await queue.saved();
+
+    const later = makeQueue({ limit: 10, path: scratch.path });
+
+    await later.ready;
+
+    assert.deepEqual(later.take().map(({ message: queued }) => queued), [message("state")]);
+
+    queue.take()[0]?.settle();
+    await queue.saved();
+
+    assert.equal(await readFile(scratch.path, "utf8"), "[]");
+  });
+
+  test("restored publishes queue ahead of newer ones and give way first when the limit is reached", async () => {
+
+    await using scratch = await makeScratchFile();
+
+    await writeFile(scratch.path, JSON.stringify([ "a", "b", "c" ].map((topic) => ({ options: { qos: 1, retain: true }, payload: "", topic }))));
+
+    const queue = makeQueue({ limit: 3, path: scratch.path });
+
+    void queue.enqueue(message("live"));
+    await queue.ready;
+
+    assert.deepEqual(queue.take().map(({ message: { topic } }) => topic), [ "b", "c", "live" ]);
+    assert.equal(queue.metrics.dropped, 1, "the restored publish that gave way is counted");
+  });
+
+  test("keep-latest restores only the newest publish to each topic, and none for a topic published to since", async () => {
+
+    await using scratch = await makeScratchFile();
+
+    const stored = [ [ "a", "MQ==" ], [ "b", "" ], [ "a", "Mg==" ], [ "live", "" ] ].map(([ topic, payload ]) => ({ options: { qos: 1, retain: true }, payload, topic }));
+
+    await writeFile(scratch.path, JSON.stringify(stored));
+
+    const queue = makeQueue({ limit: 10, path: scratch.path, policy: "keep-latest" });
+
+    void queue.enqueue(message("live"));
+    await queue.ready;
+
+    assert.deepEqual(queue.take().map(({ message: { payload, topic } }) => [ topic, payload.toString() ]), [ [ "b", "" ], [ "a", "2" ], [ "live", "on" ] ]);
+  });
+
+  test("starts empty without a word when the file does not exist, and logs when it cannot be read", async () => {
+
+    await using scratch = await makeScratchFile();
+    const log = capturingLog();
+
+    await new MqttPublishQueue({ limit: 10, path: scratch.path }, { log }).ready;
+
+    assert.equal(log.entries.length, 0);
+
+    await writeFile(scratch.path, "{ not json");
+
+    const queue = new MqttPublishQueue({ limit: 10, path: scratch.path }, { log });
+
+    await queue.ready;
+
+    assert.equal(queue.idle, true);
+    assert.deepEqual(log.entries.map(({ level }) => level), ["error"]);
+  });
+
+  test("skips entries in the file that do not have the shape the queue writes", async () => {
+
+    await using scratch = await makeScratchFile();
+
+    await writeFile(scratch.path, JSON.stringify([ { options: { qos: 3 }, payload: "", topic: "a" }, { payload: "", topic: "b" }, null,
+      { options: { qos: 1 }, payload: "", topic: "c" } ]));
+
+    const queue = makeQueue({ limit: 10, path: scratch.path });
+
+    await queue.ready;
+
+    assert.deepEqual(queue.take().map(({ message: { topic } }) => topic), ["c"]);
+  });
+});
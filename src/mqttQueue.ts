@@ -0,0 +1,510 @@
+/* Copyright(C) 2017-2026, HJD (https://github.com/hjdhjd). All rights reserved.
+ *
+ * mqttQueue.ts: Bounded outbound queue that holds an MqttClient's publishes while its broker is unreachable.
+ */
+
+/**
+ * Bounded outbound queue for {@link mqttClient!MqttClient | MqttClient} publishes made while the broker is unreachable.
+ *
+ * Without a queue, a publish made during a broker outage sits in mqtt.js's unbounded in-memory buffer until the connection returns or the caller gives up. With one,
+ * the client holds those publishes here instead: the queue is bounded, a policy decides what gives way when it fills, an optional file keeps its contents across a
+ * Homebridge restart, and {@link MqttPublishQueue.metrics} reports how deep it runs. The client drains the queue, in order, each time it connects.
+ *
+ * A full queue answers with {@link backpressure!BackpressureOverflowError | BackpressureOverflowError}, the same error a full
+ * {@link backpressure!BackpressureWriter | BackpressureWriter} throws, so a caller backs off from either in the same way.
+ *
+ * @module
+ */
+import { formatErrorMessage, markHandled, onAbort } from "./util.ts";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { BackpressureOverflowError } from "./backpressure.ts";
+import type { HomebridgePluginLogging } from "./util.ts";
+import type { IClientPublishOptions } from "mqtt";
+
+/**
+ * What gives way when a publish arrives at a full {@link MqttPublishQueue}.
+ *
+ * - `"drop-oldest"` - the oldest queued publish is dropped to make room, and its caller's promise rejects with
+ *   {@link backpressure!BackpressureOverflowError | BackpressureOverflowError}.
+ * - `"keep-latest"` - a publish replaces any queued publish to the same topic, whose caller then settles with the replacement, so a state topic only ever waits with
+ *   its latest value. A queue still full after that drops its oldest publish, as `"drop-oldest"` does.
+ * - `"reject-new"` - the new publish is refused with {@link backpressure!BackpressureOverflowError | BackpressureOverflowError}, and the queue keeps what it has.
+ *
+ * @category Utilities
+ */
+export type MqttQueuePolicy = "drop-oldest" | "keep-latest" | "reject-new";
+
+/**
+ * Configuration for an {@link MqttPublishQueue}, supplied through {@link mqttClient!MqttConfig.queue | MqttConfig.queue}.
+ *
+ * @property limit  - The most publishes the queue holds at once.
+ * @property path   - Optional file the queue keeps its contents in, so publishes still waiting when Homebridge stops are sent after it starts again. Omit to hold the
+ *                    queue in memory only.
+ * @property policy - Optional policy for a full queue. Defaults to `"drop-oldest"`. See {@link MqttQueuePolicy}.
+ *
+ * @category Utilities
+ */
+export interface MqttQueueConfig {
+
+  limit: number;
+  path?: string;
+  policy?: MqttQueuePolicy;
+}
+
+/**
+ * A snapshot of an {@link MqttPublishQueue}'s depth and of what it has turned away since construction.
+ *
+ * @property depth      - The publishes queued now, including those taken to be sent that have yet to complete.
+ * @property dropped    - The publishes dropped to make room for newer ones, including those restored from the queue's file beyond its limit.
+ * @property failed     - The publishes dropped after every attempt to send them failed.
+ * @property peakDepth  - The deepest the queue has been.
+ * @property rejected   - The publishes refused because the queue was full.
+ * @property superseded - The publishes replaced by a newer publish to the same topic.
+ *
+ * @category Utilities
+ */
+export interface MqttQueueMetrics {
+
+  depth: number;
+  dropped: number;
+  failed: number;
+  peakDepth: number;
+  rejected: number;
+  superseded: number;
+}
+
+/**
+ * A publish held by an {@link MqttPublishQueue}: the full topic, the payload, and the mqtt.js options it was resolved to when it was made.
+ *
+ * @property options - The resolved publish options.
+ * @property payload - The payload.
+ * @property topic   - The full topic, prefix included.
+ *
+ * @category Utilities
+ */
+export interface MqttQueuedPublish {
+
+  options: IClientPublishOptions;
+  payload: Buffer;
+  topic: string;
+}
+
+/**
+ * A publish taken from an {@link MqttPublishQueue} to be sent, with the callback that settles it once the send completes.
+ *
+ * @property message - The publish to send.
+ * @property settle  - Settles the publish. Without `error`, the publish leaves the queue and its callers resolve. With one, its callers reject with `error`, and
+ *                     the publish stays queued to be sent again - unless this was its last attempt, when it leaves the queue and counts as failed.
+ *
+ * @category Utilities
+ */
+export interface MqttQueueEntry {
+
+  message: MqttQueuedPublish;
+  settle: (error?: Error) => void;
+}
+
+/**
+ * Construction-time options for {@link MqttPublishQueue}.
+ *
+ * @property log - Logger for persistence failures, which never reach a caller: a queue that cannot read or write its file keeps working in memory.
+ *
+ * @category Utilities
+ */
+export interface MqttPublishQueueInit {
+
+  log: HomebridgePluginLogging;
+}
+
+// A queued publish and the callers waiting on it. A publish that replaces another under `"keep-latest"` inherits the replaced publish's callers, so one entry can
+// answer several. `sending` marks a publish taken to be sent that has yet to settle: the connection carries it now, so it is neither taken again nor given way.
+// `attempts` counts the times it has been taken, so a publish the broker refuses every time gives way rather than wait at the head of the queue forever.
+interface PendingPublish {
+
+  attempts: number;
+  message: MqttQueuedPublish;
+  sending: boolean;
+  waiters: PromiseWithResolvers<void>[];
+}
+
+// The shape each publish takes on disk. Payloads are stored as base64 so binary payloads survive the round trip through JSON.
+interface StoredPublish {
+
+  options: IClientPublishOptions;
+  payload: string;
+  topic: string;
+}
+
+// How many times a queued publish is taken to be sent before a failure drops it. A publish cut off by a dropped connection gets another attempt on the next
+// connect, but one the broker refuses outright would be refused again on every retry, so the attempts are capped.
+const MAX_ATTEMPTS = 3;
+
+// The message every overflow carries, so a caller reading the log sees which queue turned the publish away.
+const OVERFLOW_MESSAGE = "MqttPublishQueue: queue depth exceeds the configured limit.";
+
+/**
+ * Bounded, optionally persistent FIFO of publishes waiting for a broker connection. {@link mqttClient!MqttClient | MqttClient} owns one when
+ * {@link mqttClient!MqttConfig.queue | MqttConfig.queue} is set: it enqueues while disconnected and takes the whole queue to send each time it connects.
+ *
+ * Queued publishes are kept in the order they were made. Every change is written to the configured file in the background, replacing it atomically, so a restart
+ * finds either the old contents or the new ones, never a mix. A publish leaves the queue - and the file - only once it has been sent and has completed for its QoS
+ * level, so one still in flight when Homebridge stops or crashes is sent again after it starts: a queued publish is delivered at least once. A publish whose send
+ * fails is kept for another attempt, up to three in all, after which it is dropped and counted in {@link MqttQueueMetrics.failed}.
+ *
+ * @example
+ *
+ * ```ts
+ * import { MqttClient } from "homebridge-plugin-utils";
+ *
+ * const mqtt = new MqttClient({ brokerUrl, log, queue: { limit: 500, path: join(api.user.storagePath(), "mqtt-queue.json"), policy: "keep-latest" },
+ *   topicPrefix: "homebridge" });
+ *
+ * // Later, in a diagnostics view.
+ * log.info("MQTT queue depth: %s.", mqtt.queueMetrics?.depth);
+ * ```
+ *
+ * @category Utilities
+ */
+export class MqttPublishQueue {
+
+  /**
+   * Resolves once the queue has restored whatever its file held. Publishes restored from the file are older than any made since, so they queue ahead of them. Never
+   * rejects: an unreadable file is logged and the queue starts empty.
+   */
+  public readonly ready: Promise<void>;
+
+  readonly #entries: PendingPublish[];
+  readonly #limit: number;
+  readonly #log: HomebridgePluginLogging;
+  readonly #metrics: Omit<MqttQueueMetrics, "depth">;
+  readonly #path: string | undefined;
+  readonly #policy: MqttQueuePolicy;
+  #dirty: boolean;
+  #isReady: boolean;
+  #saving: Promise<void> | undefined;
+
+  /**
+   * Create the queue and begin restoring its file, when one is configured.
+   *
+   * @param config - The queue's limit, policy, and file. See {@link MqttQueueConfig}.
+   * @param init   - Construction-time options. See {@link MqttPublishQueueInit}.
+   */
+  public constructor(config: MqttQueueConfig, init: MqttPublishQueueInit) {
+
+    this.#dirty = false;
+    this.#entries = [];
+    this.#isReady = false;
+    this.#limit = config.limit;
+    this.#log = init.log;
+    this.#metrics = { dropped: 0, failed: 0, peakDepth: 0, rejected: 0, superseded: 0 };
+    this.#path = config.path;
+    this.#policy = config.policy ?? "drop-oldest";
+
+    this.ready = markHandled(this.#restore());
+  }
+
+  /**
+   * Queue a publish under the configured policy.
+   *
+   * @param message - The publish to queue.
+   * @param signal  - Optional. The caller's own signal for this publish. When it aborts, the caller's promise rejects with the abort reason, and the publish leaves
+   *                  the queue unless another caller still waits on it or it is already being sent.
+   *
+   * @returns A promise that resolves once the publish has been sent and has completed for its QoS level, or rejects when it fails, is dropped, or is refused.
+   *
+   * @throws {@link backpressure!BackpressureOverflowError | BackpressureOverflowError} (thrown synchronously) when the policy is `"reject-new"` and the queue is full.
+   */
+  public enqueue(message: MqttQueuedPublish, signal?: AbortSignal): Promise<void> {
+
+    if((this.#policy === "reject-new") && (this.#entries.length >= this.#limit)) {
+
+      this.#metrics.rejected++;
+
+      throw new BackpressureOverflowError(OVERFLOW_MESSAGE);
+    }
+
+    const waiter: PromiseWithResolvers<void> = Promise.withResolvers();
+    const waiters = [waiter];
+
+    // Under `"keep-latest"`, the publish takes the place of any queued publish to the same topic, and answers its callers too.
+    if(this.#policy === "keep-latest") {
+
+      const index = this.#entries.findIndex((entry) => !entry.sending && (entry.message.topic === message.topic));
+
+      if(index !== -1) {
+
+        waiters.unshift(...(this.#entries.splice(index, 1)[0]?.waiters ?? []));
+        this.#metrics.superseded++;
+      }
+    }
+
+    this.#entries.push({ attempts: 0, message, sending: false, waiters });
+    this.#trim();
+    this.#changed();
+
+    // A caller that gives up takes its publish with it, rather than leave it to be sent later on behalf of no one. The listener goes once the publish settles.
+    if(signal) {
+
+      const registration = onAbort(signal, () => this.#withdraw(waiter, signal.reason));
+
+      void markHandled(waiter.promise.finally(() => registration[Symbol.dispose]()));
+    }
+
+    return waiter.promise;
+  }
+
+  /**
+   * Take every queued publish not already being sent, oldest first. The caller sends each one and settles it through its entry's `settle` callback. A taken
+   * publish stays in the queue - and in its file - until it settles without an error, and a later take leaves it to the send already under way.
+   *
+   * @returns The publishes to send, in the order they were made.
+   */
+  public take(): MqttQueueEntry[] {
+
+    return this.#entries.filter(({ sending }) => !sending).map((entry) => {
+
+      entry.attempts++;
+      entry.sending = true;
+
+      return { message: entry.message, settle: (error?: Error): void => this.#settle(entry, error) };
+    });
+  }
+
+  /**
+   * Resolves once the queue's file reflects every change made so far. Resolves immediately for a queue without a file. Never rejects: a failed write is logged.
+   */
+  public async saved(): Promise<void> {
+
+    await this.#saving;
+  }
+
+  /**
+   * The number of publishes queued now.
+   */
+  public get depth(): number {
+
+    return this.#entries.length;
+  }
+
+  /**
+   * `true` once the queue has restored its file and holds nothing waiting to be taken: a publish made now has nothing queued ahead of it that the connection is not
+   * already carrying.
+   */
+  public get idle(): boolean {
+
+    return this.#isReady && this.#entries.every(({ sending }) => sending);
+  }
+
+  /**
+   * A snapshot of the queue's depth and of what it has turned away. See {@link MqttQueueMetrics}.
+   */
+  public get metrics(): MqttQueueMetrics {
+
+    return { ...this.#metrics, depth: this.#entries.length };
+  }
+
+  // Drop the oldest publishes until the queue is back within its limit, rejecting their callers with the overflow error. A publish being sent cannot be called
+  // back, so it keeps its place and the oldest one still waiting gives way instead.
+  #trim(): void {
+
+    while(this.#entries.length > this.#limit) {
+
+      const index = this.#entries.findIndex(({ sending }) => !sending);
+
+      if(index === -1) {
+
+        break;
+      }
+
+      this.#metrics.dropped++;
+
+      for(const { reject } of this.#entries.splice(index, 1)[0]?.waiters ?? []) {
+
+        reject(new BackpressureOverflowError(OVERFLOW_MESSAGE));
+      }
+    }
+
+    this.#metrics.peakDepth = Math.max(this.#metrics.peakDepth, this.#entries.length);
+  }
+
+  // Withdraw a caller that gave up, rejecting its promise with `reason`. The publish leaves the queue with its last caller, unless it is already being sent, which
+  // cannot be called back.
+  #withdraw(waiter: PromiseWithResolvers<void>, reason: unknown): void {
+
+    const entry = this.#entries.find(({ waiters }) => waiters.includes(waiter));
+
+    if(!entry) {
+
+      return;
+    }
+
+    entry.waiters.splice(entry.waiters.indexOf(waiter), 1);
+    waiter.reject(reason);
+
+    if(!entry.waiters.length && !entry.sending) {
+
+      this.#entries.splice(this.#entries.indexOf(entry), 1);
+      this.#changed();
+    }
+  }
+
+  // Settle a taken publish. One that went out leaves the queue and its file, and its callers resolve. One that failed - including one still in flight when the
+  // connection was torn down - stays queued to be sent again, as a publish restored from the file would be, until it has used its attempts, while its callers are
+  // rejected now rather than held for a retry they cannot see.
+  #settle(entry: PendingPublish, error?: Error): void {
+
+    entry.sending = false;
+
+    const index = this.#entries.indexOf(entry);
+
+    if((!error || (entry.attempts >= MAX_ATTEMPTS)) && (index !== -1)) {
+
+      if(error) {
+
+        this.#metrics.failed++;
+      }
+
+      this.#entries.splice(index, 1);
+      this.#changed();
+    }
+
+    for(const { reject, resolve } of entry.waiters.splice(0)) {
+
+      if(error) {
+
+        reject(error);
+
+        continue;
+      }
+
+      resolve();
+    }
+  }
+
+  // Record that the queue's contents changed, and write them out when the queue has a file. Writes never overlap: a change made while a write is in flight is picked
+  // up by the loop in `#save` once that write finishes, so the file always ends on the latest contents.
+  #changed(): void {
+
+    if(!this.#path) {
+
+      return;
+    }
+
+    this.#dirty = true;
+    this.#saving ??= this.#save(this.#path).finally(() => {
+
+      this.#saving = undefined;
+    });
+  }
+
+  // Write the queue to its file until no change remains unwritten. Each write goes to a temporary file renamed over the original, so a crash mid-write leaves the
+  // previous contents intact.
+  async #save(path: string): Promise<void> {
+
+    while(this.#dirty) {
+
+      this.#dirty = false;
+
+      const stored: StoredPublish[] = this.#entries.map(({ message }) => ({ options: message.options, payload: message.payload.toString("base64"),
+        topic: message.topic }));
+
+      try {
+
+        // eslint-disable-next-line no-await-in-loop
+        await writeFile(path + ".tmp", JSON.stringify(stored));
+        // eslint-disable-next-line no-await-in-loop
+        await rename(path + ".tmp", path);
+      } catch(error) {
+
+        this.#log.error("MQTT: unable to save the publish queue to %s: %s.", path, formatErrorMessage(error));
+      }
+    }
+  }
+
+  // Restore the publishes the queue's file held. They queue ahead of anything published while the file was being read, and when together they exceed the limit, the
+  // oldest restored publishes give way, counted as dropped - they have no caller waiting on them. A missing file is an empty queue, not an error.
+  async #restore(): Promise<void> {
+
+    try {
+
+      if(!this.#path) {
+
+        return;
+      }
+
+      let restored: PendingPublish[];
+
+      try {
+
+        restored = parseStoredPublishes(await readFile(this.#path, "utf8")).map((message) => ({ attempts: 0, message, sending: false, waiters: [] }));
+      } catch(error) {
+
+        if((error as NodeJS.ErrnoException).code !== "ENOENT") {
+
+          this.#log.error("MQTT: unable to restore the publish queue from %s: %s.", this.#path, formatErrorMessage(error));
+        }
+
+        return;
+      }
+
+      // Under `"keep-latest"`, only the last restored publish to each topic survives, and none survives for a topic already published to since.
+      if(this.#policy === "keep-latest") {
+
+        const latest = new Map<string, PendingPublish>();
+        const live = new Set(this.#entries.map(({ message }) => message.topic));
+
+        for(const entry of restored) {
+
+          latest.delete(entry.message.topic);
+          latest.set(entry.message.topic, entry);
+        }
+
+        restored = [...latest.values()].filter(({ message }) => !live.has(message.topic));
+      }
+
+      const excess = Math.max(0, restored.length - Math.max(0, this.#limit - this.#entries.length));
+
+      this.#metrics.dropped += excess;
+      this.#entries.unshift(...restored.slice(excess));
+      this.#metrics.peakDepth = Math.max(this.#metrics.peakDepth, this.#entries.length);
+    } finally {
+
+      this.#isReady = true;
+    }
+  }
+}
+
+// Parse the contents of a queue file, keeping each entry that has the shape the queue writes and skipping any that does not.
+function parseStoredPublishes(text: string): MqttQueuedPublish[] {
+
+  const parsed: unknown = JSON.parse(text);
+
+  if(!Array.isArray(parsed)) {
+
+    throw new Error("MqttPublishQueue: queue file is not an array.");
+  }
+
+  return (parsed as unknown[]).flatMap((entry) => {
+
+    if(!isStoredPublish(entry)) {
+
+      return [];
+    }
+
+    return [{ options: entry.options, payload: Buffer.from(entry.payload, "base64"), topic: entry.topic }];
+  });
+}
+
+// Narrow a parsed queue-file entry to the shape the queue writes.
+function isStoredPublish(value: unknown): value is StoredPublish {
+
+  if((typeof value !== "object") || (value === null)) {
+
+    return false;
+  }
+
+  const { options, payload, topic } = value as Record<string, unknown>;
+
+  return (typeof options === "object") && (options !== null) && [ 0, 1, 2 ].includes((options as Record<string, unknown>)["qos"] as number) &&
+    (typeof payload === "string") && (typeof topic === "string");
+}
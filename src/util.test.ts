@@ -1986,6 +1986,10 @@ describe("prefixedLog", () => {
   });
 });
 
+// Intl separates a number from its unit with whichever space the locale's data names - often a no-break or narrow no-break space - so the locale tests compare
+// with every space folded to a plain one.
+const spaced = (text: string): string => text.replace(/\s/gu, " ");
+
 describe("formatBps", () => {
 
   test("returns bits per second for sub-1000 values", () => {
@@ -2024,6 +2028,16 @@ describe("formatBps", () => {
     assert.equal(formatBps(2560000), "2.6 Mbps");
     assert.equal(formatBps(1500000), "1.5 Mbps");
   });
+
+  test("renders in a locale's decimal separator and unit labels, and in English for an English, unknown, or malformed locale", () => {
+
+    assert.equal(spaced(formatBps(2560000, "de")), "2,6 Mb/s");
+    assert.equal(spaced(formatBps(500.25, "de")), "500,25 Bit/s", "the raw rung keeps every fraction digit, as it does in English");
+    assert.equal(spaced(formatBps(2000, "fr")), "2 kbit/s");
+    assert.equal(formatBps(2560000, "en-GB"), "2.6 Mbps");
+    assert.equal(formatBps(2560000, "zz"), "2.6 Mbps");
+    assert.equal(formatBps(2560000, "not a locale"), "2.6 Mbps");
+  });
 });
 
 describe("formatBytes", () => {
@@ -2084,6 +2098,13 @@ describe("formatBytes", () => {
 
     assert.equal(formatBytes(1.5 * 1099511627776), "1.5 TB");
   });
+
+  test("renders in a locale's decimal separator and unit labels", () => {
+
+    assert.equal(spaced(formatBytes(512, "fr")), "512 o");
+    assert.equal(spaced(formatBytes(1536, "fr")), "1,5 ko");
+    assert.equal(spaced(formatBytes(2048, "de")), "2 kB");
+  });
 });
 
 describe("formatErrorMessage", () => {
@@ -2153,6 +2174,13 @@ describe("formatMs", () => {
     assert.equal(formatMs(3600000), "1 hr");
     assert.equal(formatMs(5400000), "1.5 hr");
   });
+
+  test("renders in a locale's decimal separator and unit labels", () => {
+
+    assert.equal(spaced(formatMs(250, "de")), "250 ms");
+    assert.equal(spaced(formatMs(1500, "de")), "1,5 Sek.");
+    assert.equal(spaced(formatMs(5400000, "fr")), "1,5 h");
+  });
 });
 
 describe("formatPercent", () => {
@@ -2173,6 +2201,12 @@ describe("formatPercent", () => {
     assert.equal(formatPercent(0.5), "0.5%");
     assert.equal(formatPercent(75.5), "75.5%");
   });
+
+  test("renders in a locale's decimal separator and percent sign", () => {
+
+    assert.equal(spaced(formatPercent(33.333, "de")), "33,3 %");
+    assert.equal(formatPercent(50, "en-US"), "50%");
+  });
 });
 
 describe("formatSeconds", () => {
@@ -2196,6 +2230,12 @@ describe("formatSeconds", () => {
     assert.equal(formatSeconds(3600), "1 hr");
     assert.equal(formatSeconds(5400), "1.5 hr");
   });
+
+  test("renders in a locale's decimal separator and unit labels", () => {
+
+    assert.equal(spaced(formatSeconds(45, "fr")), "45 s");
+    assert.equal(spaced(formatSeconds(5400, "de")), "1,5 Std.");
+  });
 });
 
 describe("defaultRetryBackoff", () => {
@@ -10,6 +10,7 @@
  */
 import type { Logging } from "homebridge";
 import { setTimeout as delay } from "node:timers/promises";
+import { onAbort } from "./abort.ts";
 
 // Validates a name against HomeKit's naming conventions. Compiled once at module scope since this sits on the fast path of sanitizeName().
 const VALID_HOMEKIT_NAME = /^(?!.*\p{Extended_Pictographic})(?!.* {2})(?=^[\p{L}\p{N}].*[\p{L}\p{N}.]$)[\p{L}\p{N}\-"'.,#& ]+$/u;
@@ -23,12 +24,6 @@ const NEVER_ABORTED_SIGNAL = new AbortController().signal;
 // reaction is a single function-reference pass rather than a fresh closure allocation per call.
 const MARK_HANDLED_NOOP = (): void => { /* Intentionally empty. */ };
 
-// Shared no-op `Disposable` returned by {@link onAbort} on the pre-aborted branch (where no listener was registered and there is nothing to remove). Hoisted to
-// module scope so every pre-aborted call reuses one instance instead of allocating a fresh object + arrow pair - matching the established pattern for other shared
-// module-scope constants in this file (`NEVER_ABORTED_SIGNAL`, `MARK_HANDLED_NOOP`). Safe to share because the disposer is stateless, repeatable, and side-effect
-// free: `[Symbol.dispose]()` can be invoked any number of times from any call site without interference.
-const NO_OP_DISPOSABLE: Disposable = { [Symbol.dispose]: (): void => { /* No listener was registered on the pre-aborted path - nothing to remove. */ } };
-
 /**
  * The canonical set of abort reasons used across `homebridge-plugin-utils`.
  *
@@ -183,90 +178,6 @@ export function isTimeoutReason(reason: unknown): boolean {
   return (reason instanceof Error) && (reason.name === "TimeoutError");
 }
 
-/**
- * Register a one-shot abort handler on `signal` and return a {@link Disposable} whose `[Symbol.dispose]` removes the listener. If `signal` is already aborted at
- * call time, `handler` runs inline and the returned handle is a no-op disposer.
- *
- * Closes the well-known pitfall in `AbortSignal.addEventListener("abort", ...)`: listeners attached to an already-aborted signal **do not fire**, so constructors
- * that take a parent signal and attach teardown logic via `addEventListener` silently skip that teardown when the parent is pre-aborted. This helper unifies the
- * register-or-dispatch-immediately shape so every caller handles both cases without re-implementing the check.
- *
- * Returning a `Disposable` serves more than one usage pattern through one primitive:
- *
- * - **Long-lived resource-class registrations** (the common case): every HBPU resource class registers its `#teardown` handler in its constructor, intending the
- *   listener to live until the composed signal aborts. These callers discard the return value; the `{ once: true }` listener auto-unregisters on fire.
- * - **Scope-bound transient registrations**: observers that only need the listener for a bounded scope (e.g., {@link waitWithSignal}) capture the handle with
- *   `using` so the listener is deterministically removed on scope exit even when the promise resolves before the signal aborts. This prevents listener accumulation
- *   on long-lived signals that see many short waits.
- *
- * The handler runs at most once: on normal abort, via the `{ once: true }` option on `addEventListener`; on pre-aborted signals, via a direct call here. The caller
- * still decides what to do with the rest of its setup - a constructor that wants to short-circuit further initialization after a pre-aborted signal typically pairs
- * this call with a subsequent `if(signal.aborted) return;` check.
- *
- * @param signal  - The abort signal to observe.
- * @param handler - The teardown or cleanup action to run once on abort. Invoked synchronously when `signal.aborted` is already `true` at call time; otherwise
- *                  attached as a one-shot `"abort"` listener.
- *
- * @returns A {@link Disposable} handle. `[Symbol.dispose]` removes the abort listener (no-op on the pre-aborted path and after the listener has already fired).
- *
- * @example
- *
- * ```ts
- * // Long-lived resource-class registration: discard the returned disposer. The listener lives until the composed signal aborts and `{ once: true }` cleans it up.
- * constructor(init: { signal?: AbortSignal }) {
- *
- *   this.signal = composeSignals(init.signal, this.#controller.signal);
- *
- *   onAbort(this.signal, () => this.#teardown());
- *
- *   if(this.signal.aborted) {
- *
- *     return;
- *   }
- *
- *   // ...proceed with setup that only makes sense on a live signal.
- * }
- * ```
- *
- * @example
- *
- * ```ts
- * // Scope-bound transient registration: capture the handle with `using` so the listener auto-removes when the scope exits, even if the signal never aborts.
- * async function abortableWait<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
- *
- *   using _registration = onAbort(signal, () => {
- *     // Abort-driven action goes here.
- *   });
- *
- *   // `return await promise` (not a bare `return promise`) is required inside an async function. `using` disposes when the enclosing function body finishes
- *   // executing, and without an `await` the body finishes synchronously at the `return` statement - even though the returned promise is still pending. The
- *   // listener would therefore be removed the instant the function returned, well before the promise settles. Adding `await` creates a suspension point that
- *   // keeps the `using` scope alive until the promise actually settles, which is what the "scope-bound registration" pattern relies on.
- *   return await promise;
- * }
- * ```
- *
- * @category Utilities
- */
-export function onAbort(signal: AbortSignal, handler: () => void): Disposable {
-
-  if(signal.aborted) {
-
-    handler();
-
-    // Pre-aborted path never registered a listener, so there is nothing to remove. Return the module-scope {@link NO_OP_DISPOSABLE} singleton so the caller's `using`
-    // declaration compiles cleanly and explicit `[Symbol.dispose]()` invocations remain a safe no-op, without allocating a fresh object + arrow pair per call.
-    return NO_OP_DISPOSABLE;
-  }
-
-  signal.addEventListener("abort", handler, { once: true });
-
-  // The returned handle lets scope-bound observers remove themselves deterministically when the scope exits, preventing listener accumulation on long-lived signals
-  // that serve many short-lived waits. `removeEventListener` does nothing - calling it after the listener has already fired (and been auto-removed by `{ once: true }`)
-  // is a safe no-op.
-  return { [Symbol.dispose]: (): void => signal.removeEventListener("abort", handler) };
-}
-
 /**
  * Attach a shared no-op rejection handler to `promise` so that if it rejects and no other observer is attached, Node does not emit an `UnhandledPromiseRejection`
  * warning. Returns the original promise so callers can mark-and-assign in one expression.
@@ -604,6 +515,10 @@ export function prefixedLog(base: Logger, prefix: () => string): HomebridgePlugi
 // always did. The single SSOT is `formatters.ts`; this file is just a forwarding re-export.
 export { formatBps, formatBytes, formatMs, formatPercent, formatSeconds } from "./formatters.ts";
 
+// Re-export `onAbort` from the browser-safe `abort.ts` module, for the same reason as the formatters above: `featureOptions.ts` registers its watcher teardown
+// through it, and the server-side public API keeps surfacing it from here.
+export { onAbort } from "./abort.ts";
+
 /**
  * Render an arbitrary thrown value as a clean log-suffix string. Real `Error` instances surface their `.message`; everything else is coerced through `String(...)`.
  * A trailing period is stripped in either case so the embedding log line (which itself ends in a period) does not produce ".." at the end of the rendered output.
@@ -6,9 +6,9 @@
 
 import { DeadlineExpiredError, withDeadline } from "./webUi-liveness.mjs";
 import { FeatureOptionsStore, effect } from "./webUi-featureOptions/store.mjs";
+import { buildCatalogIndex, localizeCatalog, migrateConfiguredOptions } from "./featureOptions.js";
 import { connectionFailureCopy, initialState, reducer } from "./webUi-featureOptions/state.mjs";
 import { createElement, delay, errorMessage, paintMenuTabs, toastError } from "./webUi-featureOptions/utils.mjs";
-import { buildCatalogIndex } from "./featureOptions.js";
 import { modelLoaded } from "./webUi-featureOptions/selectors.mjs";
 import { mountConnectionErrorView } from "./webUi-featureOptions/views/connectionError.mjs";
 import { mountDeviceInfoView } from "./webUi-featureOptions/views/deviceInfo.mjs";
@@ -60,6 +60,8 @@ const GLOBAL_ONLY_REGION_IDS = REGION_IDS.filter((id) => !GLOBAL_ONLY_HIDDEN_REG
 
 /**
  * @typedef {Object} Device
+ * @property {string[]} [capabilities] - Optional. The capabilities the device has, matched against each option's `requires`. A device view does not offer an option
+ *   the device lacks a required capability for. Absent means unknown, which offers every option.
  * @property {string} firmwareRevision - The firmware version of the device.
  * @property {string} manufacturer - The manufacturer of the device.
  * @property {string} model - The model identifier of the device.
@@ -188,6 +190,9 @@ const GLOBAL_ONLY_REGION_IDS = REGION_IDS.filter((id) => !GLOBAL_ONLY_HIDDEN_REG
  * @property {number} [ui.controllerRetryEnableDelayMs=5000] - Interval before enabling a retry button when connecting to a controller.
  * @property {Function} [ui.isController] - Identifies the controller-as-device row in a device list. The nav view groups the sidebar by it, and the projection
  *   derives the controller's scoping identity - the serial its controller-scope entries are keyed by - from the row it names.
+ * @property {string} [ui.locale] - The BCP 47 locale the page describes the catalog's categories and options in, when the catalog ships a translation for it in
+ *   the `translations` field of its `/getOptions` response (see `FeatureCatalogSettings.translations`). Defaults to the browser's language; anything the catalog
+ *   does not translate stays in English.
  * @property {Function} [ui.validOption] - Validates if an option should display for a device.
  * @property {Function} [ui.validOptionCategory] - Validates if a category should display for a device.
  */
@@ -396,6 +401,7 @@ export class webUiFeatureOptions {
       infoPanel,
       labelControllers: sidebar.controllerLabel ?? "Controllers",
       labelDevices: sidebar.deviceLabel ?? "Devices",
+      locale: ui.locale ?? globalThis.navigator?.language,
       onOptionsEdited,
       renderDeviceContent: sidebar.deviceContent,
       renderGlobalGlyph: sidebar.globalGlyph,
@@ -735,14 +741,26 @@ export class webUiFeatureOptions {
       return;
     }
 
-    const loadedOptions = Array.isArray(session.platform?.options) ? session.platform.options : [];
+    // Describe the catalog in the reader's language before indexing it, so every surface that shows a description - the category headers, the option labels, and
+    // the search that matches against them - reads the same localized text.
+    const { categories, options } = localizeCatalog({ categories: features.categories ?? [], locale: this.#config.locale, options: features.options ?? {},
+      translations: features.translations });
+
+    // Index the catalog with every setting the plugin ships alongside it, not just its migration history - the constraints are what let a set-option edit clear
+    // an exclusive rival, and the presets and translations are what the catalog's other consumers read back out of the index.
     const catalog = {
 
-      ...buildCatalogIndex(features.categories ?? [], features.options ?? {}),
+      ...buildCatalogIndex(categories, options, { constraints: features.constraints ?? [], migrations: features.migrations ?? [], presets: features.presets ?? [],
+        translations: features.translations, version: features.version }),
 
       validators: this.#config.validators
     };
 
+    // Read the persisted options through the catalog's migration history, so an entry written against an option the plugin has since renamed, split, remapped, or
+    // removed renders as what it now means. The page presents the migrated array as the one loaded; the rewrite reaches disk with the user's next edit, because
+    // every save persists the array the page holds.
+    const loadedOptions = migrateConfiguredOptions(catalog, Array.isArray(session.platform?.options) ? session.platform.options : []).configuredOptions;
+
     // Snapshot for revert-to-saved. Preserved across show() / cleanup() cycles when the re-loaded options are set-equal to the prior snapshot (the user reordered
     // entries but did not save) - this means a revert after re-show restores the original order rather than the reloaded order. First show() sets the snapshot
     // to the just-loaded array; subsequent shows preserve it only when set-equal.
@@ -321,6 +321,39 @@ describe("webUiFeatureOptions.show - global options render", () => {
 
     orchestrator.cleanup();
   });
+
+  test("show() describes the catalog in the configured locale, falling back to English for what the catalog does not translate", async () => {
+
+    using _dom = createTestDom();
+
+    const skeleton = createSkeletonFeatureOptionsDom();
+    const customFeatures = {
+
+      categories: [{ description: "Solo", name: "Solo" }],
+      options: { Solo: [ { default: true, description: "Solo option.", name: "Knob" }, { default: true, description: "Second option.", name: "Dial" } ] },
+      translations: { de: { categories: { Solo: "Einzeln" }, options: { "Solo.Knob": "Einzelne Option." } } }
+    };
+
+    using _homebridge = installHomebridge(createFakeHomebridge({ config: makePluginConfig(), requestResponses: new Map([[ "/getOptions", customFeatures ]]) }));
+
+    seedBootstrapProbeShim();
+
+    const orchestrator = new webUiFeatureOptions({ ui: { locale: "de-AT" } });
+
+    await orchestrator.show(await openTestSession());
+    await flush();
+
+    const table = skeleton.configTable.querySelector("details[data-category='Solo']");
+
+    assert.ok(table.querySelector(".fo-category-title").textContent.startsWith("Einzeln"));
+
+    clickCategoryHeader(table);
+
+    assert.equal(skeleton.configTable.querySelector("label[for='Solo.Knob']").textContent, "Einzelne Option.");
+    assert.equal(skeleton.configTable.querySelector("label[for='Solo.Dial']").textContent, "Second option.");
+
+    orchestrator.cleanup();
+  });
 });
 
 describe("webUiFeatureOptions.show - config re-sync on entry (Settings -> FO reconciliation)", () => {
@@ -2635,6 +2668,76 @@ describe("webUiFeatureOptions - boundary coercion of malformed config", () => {
   });
 });
 
+describe("webUiFeatureOptions - catalog migrations on load", () => {
+
+  test("show() reads the saved options through the catalog's migration history without writing them back", async () => {
+
+    // A plugin that renamed Motion.Detector to Motion.Detect ships the rename in its catalog. The page must load the old entry as the new one, so the row renders
+    // as configured, and must leave the saved config alone until the user's own edit persists the array the page holds.
+    using _dom = createTestDom();
+
+    createSkeletonFeatureOptionsDom();
+
+    const fake = createFakeHomebridge({
+
+      config: makePluginConfig({ options: [ "Disable.Motion.Detector", "Enable.Audio.Volume.50" ] }),
+      requestResponses: new Map([[ "/getOptions", { ...FEATURES, migrations: [{ from: "Motion.Detector", kind: "rename", to: "Motion.Detect", version: 1 }],
+        version: 1 } ]])
+    });
+
+    using _homebridge = installHomebridge(fake);
+
+    seedBootstrapProbeShim();
+
+    const orchestrator = new webUiFeatureOptions();
+
+    await orchestrator.show(await openTestSession());
+    await flush();
+
+    assert.deepEqual(orchestrator.editedConfig[0].options, [ "Disable.Motion.Detect", "Enable.Audio.Volume.50" ], "the old entry loads under the new name");
+    assert.deepEqual(fake.observed.updatedConfigs, [], "loading alone writes nothing");
+
+    orchestrator.cleanup();
+  });
+
+  test("show() indexes the catalog's constraints, so enabling one member of an exclusive pair clears its rival", async () => {
+
+    using _dom = createTestDom();
+
+    const skeleton = createSkeletonFeatureOptionsDom();
+    const customFeatures = {
+
+      categories: [{ description: "Recording Options", name: "Record" }],
+      constraints: [{ kind: "exclusive", options: [ "Record.Continuous", "Record.EventsOnly" ] }],
+      options: { Record: [ { default: false, description: "Record continuously.", name: "Continuous" },
+        { default: false, description: "Record only on events.", name: "EventsOnly" } ] }
+    };
+
+    using _homebridge = installHomebridge(createFakeHomebridge({ config: makePluginConfig({ options: ["Enable.Record.EventsOnly"] }),
+      requestResponses: new Map([[ "/getOptions", customFeatures ]]) }));
+
+    seedBootstrapProbeShim();
+
+    const orchestrator = new webUiFeatureOptions();
+
+    await orchestrator.show(await openTestSession());
+    await flush();
+
+    skeleton.configTable.querySelector("details[data-category='Record'] summary").click();
+
+    const checkbox = skeleton.configTable.querySelector("[id='row-Record.Continuous'] input[type='checkbox']");
+
+    checkbox.checked = true;
+    checkbox.dispatchEvent(new Event("change", { bubbles: true }));
+
+    await settlePersist();
+
+    assert.deepEqual(orchestrator.editedConfig[0].options, ["Enable.Record.Continuous"], "the exclusive rival is cleared by the same edit");
+
+    orchestrator.cleanup();
+  });
+});
+
 describe("webUiFeatureOptions - controller-mode multi-tier inheritance (end-to-end)", () => {
 
   // End-to-end tests proving the global -> controller -> device inheritance contract holds across the orchestrator's full navigation surface. Each test seeds
@@ -4,8 +4,8 @@
  */
 "use strict";
 
+import { composeOptionExample, hasValueContent, isValueOption, optionExists, validateOptionValue } from "../featureOptions.js";
 import { createElement, createSvgElement } from "./utils.mjs";
-import { hasValueContent, isValueOption, optionExists } from "../featureOptions.js";
 
 /**
  * Pure DOM construction for the feature options webUI.
@@ -78,6 +78,8 @@ export const categoryShell = ({ category, scopeKind }) => {
  *     crush its own label or widen sibling rows. `inputSize` controls only the field's declared width.
  *   - **Secret value options**: the same stack, with the masked field and its reveal toggle sharing a horizontal wrapper so the control sits beside the field rather
  *     than beneath it. An option that declares no secret gets neither the wrapper nor the toggle, so the unflagged row's shape is exactly the one described above.
+ *   - **Documented options**: an option declaring a `since` version, usage `examples`, or `links` gets a `<div class="fo-option-docs">` line directly beneath its
+ *     label, ahead of any field, with each example shown as the configured-options entry it composes into. An option declaring none of them gets no line.
  *
  * The row structure is uniform regardless of option kind: one row, one stacked content cell, so a long descriptive label and a compact value render through exactly
  * the same path and differ only in the field's declared width.
@@ -105,6 +107,12 @@ export const optionRow = ({ armed = false, deviceId, entry, scopeKind }) => {
   // The content cell stacks the label and, for a value-centric option, its value-input directly beneath it. The label always reads at full width and the field sits
   // below at the declared inputSize width, so one layout serves both the compact and the descriptive case and no value-input ever occupies a shared right-hand column.
   const content = [createLabel({ entry, expandedName })];
+  const docs = createOptionDocs({ expandedName, option });
+
+  if(docs) {
+
+    content.push(docs);
+  }
 
   if(valueCentric) {
 
@@ -210,6 +218,10 @@ export const applyRowState = ({ armed = false, entry, row, scopeKind }) => {
       }
     }
 
+    // Whatever refused commit flagged the field has been answered by this re-derive - either the projection's value is about to replace the text, or the user is
+    // still editing and the next commit will be judged on its own.
+    applyValueValidity({ input, message: undefined });
+
     // Never overwrite the value the user is currently editing. Outside an active edit the projection's resolved value is authoritative - except on an armed row,
     // which presents an EMPTY field: arming asks the user for the option's first value, and the default display belongs to rows describing what resolution
     // already yields, not to a prompt awaiting entry. The empty field is also what lets the abandonment path read "still no value" honestly.
@@ -343,6 +355,10 @@ export const triStateTransition = ({ armed = false, catalog, checkbox, configInd
  * remove and an enable-shaped dispatch would disturb state the gesture never addressed, so the commit yields no action and the caller restores the row from
  * the projection instead.
  *
+ * A commit carrying content the option's declared value type rejects (per validateOptionValue, the same check the engine applies when it reads the entry back)
+ * yields no action either, and names the reason instead: saving it would write an entry resolution ignores, so the user is told why rather than left wondering
+ * where their value went. The caller marks the field with the reason through {@link applyValueValidity}.
+ *
  * The function neither mutates nor returns DOM state, mirroring {@link triStateTransition}: the caller dispatches the action (when there is one) and the
  * reactive re-projection drives the row's DOM through {@link applyRowState}.
  *
@@ -354,7 +370,8 @@ export const triStateTransition = ({ armed = false, catalog, checkbox, configInd
  * @param {string | null} args.deviceId - The current view's device serial, or null for global view.
  * @param {import("./selectors.mjs").ProjectionEntry} args.entry - The projection entry for the option.
  * @param {HTMLInputElement} args.inputValue - The value-input element carrying the committed text.
- * @returns {{ action: Object | null }} The action to dispatch, or null when the commit has nothing to write.
+ * @returns {{ action: Object | null, invalid?: string }} The action to dispatch, or null when the commit has nothing to write - accompanied by the reason when the
+ *          commit was refused because its value fails the option's declared type.
  */
 export const valueCommitTransition = ({ catalog, configIndex, controllerId, deviceId, entry, inputValue }) => {
 
@@ -377,11 +394,47 @@ export const valueCommitTransition = ({ catalog, configIndex, controllerId, devi
     return { action: { args: { id: deviceId ?? undefined, option: expandedName }, type: "option:cleared" } };
   }
 
+  const invalid = validateOptionValue(catalog, expandedName, inputValue.value);
+
+  if(invalid !== undefined) {
+
+    return { action: null, invalid };
+  }
+
   const upstream = hasUpstreamOption({ catalog, configIndex, controllerId, deviceId, expandedName });
 
   return { action: writeAction({ deviceId, enabled: true, expandedName, inputValue, option, upstream, valueCentric: true }) };
 };
 
+/**
+ * Mark a value input as holding a value its option's declared type rejects, or clear the mark. The single writer for the field's validity presentation: the
+ * browser's own constraint state, Bootstrap's `is-invalid` styling, the accessible `aria-invalid` flag, and the hover title carrying the reason all move together,
+ * so no path can flag the field in one vocabulary and leave another saying it is fine.
+ *
+ * {@link applyRowState} clears the mark on every re-derive, so a field is flagged only between a refused commit and the next thing that re-derives its row - the
+ * mark describes the text the user just tried to save, never a value the projection holds.
+ *
+ * @param {Object} args
+ * @param {HTMLInputElement} args.input - The value input to mark.
+ * @param {string | undefined} args.message - The reason the value was refused, or undefined to clear the mark.
+ */
+export const applyValueValidity = ({ input, message }) => {
+
+  input.setCustomValidity(message ?? "");
+  input.classList.toggle("is-invalid", message !== undefined);
+
+  if(message === undefined) {
+
+    input.removeAttribute("aria-invalid");
+    input.removeAttribute("title");
+
+    return;
+  }
+
+  input.setAttribute("aria-invalid", "true");
+  input.title = message;
+};
+
 // Map a view scope kind to the suffix label rendered on category headers. Switch on the tag; every scope kind maps to its own label.
 const scopeLabel = (scopeKind) => {
 
@@ -454,12 +507,62 @@ const createCheckbox = ({ deviceId, expandedName, option }) => {
 };
 
 // Build the description label for an option. The `for` attribute connects it to the checkbox so native label-for click semantics work. The color class is applied
-// separately by {@link applyLabelColor} (via {@link applyRowState}) so the label's structure stays state-independent.
+// separately by {@link applyLabelColor} (via {@link applyRowState}) so the label's structure stays state-independent. An option that only takes effect at startup
+// carries a note saying so after its description, which is the whole of how the page warns that saving it is not enough - the note is there before the user edits
+// the option, not sprung on them after. A deprecated option carries its deprecation notice the same way, last, so it is the final word on the option.
 const createLabel = ({ entry, expandedName }) => createElement("label", {
 
   classList: [ "fo-option-label", "user-select-none", "my-0", "py-0", "cursor-pointer" ],
   for: expandedName
-}, [entry.description]);
+}, [
+  entry.description, ...((entry.option.apply === "restart") ? [createRestartNote()] : []),
+  ...(entry.option.deprecated ? [createDeprecationNote(entry.option.deprecated)] : [])
+]);
+
+// The restart note's text. It leads with a space because it follows the description inside the same label.
+const RESTART_NOTE_TEXT = " Requires a Homebridge restart.";
+
+// Build the restart note. Its muted, smaller presentation belongs to the theme stylesheet's `.fo-restart-note` rule.
+const createRestartNote = () => createElement("span", { classList: ["fo-restart-note"] }, [RESTART_NOTE_TEXT]);
+
+// Build the deprecation note: the catalog's notice, then the option replacing this one when it names one. Like the restart note it leads with a space, and its
+// presentation belongs to the theme stylesheet's `.fo-deprecated-note` rule.
+const createDeprecationNote = ({ notice, replacement }) => createElement("span", { classList: ["fo-deprecated-note"] },
+  [" Deprecated: " + notice + ((replacement === undefined) ? "" : (" Use " + replacement + " instead."))]);
+
+// Build the documentation line beneath an option's label: the version it arrived in, its usage examples as the entries a user would write, and its links, each
+// opening in a new tab so following one never navigates the settings page away. Returns null for an option that declares none of them, so an undocumented row keeps
+// exactly the shape it always had.
+const createOptionDocs = ({ expandedName, option }) => {
+
+  const { examples = [], links = [], since } = option;
+  const listed = (nodes) => nodes.flatMap((node, index) => (index > 0) ? [ ", ", node ] : [node]);
+  const sentences = [];
+
+  if(since !== undefined) {
+
+    sentences.push(["Since " + since + "."]);
+  }
+
+  if(examples.length) {
+
+    const entries = examples.map((example) => createElement("code", { classList: ["fo-option-example"] }, [composeOptionExample(expandedName, example)]));
+
+    sentences.push([ (examples.length === 1) ? "Example: " : "Examples: ", ...listed(entries), "." ]);
+  }
+
+  if(links.length) {
+
+    sentences.push([ "See ", ...listed(links.map(({ title, url }) => createElement("a", { href: url, rel: "noopener noreferrer", target: "_blank" }, [title]))), "." ]);
+  }
+
+  if(!sentences.length) {
+
+    return null;
+  }
+
+  return createElement("div", { classList: ["fo-option-docs"] }, sentences.flatMap((sentence, index) => (index > 0) ? [ " ", ...sentence ] : sentence));
+};
 
 // Apply the label's scope-color class, replacing any color previously applied. The color classes are mutually exclusive, so we strip every one of them before adding
 // the current one - this makes the function safe to re-run on every projection change, which is what lets a toggle re-color a modified option's label
@@ -510,6 +613,10 @@ const scopeColorClass = ({ entry, inheriting }) => {
   return "text-body";
 };
 
+// The on-screen keyboard a typed value field asks for. A touch device offers digits for a whole number and digits with a separator for a decimal or a duration, and
+// a URL keyboard for a URL; every other type, and an option declaring none, keeps the default text keyboard.
+const VALUE_INPUT_MODES = { duration: "decimal", float: "decimal", integer: "numeric", url: "url" };
+
 // Build the value input for a value-centric option. Pure: returns a fresh element carrying only its bare, state-independent shape - the class set, the input type,
 // and the width derived from the option's `inputSize` declaration (or 5 ch when unspecified), capped at the content cell's width so a wide field never overflows the
 // row on a narrow panel. The value, readOnly, and disabled state are applied by {@link applyRowState}.
@@ -520,6 +627,7 @@ const scopeColorClass = ({ entry, inheriting }) => {
 const createValueInput = ({ option }) => createElement("input", {
 
   ...(option.secret ? { autocomplete: "new-password" } : {}),
+  ...(VALUE_INPUT_MODES[option.valueType?.type] ? { inputMode: VALUE_INPUT_MODES[option.valueType.type] } : {}),
   classList: [ "form-control", "shadow-none", "fo-option-value" ],
   style: {
 
@@ -4,7 +4,7 @@
  */
 "use strict";
 
-import { applyRowState, categoryShell, optionRow, toggleSecretReveal, triStateTransition, valueCommitTransition } from "./rendering.mjs";
+import { applyRowState, applyValueValidity, categoryShell, optionRow, toggleSecretReveal, triStateTransition, valueCommitTransition } from "./rendering.mjs";
 import { buildCatalogIndex, buildConfigIndex } from "../featureOptions.js";
 import { describe, test } from "node:test";
 import { initialState, reducer } from "./state.mjs";
@@ -15,7 +15,8 @@ import { projection } from "./selectors.mjs";
 // Catalog fixture: covers the row archetypes (boolean, grouped boolean, value-centric options with and without an explicit inputSize, a default-on value-centric
 // option whose declared default is what an emptied field has to fall back to, and a secret value option) plus a controller-detectable device fixture for upstream
 // tests. inputSize feeds only the field width, not the layout, so every value option exercises the same stacked structure regardless of whether inputSize is
-// declared. The secret option ships an empty defaultValue, which is what a credential declares: value-centric, with nothing meaningful to default to.
+// declared. The secret option ships an empty defaultValue, which is what a credential declares: value-centric, with nothing meaningful to default to. Bandwidth
+// declares a typed value, which is what the value-commit validity tests exercise, and Motion.Mqtt applies only at startup, which is what the restart note marks.
 const CATEGORIES = [
 
   { description: "Motion Options", name: "Motion" },
@@ -27,7 +28,7 @@ const OPTIONS = {
   Audio: [
 
     { default: false, defaultValue: 50, description: "Audio volume level.", inputSize: 3, name: "Volume" },
-    { default: false, defaultValue: 80, description: "Bandwidth ceiling.", name: "Bandwidth" },
+    { default: false, defaultValue: 80, description: "Bandwidth ceiling.", name: "Bandwidth", valueType: { max: 1000, min: 1, type: "integer" } },
     { default: true, defaultValue: "stereo", description: "Default audio channel layout.", name: "Layout" },
     { default: false, defaultValue: "", description: "Streaming account password.", inputSize: 20, name: "Password", secret: true }
   ],
@@ -35,7 +36,8 @@ const OPTIONS = {
   Motion: [
 
     { default: true, description: "Enable motion detection.", name: "Detect" },
-    { default: false, description: "Motion sensitivity tuning.", group: "Detect", name: "Sensitivity" }
+    { default: false, description: "Motion sensitivity tuning.", group: "Detect", name: "Sensitivity" },
+    { apply: "restart", default: false, description: "Publish motion events over MQTT.", name: "Mqtt" }
   ]
 };
 
@@ -320,6 +322,60 @@ describe("optionRow - value input initialization", () => {
   });
 });
 
+describe("optionRow - restart note", () => {
+
+  test("an option that applies at startup says so inside its label, and one that declares nothing carries no note", () => {
+
+    using _dom = createTestDom();
+
+    const state = loadedState();
+    const restart = optionRow({ deviceId: null, entry: findEntry(state, "Motion", "Mqtt"), scopeKind: "global" });
+    const live = optionRow({ deviceId: null, entry: findEntry(state, "Motion", "Detect"), scopeKind: "global" });
+
+    assert.equal(restart.querySelector(".fo-option-label .fo-restart-note")?.textContent, " Requires a Homebridge restart.");
+    assert.equal(restart.querySelector(".fo-option-label")?.textContent, "Publish motion events over MQTT. Requires a Homebridge restart.");
+    assert.equal(live.querySelector(".fo-restart-note"), null);
+  });
+});
+
+describe("optionRow - documentation extras", () => {
+
+  test("a documented option carries its deprecation in its label and its version, examples, and links beneath it, and an undocumented one carries neither", () => {
+
+    using _dom = createTestDom();
+
+    const categories = [{ description: "Audio Options", name: "Audio" }];
+    const options = {
+
+      Audio: [
+
+        {
+
+          default: false, defaultValue: 50, deprecated: { notice: "Volume moves to the mixer.", replacement: "Audio.Mixer" }, description: "Audio volume level.",
+          examples: [ { value: 80 }, { id: "ABC123", value: 20 } ], links: [{ title: "Audio guide", url: "https://example.com/audio" }], name: "Volume", since: "2.4.0"
+        },
+        { default: true, description: "Audio mixer.", name: "Mixer" }
+      ]
+    };
+    const catalog = { ...buildCatalogIndex(categories, options), validators: { isController: () => false, validOption: () => true, validOptionCategory: () => true } };
+    const state = reducer(initialState(), { catalog, configuredOptions: [], controllers: [], mode: "device-only", type: "model:loaded" });
+    const volume = optionRow({ deviceId: null, entry: findEntry(state, "Audio", "Volume"), scopeKind: "global" });
+    const mixer = optionRow({ deviceId: null, entry: findEntry(state, "Audio", "Mixer"), scopeKind: "global" });
+
+    assert.equal(volume.querySelector(".fo-option-label")?.textContent, "Audio volume level. Deprecated: Volume moves to the mixer. Use Audio.Mixer instead.");
+    assert.equal(volume.querySelector(".fo-option-docs")?.textContent,
+      "Since 2.4.0. Examples: Enable.Audio.Volume=80, Enable.Audio.Volume.ABC123=20. See Audio guide.");
+    assert.equal(volume.querySelector(".fo-option-docs")?.nextElementSibling?.classList.contains("fo-option-value"), true, "the line sits between label and field");
+
+    const link = volume.querySelector(".fo-option-docs a");
+
+    assert.equal(link?.getAttribute("href"), "https://example.com/audio");
+    assert.equal(link?.getAttribute("target"), "_blank", "a link never navigates the settings page away");
+    assert.equal(mixer.querySelector(".fo-option-docs"), null);
+    assert.equal(mixer.querySelector(".fo-deprecated-note"), null);
+  });
+});
+
 describe("optionRow - secret options", () => {
 
   test("a secret option renders a masked field with its reveal toggle beside it", () => {
@@ -1026,6 +1082,63 @@ describe("valueCommitTransition - the input-side gesture", () => {
 
     assert.equal(result.action, null);
   });
+
+  test("a commit the option's value type rejects yields no action and names the reason", () => {
+
+    using _dom = createTestDom();
+
+    const state = loadedState({ configuredOptions: ["Enable.Audio.Bandwidth=200"] });
+    const catalog = state.catalog;
+    const configIndex = buildConfigIndex(catalog, state.configuredOptions);
+    const entry = findEntry(state, "Audio", "Bandwidth");
+    const rejected = valueCommitTransition({ catalog, configIndex, controllerId: null, deviceId: null, entry, inputValue: textInput("fast") });
+
+    assert.equal(rejected.action, null, "a value resolution would ignore is never written");
+    assert.equal(rejected.invalid, "Expected a whole number between 1 and 1000.");
+
+    const accepted = valueCommitTransition({ catalog, configIndex, controllerId: null, deviceId: null, entry, inputValue: textInput("500") });
+
+    assert.equal(accepted.action.type, "option:set");
+    assert.equal(accepted.invalid, undefined);
+  });
+});
+
+describe("applyValueValidity - the refused-commit mark", () => {
+
+  test("marks the field in every vocabulary at once, and the next re-derive clears it", () => {
+
+    using _dom = createTestDom();
+
+    const state = loadedState({ configuredOptions: ["Enable.Audio.Bandwidth=200"] });
+    const entry = findEntry(state, "Audio", "Bandwidth");
+    const row = optionRow({ deviceId: null, entry, scopeKind: "global" });
+    const input = row.querySelector("input.fo-option-value");
+
+    applyValueValidity({ input, message: "Expected a whole number between 1 and 1000." });
+
+    assert.equal(input.classList.contains("is-invalid"), true);
+    assert.equal(input.getAttribute("aria-invalid"), "true");
+    assert.equal(input.title, "Expected a whole number between 1 and 1000.");
+    assert.equal(input.validationMessage, "Expected a whole number between 1 and 1000.");
+
+    applyRowState({ entry, row, scopeKind: "global" });
+
+    assert.equal(input.classList.contains("is-invalid"), false);
+    assert.equal(input.getAttribute("aria-invalid"), null);
+    assert.equal(input.getAttribute("title"), null);
+    assert.equal(input.validationMessage, "");
+  });
+
+  test("a typed numeric option asks for the numeric keyboard, an untyped one for none", () => {
+
+    using _dom = createTestDom();
+
+    const state = loadedState();
+
+    assert.equal(optionRow({ deviceId: null, entry: findEntry(state, "Audio", "Bandwidth"), scopeKind: "global" }).querySelector("input.fo-option-value").inputMode,
+      "numeric");
+    assert.equal(optionRow({ deviceId: null, entry: findEntry(state, "Audio", "Volume"), scopeKind: "global" }).querySelector("input.fo-option-value").inputMode, "");
+  });
 });
 
 describe("triStateTransition - the upstream probe honors declared scopes", () => {
@@ -4,7 +4,8 @@
  */
 "use strict";
 
-import { buildConfigIndex, expandOption, isDependencyMet, isValueOption, resolveScope } from "../featureOptions.js";
+import { buildConfigIndex, expandOption, isDependencyMet, isOptionSupported, isValueOption, resolveScope } from "../featureOptions.js";
+import { buildSearchIndex, searchFeatureOptions } from "../featureOptions-search.js";
 import { EMPTY_CATALOG } from "./state.mjs";
 import { memoize } from "./store.mjs";
 
@@ -147,6 +148,19 @@ export const configIndex = memoize({
   slices: [ (s) => s.catalog, (s) => s.configuredOptions ]
 });
 
+/**
+ * Build the search index over the catalog. Memoized on `catalog` alone, since the catalog never changes within a session, so the index is built once per load and
+ * every keystroke in the search box searches the same one.
+ *
+ * @param {import("./state.mjs").FeatureOptionsState} state - The current state.
+ * @returns {import("../featureOptions-search.js").FeatureOptionSearchIndex} The search index.
+ */
+export const searchIndex = memoize({
+
+  compute: (state) => buildSearchIndex(state.catalog),
+  slices: [(s) => s.catalog]
+});
+
 /**
  * Resolve the currently-selected device by walking the devices list for the scope's deviceId. Memoized on `(scope, devices)` so any dispatch that does not touch
  * the selection or the devices list returns the cached result.
@@ -294,14 +308,15 @@ export const scopingControllerId = memoize({
  * visibility, per-row dependency-badge state, and per-row resolved value for value-centric options. Memoized on `(catalog, configuredOptions, scope, filter,
  * devices)` so any dispatch that does not touch those slices returns the cached projection.
  *
- * The active option set is what the gates admit, in order: an option's declared scopes must admit the current view kind, and then the plugin's `validOption` must
- * accept it for the selected device. Everything downstream - the counts, the rows, the DOM - reads from this one set, so an option the current view has no
- * business offering is absent from every surface rather than hidden on each of them.
+ * The active option set is what the gates admit, in order: an option's declared scopes must admit the current view kind, the selected device's capabilities must meet
+ * what the option requires, and then the plugin's `validOption` must accept it for that device. Everything downstream - the counts, the rows, the DOM - reads from this
+ * one set, so an option the current view has no business offering is absent from every surface rather than hidden on each of them.
  *
  * Visibility rules (the three-way cascade below is authoritative for what a row shows):
  *
  *   - The `modified` filter excludes unmodified options unconditionally.
- *   - A non-empty search query excludes options whose description does not contain the query (case-insensitive).
+ *   - A non-empty search query excludes options the catalog search does not match - by key, description, category, or group parent, forgiving a typo. See
+ *     `searchFeatureOptions` in featureOptions-search.ts.
  *   - When either search or modified filter is active, dependency-hiding is SUPPRESSED - grouped options with disabled parents stay visible (with a "requires
  *     parent" badge) instead of disappearing. The rationale: a user who searched explicitly wants to see matches; hiding a match because its parent is off would
  *     be more confusing than the badge.
@@ -325,7 +340,8 @@ export const projection = memoize({
 // Decide whether an option's declared scopes admit it on the current view. The framework gates on the one thing it natively knows - which view the page is showing -
 // so a global view offers only options declared global, a controller view only those declared controller, and a device view those declared at either the device or
 // the controller level, since a device page edits its own scope and displays what it inherits from its controller. An option that declares no scopes is admitted
-// everywhere. Which KIND of device sees a given row is knowledge the framework cannot have, and stays with the plugin's validOption.
+// everywhere. Which KIND of device sees a given row is knowledge the framework has only through the capabilities the plugin describes, and otherwise stays with
+// the plugin's validOption.
 const viewAdmitsOption = (scopes, viewKind) => {
 
   if(!scopes) {
@@ -364,7 +380,9 @@ const computeProjection = (state) => {
   const device = selectedDevice(state);
   const controllerId = scopingControllerId(state) ?? undefined;
   const deviceId = selectedDeviceId(state) ?? undefined;
-  const query = filter.query.toLowerCase();
+  const capabilities = device?.capabilities;
+  const query = filter.query.trim();
+  const matches = query.length ? new Set(searchFeatureOptions({ index: searchIndex(state), query }).map((result) => result.option)) : undefined;
   const filterActive = (query.length > 0) || (filter.mode === "modified");
   const viewKind = state.scope.kind;
 
@@ -396,24 +414,32 @@ const computeProjection = (state) => {
 
     for(const option of (catalog.options[category.name] ?? [])) {
 
-      // The framework's own gate runs first: an option is offered here only at a view its declared scopes admit, so a row the engine would refuse to resolve at
-      // this level is never composed. The plugin's validator then refines what survives, which is why it runs second - it answers a device-kind question about
-      // rows the framework has already accepted, and never has to re-derive the scope rule to do it.
+      // The framework's own gates run first: an option is offered here only at a view its declared scopes admit, so a row the engine would refuse to resolve at
+      // this level is never composed. The plugin's validator then refines what survives, which is why it runs last - it answers a device-kind question about
+      // rows the framework has already accepted, and never has to re-derive the scope or capability rules to do it.
       if(!viewAdmitsOption(option.scopes, viewKind)) {
 
         continue;
       }
 
+      const expandedName = expandOption(category, option);
+
+      // A device the plugin described as lacking a capability the option requires resolves the option to its default whatever the row says, so the row is not
+      // offered either.
+      if(!isOptionSupported({ capabilities, catalog, option: expandedName })) {
+
+        continue;
+      }
+
       if(!catalog.validators.validOption(device, option)) {
 
         continue;
       }
 
-      const expandedName = expandOption(category, option);
-      const resolved = resolveScope({ catalog, configIndex: idx, controller: controllerId, device: deviceId, option: expandedName });
+      const resolved = resolveScope({ capabilities, catalog, configIndex: idx, controller: controllerId, device: deviceId, option: expandedName });
       const optionIsGrouped = option.group !== undefined;
       const optionIsModified = resolved.scope !== "none";
-      const optionDependencyMet = isDependencyMet({ catalog, configIndex: idx, controller: controllerId, device: deviceId, option: expandedName });
+      const optionDependencyMet = isDependencyMet({ capabilities, catalog, configIndex: idx, controller: controllerId, device: deviceId, option: expandedName });
 
       // The entry's scope as this page means it. On a controller's own page an entry the walk answered at the device step is stored at the controller's serial:
       // "device" is resolution's view-relative answer to being asked about that serial first, while the entry itself governs the controller and everything under
@@ -427,7 +453,7 @@ const computeProjection = (state) => {
       if((filter.mode === "modified") && !optionIsModified) {
 
         visible = false;
-      } else if((query.length > 0) && !option.description.toLowerCase().includes(query)) {
+      } else if(matches && !matches.has(expandedName)) {
 
         visible = false;
       } else if(!filterActive) {
@@ -338,6 +338,15 @@ describe("projection - visibility rules", () => {
     assert.equal(detect?.visible, false, "Detect's description does not match");
   });
 
+  test("a search query matches through the catalog search - a misspelling, or the option's key", () => {
+
+    const visibleNames = (query) => projection(reducer(loadedState(), { query, type: "filter:changed" })).categories.flatMap((c) => c.entries)
+      .filter((e) => e.visible).map((e) => e.name);
+
+    assert.deepEqual(visibleNames("sensitivty"), ["Sensitivity"], "one edit away from a word in Sensitivity's description");
+    assert.deepEqual(visibleNames("audio.volume"), ["Volume"], "the dotted key matches term by term");
+  });
+
   test("with neither search nor modified filter active, grouped options with disabled parents are hidden", () => {
 
     const state = loadedState({ configuredOptions: ["Disable.Motion.Detect"] });
@@ -514,6 +523,65 @@ describe("projection - the declared-scopes view gate", () => {
   });
 });
 
+describe("projection - the capability gate", () => {
+
+  const CAPABLE_OPTIONS = {
+
+    Audio: [{ default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume", requires: ["hasAudio"] }],
+    Motion: [
+
+      { default: true, description: "Enable motion detection.", name: "Detect", requires: ["hasMotion"] },
+      { default: false, description: "Motion sensitivity tuning.", group: "Detect", name: "Sensitivity" }
+    ]
+  };
+
+  // Build a ready device-only state over the capability-declaring catalog, viewing the named device. The validator records what it is asked about.
+  const capableState = ({ capabilities, configuredOptions = [], seen = [] } = {}) => {
+
+    const catalog = {
+
+      ...buildCatalogIndex(CATEGORIES, CAPABLE_OPTIONS),
+
+      validators: { isController: () => false, validOption: (_device, option) => seen.push(option.name) > 0, validOptionCategory: () => true }
+    };
+
+    const device = { capabilities, firmwareRevision: "1.0", manufacturer: "X", model: "Y", name: "Camera", serialNumber: "cam-1" };
+    const base = reducer(initialState(), { catalog, configuredOptions, controllers: [], mode: "device-only", type: "model:loaded" });
+    const requested = reducer(base, { controllerId: null, type: "devices:requested" });
+    const withDevices = reducer(requested, { controllerId: null, devices: [device], error: "", seq: requested.devicesRequest.seq, type: "devices:loaded" });
+
+    return reducer(withDevices, { scope: { controllerId: null, deviceId: "cam-1", kind: "device" }, type: "scope:changed" });
+  };
+
+  const names = (state) => projection(state).categories.flatMap((c) => c.entries).map((e) => e.name);
+
+  test("a device view does not offer an option the device lacks a required capability for, and the validator never sees it", () => {
+
+    const seen = [];
+
+    assert.deepEqual(names(capableState({ capabilities: ["hasMotion"], seen })), [ "Detect", "Sensitivity" ]);
+    assert.deepEqual(seen, [ "Detect", "Sensitivity" ]);
+    assert.deepEqual(projection(capableState({ capabilities: ["hasMotion"] })).categories.map((c) => c.name), ["Motion"], "an emptied category is omitted");
+  });
+
+  test("a device without capabilities is offered every option", () => {
+
+    assert.deepEqual(names(capableState()), [ "Detect", "Sensitivity", "Volume" ]);
+  });
+
+  test("a child row resolves its parent through the device's capabilities", () => {
+
+    // Motion.Detect is disabled globally, but the device cannot support it, so its default - on - is what its child depends on.
+    const state = capableState({ capabilities: ["hasAudio"], configuredOptions: ["Disable.Motion.Detect"] });
+
+    const visible = (state) => projection(state).categories.flatMap((c) => c.entries).filter((e) => e.visible).map((e) => e.name);
+
+    assert.deepEqual(visible(state), [ "Sensitivity", "Volume" ], "the unsupported parent is gone, and its default leaves the child usable");
+    assert.deepEqual(visible(capableState({ capabilities: [ "hasAudio", "hasMotion" ], configuredOptions: ["Disable.Motion.Detect"] })), [ "Detect", "Volume" ],
+      "with the parent supported, its disabled state hides the child");
+  });
+});
+
 describe("projection - the presented view scope", () => {
 
   // A controller's own options page is the shape a plugin whose device list leads with the controller-as-device produces: one serial fills both scope slots, and
@@ -62,6 +62,8 @@ import { applyClearOption, applySetOption, buildCatalogIndex } from "../featureO
 
 /**
  * @typedef {Object} Device
+ * @property {string[]} [capabilities] - Optional. The capabilities the device has, matched against each option's `requires`. A device view does not offer an option
+ *   the device lacks a required capability for. Absent means unknown, which offers every option.
  * @property {string} firmwareRevision - The firmware version of the device.
  * @property {string} manufacturer - The manufacturer of the device.
  * @property {string} model - The model identifier of the device.
@@ -83,16 +85,24 @@ import { applyClearOption, applySetOption, buildCatalogIndex } from "../featureO
  * change during a session; consumers can rely on reference stability for memoization.
  *
  * @typedef {Object} Catalog
+ * @property {Readonly<Record<string, import("../featureOptions.js").FeatureOptionApply>>} applies
  * @property {readonly import("../featureOptions.js").FeatureCategoryEntry[]} categories
+ * @property {readonly import("../featureOptions.js").FeatureOptionConstraint[]} constraints
  * @property {Readonly<Record<string, boolean>>} defaults
  * @property {Readonly<Record<string, string>>} groupParents
  * @property {Readonly<Record<string, readonly string[]>>} groups
+ * @property {readonly import("../featureOptions.js").FeatureOptionMigration[]} migrations
+ * @property {Readonly<Record<string, string>>} optionNames
  * @property {Readonly<Record<string, readonly import("../featureOptions.js").FeatureOptionEntry[]>>} options
- * @property {Readonly<Record<string, (value: string) => string>>} renderers
+ * @property {Readonly<Record<string, import("../featureOptions.js").FeatureOptionPreset>>} presets
+ * @property {Readonly<Record<string, import("../featureOptions.js").FeatureOptionRenderer>>} renderers
+ * @property {Readonly<Record<string, readonly string[]>>} requires
  * @property {Readonly<Record<string, readonly import("../featureOptions.js").FeatureOptionScope[]>>} scopes
+ * @property {import("../featureOptions.js").FeatureCatalogSettings} settings
  * @property {readonly string[]} sortedValueOptionNames
  * @property {Validators} validators
  * @property {Readonly<Record<string, number | string | undefined>>} valueOptions
+ * @property {Readonly<Record<string, import("../featureOptions.js").FeatureOptionValueType>>} valueTypes
  */
 
 /**
@@ -462,6 +462,29 @@ describe("reducer - option:set", () => {
 
     assert.deepEqual(next.configuredOptions, ["Enable.Audio.Volume.ABC123=75"]);
   });
+
+  test("enabling one member of an exclusive constraint clears its rival at the same scope", () => {
+
+    const catalog = {
+
+      ...buildCatalogIndex([{ description: "Recording Options", name: "Record" }], {
+
+        Record: [
+
+          { default: false, description: "Record continuously.", name: "Continuous" },
+          { default: true, description: "Record only on events.", name: "EventsOnly" }
+        ]
+      }, { constraints: [{ kind: "exclusive", options: [ "Record.Continuous", "Record.EventsOnly" ] }] }),
+
+      validators: CATALOG.validators
+    };
+
+    const loaded = reducer(initialState(), { catalog, configuredOptions: [ "Enable.Record.EventsOnly", "Enable.Record.EventsOnly.ABC123" ], controllers: [],
+      mode: "device-only", type: "model:loaded" });
+    const next = reducer(loaded, { args: { enabled: true, option: "Record.Continuous" }, type: "option:set" });
+
+    assert.deepEqual(next.configuredOptions, [ "Enable.Record.EventsOnly.ABC123", "Enable.Record.Continuous" ], "the global rival is cleared; the device entry stays");
+  });
 });
 
 describe("reducer - option:armed / option:disarmed", () => {
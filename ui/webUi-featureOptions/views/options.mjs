@@ -5,9 +5,9 @@
 "use strict";
 
 import { applyCategoryStates, captureCategoryStates } from "../utils.mjs";
-import { applyRowState, categoryShell, optionRow, toggleSecretReveal, triStateTransition, valueCommitTransition } from "../rendering.mjs";
-import { buildConfigIndex, hasValueContent } from "../../featureOptions.js";
-import { projection, scopeCacheKey, scopingControllerId, selectedDeviceId } from "../selectors.mjs";
+import { applyRowState, applyValueValidity, categoryShell, optionRow, toggleSecretReveal, triStateTransition, valueCommitTransition } from "../rendering.mjs";
+import { buildConfigIndex, explainOption, hasValueContent } from "../../featureOptions.js";
+import { projection, scopeCacheKey, scopingControllerId, selectedDevice, selectedDeviceId } from "../selectors.mjs";
 import { FeatureOptionsCategoryState } from "../categoryState.mjs";
 import { effect } from "../store.mjs";
 
@@ -31,7 +31,7 @@ import { effect } from "../store.mjs";
  *      no gesture can land a write at the wrong scope during the window. Derived at every row-state application; see {@link applyBusyState}.
  *   7. **Click delegation** for: row clicks (forward to checkbox), checkbox changes (tri-state transition + action dispatch), text-input changes (value-commit
  *      transition + action dispatch). A gesture that leaves `configuredOptions` unchanged - a rejection, or an arm/disarm - restores the row through the shared
- *      applyRowState writer instead of relying on the projection walk.
+ *      applyRowState writer instead of relying on the projection walk. Hovering an option's label explains its resolution in the label's tooltip.
  *   8. **Category state persistence**: captures the current view's expand/collapse state on every toggle and on scope-change, restores it when entering a view.
  *
  * The per-device DOM cache lets navigating from device A to device B and back return to A's previously-rendered DOM without re-running the projection or
@@ -289,6 +289,11 @@ export const mountOptionsView = ({ configTable, platform, signal, store }) => {
   // commit-carrying blur, whose change event has already disarmed through the store by the time focusout fires (change precedes blur in the event order).
   configTable.addEventListener("focusout", (event) => handleFocusOut({ event, store }), { signal });
 
+  // Explain a row on hover. The label's tooltip says why the option resolves the way it does at this scope - which entry decided it, which entries the option's
+  // declared scopes pass over, and whether a disabled parent leaves it without effect. It is composed as the pointer arrives rather than kept current on every
+  // dispatch, so the explanation is always fresh and a table nobody hovers pays nothing for it.
+  configTable.addEventListener("mouseover", (event) => handleExplainHover({ event, store }), { signal });
+
   // Coalesce post-toggle work into a single microtask. Multiple synchronous toggles (bulk expand-all, saved-state restore) all settle to one persistence write.
   function schedulePostToggleSync() {
 
@@ -618,6 +623,30 @@ const rowContext = ({ state, target }) => {
   return entry ? { entry, row, viewScope: p.viewScope } : null;
 };
 
+// Set an option label's tooltip to the explanation of how its option resolves in the current view, read from the same scope ids the projection resolves with.
+// The label's `for` attribute carries the option's expanded name, which is all the explanation needs to find it.
+const handleExplainHover = ({ event, store }) => {
+
+  const label = event.target.closest?.(".fo-option-label");
+
+  if(!label?.htmlFor) {
+
+    return;
+  }
+
+  const state = store.state;
+
+  label.title = explainOption({
+
+    capabilities: selectedDevice(state)?.capabilities,
+    catalog: state.catalog,
+    configuredOptions: state.configuredOptions,
+    controller: scopingControllerId(state) ?? undefined,
+    device: selectedDeviceId(state) ?? undefined,
+    option: label.htmlFor
+  }).message;
+};
+
 // Handle a change event on the config table. Checkboxes run the tri-state transition; value inputs run the value-commit transition. Either way the pure state
 // machine computes the action, the dispatch drives the reactive re-projection, and applyRowState re-derives the affected rows - one DOM-writing path, the same
 // one construction uses, rather than an imperative apply here plus a re-derive on update that could drift apart.
@@ -658,7 +687,8 @@ const handleChange = ({ event, store }) => {
     entry,
     inputValue
   };
-  const { action } = isValueCommit ? valueCommitTransition(transitionArgs) :
+  const committed = inputValue?.value;
+  const { action, invalid } = isValueCommit ? valueCommitTransition(transitionArgs) :
     triStateTransition({ ...transitionArgs, armed: state.armedOption === entry.expandedName, checkbox: target });
 
   if(action) {
@@ -672,6 +702,14 @@ const handleChange = ({ event, store }) => {
 
     applyRowState({ armed, entry, row, scopeKind: viewScope });
 
+    // A commit refused for failing the option's value type puts the user's text back - a commit on blur has already lost focus, so the re-derive above replaced
+    // it - and flags it with the reason, so what they typed stays in front of them to correct rather than silently snapping back to the saved value.
+    if(invalid !== undefined) {
+
+      inputValue.value = committed;
+      applyValueValidity({ input: inputValue, message: invalid });
+    }
+
     // An arming gesture opened the input for the value that will actually enable the option - hand it focus as the affordance for what comes next. Every other
     // no-op keeps focus where it is: a rejected input commit means the user just moved on, and a disarm leaves a locked input nothing should focus.
     if(!isValueCommit && armed) {
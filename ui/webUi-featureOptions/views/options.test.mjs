@@ -22,7 +22,7 @@ const OPTIONS = {
 
   Audio: [
 
-    { default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume" },
+    { default: false, defaultValue: 50, description: "Audio volume level.", name: "Volume", valueType: { max: 100, min: 0, type: "integer" } },
     { default: false, defaultValue: "", description: "Streaming account password.", inputSize: 20, name: "Password", secret: true }
   ],
 
@@ -257,6 +257,34 @@ describe("mountOptionsView - checkbox click dispatch", () => {
     assert.deepEqual(store.state.configuredOptions, ["Enable.Audio.Volume=75"]);
   });
 
+  test("a value commit the option's value type rejects writes nothing and flags the field with the reason, keeping the text", () => {
+
+    using _dom = createTestDom();
+
+    const { configTable, store } = setup({ configuredOptions: ["Enable.Audio.Volume=75"] });
+    const audio = configTable.querySelector("details[data-category='Audio']");
+
+    audio.open = true;
+    audio.dispatchEvent(new Event("toggle", { bubbles: false }));
+
+    const input = audio.querySelector("input.fo-option-value");
+
+    // A commit on blur: the field no longer holds focus, so the row's re-derive would otherwise put the saved value back over what the user typed.
+    input.value = "loud";
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+
+    assert.deepEqual(store.state.configuredOptions, ["Enable.Audio.Volume=75"], "the refused value is never saved");
+    assert.equal(input.value, "loud", "the text the user typed stays in front of them to correct");
+    assert.equal(input.classList.contains("is-invalid"), true);
+    assert.equal(input.title, "Expected a whole number between 0 and 100.");
+
+    input.value = "80";
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+
+    assert.deepEqual(store.state.configuredOptions, ["Enable.Audio.Volume=80"]);
+    assert.equal(input.classList.contains("is-invalid"), false, "the accepted commit's re-derive clears the mark");
+  });
+
   test("a value commit on an unset row enables the option with that value", () => {
 
     using _dom = createTestDom();
@@ -566,6 +594,37 @@ describe("mountOptionsView - modified-option highlight", () => {
   });
 });
 
+describe("mountOptionsView - resolution explained on hover", () => {
+
+  test("hovering a label sets its tooltip to the explanation at the current scope, composed fresh on each hover", () => {
+
+    using _dom = createTestDom();
+
+    const { configTable } = setup({ configuredOptions: ["Disable.Motion.Detect.DEV1"], scope: { controllerId: null, deviceId: "DEV1", kind: "device" } });
+    const motion = configTable.querySelector("details[data-category='Motion']");
+
+    motion.open = true;
+    motion.dispatchEvent(new Event("toggle", { bubbles: false }));
+
+    const detectLabel = motion.querySelector("#row-Motion\\.Detect label");
+    const sensitivityLabel = motion.querySelector("#row-Motion\\.Sensitivity label");
+
+    detectLabel.dispatchEvent(new Event("mouseover", { bubbles: true }));
+
+    assert.equal(detectLabel.title, "Motion.Detect is disabled at device DEV1 by \"Disable.Motion.Detect.DEV1\".");
+
+    // The explanation follows the model: checking the row clears the device entry back to the default-on, and hovering again says so.
+    motion.querySelector("#Motion\\.Detect").click();
+    detectLabel.dispatchEvent(new Event("mouseover", { bubbles: true }));
+
+    assert.equal(detectLabel.title, "Motion.Detect is enabled by default, because no configured entry applies to it.");
+
+    sensitivityLabel.dispatchEvent(new Event("mouseover", { bubbles: true }));
+
+    assert.equal(sensitivityLabel.title, "Motion.Sensitivity is disabled by default, because no configured entry applies to it.");
+  });
+});
+
 describe("mountOptionsView - a controller's own options page", () => {
 
   // The page a controller click lands on for a plugin whose device list leads with the controller-as-device: one serial fills both scope slots, so everything
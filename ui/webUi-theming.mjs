@@ -323,6 +323,16 @@ const buildBaseCss = () => [
   // shared not-actionable value.
   ".fo-secret-toggle:disabled { cursor: default; opacity: var(--fo-opacity-disabled); }",
 
+  // The note on an option that only takes effect at startup. It reads as an aside to the description it follows - the muted neutral at the small size - rather than
+  // taking the label's scope color, which says where the option is set and nothing about when it applies.
+  ".fo-restart-note { color: var(--fo-text-muted); font-size: var(--fo-font-size-xs); }",
+
+  // The deprecation note reads in the attention color, since it asks the user to act - move off the option - where the restart note only informs. The
+  // documentation line beneath a label is an aside like the restart note, and its examples are entries a user copies, so they take the monospace stack.
+  ".fo-deprecated-note { color: var(--fo-text-attention); font-size: var(--fo-font-size-xs); }",
+  ".fo-option-docs { color: var(--fo-text-muted); font-size: var(--fo-font-size-xs); }",
+  ".fo-option-example { font-family: var(--fo-font-monospace); }",
+
   // Dark-mode corrections for Bootstrap's page-wide text utilities. Bootstrap pins its own grey on the element with `!important`, so these escape the forced body
   // text color above, and a grey calibrated for a light canvas is unreadable on the dark surface.
   ":root.fo-dark .text-body { color: var(--fo-text-muted) !important; }",